@@ -0,0 +1,16 @@
+#!/bin/bash
+set -e
+# Runs the backend tests in the interpreter, then checks that the canister builds.
+# Uses the compiler and libraries canister.yaml builds with (MOC_PATH, MOTOKO_CORE, MOTOKO_BASE).
+
+cd "$(dirname "$0")/.."
+
+for test in test/*.test.mo; do
+    echo "Running $test"
+    "$MOC_PATH" --implicit-package core --package core "$MOTOKO_CORE" -r "$test"
+done
+
+echo "Building canister"
+output=$(mktemp -d)
+trap 'rm -rf "$output"' EXIT
+"$MOC_PATH" --implicit-package core --default-persistent-actors -no-check-ir -E M0236 -E M0235 -E M0223 -E M0237 --actor-idl system-idl --package base "$MOTOKO_BASE" --package core "$MOTOKO_CORE" main.mo -o "$output/backend.wasm"
@@ -4,17 +4,30 @@ import { useEnsureUserRoleProvisioning } from './hooks/useEnsureUserRoleProvisio
 import CaseListPage from './pages/CaseListPage';
 import NewCasePage from './pages/NewCasePage';
 import CaseDetailPage from './pages/CaseDetailPage';
+import DashboardPage from './pages/DashboardPage';
+import MyTodosPage from './pages/MyTodosPage';
+import ChecklistSettingsPage from './pages/ChecklistSettingsPage';
+import TemplateSettingsPage from './pages/TemplateSettingsPage';
+import LetterTemplateSettingsPage from './pages/LetterTemplateSettingsPage';
+import OrgUnitsPage from './pages/OrgUnitsPage';
+import RolesPage from './pages/RolesPage';
+import UsersPage from './pages/UsersPage';
+import TrashPage from './pages/TrashPage';
+import PatientPage from './pages/PatientPage';
+import PdvmDirectoryPage from './pages/PdvmDirectoryPage';
 import AppLayout from './components/layout/AppLayout';
+import LoginButton from './components/auth/LoginButton';
 import { Toaster } from '@/components/ui/sonner';
 import { ThemeProvider } from 'next-themes';
 import { Button } from '@/components/ui/button';
 import { LogIn } from 'lucide-react';
+import { AccountStatus } from './backend';
 
 function RootComponent() {
   const { identity, isInitializing } = useInternetIdentity();
   
   // Auto-provision #user role after login
-  useEnsureUserRoleProvisioning();
+  const accountStatus = useEnsureUserRoleProvisioning();
   
   const isAuthenticated = !!identity;
 
@@ -52,6 +65,27 @@ function RootComponent() {
     );
   }
 
+  if (accountStatus === AccountStatus.pending || accountStatus === AccountStatus.disabled) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
+        <div className="text-center max-w-md px-6">
+          <div className="bg-card border rounded-lg p-8 shadow-lg space-y-4">
+            <h1 className="text-2xl font-bold">
+              {accountStatus === AccountStatus.pending ? 'Waiting for approval' : 'Access disabled'}
+            </h1>
+            <p className="text-muted-foreground">
+              {accountStatus === AccountStatus.pending
+                ? 'An admin needs to approve your account before you can see cases. Log in again once they have.'
+                : 'An admin has disabled your access to VetCase Tracker.'}
+            </p>
+            <p className="text-xs text-muted-foreground break-all">Your principal: {identity.getPrincipal().toString()}</p>
+            <LoginButton />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <AppLayout>
       <Outlet />
@@ -81,7 +115,88 @@ const caseDetailRoute = createRoute({
   component: CaseDetailPage,
 });
 
-const routeTree = rootRoute.addChildren([indexRoute, newCaseRoute, caseDetailRoute]);
+const dashboardRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/dashboard',
+  component: DashboardPage,
+});
+
+const myTodosRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/todos',
+  component: MyTodosPage,
+});
+
+const patientRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/patients/$mrn',
+  component: PatientPage,
+});
+
+const pdvmDirectoryRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/pdvms',
+  component: PdvmDirectoryPage,
+});
+
+const checklistSettingsRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/settings/checklist',
+  component: ChecklistSettingsPage,
+});
+
+const templateSettingsRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/settings/templates',
+  component: TemplateSettingsPage,
+});
+
+const letterTemplateSettingsRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/settings/letters',
+  component: LetterTemplateSettingsPage,
+});
+
+const orgUnitsRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/settings/units',
+  component: OrgUnitsPage,
+});
+
+const rolesRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/settings/roles',
+  component: RolesPage,
+});
+
+const usersRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/settings/users',
+  component: UsersPage,
+});
+
+const trashRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/trash',
+  component: TrashPage,
+});
+
+const routeTree = rootRoute.addChildren([
+  indexRoute,
+  newCaseRoute,
+  caseDetailRoute,
+  dashboardRoute,
+  myTodosRoute,
+  patientRoute,
+  pdvmDirectoryRoute,
+  checklistSettingsRoute,
+  templateSettingsRoute,
+  letterTemplateSettingsRoute,
+  orgUnitsRoute,
+  rolesRoute,
+  usersRoute,
+  trashRoute,
+]);
 
 const router = createRouter({ routeTree });
 
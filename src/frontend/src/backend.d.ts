@@ -7,35 +7,742 @@ export interface None {
     __kind__: "None";
 }
 export type Option<T> = Some<T> | None;
-export type Time = bigint;
+export interface ChecklistItemDefinition {
+    key: string;
+    title: string;
+    order: bigint;
+    retired: boolean;
+}
+export interface CasePage {
+    total: bigint;
+    nextOffset?: bigint;
+    cases: Array<SurgeryCase>;
+}
+export interface ChecklistTurnaround {
+    key: string;
+    count: bigint;
+    averageDuration?: bigint;
+    medianDuration?: bigint;
+}
+export interface CustomRole {
+    id: bigint;
+    permissions: Array<Permission>;
+    name: string;
+}
+export interface CaseAttachment {
+    id: bigint;
+    size: bigint;
+    mimeType: string;
+    blobHash: string;
+    filename: string;
+    caption: string;
+    uploadedAt: Time;
+    uploadedBy: Principal;
+}
+export interface AuditEntry {
+    id: bigint;
+    method: string;
+    timestamp: Time;
+    caller: Principal;
+    caseId: bigint;
+    changes: Array<FieldChange>;
+}
+export type ApiResult_1 = {
+    __kind__: "ok";
+    ok: null;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface CustomRoleAssignment {
+    principal: Principal;
+    roleId: bigint;
+}
+export interface WeeklyArrivals {
+    incomplete: bigint;
+    complete: bigint;
+    weekStart: Time;
+}
+export type ApiResult_11 = {
+    __kind__: "ok";
+    ok: Array<AssignedTodo>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface Conflict {
+    message: string;
+    current?: SurgeryCase;
+}
+export type ApiResult_8 = {
+    __kind__: "ok";
+    ok: Array<Patient>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface UserSummary {
+    status: AccountStatus;
+    principal: Principal;
+    name: string;
+    role: UserRole;
+    caseChanges: bigint;
+    lastCaseChange?: Time;
+    lastSeen?: Time;
+}
+export interface AttachmentDetails {
+    size: bigint;
+    mimeType: string;
+    blobHash: string;
+    filename: string;
+    caption: string;
+}
 export interface SurgeryCase {
     id: bigint;
     mrn: string;
     sex: Sex;
+    status: CaseStatus;
     todos: Array<ToDoItem>;
-    pdvmNotified: boolean;
-    histoComplete: boolean;
     arrivalDate: Time;
     presentingComplaint: string;
     dateOfBirth: string;
     patientLastName: string;
-    labsComplete: boolean;
+    closeOverride?: CloseOverride;
+    unitId: bigint;
+    version: bigint;
+    patientFirstName: string;
+    notes: string;
+    pdvmId?: bigint;
+    checklist: Array<ChecklistEntry>;
+    breed: string;
+    species: Species;
+    attachments: Array<CaseAttachment>;
+    pdvmNotification?: PdvmNotification;
+}
+export interface ChecklistGap {
+    key: string;
+    cases: Array<CaseSummary>;
+}
+export interface CaseSummary {
+    id: bigint;
+    mrn: string;
+    arrivalDate: Time;
+    patientLastName: string;
     patientFirstName: string;
-    imagingComplete: boolean;
-    surgeryReportComplete: boolean;
+}
+export interface CaseFilter {
+    sex?: Sex;
+    status?: CaseStatus;
+    hasOpenTodos?: boolean;
+    arrivalTo?: Time;
+    arrivalFrom?: Time;
+    search?: string;
+    pdvmId?: bigint;
+    checklistComplete?: boolean;
+    species?: Species;
+}
+export interface Owner {
+    id: bigint;
+    name: string;
+    email: string;
+    version: bigint;
+    preferredContact: ContactMethod;
     notes: string;
-    dischargeNotesComplete: boolean;
+    phones: Array<string>;
+}
+export type ApiResult_23 = {
+    __kind__: "ok";
+    ok: Array<AuditEntry>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult_21 = {
+    __kind__: "ok";
+    ok: Owner;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult_14 = {
+    __kind__: "ok";
+    ok: Array<CustomRoleAssignment>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult_13 = {
+    __kind__: "ok";
+    ok: Array<CustomRole>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult_3 = {
+    __kind__: "ok";
+    ok: CasePage;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult = {
+    __kind__: "ok";
+    ok: bigint;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult_2 = {
+    __kind__: "ok";
+    ok: boolean;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface Pdvm {
+    id: bigint;
+    fax: string;
+    email: string;
+    version: bigint;
+    preferredContact: NotificationMethod;
+    vetName: string;
+    address: string;
+    notes: string;
+    phone: string;
+    clinicName: string;
+}
+export type ApiResult_19 = {
+    __kind__: "ok";
+    ok: Pdvm;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface LetterTemplate {
+    id: bigint;
+    body: string;
+    name: string;
+}
+export type ApiResult_10 = {
+    __kind__: "ok";
+    ok: Array<OrgUnit>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface Dashboard {
+    weeklyArrivals: Array<WeeklyArrivals>;
+    oldestOutstanding: Array<OutstandingItem>;
+    gaps: Array<ChecklistGap>;
+    openCaseCount: bigint;
+    turnaround: Array<ChecklistTurnaround>;
+    casesWithOpenTodos: Array<CaseSummary>;
+}
+export type ApiResult_12 = {
+    __kind__: "ok";
+    ok: Array<LetterTemplate>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface AssignedTodo {
+    todo: ToDoItem;
+    caseSummary: CaseSummary;
+}
+export interface UserProfile {
+    title?: StaffTitle;
+    name: string;
+    initials: string;
+    credentials: string;
+    extension: string;
+}
+export type Time = bigint;
+export type ApiResult_7 = {
+    __kind__: "ok";
+    ok: Array<Pdvm>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface OrgUnit {
+    id: bigint;
+    members: Array<UnitMember>;
+    name: string;
+}
+export interface FieldError {
+    field: string;
+    message: string;
+}
+export interface ChecklistEntry {
+    key: string;
+    completedAt?: Time;
+    completedBy?: Principal;
+    complete: boolean;
+}
+export interface Patient {
+    mrn: string;
+    sex: Sex;
+    ownerId?: bigint;
+    dateOfBirth: string;
+    version: bigint;
     breed: string;
+    lastName: string;
     species: Species;
-    cultureComplete: boolean;
+    firstName: string;
+}
+export interface OutstandingItem {
+    kind: OutstandingItemKind;
+    caseSummary: CaseSummary;
+    description: string;
+}
+export interface PdvmDetails {
+    fax: string;
+    email: string;
+    preferredContact: NotificationMethod;
+    vetName: string;
+    address: string;
+    notes: string;
+    phone: string;
+    clinicName: string;
+}
+export type ApiResult_6 = {
+    __kind__: "ok";
+    ok: Array<TrashedCase>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult_5 = {
+    __kind__: "ok";
+    ok: Array<Assignee>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult_26 = {
+    __kind__: "ok";
+    ok: AccountStatus;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface OwnerDetails {
+    name: string;
+    email: string;
+    preferredContact: ContactMethod;
+    notes: string;
+    phones: Array<string>;
 }
+export type ApiResult_4 = {
+    __kind__: "ok";
+    ok: Array<UserSummary>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface FieldChange {
+    field: string;
+    after: string;
+    before: string;
+}
+export type ApiResult_20 = {
+    __kind__: "ok";
+    ok: Patient;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface CaseTemplate {
+    id: bigint;
+    checklistKeys: Array<string>;
+    name: string;
+    complaintKeywords: Array<string>;
+    todoDescriptions: Array<string>;
+    species?: Species;
+}
+export type ApiResult_9 = {
+    __kind__: "ok";
+    ok: Array<Owner>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult_16 = {
+    __kind__: "ok";
+    ok: Array<SurgeryCase>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult_22 = {
+    __kind__: "ok";
+    ok: Dashboard;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
 export interface ToDoItem {
     id: bigint;
+    completedAt?: Time;
+    assignee?: Principal;
+    createdAt?: Time;
+    createdBy?: Principal;
+    dueDate?: Time;
     description: string;
     complete: boolean;
+    priority: TodoPriority;
 }
-export interface UserProfile {
+export type ApiResult_15 = {
+    __kind__: "ok";
+    ok: Array<ChecklistItemDefinition>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface CloseOverride {
+    overriddenAt: Time;
+    overriddenBy: Principal;
+    reason: string;
+}
+export interface PdvmNotification {
+    method: NotificationMethod;
+    notifiedAt: Time;
+    notifiedBy: Principal;
+}
+export type ApiResult_18 = {
+    __kind__: "ok";
+    ok: UserProfile | null;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult_25 = {
+    __kind__: "ok";
+    ok: Array<Permission>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface Assignee {
+    principal: Principal;
     name: string;
+    initials: string;
+    credentials: string;
+}
+export interface UnitMember {
+    principal: Principal;
+    role: UnitRole;
+}
+export interface TrashedCase {
+    caseRecord: SurgeryCase;
+    deletedAt: Time;
+    deletedBy: Principal;
+}
+export interface TodoDetails {
+    assignee?: Principal;
+    dueDate?: Time;
+    priority: TodoPriority;
+}
+export type ApiResult_24 = {
+    __kind__: "ok";
+    ok: SurgeryCase;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult_17 = {
+    __kind__: "ok";
+    ok: Array<CaseTemplate>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export enum AccountStatus {
+    active = "active",
+    pending = "pending",
+    disabled = "disabled"
+}
+export enum CaseSortKey {
+    mrn = "mrn",
+    arrivalNewest = "arrivalNewest",
+    arrivalOldest = "arrivalOldest",
+    patientName = "patientName"
+}
+export enum CaseStatus {
+    closed = "closed",
+    discharged = "discharged",
+    admitted = "admitted",
+    inSurgery = "inSurgery",
+    awaitingResults = "awaitingResults",
+    recovering = "recovering"
+}
+export enum ContactMethod {
+    text = "text",
+    email = "email",
+    phone = "phone"
+}
+export enum NotificationMethod {
+    fax = "fax",
+    text = "text",
+    email = "email",
+    phone = "phone"
+}
+export enum OutstandingItemKind {
+    todo = "todo",
+    checklist = "checklist"
+}
+export enum Permission {
+    manageUsers = "manageUsers",
+    viewCases = "viewCases",
+    importCases = "importCases",
+    exportCases = "exportCases",
+    manageTodos = "manageTodos",
+    deleteCases = "deleteCases",
+    editDemographics = "editDemographics",
+    toggleChecklist = "toggleChecklist"
 }
 export enum Sex {
     female = "female",
@@ -49,38 +756,110 @@ export enum Species {
     feline = "feline",
     canine = "canine"
 }
+export enum StaffTitle {
+    dvm = "dvm",
+    technician = "technician",
+    resident = "resident",
+    student = "student"
+}
+export enum TodoPriority {
+    low = "low",
+    normal = "normal",
+    high = "high"
+}
+export enum UnitRole {
+    member = "member",
+    unitAdmin = "unitAdmin"
+}
 export enum UserRole {
     admin = "admin",
     user = "user",
     guest = "guest"
 }
 export interface backendInterface {
-    addTodoItem(caseId: bigint, description: string): Promise<bigint>;
+        method: string;
+        blob_hash: string;
+    }>;
+    addCaseAttachment(caseId: bigint, details: AttachmentDetails, idempotencyKey: string | null): Promise<ApiResult>;
+    addChecklistDefinition(key: string, title: string, idempotencyKey: string | null): Promise<ApiResult_1>;
+    addTodoItem(caseId: bigint, description: string, details: TodoDetails, idempotencyKey: string | null): Promise<ApiResult>;
     assignCallerUserRole(user: Principal, role: UserRole): Promise<void>;
-    createCase(mrn: string, patientFirstName: string, patientLastName: string, dateOfBirth: string, species: Species, breed: string, sex: Sex, presentingComplaint: string, arrivalDate: Time | null, dischargeNotesComplete: boolean, pdvmNotified: boolean, labsComplete: boolean, histoComplete: boolean, surgeryReportComplete: boolean, imagingComplete: boolean, cultureComplete: boolean, notes: string, todoDescriptions: Array<string>): Promise<bigint>;
+    createCase(mrn: string, patientFirstName: string, patientLastName: string, dateOfBirth: string, species: Species, breed: string, sex: Sex, presentingComplaint: string, arrivalDate: Time | null, checklist: Array<ChecklistEntry>, notes: string, todoDescriptions: Array<string>, owner: OwnerDetails | null, pdvmId: bigint | null, pdvmNotificationMethod: NotificationMethod | null, unitId: bigint | null, idempotencyKey: string | null): Promise<ApiResult>;
+    createCaseTemplate(name: string, species: Species | null, complaintKeywords: Array<string>, checklistKeys: Array<string>, todoDescriptions: Array<string>, idempotencyKey: string | null): Promise<ApiResult>;
+    createCustomRole(name: string, permissions: Array<Permission>, idempotencyKey: string | null): Promise<ApiResult>;
+    createLetterTemplate(name: string, body: string, idempotencyKey: string | null): Promise<ApiResult>;
+    createOrgUnit(name: string, idempotencyKey: string | null): Promise<ApiResult>;
+    createOwner(details: OwnerDetails, idempotencyKey: string | null): Promise<ApiResult>;
+    createPdvm(details: PdvmDetails, idempotencyKey: string | null): Promise<ApiResult>;
     debugGetRole(): Promise<string>;
-    deleteCase(id: bigint): Promise<void>;
-    deleteTodoItem(caseId: bigint, todoId: bigint): Promise<void>;
-    ensureUserRole(): Promise<void>;
-    exportCases(): Promise<Array<SurgeryCase>>;
-    getCallerUserProfile(): Promise<UserProfile | null>;
+    deleteCase(id: bigint, idempotencyKey: string | null): Promise<ApiResult_1>;
+    deleteCaseAttachment(caseId: bigint, attachmentId: bigint, idempotencyKey: string | null): Promise<ApiResult_1>;
+    deleteCaseTemplate(id: bigint, idempotencyKey: string | null): Promise<ApiResult_1>;
+    deleteCustomRole(id: bigint, idempotencyKey: string | null): Promise<ApiResult_1>;
+    deleteLetterTemplate(id: bigint, idempotencyKey: string | null): Promise<ApiResult_1>;
+    deleteTodoItem(caseId: bigint, todoId: bigint, idempotencyKey: string | null): Promise<ApiResult_1>;
+    editTodoItem(caseId: bigint, todoId: bigint, description: string, details: TodoDetails, idempotencyKey: string | null): Promise<ApiResult_1>;
+    ensureUserRole(): Promise<ApiResult_26>;
+    exportCases(): Promise<ApiResult_16>;
+    getAutoProvisionUsers(): Promise<ApiResult_2>;
+    getCallerPermissions(): Promise<ApiResult_25>;
+    getCallerUserProfile(): Promise<ApiResult_18>;
     getCallerUserRole(): Promise<UserRole>;
-    getCase(id: bigint): Promise<SurgeryCase | null>;
+    getCase(id: bigint): Promise<ApiResult_24>;
+    getCaseAuditLog(caseId: bigint): Promise<ApiResult_23>;
     getCaseCount(): Promise<bigint>;
-    getCasesBySpecies(species: Species): Promise<Array<SurgeryCase>>;
-    getUserProfile(user: Principal): Promise<UserProfile | null>;
+    getCasesBySpecies(species: Species): Promise<ApiResult_16>;
+    getDashboard(trendStart: Time, trendWeeks: bigint, oldestLimit: bigint): Promise<ApiResult_22>;
+    getOwner(id: bigint): Promise<ApiResult_21>;
+    getPatient(mrn: string): Promise<ApiResult_20>;
+    getPatientCases(mrn: string): Promise<ApiResult_16>;
+    getPdvm(id: bigint): Promise<ApiResult_19>;
+    getTrashRetentionDays(): Promise<ApiResult>;
+    getUserProfile(user: Principal): Promise<ApiResult_18>;
     getVersion(): Promise<string>;
-    importCases(casesArray: Array<SurgeryCase>): Promise<void>;
+    importCases(casesArray: Array<SurgeryCase>, idempotencyKey: string | null): Promise<ApiResult_1>;
     isCallerAdmin(): Promise<boolean>;
-    listCases(): Promise<Array<SurgeryCase>>;
-    saveCallerUserProfile(profile: UserProfile): Promise<void>;
-    toggleCulture(id: bigint): Promise<boolean>;
-    toggleDischargeNotes(id: bigint): Promise<boolean>;
-    toggleHisto(id: bigint): Promise<boolean>;
-    toggleImaging(id: bigint): Promise<boolean>;
-    toggleLabs(id: bigint): Promise<boolean>;
-    togglePdvmNotified(id: bigint): Promise<boolean>;
-    toggleSurgeryReport(id: bigint): Promise<boolean>;
-    toggleTodoComplete(caseId: bigint, todoId: bigint): Promise<void>;
-    updateCase(id: bigint, mrn: string, patientFirstName: string, patientLastName: string, dateOfBirth: string, arrivalDate: Time, species: Species, breed: string, sex: Sex, presentingComplaint: string, dischargeNotesComplete: boolean, pdvmNotified: boolean, labsComplete: boolean, histoComplete: boolean, surgeryReportComplete: boolean, imagingComplete: boolean, cultureComplete: boolean, notes: string, todos: Array<ToDoItem>): Promise<void>;
+    listAssignableUsers(): Promise<ApiResult_5>;
+    listCaseTemplates(): Promise<ApiResult_17>;
+    listCases(): Promise<ApiResult_16>;
+    listChecklistDefinitions(): Promise<ApiResult_15>;
+    listCustomRoleAssignments(): Promise<ApiResult_14>;
+    listCustomRoles(): Promise<ApiResult_13>;
+    listLetterTemplates(): Promise<ApiResult_12>;
+    listMyTodos(includeCompleted: boolean): Promise<ApiResult_11>;
+    listOrgUnits(): Promise<ApiResult_10>;
+    listOwners(): Promise<ApiResult_9>;
+    listPatients(): Promise<ApiResult_8>;
+    listPdvms(): Promise<ApiResult_7>;
+    listTrash(): Promise<ApiResult_6>;
+    listUserDirectory(): Promise<ApiResult_5>;
+    listUsers(): Promise<ApiResult_4>;
+    markLetterSent(caseId: bigint, method: NotificationMethod, idempotencyKey: string | null): Promise<ApiResult_1>;
+    purgeTrash(idempotencyKey: string | null): Promise<ApiResult>;
+    queryCases(filter: CaseFilter, sortKey: CaseSortKey, offset: bigint, limit: bigint): Promise<ApiResult_3>;
+    removeUnitMember(unitId: bigint, user: Principal, idempotencyKey: string | null): Promise<ApiResult_1>;
+    renameChecklistDefinition(key: string, title: string, idempotencyKey: string | null): Promise<ApiResult_1>;
+    renameOrgUnit(id: bigint, name: string, idempotencyKey: string | null): Promise<ApiResult_1>;
+    reorderChecklistDefinitions(keys: Array<string>, idempotencyKey: string | null): Promise<ApiResult_1>;
+    reorderTodos(caseId: bigint, todoIds: Array<bigint>, idempotencyKey: string | null): Promise<ApiResult_1>;
+    restoreCase(id: bigint, idempotencyKey: string | null): Promise<ApiResult_1>;
+    saveCallerUserProfile(profile: UserProfile, idempotencyKey: string | null): Promise<ApiResult_1>;
+    setAutoProvisionUsers(enabled: boolean, idempotencyKey: string | null): Promise<ApiResult_1>;
+    setCaseStatus(caseId: bigint, status: CaseStatus, overrideReason: string | null, idempotencyKey: string | null): Promise<ApiResult_1>;
+    setChecklistDefinitionRetired(key: string, retired: boolean, idempotencyKey: string | null): Promise<ApiResult_1>;
+    setPatientOwner(mrn: string, ownerId: bigint | null, idempotencyKey: string | null): Promise<ApiResult_1>;
+    setTrashRetentionDays(days: bigint, idempotencyKey: string | null): Promise<ApiResult_1>;
+    setUnitMember(unitId: bigint, user: Principal, role: UnitRole, idempotencyKey: string | null): Promise<ApiResult_1>;
+    setUserAccess(user: Principal, enabled: boolean, idempotencyKey: string | null): Promise<ApiResult_1>;
+    setUserCustomRole(user: Principal, roleId: bigint | null, idempotencyKey: string | null): Promise<ApiResult_1>;
+    setUserRole(user: Principal, role: UserRole, idempotencyKey: string | null): Promise<ApiResult_1>;
+    toggleChecklistItem(id: bigint, key: string, notificationMethod: NotificationMethod | null, idempotencyKey: string | null): Promise<ApiResult_2>;
+    toggleTodoComplete(caseId: bigint, todoId: bigint, idempotencyKey: string | null): Promise<ApiResult_1>;
+    updateCase(id: bigint, mrn: string, patientFirstName: string, patientLastName: string, dateOfBirth: string, arrivalDate: Time, species: Species, breed: string, sex: Sex, presentingComplaint: string, checklist: Array<ChecklistEntry>, notes: string, todos: Array<ToDoItem>, pdvmId: bigint | null, pdvmNotificationMethod: NotificationMethod | null, expectedVersion: bigint, idempotencyKey: string | null): Promise<ApiResult>;
+    updateCaseTemplate(id: bigint, name: string, species: Species | null, complaintKeywords: Array<string>, checklistKeys: Array<string>, todoDescriptions: Array<string>, idempotencyKey: string | null): Promise<ApiResult_1>;
+    updateCustomRole(id: bigint, name: string, permissions: Array<Permission>, idempotencyKey: string | null): Promise<ApiResult_1>;
+    updateLetterTemplate(id: bigint, name: string, body: string, idempotencyKey: string | null): Promise<ApiResult_1>;
+    updateOwner(id: bigint, details: OwnerDetails, expectedVersion: bigint, idempotencyKey: string | null): Promise<ApiResult>;
+    updatePatient(mrn: string, firstName: string, lastName: string, dateOfBirth: string, species: Species, breed: string, sex: Sex, expectedVersion: bigint, idempotencyKey: string | null): Promise<ApiResult>;
+    updatePdvm(id: bigint, details: PdvmDetails, expectedVersion: bigint, idempotencyKey: string | null): Promise<ApiResult>;
 }
@@ -89,35 +89,742 @@ export class ExternalBlob {
         return this;
     }
 }
-export type Time = bigint;
+export interface ChecklistItemDefinition {
+    key: string;
+    title: string;
+    order: bigint;
+    retired: boolean;
+}
+export interface CasePage {
+    total: bigint;
+    nextOffset?: bigint;
+    cases: Array<SurgeryCase>;
+}
+export interface ChecklistTurnaround {
+    key: string;
+    count: bigint;
+    averageDuration?: bigint;
+    medianDuration?: bigint;
+}
+export interface CustomRole {
+    id: bigint;
+    permissions: Array<Permission>;
+    name: string;
+}
+export interface CaseAttachment {
+    id: bigint;
+    size: bigint;
+    mimeType: string;
+    blobHash: string;
+    filename: string;
+    caption: string;
+    uploadedAt: Time;
+    uploadedBy: Principal;
+}
+export interface AuditEntry {
+    id: bigint;
+    method: string;
+    timestamp: Time;
+    caller: Principal;
+    caseId: bigint;
+    changes: Array<FieldChange>;
+}
+export type ApiResult_1 = {
+    __kind__: "ok";
+    ok: null;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface CustomRoleAssignment {
+    principal: Principal;
+    roleId: bigint;
+}
+export interface WeeklyArrivals {
+    incomplete: bigint;
+    complete: bigint;
+    weekStart: Time;
+}
+export type ApiResult_11 = {
+    __kind__: "ok";
+    ok: Array<AssignedTodo>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface Conflict {
+    message: string;
+    current?: SurgeryCase;
+}
+export type ApiResult_8 = {
+    __kind__: "ok";
+    ok: Array<Patient>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface UserSummary {
+    status: AccountStatus;
+    principal: Principal;
+    name: string;
+    role: UserRole;
+    caseChanges: bigint;
+    lastCaseChange?: Time;
+    lastSeen?: Time;
+}
+export interface AttachmentDetails {
+    size: bigint;
+    mimeType: string;
+    blobHash: string;
+    filename: string;
+    caption: string;
+}
 export interface SurgeryCase {
     id: bigint;
     mrn: string;
     sex: Sex;
+    status: CaseStatus;
     todos: Array<ToDoItem>;
-    pdvmNotified: boolean;
-    histoComplete: boolean;
     arrivalDate: Time;
     presentingComplaint: string;
     dateOfBirth: string;
     patientLastName: string;
-    labsComplete: boolean;
+    closeOverride?: CloseOverride;
+    unitId: bigint;
+    version: bigint;
+    patientFirstName: string;
+    notes: string;
+    pdvmId?: bigint;
+    checklist: Array<ChecklistEntry>;
+    breed: string;
+    species: Species;
+    attachments: Array<CaseAttachment>;
+    pdvmNotification?: PdvmNotification;
+}
+export interface ChecklistGap {
+    key: string;
+    cases: Array<CaseSummary>;
+}
+export interface CaseSummary {
+    id: bigint;
+    mrn: string;
+    arrivalDate: Time;
+    patientLastName: string;
     patientFirstName: string;
-    imagingComplete: boolean;
-    surgeryReportComplete: boolean;
+}
+export interface CaseFilter {
+    sex?: Sex;
+    status?: CaseStatus;
+    hasOpenTodos?: boolean;
+    arrivalTo?: Time;
+    arrivalFrom?: Time;
+    search?: string;
+    pdvmId?: bigint;
+    checklistComplete?: boolean;
+    species?: Species;
+}
+export interface Owner {
+    id: bigint;
+    name: string;
+    email: string;
+    version: bigint;
+    preferredContact: ContactMethod;
+    notes: string;
+    phones: Array<string>;
+}
+export type ApiResult_23 = {
+    __kind__: "ok";
+    ok: Array<AuditEntry>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult_21 = {
+    __kind__: "ok";
+    ok: Owner;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult_14 = {
+    __kind__: "ok";
+    ok: Array<CustomRoleAssignment>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult_13 = {
+    __kind__: "ok";
+    ok: Array<CustomRole>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult_3 = {
+    __kind__: "ok";
+    ok: CasePage;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult = {
+    __kind__: "ok";
+    ok: bigint;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult_2 = {
+    __kind__: "ok";
+    ok: boolean;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface Pdvm {
+    id: bigint;
+    fax: string;
+    email: string;
+    version: bigint;
+    preferredContact: NotificationMethod;
+    vetName: string;
+    address: string;
     notes: string;
-    dischargeNotesComplete: boolean;
+    phone: string;
+    clinicName: string;
+}
+export type ApiResult_19 = {
+    __kind__: "ok";
+    ok: Pdvm;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface LetterTemplate {
+    id: bigint;
+    body: string;
+    name: string;
+}
+export type ApiResult_10 = {
+    __kind__: "ok";
+    ok: Array<OrgUnit>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface Dashboard {
+    weeklyArrivals: Array<WeeklyArrivals>;
+    oldestOutstanding: Array<OutstandingItem>;
+    gaps: Array<ChecklistGap>;
+    openCaseCount: bigint;
+    turnaround: Array<ChecklistTurnaround>;
+    casesWithOpenTodos: Array<CaseSummary>;
+}
+export type ApiResult_12 = {
+    __kind__: "ok";
+    ok: Array<LetterTemplate>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface AssignedTodo {
+    todo: ToDoItem;
+    caseSummary: CaseSummary;
+}
+export interface UserProfile {
+    title?: StaffTitle;
+    name: string;
+    initials: string;
+    credentials: string;
+    extension: string;
+}
+export type Time = bigint;
+export type ApiResult_7 = {
+    __kind__: "ok";
+    ok: Array<Pdvm>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface OrgUnit {
+    id: bigint;
+    members: Array<UnitMember>;
+    name: string;
+}
+export interface FieldError {
+    field: string;
+    message: string;
+}
+export interface ChecklistEntry {
+    key: string;
+    completedAt?: Time;
+    completedBy?: Principal;
+    complete: boolean;
+}
+export interface Patient {
+    mrn: string;
+    sex: Sex;
+    ownerId?: bigint;
+    dateOfBirth: string;
+    version: bigint;
     breed: string;
+    lastName: string;
     species: Species;
-    cultureComplete: boolean;
+    firstName: string;
+}
+export interface OutstandingItem {
+    kind: OutstandingItemKind;
+    caseSummary: CaseSummary;
+    description: string;
+}
+export interface PdvmDetails {
+    fax: string;
+    email: string;
+    preferredContact: NotificationMethod;
+    vetName: string;
+    address: string;
+    notes: string;
+    phone: string;
+    clinicName: string;
+}
+export type ApiResult_6 = {
+    __kind__: "ok";
+    ok: Array<TrashedCase>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult_5 = {
+    __kind__: "ok";
+    ok: Array<Assignee>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult_26 = {
+    __kind__: "ok";
+    ok: AccountStatus;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface OwnerDetails {
+    name: string;
+    email: string;
+    preferredContact: ContactMethod;
+    notes: string;
+    phones: Array<string>;
 }
+export type ApiResult_4 = {
+    __kind__: "ok";
+    ok: Array<UserSummary>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface FieldChange {
+    field: string;
+    after: string;
+    before: string;
+}
+export type ApiResult_20 = {
+    __kind__: "ok";
+    ok: Patient;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface CaseTemplate {
+    id: bigint;
+    checklistKeys: Array<string>;
+    name: string;
+    complaintKeywords: Array<string>;
+    todoDescriptions: Array<string>;
+    species?: Species;
+}
+export type ApiResult_9 = {
+    __kind__: "ok";
+    ok: Array<Owner>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult_16 = {
+    __kind__: "ok";
+    ok: Array<SurgeryCase>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult_22 = {
+    __kind__: "ok";
+    ok: Dashboard;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
 export interface ToDoItem {
     id: bigint;
+    completedAt?: Time;
+    assignee?: Principal;
+    createdAt?: Time;
+    createdBy?: Principal;
+    dueDate?: Time;
     description: string;
     complete: boolean;
+    priority: TodoPriority;
 }
-export interface UserProfile {
+export type ApiResult_15 = {
+    __kind__: "ok";
+    ok: Array<ChecklistItemDefinition>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface CloseOverride {
+    overriddenAt: Time;
+    overriddenBy: Principal;
+    reason: string;
+}
+export interface PdvmNotification {
+    method: NotificationMethod;
+    notifiedAt: Time;
+    notifiedBy: Principal;
+}
+export type ApiResult_18 = {
+    __kind__: "ok";
+    ok: UserProfile | null;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult_25 = {
+    __kind__: "ok";
+    ok: Array<Permission>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export interface Assignee {
+    principal: Principal;
     name: string;
+    initials: string;
+    credentials: string;
+}
+export interface UnitMember {
+    principal: Principal;
+    role: UnitRole;
+}
+export interface TrashedCase {
+    caseRecord: SurgeryCase;
+    deletedAt: Time;
+    deletedBy: Principal;
+}
+export interface TodoDetails {
+    assignee?: Principal;
+    dueDate?: Time;
+    priority: TodoPriority;
+}
+export type ApiResult_24 = {
+    __kind__: "ok";
+    ok: SurgeryCase;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export type ApiResult_17 = {
+    __kind__: "ok";
+    ok: Array<CaseTemplate>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+};
+export enum AccountStatus {
+    active = "active",
+    pending = "pending",
+    disabled = "disabled"
+}
+export enum CaseSortKey {
+    mrn = "mrn",
+    arrivalNewest = "arrivalNewest",
+    arrivalOldest = "arrivalOldest",
+    patientName = "patientName"
+}
+export enum CaseStatus {
+    closed = "closed",
+    discharged = "discharged",
+    admitted = "admitted",
+    inSurgery = "inSurgery",
+    awaitingResults = "awaitingResults",
+    recovering = "recovering"
+}
+export enum ContactMethod {
+    text = "text",
+    email = "email",
+    phone = "phone"
+}
+export enum NotificationMethod {
+    fax = "fax",
+    text = "text",
+    email = "email",
+    phone = "phone"
+}
+export enum OutstandingItemKind {
+    todo = "todo",
+    checklist = "checklist"
+}
+export enum Permission {
+    manageUsers = "manageUsers",
+    viewCases = "viewCases",
+    importCases = "importCases",
+    exportCases = "exportCases",
+    manageTodos = "manageTodos",
+    deleteCases = "deleteCases",
+    editDemographics = "editDemographics",
+    toggleChecklist = "toggleChecklist"
 }
 export enum Sex {
     female = "female",
@@ -131,45 +838,125 @@ export enum Species {
     feline = "feline",
     canine = "canine"
 }
+export enum StaffTitle {
+    dvm = "dvm",
+    technician = "technician",
+    resident = "resident",
+    student = "student"
+}
+export enum TodoPriority {
+    low = "low",
+    normal = "normal",
+    high = "high"
+}
+export enum UnitRole {
+    member = "member",
+    unitAdmin = "unitAdmin"
+}
 export enum UserRole {
     admin = "admin",
     user = "user",
     guest = "guest"
 }
 export interface backendInterface {
+    _caffeineStorageCreateCertificate(blobHash: string): Promise<{
+        method: string;
+        blob_hash: string;
+    }>;
     _initializeAccessControlWithSecret(userSecret: string): Promise<void>;
-    addTodoItem(caseId: bigint, description: string): Promise<bigint>;
+    addCaseAttachment(caseId: bigint, details: AttachmentDetails, idempotencyKey: string | null): Promise<ApiResult>;
+    addChecklistDefinition(key: string, title: string, idempotencyKey: string | null): Promise<ApiResult_1>;
+    addTodoItem(caseId: bigint, description: string, details: TodoDetails, idempotencyKey: string | null): Promise<ApiResult>;
     assignCallerUserRole(user: Principal, role: UserRole): Promise<void>;
-    createCase(mrn: string, patientFirstName: string, patientLastName: string, dateOfBirth: string, species: Species, breed: string, sex: Sex, presentingComplaint: string, arrivalDate: Time | null, dischargeNotesComplete: boolean, pdvmNotified: boolean, labsComplete: boolean, histoComplete: boolean, surgeryReportComplete: boolean, imagingComplete: boolean, cultureComplete: boolean, notes: string, todoDescriptions: Array<string>): Promise<bigint>;
+    createCase(mrn: string, patientFirstName: string, patientLastName: string, dateOfBirth: string, species: Species, breed: string, sex: Sex, presentingComplaint: string, arrivalDate: Time | null, checklist: Array<ChecklistEntry>, notes: string, todoDescriptions: Array<string>, owner: OwnerDetails | null, pdvmId: bigint | null, pdvmNotificationMethod: NotificationMethod | null, unitId: bigint | null, idempotencyKey: string | null): Promise<ApiResult>;
+    createCaseTemplate(name: string, species: Species | null, complaintKeywords: Array<string>, checklistKeys: Array<string>, todoDescriptions: Array<string>, idempotencyKey: string | null): Promise<ApiResult>;
+    createCustomRole(name: string, permissions: Array<Permission>, idempotencyKey: string | null): Promise<ApiResult>;
+    createLetterTemplate(name: string, body: string, idempotencyKey: string | null): Promise<ApiResult>;
+    createOrgUnit(name: string, idempotencyKey: string | null): Promise<ApiResult>;
+    createOwner(details: OwnerDetails, idempotencyKey: string | null): Promise<ApiResult>;
+    createPdvm(details: PdvmDetails, idempotencyKey: string | null): Promise<ApiResult>;
     debugGetRole(): Promise<string>;
-    deleteCase(id: bigint): Promise<void>;
-    deleteTodoItem(caseId: bigint, todoId: bigint): Promise<void>;
-    ensureUserRole(): Promise<void>;
-    exportCases(): Promise<Array<SurgeryCase>>;
-    getCallerUserProfile(): Promise<UserProfile | null>;
+    deleteCase(id: bigint, idempotencyKey: string | null): Promise<ApiResult_1>;
+    deleteCaseAttachment(caseId: bigint, attachmentId: bigint, idempotencyKey: string | null): Promise<ApiResult_1>;
+    deleteCaseTemplate(id: bigint, idempotencyKey: string | null): Promise<ApiResult_1>;
+    deleteCustomRole(id: bigint, idempotencyKey: string | null): Promise<ApiResult_1>;
+    deleteLetterTemplate(id: bigint, idempotencyKey: string | null): Promise<ApiResult_1>;
+    deleteTodoItem(caseId: bigint, todoId: bigint, idempotencyKey: string | null): Promise<ApiResult_1>;
+    editTodoItem(caseId: bigint, todoId: bigint, description: string, details: TodoDetails, idempotencyKey: string | null): Promise<ApiResult_1>;
+    ensureUserRole(): Promise<ApiResult_26>;
+    exportCases(): Promise<ApiResult_16>;
+    getAutoProvisionUsers(): Promise<ApiResult_2>;
+    getCallerPermissions(): Promise<ApiResult_25>;
+    getCallerUserProfile(): Promise<ApiResult_18>;
     getCallerUserRole(): Promise<UserRole>;
-    getCase(id: bigint): Promise<SurgeryCase | null>;
+    getCase(id: bigint): Promise<ApiResult_24>;
+    getCaseAuditLog(caseId: bigint): Promise<ApiResult_23>;
     getCaseCount(): Promise<bigint>;
-    getCasesBySpecies(species: Species): Promise<Array<SurgeryCase>>;
-    getUserProfile(user: Principal): Promise<UserProfile | null>;
+    getCasesBySpecies(species: Species): Promise<ApiResult_16>;
+    getDashboard(trendStart: Time, trendWeeks: bigint, oldestLimit: bigint): Promise<ApiResult_22>;
+    getOwner(id: bigint): Promise<ApiResult_21>;
+    getPatient(mrn: string): Promise<ApiResult_20>;
+    getPatientCases(mrn: string): Promise<ApiResult_16>;
+    getPdvm(id: bigint): Promise<ApiResult_19>;
+    getTrashRetentionDays(): Promise<ApiResult>;
+    getUserProfile(user: Principal): Promise<ApiResult_18>;
     getVersion(): Promise<string>;
-    importCases(casesArray: Array<SurgeryCase>): Promise<void>;
+    importCases(casesArray: Array<SurgeryCase>, idempotencyKey: string | null): Promise<ApiResult_1>;
     isCallerAdmin(): Promise<boolean>;
-    listCases(): Promise<Array<SurgeryCase>>;
-    saveCallerUserProfile(profile: UserProfile): Promise<void>;
-    toggleCulture(id: bigint): Promise<boolean>;
-    toggleDischargeNotes(id: bigint): Promise<boolean>;
-    toggleHisto(id: bigint): Promise<boolean>;
-    toggleImaging(id: bigint): Promise<boolean>;
-    toggleLabs(id: bigint): Promise<boolean>;
-    togglePdvmNotified(id: bigint): Promise<boolean>;
-    toggleSurgeryReport(id: bigint): Promise<boolean>;
-    toggleTodoComplete(caseId: bigint, todoId: bigint): Promise<void>;
-    updateCase(id: bigint, mrn: string, patientFirstName: string, patientLastName: string, dateOfBirth: string, arrivalDate: Time, species: Species, breed: string, sex: Sex, presentingComplaint: string, dischargeNotesComplete: boolean, pdvmNotified: boolean, labsComplete: boolean, histoComplete: boolean, surgeryReportComplete: boolean, imagingComplete: boolean, cultureComplete: boolean, notes: string, todos: Array<ToDoItem>): Promise<void>;
-}
-import type { Sex as _Sex, Species as _Species, SurgeryCase as _SurgeryCase, Time as _Time, ToDoItem as _ToDoItem, UserProfile as _UserProfile, UserRole as _UserRole } from "./declarations/backend.did.d.ts";
+    listAssignableUsers(): Promise<ApiResult_5>;
+    listCaseTemplates(): Promise<ApiResult_17>;
+    listCases(): Promise<ApiResult_16>;
+    listChecklistDefinitions(): Promise<ApiResult_15>;
+    listCustomRoleAssignments(): Promise<ApiResult_14>;
+    listCustomRoles(): Promise<ApiResult_13>;
+    listLetterTemplates(): Promise<ApiResult_12>;
+    listMyTodos(includeCompleted: boolean): Promise<ApiResult_11>;
+    listOrgUnits(): Promise<ApiResult_10>;
+    listOwners(): Promise<ApiResult_9>;
+    listPatients(): Promise<ApiResult_8>;
+    listPdvms(): Promise<ApiResult_7>;
+    listTrash(): Promise<ApiResult_6>;
+    listUserDirectory(): Promise<ApiResult_5>;
+    listUsers(): Promise<ApiResult_4>;
+    markLetterSent(caseId: bigint, method: NotificationMethod, idempotencyKey: string | null): Promise<ApiResult_1>;
+    purgeTrash(idempotencyKey: string | null): Promise<ApiResult>;
+    queryCases(filter: CaseFilter, sortKey: CaseSortKey, offset: bigint, limit: bigint): Promise<ApiResult_3>;
+    removeUnitMember(unitId: bigint, user: Principal, idempotencyKey: string | null): Promise<ApiResult_1>;
+    renameChecklistDefinition(key: string, title: string, idempotencyKey: string | null): Promise<ApiResult_1>;
+    renameOrgUnit(id: bigint, name: string, idempotencyKey: string | null): Promise<ApiResult_1>;
+    reorderChecklistDefinitions(keys: Array<string>, idempotencyKey: string | null): Promise<ApiResult_1>;
+    reorderTodos(caseId: bigint, todoIds: Array<bigint>, idempotencyKey: string | null): Promise<ApiResult_1>;
+    restoreCase(id: bigint, idempotencyKey: string | null): Promise<ApiResult_1>;
+    saveCallerUserProfile(profile: UserProfile, idempotencyKey: string | null): Promise<ApiResult_1>;
+    setAutoProvisionUsers(enabled: boolean, idempotencyKey: string | null): Promise<ApiResult_1>;
+    setCaseStatus(caseId: bigint, status: CaseStatus, overrideReason: string | null, idempotencyKey: string | null): Promise<ApiResult_1>;
+    setChecklistDefinitionRetired(key: string, retired: boolean, idempotencyKey: string | null): Promise<ApiResult_1>;
+    setPatientOwner(mrn: string, ownerId: bigint | null, idempotencyKey: string | null): Promise<ApiResult_1>;
+    setTrashRetentionDays(days: bigint, idempotencyKey: string | null): Promise<ApiResult_1>;
+    setUnitMember(unitId: bigint, user: Principal, role: UnitRole, idempotencyKey: string | null): Promise<ApiResult_1>;
+    setUserAccess(user: Principal, enabled: boolean, idempotencyKey: string | null): Promise<ApiResult_1>;
+    setUserCustomRole(user: Principal, roleId: bigint | null, idempotencyKey: string | null): Promise<ApiResult_1>;
+    setUserRole(user: Principal, role: UserRole, idempotencyKey: string | null): Promise<ApiResult_1>;
+    toggleChecklistItem(id: bigint, key: string, notificationMethod: NotificationMethod | null, idempotencyKey: string | null): Promise<ApiResult_2>;
+    toggleTodoComplete(caseId: bigint, todoId: bigint, idempotencyKey: string | null): Promise<ApiResult_1>;
+    updateCase(id: bigint, mrn: string, patientFirstName: string, patientLastName: string, dateOfBirth: string, arrivalDate: Time, species: Species, breed: string, sex: Sex, presentingComplaint: string, checklist: Array<ChecklistEntry>, notes: string, todos: Array<ToDoItem>, pdvmId: bigint | null, pdvmNotificationMethod: NotificationMethod | null, expectedVersion: bigint, idempotencyKey: string | null): Promise<ApiResult>;
+    updateCaseTemplate(id: bigint, name: string, species: Species | null, complaintKeywords: Array<string>, checklistKeys: Array<string>, todoDescriptions: Array<string>, idempotencyKey: string | null): Promise<ApiResult_1>;
+    updateCustomRole(id: bigint, name: string, permissions: Array<Permission>, idempotencyKey: string | null): Promise<ApiResult_1>;
+    updateLetterTemplate(id: bigint, name: string, body: string, idempotencyKey: string | null): Promise<ApiResult_1>;
+    updateOwner(id: bigint, details: OwnerDetails, expectedVersion: bigint, idempotencyKey: string | null): Promise<ApiResult>;
+    updatePatient(mrn: string, firstName: string, lastName: string, dateOfBirth: string, species: Species, breed: string, sex: Sex, expectedVersion: bigint, idempotencyKey: string | null): Promise<ApiResult>;
+    updatePdvm(id: bigint, details: PdvmDetails, expectedVersion: bigint, idempotencyKey: string | null): Promise<ApiResult>;
+}
+import type { AccountStatus as _AccountStatus, ApiResult as _ApiResult, ApiResult_1 as _ApiResult_1, ApiResult_10 as _ApiResult_10, ApiResult_11 as _ApiResult_11, ApiResult_12 as _ApiResult_12, ApiResult_13 as _ApiResult_13, ApiResult_14 as _ApiResult_14, ApiResult_15 as _ApiResult_15, ApiResult_16 as _ApiResult_16, ApiResult_17 as _ApiResult_17, ApiResult_18 as _ApiResult_18, ApiResult_19 as _ApiResult_19, ApiResult_2 as _ApiResult_2, ApiResult_20 as _ApiResult_20, ApiResult_21 as _ApiResult_21, ApiResult_22 as _ApiResult_22, ApiResult_23 as _ApiResult_23, ApiResult_24 as _ApiResult_24, ApiResult_25 as _ApiResult_25, ApiResult_26 as _ApiResult_26, ApiResult_3 as _ApiResult_3, ApiResult_4 as _ApiResult_4, ApiResult_5 as _ApiResult_5, ApiResult_6 as _ApiResult_6, ApiResult_7 as _ApiResult_7, ApiResult_8 as _ApiResult_8, ApiResult_9 as _ApiResult_9, AssignedTodo as _AssignedTodo, Assignee as _Assignee, AuditEntry as _AuditEntry, CaseAttachment as _CaseAttachment, CaseFilter as _CaseFilter, CasePage as _CasePage, CaseSortKey as _CaseSortKey, CaseStatus as _CaseStatus, CaseSummary as _CaseSummary, CaseTemplate as _CaseTemplate, ChecklistEntry as _ChecklistEntry, ChecklistGap as _ChecklistGap, ChecklistItemDefinition as _ChecklistItemDefinition, ChecklistTurnaround as _ChecklistTurnaround, CloseOverride as _CloseOverride, Conflict as _Conflict, ContactMethod as _ContactMethod, CustomRole as _CustomRole, CustomRoleAssignment as _CustomRoleAssignment, Dashboard as _Dashboard, FieldError as _FieldError, LetterTemplate as _LetterTemplate, NotificationMethod as _NotificationMethod, OrgUnit as _OrgUnit, OutstandingItem as _OutstandingItem, OutstandingItemKind as _OutstandingItemKind, Owner as _Owner, OwnerDetails as _OwnerDetails, Patient as _Patient, Pdvm as _Pdvm, PdvmDetails as _PdvmDetails, PdvmNotification as _PdvmNotification, Permission as _Permission, Sex as _Sex, Species as _Species, StaffTitle as _StaffTitle, SurgeryCase as _SurgeryCase, Time as _Time, ToDoItem as _ToDoItem, TodoDetails as _TodoDetails, TodoPriority as _TodoPriority, TrashedCase as _TrashedCase, UnitMember as _UnitMember, UnitRole as _UnitRole, UserProfile as _UserProfile, UserRole as _UserRole, UserSummary as _UserSummary, WeeklyArrivals as _WeeklyArrivals } from "./declarations/backend.did.d.ts";
 export class Backend implements backendInterface {
     constructor(private actor: ActorSubclass<_SERVICE>, private _uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, private _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, private processError?: (error: unknown) => never){}
+    async _caffeineStorageCreateCertificate(arg0: string): Promise<{
+        method: string;
+        blob_hash: string;
+    }> {
+        const result = await this.actor._caffeineStorageCreateCertificate(arg0);
+        return result;
+    }
     async _initializeAccessControlWithSecret(arg0: string): Promise<void> {
         if (this.processError) {
             try {
@@ -184,503 +971,2960 @@ export class Backend implements backendInterface {
             return result;
         }
     }
-    async addTodoItem(arg0: bigint, arg1: string): Promise<bigint> {
+    async addCaseAttachment(arg0: bigint, arg1: AttachmentDetails, arg2: string | null): Promise<ApiResult> {
         if (this.processError) {
             try {
-                const result = await this.actor.addTodoItem(arg0, arg1);
-                return result;
+                const result = await this.actor.addCaseAttachment(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+                return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.addTodoItem(arg0, arg1);
-            return result;
+            const result = await this.actor.addCaseAttachment(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+            return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
         }
     }
-    async assignCallerUserRole(arg0: Principal, arg1: UserRole): Promise<void> {
+    async addChecklistDefinition(arg0: string, arg1: string, arg2: string | null): Promise<ApiResult_1> {
         if (this.processError) {
             try {
-                const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n1(this._uploadFile, this._downloadFile, arg1));
-                return result;
+                const result = await this.actor.addChecklistDefinition(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n1(this._uploadFile, this._downloadFile, arg1));
-            return result;
+            const result = await this.actor.addChecklistDefinition(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
         }
     }
-    async createCase(arg0: string, arg1: string, arg2: string, arg3: string, arg4: Species, arg5: string, arg6: Sex, arg7: string, arg8: Time | null, arg9: boolean, arg10: boolean, arg11: boolean, arg12: boolean, arg13: boolean, arg14: boolean, arg15: boolean, arg16: string, arg17: Array<string>): Promise<bigint> {
+    async addTodoItem(arg0: bigint, arg1: string, arg2: TodoDetails, arg3: string | null): Promise<ApiResult> {
         if (this.processError) {
             try {
-                const result = await this.actor.createCase(arg0, arg1, arg2, arg3, to_candid_Species_n3(this._uploadFile, this._downloadFile, arg4), arg5, to_candid_Sex_n5(this._uploadFile, this._downloadFile, arg6), arg7, to_candid_opt_n7(this._uploadFile, this._downloadFile, arg8), arg9, arg10, arg11, arg12, arg13, arg14, arg15, arg16, arg17);
-                return result;
+                const result = await this.actor.addTodoItem(arg0, arg1, to_candid_TodoDetails_n34(this._uploadFile, this._downloadFile, arg2), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg3));
+                return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.createCase(arg0, arg1, arg2, arg3, to_candid_Species_n3(this._uploadFile, this._downloadFile, arg4), arg5, to_candid_Sex_n5(this._uploadFile, this._downloadFile, arg6), arg7, to_candid_opt_n7(this._uploadFile, this._downloadFile, arg8), arg9, arg10, arg11, arg12, arg13, arg14, arg15, arg16, arg17);
-            return result;
+            const result = await this.actor.addTodoItem(arg0, arg1, to_candid_TodoDetails_n34(this._uploadFile, this._downloadFile, arg2), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg3));
+            return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
         }
     }
-    async debugGetRole(): Promise<string> {
+    async assignCallerUserRole(arg0: Principal, arg1: UserRole): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.debugGetRole();
+                const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n38(this._uploadFile, this._downloadFile, arg1));
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.debugGetRole();
+            const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n38(this._uploadFile, this._downloadFile, arg1));
             return result;
         }
     }
-    async deleteCase(arg0: bigint): Promise<void> {
+    async createCase(arg0: string, arg1: string, arg2: string, arg3: string, arg4: Species, arg5: string, arg6: Sex, arg7: string, arg8: Time | null, arg9: Array<ChecklistEntry>, arg10: string, arg11: Array<string>, arg12: OwnerDetails | null, arg13: bigint | null, arg14: NotificationMethod | null, arg15: bigint | null, arg16: string | null): Promise<ApiResult> {
         if (this.processError) {
             try {
-                const result = await this.actor.deleteCase(arg0);
-                return result;
+                const result = await this.actor.createCase(arg0, arg1, arg2, arg3, to_candid_Species_n40(this._uploadFile, this._downloadFile, arg4), arg5, to_candid_Sex_n42(this._uploadFile, this._downloadFile, arg6), arg7, to_candid_opt_n44(this._uploadFile, this._downloadFile, arg8), to_candid_vec_n45(this._uploadFile, this._downloadFile, arg9), arg10, arg11, to_candid_opt_n48(this._uploadFile, this._downloadFile, arg12), to_candid_opt_n53(this._uploadFile, this._downloadFile, arg13), to_candid_opt_n54(this._uploadFile, this._downloadFile, arg14), to_candid_opt_n53(this._uploadFile, this._downloadFile, arg15), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg16));
+                return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.deleteCase(arg0);
-            return result;
+            const result = await this.actor.createCase(arg0, arg1, arg2, arg3, to_candid_Species_n40(this._uploadFile, this._downloadFile, arg4), arg5, to_candid_Sex_n42(this._uploadFile, this._downloadFile, arg6), arg7, to_candid_opt_n44(this._uploadFile, this._downloadFile, arg8), to_candid_vec_n45(this._uploadFile, this._downloadFile, arg9), arg10, arg11, to_candid_opt_n48(this._uploadFile, this._downloadFile, arg12), to_candid_opt_n53(this._uploadFile, this._downloadFile, arg13), to_candid_opt_n54(this._uploadFile, this._downloadFile, arg14), to_candid_opt_n53(this._uploadFile, this._downloadFile, arg15), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg16));
+            return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
         }
     }
-    async deleteTodoItem(arg0: bigint, arg1: bigint): Promise<void> {
+    async createCaseTemplate(arg0: string, arg1: Species | null, arg2: Array<string>, arg3: Array<string>, arg4: Array<string>, arg5: string | null): Promise<ApiResult> {
         if (this.processError) {
             try {
-                const result = await this.actor.deleteTodoItem(arg0, arg1);
-                return result;
+                const result = await this.actor.createCaseTemplate(arg0, to_candid_opt_n57(this._uploadFile, this._downloadFile, arg1), arg2, arg3, arg4, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg5));
+                return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.deleteTodoItem(arg0, arg1);
-            return result;
+            const result = await this.actor.createCaseTemplate(arg0, to_candid_opt_n57(this._uploadFile, this._downloadFile, arg1), arg2, arg3, arg4, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg5));
+            return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
         }
     }
-    async ensureUserRole(): Promise<void> {
+    async createCustomRole(arg0: string, arg1: Array<Permission>, arg2: string | null): Promise<ApiResult> {
         if (this.processError) {
             try {
-                const result = await this.actor.ensureUserRole();
-                return result;
+                const result = await this.actor.createCustomRole(arg0, to_candid_vec_n58(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+                return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.ensureUserRole();
-            return result;
+            const result = await this.actor.createCustomRole(arg0, to_candid_vec_n58(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+            return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
         }
     }
-    async exportCases(): Promise<Array<SurgeryCase>> {
+    async createLetterTemplate(arg0: string, arg1: string, arg2: string | null): Promise<ApiResult> {
         if (this.processError) {
             try {
-                const result = await this.actor.exportCases();
-                return from_candid_vec_n8(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.createLetterTemplate(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+                return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.exportCases();
-            return from_candid_vec_n8(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.createLetterTemplate(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+            return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getCallerUserProfile(): Promise<UserProfile | null> {
+    async createOrgUnit(arg0: string, arg1: string | null): Promise<ApiResult> {
         if (this.processError) {
             try {
-                const result = await this.actor.getCallerUserProfile();
-                return from_candid_opt_n15(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.createOrgUnit(arg0, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getCallerUserProfile();
-            return from_candid_opt_n15(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.createOrgUnit(arg0, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getCallerUserRole(): Promise<UserRole> {
+    async createOwner(arg0: OwnerDetails, arg1: string | null): Promise<ApiResult> {
         if (this.processError) {
             try {
-                const result = await this.actor.getCallerUserRole();
-                return from_candid_UserRole_n16(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.createOwner(to_candid_OwnerDetails_n49(this._uploadFile, this._downloadFile, arg0), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getCallerUserRole();
-            return from_candid_UserRole_n16(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.createOwner(to_candid_OwnerDetails_n49(this._uploadFile, this._downloadFile, arg0), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getCase(arg0: bigint): Promise<SurgeryCase | null> {
+    async createPdvm(arg0: PdvmDetails, arg1: string | null): Promise<ApiResult> {
         if (this.processError) {
             try {
-                const result = await this.actor.getCase(arg0);
-                return from_candid_opt_n18(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.createPdvm(to_candid_PdvmDetails_n61(this._uploadFile, this._downloadFile, arg0), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getCase(arg0);
-            return from_candid_opt_n18(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.createPdvm(to_candid_PdvmDetails_n61(this._uploadFile, this._downloadFile, arg0), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getCaseCount(): Promise<bigint> {
+    async debugGetRole(): Promise<string> {
         if (this.processError) {
             try {
-                const result = await this.actor.getCaseCount();
+                const result = await this.actor.debugGetRole();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getCaseCount();
+            const result = await this.actor.debugGetRole();
             return result;
         }
     }
-    async getCasesBySpecies(arg0: Species): Promise<Array<SurgeryCase>> {
+    async deleteCase(arg0: bigint, arg1: string | null): Promise<ApiResult_1> {
         if (this.processError) {
             try {
-                const result = await this.actor.getCasesBySpecies(to_candid_Species_n3(this._uploadFile, this._downloadFile, arg0));
-                return from_candid_vec_n8(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteCase(arg0, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getCasesBySpecies(to_candid_Species_n3(this._uploadFile, this._downloadFile, arg0));
-            return from_candid_vec_n8(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteCase(arg0, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getUserProfile(arg0: Principal): Promise<UserProfile | null> {
+    async deleteCaseAttachment(arg0: bigint, arg1: bigint, arg2: string | null): Promise<ApiResult_1> {
         if (this.processError) {
             try {
-                const result = await this.actor.getUserProfile(arg0);
-                return from_candid_opt_n15(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteCaseAttachment(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getUserProfile(arg0);
-            return from_candid_opt_n15(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteCaseAttachment(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getVersion(): Promise<string> {
+    async deleteCaseTemplate(arg0: bigint, arg1: string | null): Promise<ApiResult_1> {
         if (this.processError) {
             try {
-                const result = await this.actor.getVersion();
-                return result;
+                const result = await this.actor.deleteCaseTemplate(arg0, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getVersion();
-            return result;
+            const result = await this.actor.deleteCaseTemplate(arg0, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
         }
     }
-    async importCases(arg0: Array<SurgeryCase>): Promise<void> {
+    async deleteCustomRole(arg0: bigint, arg1: string | null): Promise<ApiResult_1> {
         if (this.processError) {
             try {
-                const result = await this.actor.importCases(to_candid_vec_n19(this._uploadFile, this._downloadFile, arg0));
-                return result;
+                const result = await this.actor.deleteCustomRole(arg0, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.importCases(to_candid_vec_n19(this._uploadFile, this._downloadFile, arg0));
-            return result;
+            const result = await this.actor.deleteCustomRole(arg0, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
         }
     }
-    async isCallerAdmin(): Promise<boolean> {
+    async deleteLetterTemplate(arg0: bigint, arg1: string | null): Promise<ApiResult_1> {
         if (this.processError) {
             try {
-                const result = await this.actor.isCallerAdmin();
-                return result;
+                const result = await this.actor.deleteLetterTemplate(arg0, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.isCallerAdmin();
-            return result;
+            const result = await this.actor.deleteLetterTemplate(arg0, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
         }
     }
-    async listCases(): Promise<Array<SurgeryCase>> {
+    async deleteTodoItem(arg0: bigint, arg1: bigint, arg2: string | null): Promise<ApiResult_1> {
         if (this.processError) {
             try {
-                const result = await this.actor.listCases();
-                return from_candid_vec_n8(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteTodoItem(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.listCases();
-            return from_candid_vec_n8(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteTodoItem(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
         }
     }
-    async saveCallerUserProfile(arg0: UserProfile): Promise<void> {
+    async editTodoItem(arg0: bigint, arg1: bigint, arg2: string, arg3: TodoDetails, arg4: string | null): Promise<ApiResult_1> {
         if (this.processError) {
             try {
-                const result = await this.actor.saveCallerUserProfile(arg0);
-                return result;
+                const result = await this.actor.editTodoItem(arg0, arg1, arg2, to_candid_TodoDetails_n34(this._uploadFile, this._downloadFile, arg3), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg4));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.saveCallerUserProfile(arg0);
-            return result;
+            const result = await this.actor.editTodoItem(arg0, arg1, arg2, to_candid_TodoDetails_n34(this._uploadFile, this._downloadFile, arg3), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg4));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
         }
     }
-    async toggleCulture(arg0: bigint): Promise<boolean> {
+    async ensureUserRole(): Promise<ApiResult_26> {
         if (this.processError) {
             try {
-                const result = await this.actor.toggleCulture(arg0);
-                return result;
+                const result = await this.actor.ensureUserRole();
+                return from_candid_ApiResult_26_n63(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.toggleCulture(arg0);
-            return result;
+            const result = await this.actor.ensureUserRole();
+            return from_candid_ApiResult_26_n63(this._uploadFile, this._downloadFile, result);
         }
     }
-    async toggleDischargeNotes(arg0: bigint): Promise<boolean> {
+    async exportCases(): Promise<ApiResult_16> {
         if (this.processError) {
             try {
-                const result = await this.actor.toggleDischargeNotes(arg0);
-                return result;
+                const result = await this.actor.exportCases();
+                return from_candid_ApiResult_16_n67(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.toggleDischargeNotes(arg0);
-            return result;
+            const result = await this.actor.exportCases();
+            return from_candid_ApiResult_16_n67(this._uploadFile, this._downloadFile, result);
         }
     }
-    async toggleHisto(arg0: bigint): Promise<boolean> {
+    async getAutoProvisionUsers(): Promise<ApiResult_2> {
         if (this.processError) {
             try {
-                const result = await this.actor.toggleHisto(arg0);
-                return result;
+                const result = await this.actor.getAutoProvisionUsers();
+                return from_candid_ApiResult_2_n70(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.toggleHisto(arg0);
-            return result;
+            const result = await this.actor.getAutoProvisionUsers();
+            return from_candid_ApiResult_2_n70(this._uploadFile, this._downloadFile, result);
         }
     }
-    async toggleImaging(arg0: bigint): Promise<boolean> {
+    async getCallerPermissions(): Promise<ApiResult_25> {
         if (this.processError) {
             try {
-                const result = await this.actor.toggleImaging(arg0);
-                return result;
+                const result = await this.actor.getCallerPermissions();
+                return from_candid_ApiResult_25_n72(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.toggleImaging(arg0);
-            return result;
+            const result = await this.actor.getCallerPermissions();
+            return from_candid_ApiResult_25_n72(this._uploadFile, this._downloadFile, result);
         }
     }
-    async toggleLabs(arg0: bigint): Promise<boolean> {
+    async getCallerUserProfile(): Promise<ApiResult_18> {
         if (this.processError) {
             try {
-                const result = await this.actor.toggleLabs(arg0);
-                return result;
+                const result = await this.actor.getCallerUserProfile();
+                return from_candid_ApiResult_18_n77(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.toggleLabs(arg0);
-            return result;
+            const result = await this.actor.getCallerUserProfile();
+            return from_candid_ApiResult_18_n77(this._uploadFile, this._downloadFile, result);
         }
     }
-    async togglePdvmNotified(arg0: bigint): Promise<boolean> {
+    async getCallerUserRole(): Promise<UserRole> {
         if (this.processError) {
             try {
-                const result = await this.actor.togglePdvmNotified(arg0);
-                return result;
+                const result = await this.actor.getCallerUserRole();
+                return from_candid_UserRole_n85(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.togglePdvmNotified(arg0);
-            return result;
+            const result = await this.actor.getCallerUserRole();
+            return from_candid_UserRole_n85(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getCase(arg0: bigint): Promise<ApiResult_24> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getCase(arg0);
+                return from_candid_ApiResult_24_n87(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getCase(arg0);
+            return from_candid_ApiResult_24_n87(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getCaseAuditLog(arg0: bigint): Promise<ApiResult_23> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getCaseAuditLog(arg0);
+                return from_candid_ApiResult_23_n89(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getCaseAuditLog(arg0);
+            return from_candid_ApiResult_23_n89(this._uploadFile, this._downloadFile, result);
         }
     }
-    async toggleSurgeryReport(arg0: bigint): Promise<boolean> {
+    async getCaseCount(): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.toggleSurgeryReport(arg0);
+                const result = await this.actor.getCaseCount();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.toggleSurgeryReport(arg0);
+            const result = await this.actor.getCaseCount();
             return result;
         }
     }
-    async toggleTodoComplete(arg0: bigint, arg1: bigint): Promise<void> {
+    async getCasesBySpecies(arg0: Species): Promise<ApiResult_16> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getCasesBySpecies(to_candid_Species_n40(this._uploadFile, this._downloadFile, arg0));
+                return from_candid_ApiResult_16_n67(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getCasesBySpecies(to_candid_Species_n40(this._uploadFile, this._downloadFile, arg0));
+            return from_candid_ApiResult_16_n67(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getDashboard(arg0: Time, arg1: bigint, arg2: bigint): Promise<ApiResult_22> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getDashboard(arg0, arg1, arg2);
+                return from_candid_ApiResult_22_n91(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getDashboard(arg0, arg1, arg2);
+            return from_candid_ApiResult_22_n91(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getOwner(arg0: bigint): Promise<ApiResult_21> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getOwner(arg0);
+                return from_candid_ApiResult_21_n104(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getOwner(arg0);
+            return from_candid_ApiResult_21_n104(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getPatient(arg0: string): Promise<ApiResult_20> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getPatient(arg0);
+                return from_candid_ApiResult_20_n110(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getPatient(arg0);
+            return from_candid_ApiResult_20_n110(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getPatientCases(arg0: string): Promise<ApiResult_16> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getPatientCases(arg0);
+                return from_candid_ApiResult_16_n67(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getPatientCases(arg0);
+            return from_candid_ApiResult_16_n67(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getPdvm(arg0: bigint): Promise<ApiResult_19> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getPdvm(arg0);
+                return from_candid_ApiResult_19_n114(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getPdvm(arg0);
+            return from_candid_ApiResult_19_n114(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getTrashRetentionDays(): Promise<ApiResult> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getTrashRetentionDays();
+                return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getTrashRetentionDays();
+            return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getUserProfile(arg0: Principal): Promise<ApiResult_18> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getUserProfile(arg0);
+                return from_candid_ApiResult_18_n77(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getUserProfile(arg0);
+            return from_candid_ApiResult_18_n77(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getVersion(): Promise<string> {
         if (this.processError) {
             try {
-                const result = await this.actor.toggleTodoComplete(arg0, arg1);
+                const result = await this.actor.getVersion();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.toggleTodoComplete(arg0, arg1);
+            const result = await this.actor.getVersion();
             return result;
         }
     }
-    async updateCase(arg0: bigint, arg1: string, arg2: string, arg3: string, arg4: string, arg5: Time, arg6: Species, arg7: string, arg8: Sex, arg9: string, arg10: boolean, arg11: boolean, arg12: boolean, arg13: boolean, arg14: boolean, arg15: boolean, arg16: boolean, arg17: string, arg18: Array<ToDoItem>): Promise<void> {
+    async importCases(arg0: Array<SurgeryCase>, arg1: string | null): Promise<ApiResult_1> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.importCases(to_candid_vec_n118(this._uploadFile, this._downloadFile, arg0), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.importCases(to_candid_vec_n118(this._uploadFile, this._downloadFile, arg0), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async isCallerAdmin(): Promise<boolean> {
         if (this.processError) {
             try {
-                const result = await this.actor.updateCase(arg0, arg1, arg2, arg3, arg4, arg5, to_candid_Species_n3(this._uploadFile, this._downloadFile, arg6), arg7, to_candid_Sex_n5(this._uploadFile, this._downloadFile, arg8), arg9, arg10, arg11, arg12, arg13, arg14, arg15, arg16, arg17, arg18);
+                const result = await this.actor.isCallerAdmin();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.updateCase(arg0, arg1, arg2, arg3, arg4, arg5, to_candid_Species_n3(this._uploadFile, this._downloadFile, arg6), arg7, to_candid_Sex_n5(this._uploadFile, this._downloadFile, arg8), arg9, arg10, arg11, arg12, arg13, arg14, arg15, arg16, arg17, arg18);
+            const result = await this.actor.isCallerAdmin();
             return result;
         }
     }
-}
-function from_candid_Sex_n11(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Sex): Sex {
-    return from_candid_variant_n12(_uploadFile, _downloadFile, value);
-}
-function from_candid_Species_n13(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Species): Species {
-    return from_candid_variant_n14(_uploadFile, _downloadFile, value);
-}
-function from_candid_SurgeryCase_n9(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _SurgeryCase): SurgeryCase {
-    return from_candid_record_n10(_uploadFile, _downloadFile, value);
-}
-function from_candid_UserRole_n16(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserRole): UserRole {
-    return from_candid_variant_n17(_uploadFile, _downloadFile, value);
-}
-function from_candid_opt_n15(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_UserProfile]): UserProfile | null {
-    return value.length === 0 ? null : value[0];
-}
-function from_candid_opt_n18(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_SurgeryCase]): SurgeryCase | null {
-    return value.length === 0 ? null : from_candid_SurgeryCase_n9(_uploadFile, _downloadFile, value[0]);
-}
-function from_candid_record_n10(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    id: bigint;
-    mrn: string;
-    sex: _Sex;
-    todos: Array<_ToDoItem>;
-    pdvmNotified: boolean;
-    histoComplete: boolean;
-    arrivalDate: _Time;
-    presentingComplaint: string;
-    dateOfBirth: string;
-    patientLastName: string;
-    labsComplete: boolean;
-    patientFirstName: string;
-    imagingComplete: boolean;
-    surgeryReportComplete: boolean;
-    notes: string;
-    dischargeNotesComplete: boolean;
-    breed: string;
-    species: _Species;
-    cultureComplete: boolean;
+    async listAssignableUsers(): Promise<ApiResult_5> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listAssignableUsers();
+                return from_candid_ApiResult_5_n128(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listAssignableUsers();
+            return from_candid_ApiResult_5_n128(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listCaseTemplates(): Promise<ApiResult_17> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listCaseTemplates();
+                return from_candid_ApiResult_17_n130(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listCaseTemplates();
+            return from_candid_ApiResult_17_n130(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listCases(): Promise<ApiResult_16> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listCases();
+                return from_candid_ApiResult_16_n67(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listCases();
+            return from_candid_ApiResult_16_n67(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listChecklistDefinitions(): Promise<ApiResult_15> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listChecklistDefinitions();
+                return from_candid_ApiResult_15_n136(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listChecklistDefinitions();
+            return from_candid_ApiResult_15_n136(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listCustomRoleAssignments(): Promise<ApiResult_14> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listCustomRoleAssignments();
+                return from_candid_ApiResult_14_n138(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listCustomRoleAssignments();
+            return from_candid_ApiResult_14_n138(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listCustomRoles(): Promise<ApiResult_13> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listCustomRoles();
+                return from_candid_ApiResult_13_n140(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listCustomRoles();
+            return from_candid_ApiResult_13_n140(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listLetterTemplates(): Promise<ApiResult_12> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listLetterTemplates();
+                return from_candid_ApiResult_12_n145(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listLetterTemplates();
+            return from_candid_ApiResult_12_n145(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listMyTodos(arg0: boolean): Promise<ApiResult_11> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listMyTodos(arg0);
+                return from_candid_ApiResult_11_n147(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listMyTodos(arg0);
+            return from_candid_ApiResult_11_n147(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listOrgUnits(): Promise<ApiResult_10> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listOrgUnits();
+                return from_candid_ApiResult_10_n152(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listOrgUnits();
+            return from_candid_ApiResult_10_n152(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listOwners(): Promise<ApiResult_9> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listOwners();
+                return from_candid_ApiResult_9_n162(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listOwners();
+            return from_candid_ApiResult_9_n162(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listPatients(): Promise<ApiResult_8> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listPatients();
+                return from_candid_ApiResult_8_n165(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listPatients();
+            return from_candid_ApiResult_8_n165(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listPdvms(): Promise<ApiResult_7> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listPdvms();
+                return from_candid_ApiResult_7_n168(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listPdvms();
+            return from_candid_ApiResult_7_n168(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listTrash(): Promise<ApiResult_6> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listTrash();
+                return from_candid_ApiResult_6_n171(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listTrash();
+            return from_candid_ApiResult_6_n171(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listUserDirectory(): Promise<ApiResult_5> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listUserDirectory();
+                return from_candid_ApiResult_5_n128(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listUserDirectory();
+            return from_candid_ApiResult_5_n128(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listUsers(): Promise<ApiResult_4> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listUsers();
+                return from_candid_ApiResult_4_n176(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listUsers();
+            return from_candid_ApiResult_4_n176(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async markLetterSent(arg0: bigint, arg1: NotificationMethod, arg2: string | null): Promise<ApiResult_1> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.markLetterSent(arg0, to_candid_NotificationMethod_n55(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.markLetterSent(arg0, to_candid_NotificationMethod_n55(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async purgeTrash(arg0: string | null): Promise<ApiResult> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.purgeTrash(to_candid_opt_n1(this._uploadFile, this._downloadFile, arg0));
+                return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.purgeTrash(to_candid_opt_n1(this._uploadFile, this._downloadFile, arg0));
+            return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async queryCases(arg0: CaseFilter, arg1: CaseSortKey, arg2: bigint, arg3: bigint): Promise<ApiResult_3> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.queryCases(to_candid_CaseFilter_n181(this._uploadFile, this._downloadFile, arg0), to_candid_CaseSortKey_n183(this._uploadFile, this._downloadFile, arg1), arg2, arg3);
+                return from_candid_ApiResult_3_n185(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.queryCases(to_candid_CaseFilter_n181(this._uploadFile, this._downloadFile, arg0), to_candid_CaseSortKey_n183(this._uploadFile, this._downloadFile, arg1), arg2, arg3);
+            return from_candid_ApiResult_3_n185(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async removeUnitMember(arg0: bigint, arg1: Principal, arg2: string | null): Promise<ApiResult_1> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.removeUnitMember(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.removeUnitMember(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async renameChecklistDefinition(arg0: string, arg1: string, arg2: string | null): Promise<ApiResult_1> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.renameChecklistDefinition(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.renameChecklistDefinition(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async renameOrgUnit(arg0: bigint, arg1: string, arg2: string | null): Promise<ApiResult_1> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.renameOrgUnit(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.renameOrgUnit(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async reorderChecklistDefinitions(arg0: Array<string>, arg1: string | null): Promise<ApiResult_1> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.reorderChecklistDefinitions(arg0, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.reorderChecklistDefinitions(arg0, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async reorderTodos(arg0: bigint, arg1: Array<bigint>, arg2: string | null): Promise<ApiResult_1> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.reorderTodos(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.reorderTodos(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async restoreCase(arg0: bigint, arg1: string | null): Promise<ApiResult_1> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.restoreCase(arg0, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.restoreCase(arg0, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async saveCallerUserProfile(arg0: UserProfile, arg1: string | null): Promise<ApiResult_1> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.saveCallerUserProfile(to_candid_UserProfile_n189(this._uploadFile, this._downloadFile, arg0), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.saveCallerUserProfile(to_candid_UserProfile_n189(this._uploadFile, this._downloadFile, arg0), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async setAutoProvisionUsers(arg0: boolean, arg1: string | null): Promise<ApiResult_1> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setAutoProvisionUsers(arg0, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setAutoProvisionUsers(arg0, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async setCaseStatus(arg0: bigint, arg1: CaseStatus, arg2: string | null, arg3: string | null): Promise<ApiResult_1> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setCaseStatus(arg0, to_candid_CaseStatus_n121(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg3));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setCaseStatus(arg0, to_candid_CaseStatus_n121(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg3));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async setChecklistDefinitionRetired(arg0: string, arg1: boolean, arg2: string | null): Promise<ApiResult_1> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setChecklistDefinitionRetired(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setChecklistDefinitionRetired(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async setPatientOwner(arg0: string, arg1: bigint | null, arg2: string | null): Promise<ApiResult_1> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setPatientOwner(arg0, to_candid_opt_n53(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setPatientOwner(arg0, to_candid_opt_n53(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async setTrashRetentionDays(arg0: bigint, arg1: string | null): Promise<ApiResult_1> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setTrashRetentionDays(arg0, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setTrashRetentionDays(arg0, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async setUnitMember(arg0: bigint, arg1: Principal, arg2: UnitRole, arg3: string | null): Promise<ApiResult_1> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setUnitMember(arg0, arg1, to_candid_UnitRole_n193(this._uploadFile, this._downloadFile, arg2), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg3));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setUnitMember(arg0, arg1, to_candid_UnitRole_n193(this._uploadFile, this._downloadFile, arg2), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg3));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async setUserAccess(arg0: Principal, arg1: boolean, arg2: string | null): Promise<ApiResult_1> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setUserAccess(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setUserAccess(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async setUserCustomRole(arg0: Principal, arg1: bigint | null, arg2: string | null): Promise<ApiResult_1> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setUserCustomRole(arg0, to_candid_opt_n53(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setUserCustomRole(arg0, to_candid_opt_n53(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async setUserRole(arg0: Principal, arg1: UserRole, arg2: string | null): Promise<ApiResult_1> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setUserRole(arg0, to_candid_UserRole_n38(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setUserRole(arg0, to_candid_UserRole_n38(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async toggleChecklistItem(arg0: bigint, arg1: string, arg2: NotificationMethod | null, arg3: string | null): Promise<ApiResult_2> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.toggleChecklistItem(arg0, arg1, to_candid_opt_n54(this._uploadFile, this._downloadFile, arg2), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg3));
+                return from_candid_ApiResult_2_n70(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.toggleChecklistItem(arg0, arg1, to_candid_opt_n54(this._uploadFile, this._downloadFile, arg2), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg3));
+            return from_candid_ApiResult_2_n70(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async toggleTodoComplete(arg0: bigint, arg1: bigint, arg2: string | null): Promise<ApiResult_1> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.toggleTodoComplete(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.toggleTodoComplete(arg0, arg1, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg2));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async updateCase(arg0: bigint, arg1: string, arg2: string, arg3: string, arg4: string, arg5: Time, arg6: Species, arg7: string, arg8: Sex, arg9: string, arg10: Array<ChecklistEntry>, arg11: string, arg12: Array<ToDoItem>, arg13: bigint | null, arg14: NotificationMethod | null, arg15: bigint, arg16: string | null): Promise<ApiResult> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateCase(arg0, arg1, arg2, arg3, arg4, arg5, to_candid_Species_n40(this._uploadFile, this._downloadFile, arg6), arg7, to_candid_Sex_n42(this._uploadFile, this._downloadFile, arg8), arg9, to_candid_vec_n45(this._uploadFile, this._downloadFile, arg10), arg11, to_candid_vec_n123(this._uploadFile, this._downloadFile, arg12), to_candid_opt_n53(this._uploadFile, this._downloadFile, arg13), to_candid_opt_n54(this._uploadFile, this._downloadFile, arg14), arg15, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg16));
+                return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateCase(arg0, arg1, arg2, arg3, arg4, arg5, to_candid_Species_n40(this._uploadFile, this._downloadFile, arg6), arg7, to_candid_Sex_n42(this._uploadFile, this._downloadFile, arg8), arg9, to_candid_vec_n45(this._uploadFile, this._downloadFile, arg10), arg11, to_candid_vec_n123(this._uploadFile, this._downloadFile, arg12), to_candid_opt_n53(this._uploadFile, this._downloadFile, arg13), to_candid_opt_n54(this._uploadFile, this._downloadFile, arg14), arg15, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg16));
+            return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async updateCaseTemplate(arg0: bigint, arg1: string, arg2: Species | null, arg3: Array<string>, arg4: Array<string>, arg5: Array<string>, arg6: string | null): Promise<ApiResult_1> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateCaseTemplate(arg0, arg1, to_candid_opt_n57(this._uploadFile, this._downloadFile, arg2), arg3, arg4, arg5, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg6));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateCaseTemplate(arg0, arg1, to_candid_opt_n57(this._uploadFile, this._downloadFile, arg2), arg3, arg4, arg5, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg6));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async updateCustomRole(arg0: bigint, arg1: string, arg2: Array<Permission>, arg3: string | null): Promise<ApiResult_1> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateCustomRole(arg0, arg1, to_candid_vec_n58(this._uploadFile, this._downloadFile, arg2), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg3));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateCustomRole(arg0, arg1, to_candid_vec_n58(this._uploadFile, this._downloadFile, arg2), to_candid_opt_n1(this._uploadFile, this._downloadFile, arg3));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async updateLetterTemplate(arg0: bigint, arg1: string, arg2: string, arg3: string | null): Promise<ApiResult_1> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateLetterTemplate(arg0, arg1, arg2, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg3));
+                return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateLetterTemplate(arg0, arg1, arg2, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg3));
+            return from_candid_ApiResult_1_n32(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async updateOwner(arg0: bigint, arg1: OwnerDetails, arg2: bigint, arg3: string | null): Promise<ApiResult> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateOwner(arg0, to_candid_OwnerDetails_n49(this._uploadFile, this._downloadFile, arg1), arg2, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg3));
+                return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateOwner(arg0, to_candid_OwnerDetails_n49(this._uploadFile, this._downloadFile, arg1), arg2, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg3));
+            return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async updatePatient(arg0: string, arg1: string, arg2: string, arg3: string, arg4: Species, arg5: string, arg6: Sex, arg7: bigint, arg8: string | null): Promise<ApiResult> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updatePatient(arg0, arg1, arg2, arg3, to_candid_Species_n40(this._uploadFile, this._downloadFile, arg4), arg5, to_candid_Sex_n42(this._uploadFile, this._downloadFile, arg6), arg7, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg8));
+                return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updatePatient(arg0, arg1, arg2, arg3, to_candid_Species_n40(this._uploadFile, this._downloadFile, arg4), arg5, to_candid_Sex_n42(this._uploadFile, this._downloadFile, arg6), arg7, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg8));
+            return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async updatePdvm(arg0: bigint, arg1: PdvmDetails, arg2: bigint, arg3: string | null): Promise<ApiResult> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updatePdvm(arg0, to_candid_PdvmDetails_n61(this._uploadFile, this._downloadFile, arg1), arg2, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg3));
+                return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updatePdvm(arg0, to_candid_PdvmDetails_n61(this._uploadFile, this._downloadFile, arg1), arg2, to_candid_opt_n1(this._uploadFile, this._downloadFile, arg3));
+            return from_candid_ApiResult_n2(this._uploadFile, this._downloadFile, result);
+        }
+    }
+}
+function from_candid_AccountStatus_n65(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _AccountStatus): AccountStatus {
+    return from_candid_variant_n66(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_10_n152(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_10): ApiResult_10 {
+    return from_candid_variant_n153(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_11_n147(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_11): ApiResult_11 {
+    return from_candid_variant_n148(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_12_n145(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_12): ApiResult_12 {
+    return from_candid_variant_n146(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_13_n140(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_13): ApiResult_13 {
+    return from_candid_variant_n141(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_14_n138(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_14): ApiResult_14 {
+    return from_candid_variant_n139(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_15_n136(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_15): ApiResult_15 {
+    return from_candid_variant_n137(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_16_n67(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_16): ApiResult_16 {
+    return from_candid_variant_n68(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_17_n130(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_17): ApiResult_17 {
+    return from_candid_variant_n131(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_18_n77(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_18): ApiResult_18 {
+    return from_candid_variant_n78(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_19_n114(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_19): ApiResult_19 {
+    return from_candid_variant_n115(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_1_n32(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_1): ApiResult_1 {
+    return from_candid_variant_n33(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_20_n110(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_20): ApiResult_20 {
+    return from_candid_variant_n111(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_21_n104(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_21): ApiResult_21 {
+    return from_candid_variant_n105(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_22_n91(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_22): ApiResult_22 {
+    return from_candid_variant_n92(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_23_n89(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_23): ApiResult_23 {
+    return from_candid_variant_n90(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_24_n87(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_24): ApiResult_24 {
+    return from_candid_variant_n88(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_25_n72(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_25): ApiResult_25 {
+    return from_candid_variant_n73(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_26_n63(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_26): ApiResult_26 {
+    return from_candid_variant_n64(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_2_n70(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_2): ApiResult_2 {
+    return from_candid_variant_n71(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_3_n185(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_3): ApiResult_3 {
+    return from_candid_variant_n186(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_4_n176(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_4): ApiResult_4 {
+    return from_candid_variant_n177(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_5_n128(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_5): ApiResult_5 {
+    return from_candid_variant_n129(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_6_n171(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_6): ApiResult_6 {
+    return from_candid_variant_n172(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_7_n168(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_7): ApiResult_7 {
+    return from_candid_variant_n169(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_8_n165(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_8): ApiResult_8 {
+    return from_candid_variant_n166(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_9_n162(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult_9): ApiResult_9 {
+    return from_candid_variant_n163(_uploadFile, _downloadFile, value);
+}
+function from_candid_ApiResult_n2(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ApiResult): ApiResult {
+    return from_candid_variant_n3(_uploadFile, _downloadFile, value);
+}
+function from_candid_AssignedTodo_n150(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _AssignedTodo): AssignedTodo {
+    return from_candid_record_n151(_uploadFile, _downloadFile, value);
+}
+function from_candid_CasePage_n187(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CasePage): CasePage {
+    return from_candid_record_n188(_uploadFile, _downloadFile, value);
+}
+function from_candid_CaseStatus_n11(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CaseStatus): CaseStatus {
+    return from_candid_variant_n12(_uploadFile, _downloadFile, value);
+}
+function from_candid_CaseTemplate_n133(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CaseTemplate): CaseTemplate {
+    return from_candid_record_n134(_uploadFile, _downloadFile, value);
+}
+function from_candid_ChecklistEntry_n23(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ChecklistEntry): ChecklistEntry {
+    return from_candid_record_n24(_uploadFile, _downloadFile, value);
+}
+function from_candid_ChecklistTurnaround_n101(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ChecklistTurnaround): ChecklistTurnaround {
+    return from_candid_record_n102(_uploadFile, _downloadFile, value);
+}
+function from_candid_Conflict_n4(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Conflict): Conflict {
+    return from_candid_record_n5(_uploadFile, _downloadFile, value);
+}
+function from_candid_ContactMethod_n108(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ContactMethod): ContactMethod {
+    return from_candid_variant_n109(_uploadFile, _downloadFile, value);
+}
+function from_candid_CustomRole_n143(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CustomRole): CustomRole {
+    return from_candid_record_n144(_uploadFile, _downloadFile, value);
+}
+function from_candid_Dashboard_n93(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Dashboard): Dashboard {
+    return from_candid_record_n94(_uploadFile, _downloadFile, value);
+}
+function from_candid_NotificationMethod_n30(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _NotificationMethod): NotificationMethod {
+    return from_candid_variant_n31(_uploadFile, _downloadFile, value);
+}
+function from_candid_OrgUnit_n155(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _OrgUnit): OrgUnit {
+    return from_candid_record_n156(_uploadFile, _downloadFile, value);
+}
+function from_candid_OutstandingItemKind_n98(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _OutstandingItemKind): OutstandingItemKind {
+    return from_candid_variant_n99(_uploadFile, _downloadFile, value);
+}
+function from_candid_OutstandingItem_n96(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _OutstandingItem): OutstandingItem {
+    return from_candid_record_n97(_uploadFile, _downloadFile, value);
+}
+function from_candid_Owner_n106(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Owner): Owner {
+    return from_candid_record_n107(_uploadFile, _downloadFile, value);
+}
+function from_candid_Patient_n112(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Patient): Patient {
+    return from_candid_record_n113(_uploadFile, _downloadFile, value);
+}
+function from_candid_PdvmNotification_n28(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _PdvmNotification): PdvmNotification {
+    return from_candid_record_n29(_uploadFile, _downloadFile, value);
+}
+function from_candid_Pdvm_n116(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Pdvm): Pdvm {
+    return from_candid_record_n117(_uploadFile, _downloadFile, value);
+}
+function from_candid_Permission_n75(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Permission): Permission {
+    return from_candid_variant_n76(_uploadFile, _downloadFile, value);
+}
+function from_candid_Sex_n9(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Sex): Sex {
+    return from_candid_variant_n10(_uploadFile, _downloadFile, value);
+}
+function from_candid_Species_n25(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Species): Species {
+    return from_candid_variant_n26(_uploadFile, _downloadFile, value);
+}
+function from_candid_StaffTitle_n83(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _StaffTitle): StaffTitle {
+    return from_candid_variant_n84(_uploadFile, _downloadFile, value);
+}
+function from_candid_SurgeryCase_n7(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _SurgeryCase): SurgeryCase {
+    return from_candid_record_n8(_uploadFile, _downloadFile, value);
+}
+function from_candid_ToDoItem_n14(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ToDoItem): ToDoItem {
+    return from_candid_record_n15(_uploadFile, _downloadFile, value);
+}
+function from_candid_TodoPriority_n18(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _TodoPriority): TodoPriority {
+    return from_candid_variant_n19(_uploadFile, _downloadFile, value);
+}
+function from_candid_TrashedCase_n174(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _TrashedCase): TrashedCase {
+    return from_candid_record_n175(_uploadFile, _downloadFile, value);
+}
+function from_candid_UnitMember_n158(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UnitMember): UnitMember {
+    return from_candid_record_n159(_uploadFile, _downloadFile, value);
+}
+function from_candid_UnitRole_n160(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UnitRole): UnitRole {
+    return from_candid_variant_n161(_uploadFile, _downloadFile, value);
+}
+function from_candid_UserProfile_n80(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserProfile): UserProfile {
+    return from_candid_record_n81(_uploadFile, _downloadFile, value);
+}
+function from_candid_UserRole_n85(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserRole): UserRole {
+    return from_candid_variant_n86(_uploadFile, _downloadFile, value);
+}
+function from_candid_UserSummary_n179(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserSummary): UserSummary {
+    return from_candid_record_n180(_uploadFile, _downloadFile, value);
+}
+function from_candid_opt_n103(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [bigint]): bigint | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_opt_n135(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Species]): Species | null {
+    return value.length === 0 ? null : from_candid_Species_n25(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n16(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Time]): Time | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_opt_n17(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [Principal]): Principal | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_opt_n20(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_CloseOverride]): CloseOverride | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_opt_n21(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [bigint]): bigint | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_opt_n27(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_PdvmNotification]): PdvmNotification | null {
+    return value.length === 0 ? null : from_candid_PdvmNotification_n28(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n6(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_SurgeryCase]): SurgeryCase | null {
+    return value.length === 0 ? null : from_candid_SurgeryCase_n7(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n79(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_UserProfile]): UserProfile | null {
+    return value.length === 0 ? null : from_candid_UserProfile_n80(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n82(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_StaffTitle]): StaffTitle | null {
+    return value.length === 0 ? null : from_candid_StaffTitle_n83(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_record_n102(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    key: string;
+    count: bigint;
+    averageDuration: [] | [bigint];
+    medianDuration: [] | [bigint];
+}): {
+    key: string;
+    count: bigint;
+    averageDuration?: bigint;
+    medianDuration?: bigint;
+} {
+    return {
+        key: value.key,
+        count: value.count,
+        averageDuration: record_opt_to_undefined(from_candid_opt_n103(_uploadFile, _downloadFile, value.averageDuration)),
+        medianDuration: record_opt_to_undefined(from_candid_opt_n103(_uploadFile, _downloadFile, value.medianDuration))
+    };
+}
+function from_candid_record_n107(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    name: string;
+    email: string;
+    version: bigint;
+    preferredContact: _ContactMethod;
+    notes: string;
+    phones: Array<string>;
+}): {
+    id: bigint;
+    name: string;
+    email: string;
+    version: bigint;
+    preferredContact: ContactMethod;
+    notes: string;
+    phones: Array<string>;
+} {
+    return {
+        id: value.id,
+        name: value.name,
+        email: value.email,
+        version: value.version,
+        preferredContact: from_candid_ContactMethod_n108(_uploadFile, _downloadFile, value.preferredContact),
+        notes: value.notes,
+        phones: value.phones
+    };
+}
+function from_candid_record_n113(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    mrn: string;
+    sex: _Sex;
+    ownerId: [] | [bigint];
+    dateOfBirth: string;
+    version: bigint;
+    breed: string;
+    lastName: string;
+    species: _Species;
+    firstName: string;
+}): {
+    mrn: string;
+    sex: Sex;
+    ownerId?: bigint;
+    dateOfBirth: string;
+    version: bigint;
+    breed: string;
+    lastName: string;
+    species: Species;
+    firstName: string;
+} {
+    return {
+        mrn: value.mrn,
+        sex: from_candid_Sex_n9(_uploadFile, _downloadFile, value.sex),
+        ownerId: record_opt_to_undefined(from_candid_opt_n21(_uploadFile, _downloadFile, value.ownerId)),
+        dateOfBirth: value.dateOfBirth,
+        version: value.version,
+        breed: value.breed,
+        lastName: value.lastName,
+        species: from_candid_Species_n25(_uploadFile, _downloadFile, value.species),
+        firstName: value.firstName
+    };
+}
+function from_candid_record_n117(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    fax: string;
+    email: string;
+    version: bigint;
+    preferredContact: _NotificationMethod;
+    vetName: string;
+    address: string;
+    notes: string;
+    phone: string;
+    clinicName: string;
+}): {
+    id: bigint;
+    fax: string;
+    email: string;
+    version: bigint;
+    preferredContact: NotificationMethod;
+    vetName: string;
+    address: string;
+    notes: string;
+    phone: string;
+    clinicName: string;
+} {
+    return {
+        id: value.id,
+        fax: value.fax,
+        email: value.email,
+        version: value.version,
+        preferredContact: from_candid_NotificationMethod_n30(_uploadFile, _downloadFile, value.preferredContact),
+        vetName: value.vetName,
+        address: value.address,
+        notes: value.notes,
+        phone: value.phone,
+        clinicName: value.clinicName
+    };
+}
+function from_candid_record_n134(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    checklistKeys: Array<string>;
+    name: string;
+    complaintKeywords: Array<string>;
+    todoDescriptions: Array<string>;
+    species: [] | [_Species];
+}): {
+    id: bigint;
+    checklistKeys: Array<string>;
+    name: string;
+    complaintKeywords: Array<string>;
+    todoDescriptions: Array<string>;
+    species?: Species;
+} {
+    return {
+        id: value.id,
+        checklistKeys: value.checklistKeys,
+        name: value.name,
+        complaintKeywords: value.complaintKeywords,
+        todoDescriptions: value.todoDescriptions,
+        species: record_opt_to_undefined(from_candid_opt_n135(_uploadFile, _downloadFile, value.species))
+    };
+}
+function from_candid_record_n144(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    permissions: Array<_Permission>;
+    name: string;
+}): {
+    id: bigint;
+    permissions: Array<Permission>;
+    name: string;
+} {
+    return {
+        id: value.id,
+        permissions: from_candid_vec_n74(_uploadFile, _downloadFile, value.permissions),
+        name: value.name
+    };
+}
+function from_candid_record_n15(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    completedAt: [] | [_Time];
+    assignee: [] | [Principal];
+    createdAt: [] | [_Time];
+    createdBy: [] | [Principal];
+    dueDate: [] | [_Time];
+    description: string;
+    complete: boolean;
+    priority: _TodoPriority;
+}): {
+    id: bigint;
+    completedAt?: Time;
+    assignee?: Principal;
+    createdAt?: Time;
+    createdBy?: Principal;
+    dueDate?: Time;
+    description: string;
+    complete: boolean;
+    priority: TodoPriority;
+} {
+    return {
+        id: value.id,
+        completedAt: record_opt_to_undefined(from_candid_opt_n16(_uploadFile, _downloadFile, value.completedAt)),
+        assignee: record_opt_to_undefined(from_candid_opt_n17(_uploadFile, _downloadFile, value.assignee)),
+        createdAt: record_opt_to_undefined(from_candid_opt_n16(_uploadFile, _downloadFile, value.createdAt)),
+        createdBy: record_opt_to_undefined(from_candid_opt_n17(_uploadFile, _downloadFile, value.createdBy)),
+        dueDate: record_opt_to_undefined(from_candid_opt_n16(_uploadFile, _downloadFile, value.dueDate)),
+        description: value.description,
+        complete: value.complete,
+        priority: from_candid_TodoPriority_n18(_uploadFile, _downloadFile, value.priority)
+    };
+}
+function from_candid_record_n151(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    todo: _ToDoItem;
+    caseSummary: _CaseSummary;
+}): {
+    todo: ToDoItem;
+    caseSummary: CaseSummary;
+} {
+    return {
+        todo: from_candid_ToDoItem_n14(_uploadFile, _downloadFile, value.todo),
+        caseSummary: value.caseSummary
+    };
+}
+function from_candid_record_n156(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    members: Array<_UnitMember>;
+    name: string;
+}): {
+    id: bigint;
+    members: Array<UnitMember>;
+    name: string;
+} {
+    return {
+        id: value.id,
+        members: from_candid_vec_n157(_uploadFile, _downloadFile, value.members),
+        name: value.name
+    };
+}
+function from_candid_record_n159(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    principal: Principal;
+    role: _UnitRole;
+}): {
+    principal: Principal;
+    role: UnitRole;
+} {
+    return {
+        principal: value.principal,
+        role: from_candid_UnitRole_n160(_uploadFile, _downloadFile, value.role)
+    };
+}
+function from_candid_record_n175(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    caseRecord: _SurgeryCase;
+    deletedAt: _Time;
+    deletedBy: Principal;
+}): {
+    caseRecord: SurgeryCase;
+    deletedAt: Time;
+    deletedBy: Principal;
+} {
+    return {
+        caseRecord: from_candid_SurgeryCase_n7(_uploadFile, _downloadFile, value.caseRecord),
+        deletedAt: value.deletedAt,
+        deletedBy: value.deletedBy
+    };
+}
+function from_candid_record_n180(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    status: _AccountStatus;
+    principal: Principal;
+    name: string;
+    role: _UserRole;
+    caseChanges: bigint;
+    lastCaseChange: [] | [_Time];
+    lastSeen: [] | [_Time];
+}): {
+    status: AccountStatus;
+    principal: Principal;
+    name: string;
+    role: UserRole;
+    caseChanges: bigint;
+    lastCaseChange?: Time;
+    lastSeen?: Time;
+} {
+    return {
+        status: from_candid_AccountStatus_n65(_uploadFile, _downloadFile, value.status),
+        principal: value.principal,
+        name: value.name,
+        role: from_candid_UserRole_n85(_uploadFile, _downloadFile, value.role),
+        caseChanges: value.caseChanges,
+        lastCaseChange: record_opt_to_undefined(from_candid_opt_n16(_uploadFile, _downloadFile, value.lastCaseChange)),
+        lastSeen: record_opt_to_undefined(from_candid_opt_n16(_uploadFile, _downloadFile, value.lastSeen))
+    };
+}
+function from_candid_record_n188(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    total: bigint;
+    nextOffset: [] | [bigint];
+    cases: Array<_SurgeryCase>;
+}): {
+    total: bigint;
+    nextOffset?: bigint;
+    cases: Array<SurgeryCase>;
+} {
+    return {
+        total: value.total,
+        nextOffset: record_opt_to_undefined(from_candid_opt_n21(_uploadFile, _downloadFile, value.nextOffset)),
+        cases: from_candid_vec_n69(_uploadFile, _downloadFile, value.cases)
+    };
+}
+function from_candid_record_n24(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    key: string;
+    completedAt: [] | [_Time];
+    completedBy: [] | [Principal];
+    complete: boolean;
+}): {
+    key: string;
+    completedAt?: Time;
+    completedBy?: Principal;
+    complete: boolean;
+} {
+    return {
+        key: value.key,
+        completedAt: record_opt_to_undefined(from_candid_opt_n16(_uploadFile, _downloadFile, value.completedAt)),
+        completedBy: record_opt_to_undefined(from_candid_opt_n17(_uploadFile, _downloadFile, value.completedBy)),
+        complete: value.complete
+    };
+}
+function from_candid_record_n29(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    method: _NotificationMethod;
+    notifiedAt: _Time;
+    notifiedBy: Principal;
+}): {
+    method: NotificationMethod;
+    notifiedAt: Time;
+    notifiedBy: Principal;
+} {
+    return {
+        method: from_candid_NotificationMethod_n30(_uploadFile, _downloadFile, value.method),
+        notifiedAt: value.notifiedAt,
+        notifiedBy: value.notifiedBy
+    };
+}
+function from_candid_record_n5(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    message: string;
+    current: [] | [_SurgeryCase];
+}): {
+    message: string;
+    current?: SurgeryCase;
+} {
+    return {
+        message: value.message,
+        current: record_opt_to_undefined(from_candid_opt_n6(_uploadFile, _downloadFile, value.current))
+    };
+}
+function from_candid_record_n8(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    mrn: string;
+    sex: _Sex;
+    status: _CaseStatus;
+    todos: Array<_ToDoItem>;
+    arrivalDate: _Time;
+    presentingComplaint: string;
+    dateOfBirth: string;
+    patientLastName: string;
+    closeOverride: [] | [_CloseOverride];
+    unitId: bigint;
+    version: bigint;
+    patientFirstName: string;
+    notes: string;
+    pdvmId: [] | [bigint];
+    checklist: Array<_ChecklistEntry>;
+    breed: string;
+    species: _Species;
+    attachments: Array<_CaseAttachment>;
+    pdvmNotification: [] | [_PdvmNotification];
+}): {
+    id: bigint;
+    mrn: string;
+    sex: Sex;
+    status: CaseStatus;
+    todos: Array<ToDoItem>;
+    arrivalDate: Time;
+    presentingComplaint: string;
+    dateOfBirth: string;
+    patientLastName: string;
+    closeOverride?: CloseOverride;
+    unitId: bigint;
+    version: bigint;
+    patientFirstName: string;
+    notes: string;
+    pdvmId?: bigint;
+    checklist: Array<ChecklistEntry>;
+    breed: string;
+    species: Species;
+    attachments: Array<CaseAttachment>;
+    pdvmNotification?: PdvmNotification;
+} {
+    return {
+        id: value.id,
+        mrn: value.mrn,
+        sex: from_candid_Sex_n9(_uploadFile, _downloadFile, value.sex),
+        status: from_candid_CaseStatus_n11(_uploadFile, _downloadFile, value.status),
+        todos: from_candid_vec_n13(_uploadFile, _downloadFile, value.todos),
+        arrivalDate: value.arrivalDate,
+        presentingComplaint: value.presentingComplaint,
+        dateOfBirth: value.dateOfBirth,
+        patientLastName: value.patientLastName,
+        closeOverride: record_opt_to_undefined(from_candid_opt_n20(_uploadFile, _downloadFile, value.closeOverride)),
+        unitId: value.unitId,
+        version: value.version,
+        patientFirstName: value.patientFirstName,
+        notes: value.notes,
+        pdvmId: record_opt_to_undefined(from_candid_opt_n21(_uploadFile, _downloadFile, value.pdvmId)),
+        checklist: from_candid_vec_n22(_uploadFile, _downloadFile, value.checklist),
+        breed: value.breed,
+        species: from_candid_Species_n25(_uploadFile, _downloadFile, value.species),
+        attachments: value.attachments,
+        pdvmNotification: record_opt_to_undefined(from_candid_opt_n27(_uploadFile, _downloadFile, value.pdvmNotification))
+    };
+}
+function from_candid_record_n81(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    title: [] | [_StaffTitle];
+    name: string;
+    initials: string;
+    credentials: string;
+    extension: string;
+}): {
+    title?: StaffTitle;
+    name: string;
+    initials: string;
+    credentials: string;
+    extension: string;
+} {
+    return {
+        title: record_opt_to_undefined(from_candid_opt_n82(_uploadFile, _downloadFile, value.title)),
+        name: value.name,
+        initials: value.initials,
+        credentials: value.credentials,
+        extension: value.extension
+    };
+}
+function from_candid_record_n94(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    weeklyArrivals: Array<_WeeklyArrivals>;
+    oldestOutstanding: Array<_OutstandingItem>;
+    gaps: Array<_ChecklistGap>;
+    openCaseCount: bigint;
+    turnaround: Array<_ChecklistTurnaround>;
+    casesWithOpenTodos: Array<_CaseSummary>;
+}): {
+    weeklyArrivals: Array<WeeklyArrivals>;
+    oldestOutstanding: Array<OutstandingItem>;
+    gaps: Array<ChecklistGap>;
+    openCaseCount: bigint;
+    turnaround: Array<ChecklistTurnaround>;
+    casesWithOpenTodos: Array<CaseSummary>;
+} {
+    return {
+        weeklyArrivals: value.weeklyArrivals,
+        oldestOutstanding: from_candid_vec_n95(_uploadFile, _downloadFile, value.oldestOutstanding),
+        gaps: value.gaps,
+        openCaseCount: value.openCaseCount,
+        turnaround: from_candid_vec_n100(_uploadFile, _downloadFile, value.turnaround),
+        casesWithOpenTodos: value.casesWithOpenTodos
+    };
+}
+function from_candid_record_n97(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    kind: _OutstandingItemKind;
+    caseSummary: _CaseSummary;
+    description: string;
+}): {
+    kind: OutstandingItemKind;
+    caseSummary: CaseSummary;
+    description: string;
+} {
+    return {
+        kind: from_candid_OutstandingItemKind_n98(_uploadFile, _downloadFile, value.kind),
+        caseSummary: value.caseSummary,
+        description: value.description
+    };
+}
+function from_candid_variant_n10(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    female: null;
+} | {
+    male: null;
+} | {
+    femaleSpayed: null;
+} | {
+    maleNeutered: null;
+} | {
+    unknown: null;
+}): Sex {
+    return "female" in value ? Sex.female : "male" in value ? Sex.male : "femaleSpayed" in value ? Sex.femaleSpayed : "maleNeutered" in value ? Sex.maleNeutered : "unknown" in value ? Sex.unknown : value;
+}
+function from_candid_variant_n105(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: _Owner;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: Owner;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_Owner_n106(_uploadFile, _downloadFile, value.ok)
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n109(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    text: null;
+} | {
+    email: null;
+} | {
+    phone: null;
+}): ContactMethod {
+    return "text" in value ? ContactMethod.text : "email" in value ? ContactMethod.email : "phone" in value ? ContactMethod.phone : value;
+}
+function from_candid_variant_n111(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: _Patient;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: Patient;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_Patient_n112(_uploadFile, _downloadFile, value.ok)
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n115(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: _Pdvm;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: Pdvm;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_Pdvm_n116(_uploadFile, _downloadFile, value.ok)
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n12(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    closed: null;
+} | {
+    discharged: null;
+} | {
+    admitted: null;
+} | {
+    inSurgery: null;
+} | {
+    awaitingResults: null;
+} | {
+    recovering: null;
+}): CaseStatus {
+    return "closed" in value ? CaseStatus.closed : "discharged" in value ? CaseStatus.discharged : "admitted" in value ? CaseStatus.admitted : "inSurgery" in value ? CaseStatus.inSurgery : "awaitingResults" in value ? CaseStatus.awaitingResults : "recovering" in value ? CaseStatus.recovering : value;
+}
+function from_candid_variant_n129(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<_Assignee>;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: Array<Assignee>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: value.ok
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n131(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<_CaseTemplate>;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: Array<CaseTemplate>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_vec_n132(_uploadFile, _downloadFile, value.ok)
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n137(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<_ChecklistItemDefinition>;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: Array<ChecklistItemDefinition>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: value.ok
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n139(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<_CustomRoleAssignment>;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: Array<CustomRoleAssignment>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: value.ok
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n141(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<_CustomRole>;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: Array<CustomRole>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_vec_n142(_uploadFile, _downloadFile, value.ok)
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n146(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<_LetterTemplate>;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: Array<LetterTemplate>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: value.ok
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n148(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<_AssignedTodo>;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: Array<AssignedTodo>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_vec_n149(_uploadFile, _downloadFile, value.ok)
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n153(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<_OrgUnit>;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: Array<OrgUnit>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_vec_n154(_uploadFile, _downloadFile, value.ok)
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n161(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    member: null;
+} | {
+    unitAdmin: null;
+}): UnitRole {
+    return "member" in value ? UnitRole.member : "unitAdmin" in value ? UnitRole.unitAdmin : value;
+}
+function from_candid_variant_n163(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<_Owner>;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: Array<Owner>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_vec_n164(_uploadFile, _downloadFile, value.ok)
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n166(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<_Patient>;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: Array<Patient>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_vec_n167(_uploadFile, _downloadFile, value.ok)
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n169(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<_Pdvm>;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: Array<Pdvm>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_vec_n170(_uploadFile, _downloadFile, value.ok)
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n172(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<_TrashedCase>;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: Array<TrashedCase>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_vec_n173(_uploadFile, _downloadFile, value.ok)
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n177(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<_UserSummary>;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: Array<UserSummary>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_vec_n178(_uploadFile, _downloadFile, value.ok)
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n186(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: _CasePage;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: CasePage;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_CasePage_n187(_uploadFile, _downloadFile, value.ok)
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n19(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    low: null;
+} | {
+    normal: null;
+} | {
+    high: null;
+}): TodoPriority {
+    return "low" in value ? TodoPriority.low : "normal" in value ? TodoPriority.normal : "high" in value ? TodoPriority.high : value;
+}
+function from_candid_variant_n26(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    other: null;
+} | {
+    feline: null;
+} | {
+    canine: null;
+}): Species {
+    return "other" in value ? Species.other : "feline" in value ? Species.feline : "canine" in value ? Species.canine : value;
+}
+function from_candid_variant_n3(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: bigint;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: bigint;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: value.ok
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n31(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    fax: null;
+} | {
+    text: null;
+} | {
+    email: null;
+} | {
+    phone: null;
+}): NotificationMethod {
+    return "fax" in value ? NotificationMethod.fax : "text" in value ? NotificationMethod.text : "email" in value ? NotificationMethod.email : "phone" in value ? NotificationMethod.phone : value;
+}
+function from_candid_variant_n33(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: null;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: null;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: value.ok
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n64(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: _AccountStatus;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: AccountStatus;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_AccountStatus_n65(_uploadFile, _downloadFile, value.ok)
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n66(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    active: null;
+} | {
+    pending: null;
+} | {
+    disabled: null;
+}): AccountStatus {
+    return "active" in value ? AccountStatus.active : "pending" in value ? AccountStatus.pending : "disabled" in value ? AccountStatus.disabled : value;
+}
+function from_candid_variant_n68(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<_SurgeryCase>;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: Array<SurgeryCase>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_vec_n69(_uploadFile, _downloadFile, value.ok)
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n71(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: boolean;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: boolean;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: value.ok
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n73(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<_Permission>;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
 }): {
-    id: bigint;
-    mrn: string;
-    sex: Sex;
-    todos: Array<ToDoItem>;
-    pdvmNotified: boolean;
-    histoComplete: boolean;
-    arrivalDate: Time;
-    presentingComplaint: string;
-    dateOfBirth: string;
-    patientLastName: string;
-    labsComplete: boolean;
-    patientFirstName: string;
-    imagingComplete: boolean;
-    surgeryReportComplete: boolean;
-    notes: string;
-    dischargeNotesComplete: boolean;
-    breed: string;
-    species: Species;
-    cultureComplete: boolean;
+    __kind__: "ok";
+    ok: Array<Permission>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
 } {
-    return {
-        id: value.id,
-        mrn: value.mrn,
-        sex: from_candid_Sex_n11(_uploadFile, _downloadFile, value.sex),
-        todos: value.todos,
-        pdvmNotified: value.pdvmNotified,
-        histoComplete: value.histoComplete,
-        arrivalDate: value.arrivalDate,
-        presentingComplaint: value.presentingComplaint,
-        dateOfBirth: value.dateOfBirth,
-        patientLastName: value.patientLastName,
-        labsComplete: value.labsComplete,
-        patientFirstName: value.patientFirstName,
-        imagingComplete: value.imagingComplete,
-        surgeryReportComplete: value.surgeryReportComplete,
-        notes: value.notes,
-        dischargeNotesComplete: value.dischargeNotesComplete,
-        breed: value.breed,
-        species: from_candid_Species_n13(_uploadFile, _downloadFile, value.species),
-        cultureComplete: value.cultureComplete
-    };
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_vec_n74(_uploadFile, _downloadFile, value.ok)
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
 }
-function from_candid_variant_n12(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    female: null;
+function from_candid_variant_n76(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    manageUsers: null;
 } | {
-    male: null;
+    viewCases: null;
 } | {
-    femaleSpayed: null;
+    importCases: null;
 } | {
-    maleNeutered: null;
+    exportCases: null;
 } | {
-    unknown: null;
-}): Sex {
-    return "female" in value ? Sex.female : "male" in value ? Sex.male : "femaleSpayed" in value ? Sex.femaleSpayed : "maleNeutered" in value ? Sex.maleNeutered : "unknown" in value ? Sex.unknown : value;
+    manageTodos: null;
+} | {
+    deleteCases: null;
+} | {
+    editDemographics: null;
+} | {
+    toggleChecklist: null;
+}): Permission {
+    return "manageUsers" in value ? Permission.manageUsers : "viewCases" in value ? Permission.viewCases : "importCases" in value ? Permission.importCases : "exportCases" in value ? Permission.exportCases : "manageTodos" in value ? Permission.manageTodos : "deleteCases" in value ? Permission.deleteCases : "editDemographics" in value ? Permission.editDemographics : "toggleChecklist" in value ? Permission.toggleChecklist : value;
 }
-function from_candid_variant_n14(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    other: null;
+function from_candid_variant_n78(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: [] | [_UserProfile];
 } | {
-    feline: null;
+    conflict: _Conflict;
 } | {
-    canine: null;
-}): Species {
-    return "other" in value ? Species.other : "feline" in value ? Species.feline : "canine" in value ? Species.canine : value;
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: UserProfile | null;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_opt_n79(_uploadFile, _downloadFile, value.ok)
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
 }
-function from_candid_variant_n17(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_variant_n84(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    dvm: null;
+} | {
+    technician: null;
+} | {
+    resident: null;
+} | {
+    student: null;
+}): StaffTitle {
+    return "dvm" in value ? StaffTitle.dvm : "technician" in value ? StaffTitle.technician : "resident" in value ? StaffTitle.resident : "student" in value ? StaffTitle.student : value;
+}
+function from_candid_variant_n86(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     admin: null;
 } | {
     user: null;
@@ -689,88 +3933,612 @@ function from_candid_variant_n17(_uploadFile: (file: ExternalBlob) => Promise<Ui
 }): UserRole {
     return "admin" in value ? UserRole.admin : "user" in value ? UserRole.user : "guest" in value ? UserRole.guest : value;
 }
-function from_candid_vec_n8(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_SurgeryCase>): Array<SurgeryCase> {
-    return value.map((x)=>from_candid_SurgeryCase_n9(_uploadFile, _downloadFile, x));
+function from_candid_variant_n88(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: _SurgeryCase;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: SurgeryCase;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_SurgeryCase_n7(_uploadFile, _downloadFile, value.ok)
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n90(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<_AuditEntry>;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: Array<AuditEntry>;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: value.ok
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n92(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: _Dashboard;
+} | {
+    conflict: _Conflict;
+} | {
+    notFound: string;
+} | {
+    unauthorized: string;
+} | {
+    validation: Array<_FieldError>;
+}): {
+    __kind__: "ok";
+    ok: Dashboard;
+} | {
+    __kind__: "conflict";
+    conflict: Conflict;
+} | {
+    __kind__: "notFound";
+    notFound: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} | {
+    __kind__: "validation";
+    validation: Array<FieldError>;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_Dashboard_n93(_uploadFile, _downloadFile, value.ok)
+    } : "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_Conflict_n4(_uploadFile, _downloadFile, value.conflict)
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "validation" in value ? {
+        __kind__: "validation",
+        validation: value.validation
+    } : value;
+}
+function from_candid_variant_n99(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    todo: null;
+} | {
+    checklist: null;
+}): OutstandingItemKind {
+    return "todo" in value ? OutstandingItemKind.todo : "checklist" in value ? OutstandingItemKind.checklist : value;
+}
+function from_candid_vec_n100(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_ChecklistTurnaround>): Array<ChecklistTurnaround> {
+    return value.map((x)=>from_candid_ChecklistTurnaround_n101(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n13(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_ToDoItem>): Array<ToDoItem> {
+    return value.map((x)=>from_candid_ToDoItem_n14(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n132(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_CaseTemplate>): Array<CaseTemplate> {
+    return value.map((x)=>from_candid_CaseTemplate_n133(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n142(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_CustomRole>): Array<CustomRole> {
+    return value.map((x)=>from_candid_CustomRole_n143(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n149(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_AssignedTodo>): Array<AssignedTodo> {
+    return value.map((x)=>from_candid_AssignedTodo_n150(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n154(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_OrgUnit>): Array<OrgUnit> {
+    return value.map((x)=>from_candid_OrgUnit_n155(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n157(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_UnitMember>): Array<UnitMember> {
+    return value.map((x)=>from_candid_UnitMember_n158(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n164(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Owner>): Array<Owner> {
+    return value.map((x)=>from_candid_Owner_n106(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n167(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Patient>): Array<Patient> {
+    return value.map((x)=>from_candid_Patient_n112(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n170(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Pdvm>): Array<Pdvm> {
+    return value.map((x)=>from_candid_Pdvm_n116(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n173(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_TrashedCase>): Array<TrashedCase> {
+    return value.map((x)=>from_candid_TrashedCase_n174(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n178(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_UserSummary>): Array<UserSummary> {
+    return value.map((x)=>from_candid_UserSummary_n179(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n22(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_ChecklistEntry>): Array<ChecklistEntry> {
+    return value.map((x)=>from_candid_ChecklistEntry_n23(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n69(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_SurgeryCase>): Array<SurgeryCase> {
+    return value.map((x)=>from_candid_SurgeryCase_n7(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n74(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Permission>): Array<Permission> {
+    return value.map((x)=>from_candid_Permission_n75(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n95(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_OutstandingItem>): Array<OutstandingItem> {
+    return value.map((x)=>from_candid_OutstandingItem_n96(_uploadFile, _downloadFile, x));
+}
+function to_candid_CaseFilter_n181(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: CaseFilter): _CaseFilter {
+    return to_candid_record_n182(_uploadFile, _downloadFile, value);
+}
+function to_candid_CaseSortKey_n183(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: CaseSortKey): _CaseSortKey {
+    return to_candid_variant_n184(_uploadFile, _downloadFile, value);
+}
+function to_candid_CaseStatus_n121(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: CaseStatus): _CaseStatus {
+    return to_candid_variant_n122(_uploadFile, _downloadFile, value);
+}
+function to_candid_ChecklistEntry_n46(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ChecklistEntry): _ChecklistEntry {
+    return to_candid_record_n47(_uploadFile, _downloadFile, value);
+}
+function to_candid_ContactMethod_n51(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ContactMethod): _ContactMethod {
+    return to_candid_variant_n52(_uploadFile, _downloadFile, value);
+}
+function to_candid_NotificationMethod_n55(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: NotificationMethod): _NotificationMethod {
+    return to_candid_variant_n56(_uploadFile, _downloadFile, value);
+}
+function to_candid_OwnerDetails_n49(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: OwnerDetails): _OwnerDetails {
+    return to_candid_record_n50(_uploadFile, _downloadFile, value);
 }
-function to_candid_Sex_n5(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Sex): _Sex {
-    return to_candid_variant_n6(_uploadFile, _downloadFile, value);
+function to_candid_PdvmDetails_n61(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: PdvmDetails): _PdvmDetails {
+    return to_candid_record_n62(_uploadFile, _downloadFile, value);
 }
-function to_candid_Species_n3(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Species): _Species {
-    return to_candid_variant_n4(_uploadFile, _downloadFile, value);
+function to_candid_PdvmNotification_n126(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: PdvmNotification): _PdvmNotification {
+    return to_candid_record_n127(_uploadFile, _downloadFile, value);
 }
-function to_candid_SurgeryCase_n20(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: SurgeryCase): _SurgeryCase {
-    return to_candid_record_n21(_uploadFile, _downloadFile, value);
+function to_candid_Permission_n59(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Permission): _Permission {
+    return to_candid_variant_n60(_uploadFile, _downloadFile, value);
 }
-function to_candid_UserRole_n1(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): _UserRole {
-    return to_candid_variant_n2(_uploadFile, _downloadFile, value);
+function to_candid_Sex_n42(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Sex): _Sex {
+    return to_candid_variant_n43(_uploadFile, _downloadFile, value);
 }
-function to_candid_opt_n7(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Time | null): [] | [_Time] {
+function to_candid_Species_n40(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Species): _Species {
+    return to_candid_variant_n41(_uploadFile, _downloadFile, value);
+}
+function to_candid_StaffTitle_n191(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: StaffTitle): _StaffTitle {
+    return to_candid_variant_n192(_uploadFile, _downloadFile, value);
+}
+function to_candid_SurgeryCase_n119(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: SurgeryCase): _SurgeryCase {
+    return to_candid_record_n120(_uploadFile, _downloadFile, value);
+}
+function to_candid_ToDoItem_n124(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ToDoItem): _ToDoItem {
+    return to_candid_record_n125(_uploadFile, _downloadFile, value);
+}
+function to_candid_TodoDetails_n34(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: TodoDetails): _TodoDetails {
+    return to_candid_record_n35(_uploadFile, _downloadFile, value);
+}
+function to_candid_TodoPriority_n36(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: TodoPriority): _TodoPriority {
+    return to_candid_variant_n37(_uploadFile, _downloadFile, value);
+}
+function to_candid_UnitRole_n193(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UnitRole): _UnitRole {
+    return to_candid_variant_n194(_uploadFile, _downloadFile, value);
+}
+function to_candid_UserProfile_n189(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserProfile): _UserProfile {
+    return to_candid_record_n190(_uploadFile, _downloadFile, value);
+}
+function to_candid_UserRole_n38(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): _UserRole {
+    return to_candid_variant_n39(_uploadFile, _downloadFile, value);
+}
+function to_candid_opt_n1(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: string | null): [] | [string] {
+    return value === null ? candid_none() : candid_some(value);
+}
+function to_candid_opt_n44(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Time | null): [] | [_Time] {
+    return value === null ? candid_none() : candid_some(value);
+}
+function to_candid_opt_n48(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: OwnerDetails | null): [] | [_OwnerDetails] {
+    return value === null ? candid_none() : candid_some(to_candid_OwnerDetails_n49(_uploadFile, _downloadFile, value));
+}
+function to_candid_opt_n53(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: bigint | null): [] | [bigint] {
     return value === null ? candid_none() : candid_some(value);
 }
-function to_candid_record_n21(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function to_candid_opt_n54(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: NotificationMethod | null): [] | [_NotificationMethod] {
+    return value === null ? candid_none() : candid_some(to_candid_NotificationMethod_n55(_uploadFile, _downloadFile, value));
+}
+function to_candid_opt_n57(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Species | null): [] | [_Species] {
+    return value === null ? candid_none() : candid_some(to_candid_Species_n40(_uploadFile, _downloadFile, value));
+}
+function to_candid_record_n120(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     id: bigint;
     mrn: string;
     sex: Sex;
+    status: CaseStatus;
     todos: Array<ToDoItem>;
-    pdvmNotified: boolean;
-    histoComplete: boolean;
     arrivalDate: Time;
     presentingComplaint: string;
     dateOfBirth: string;
     patientLastName: string;
-    labsComplete: boolean;
+    closeOverride?: CloseOverride;
+    unitId: bigint;
+    version: bigint;
     patientFirstName: string;
-    imagingComplete: boolean;
-    surgeryReportComplete: boolean;
     notes: string;
-    dischargeNotesComplete: boolean;
+    pdvmId?: bigint;
+    checklist: Array<ChecklistEntry>;
     breed: string;
     species: Species;
-    cultureComplete: boolean;
+    attachments: Array<CaseAttachment>;
+    pdvmNotification?: PdvmNotification;
 }): {
     id: bigint;
     mrn: string;
     sex: _Sex;
+    status: _CaseStatus;
     todos: Array<_ToDoItem>;
-    pdvmNotified: boolean;
-    histoComplete: boolean;
     arrivalDate: _Time;
     presentingComplaint: string;
     dateOfBirth: string;
     patientLastName: string;
-    labsComplete: boolean;
+    closeOverride: [] | [_CloseOverride];
+    unitId: bigint;
+    version: bigint;
     patientFirstName: string;
-    imagingComplete: boolean;
-    surgeryReportComplete: boolean;
     notes: string;
-    dischargeNotesComplete: boolean;
+    pdvmId: [] | [bigint];
+    checklist: Array<_ChecklistEntry>;
     breed: string;
     species: _Species;
-    cultureComplete: boolean;
+    attachments: Array<_CaseAttachment>;
+    pdvmNotification: [] | [_PdvmNotification];
 } {
     return {
         id: value.id,
         mrn: value.mrn,
-        sex: to_candid_Sex_n5(_uploadFile, _downloadFile, value.sex),
-        todos: value.todos,
-        pdvmNotified: value.pdvmNotified,
-        histoComplete: value.histoComplete,
+        sex: to_candid_Sex_n42(_uploadFile, _downloadFile, value.sex),
+        status: to_candid_CaseStatus_n121(_uploadFile, _downloadFile, value.status),
+        todos: to_candid_vec_n123(_uploadFile, _downloadFile, value.todos),
         arrivalDate: value.arrivalDate,
         presentingComplaint: value.presentingComplaint,
         dateOfBirth: value.dateOfBirth,
         patientLastName: value.patientLastName,
-        labsComplete: value.labsComplete,
+        closeOverride: value.closeOverride ? candid_some(value.closeOverride) : candid_none(),
+        unitId: value.unitId,
+        version: value.version,
         patientFirstName: value.patientFirstName,
-        imagingComplete: value.imagingComplete,
-        surgeryReportComplete: value.surgeryReportComplete,
         notes: value.notes,
-        dischargeNotesComplete: value.dischargeNotesComplete,
+        pdvmId: value.pdvmId ? candid_some(value.pdvmId) : candid_none(),
+        checklist: to_candid_vec_n45(_uploadFile, _downloadFile, value.checklist),
         breed: value.breed,
-        species: to_candid_Species_n3(_uploadFile, _downloadFile, value.species),
-        cultureComplete: value.cultureComplete
+        species: to_candid_Species_n40(_uploadFile, _downloadFile, value.species),
+        attachments: value.attachments,
+        pdvmNotification: value.pdvmNotification ? candid_some(to_candid_PdvmNotification_n126(_uploadFile, _downloadFile, value.pdvmNotification)) : candid_none()
+    };
+}
+function to_candid_record_n125(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    completedAt?: Time;
+    assignee?: Principal;
+    createdAt?: Time;
+    createdBy?: Principal;
+    dueDate?: Time;
+    description: string;
+    complete: boolean;
+    priority: TodoPriority;
+}): {
+    id: bigint;
+    completedAt: [] | [_Time];
+    assignee: [] | [Principal];
+    createdAt: [] | [_Time];
+    createdBy: [] | [Principal];
+    dueDate: [] | [_Time];
+    description: string;
+    complete: boolean;
+    priority: _TodoPriority;
+} {
+    return {
+        id: value.id,
+        completedAt: value.completedAt ? candid_some(value.completedAt) : candid_none(),
+        assignee: value.assignee ? candid_some(value.assignee) : candid_none(),
+        createdAt: value.createdAt ? candid_some(value.createdAt) : candid_none(),
+        createdBy: value.createdBy ? candid_some(value.createdBy) : candid_none(),
+        dueDate: value.dueDate ? candid_some(value.dueDate) : candid_none(),
+        description: value.description,
+        complete: value.complete,
+        priority: to_candid_TodoPriority_n36(_uploadFile, _downloadFile, value.priority)
+    };
+}
+function to_candid_record_n127(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    method: NotificationMethod;
+    notifiedAt: Time;
+    notifiedBy: Principal;
+}): {
+    method: _NotificationMethod;
+    notifiedAt: _Time;
+    notifiedBy: Principal;
+} {
+    return {
+        method: to_candid_NotificationMethod_n55(_uploadFile, _downloadFile, value.method),
+        notifiedAt: value.notifiedAt,
+        notifiedBy: value.notifiedBy
+    };
+}
+function to_candid_record_n182(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    sex?: Sex;
+    status?: CaseStatus;
+    hasOpenTodos?: boolean;
+    arrivalTo?: Time;
+    arrivalFrom?: Time;
+    search?: string;
+    pdvmId?: bigint;
+    checklistComplete?: boolean;
+    species?: Species;
+}): {
+    sex: [] | [_Sex];
+    status: [] | [_CaseStatus];
+    hasOpenTodos: [] | [boolean];
+    arrivalTo: [] | [_Time];
+    arrivalFrom: [] | [_Time];
+    search: [] | [string];
+    pdvmId: [] | [bigint];
+    checklistComplete: [] | [boolean];
+    species: [] | [_Species];
+} {
+    return {
+        sex: value.sex ? candid_some(to_candid_Sex_n42(_uploadFile, _downloadFile, value.sex)) : candid_none(),
+        status: value.status ? candid_some(to_candid_CaseStatus_n121(_uploadFile, _downloadFile, value.status)) : candid_none(),
+        hasOpenTodos: value.hasOpenTodos ? candid_some(value.hasOpenTodos) : candid_none(),
+        arrivalTo: value.arrivalTo ? candid_some(value.arrivalTo) : candid_none(),
+        arrivalFrom: value.arrivalFrom ? candid_some(value.arrivalFrom) : candid_none(),
+        search: value.search ? candid_some(value.search) : candid_none(),
+        pdvmId: value.pdvmId ? candid_some(value.pdvmId) : candid_none(),
+        checklistComplete: value.checklistComplete ? candid_some(value.checklistComplete) : candid_none(),
+        species: value.species ? candid_some(to_candid_Species_n40(_uploadFile, _downloadFile, value.species)) : candid_none()
+    };
+}
+function to_candid_record_n190(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    title?: StaffTitle;
+    name: string;
+    initials: string;
+    credentials: string;
+    extension: string;
+}): {
+    title: [] | [_StaffTitle];
+    name: string;
+    initials: string;
+    credentials: string;
+    extension: string;
+} {
+    return {
+        title: value.title ? candid_some(to_candid_StaffTitle_n191(_uploadFile, _downloadFile, value.title)) : candid_none(),
+        name: value.name,
+        initials: value.initials,
+        credentials: value.credentials,
+        extension: value.extension
+    };
+}
+function to_candid_record_n35(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    assignee?: Principal;
+    dueDate?: Time;
+    priority: TodoPriority;
+}): {
+    assignee: [] | [Principal];
+    dueDate: [] | [_Time];
+    priority: _TodoPriority;
+} {
+    return {
+        assignee: value.assignee ? candid_some(value.assignee) : candid_none(),
+        dueDate: value.dueDate ? candid_some(value.dueDate) : candid_none(),
+        priority: to_candid_TodoPriority_n36(_uploadFile, _downloadFile, value.priority)
+    };
+}
+function to_candid_record_n47(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    key: string;
+    completedAt?: Time;
+    completedBy?: Principal;
+    complete: boolean;
+}): {
+    key: string;
+    completedAt: [] | [_Time];
+    completedBy: [] | [Principal];
+    complete: boolean;
+} {
+    return {
+        key: value.key,
+        completedAt: value.completedAt ? candid_some(value.completedAt) : candid_none(),
+        completedBy: value.completedBy ? candid_some(value.completedBy) : candid_none(),
+        complete: value.complete
+    };
+}
+function to_candid_record_n50(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    name: string;
+    email: string;
+    preferredContact: ContactMethod;
+    notes: string;
+    phones: Array<string>;
+}): {
+    name: string;
+    email: string;
+    preferredContact: _ContactMethod;
+    notes: string;
+    phones: Array<string>;
+} {
+    return {
+        name: value.name,
+        email: value.email,
+        preferredContact: to_candid_ContactMethod_n51(_uploadFile, _downloadFile, value.preferredContact),
+        notes: value.notes,
+        phones: value.phones
+    };
+}
+function to_candid_record_n62(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    fax: string;
+    email: string;
+    preferredContact: NotificationMethod;
+    vetName: string;
+    address: string;
+    notes: string;
+    phone: string;
+    clinicName: string;
+}): {
+    fax: string;
+    email: string;
+    preferredContact: _NotificationMethod;
+    vetName: string;
+    address: string;
+    notes: string;
+    phone: string;
+    clinicName: string;
+} {
+    return {
+        fax: value.fax,
+        email: value.email,
+        preferredContact: to_candid_NotificationMethod_n55(_uploadFile, _downloadFile, value.preferredContact),
+        vetName: value.vetName,
+        address: value.address,
+        notes: value.notes,
+        phone: value.phone,
+        clinicName: value.clinicName
     };
 }
-function to_candid_variant_n2(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): {
+function to_candid_variant_n122(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: CaseStatus): {
+    closed: null;
+} | {
+    discharged: null;
+} | {
+    admitted: null;
+} | {
+    inSurgery: null;
+} | {
+    awaitingResults: null;
+} | {
+    recovering: null;
+} {
+    return value == CaseStatus.closed ? {
+        closed: null
+    } : value == CaseStatus.discharged ? {
+        discharged: null
+    } : value == CaseStatus.admitted ? {
+        admitted: null
+    } : value == CaseStatus.inSurgery ? {
+        inSurgery: null
+    } : value == CaseStatus.awaitingResults ? {
+        awaitingResults: null
+    } : value == CaseStatus.recovering ? {
+        recovering: null
+    } : value;
+}
+function to_candid_variant_n184(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: CaseSortKey): {
+    mrn: null;
+} | {
+    arrivalNewest: null;
+} | {
+    arrivalOldest: null;
+} | {
+    patientName: null;
+} {
+    return value == CaseSortKey.mrn ? {
+        mrn: null
+    } : value == CaseSortKey.arrivalNewest ? {
+        arrivalNewest: null
+    } : value == CaseSortKey.arrivalOldest ? {
+        arrivalOldest: null
+    } : value == CaseSortKey.patientName ? {
+        patientName: null
+    } : value;
+}
+function to_candid_variant_n192(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: StaffTitle): {
+    dvm: null;
+} | {
+    technician: null;
+} | {
+    resident: null;
+} | {
+    student: null;
+} {
+    return value == StaffTitle.dvm ? {
+        dvm: null
+    } : value == StaffTitle.technician ? {
+        technician: null
+    } : value == StaffTitle.resident ? {
+        resident: null
+    } : value == StaffTitle.student ? {
+        student: null
+    } : value;
+}
+function to_candid_variant_n194(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UnitRole): {
+    member: null;
+} | {
+    unitAdmin: null;
+} {
+    return value == UnitRole.member ? {
+        member: null
+    } : value == UnitRole.unitAdmin ? {
+        unitAdmin: null
+    } : value;
+}
+function to_candid_variant_n37(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: TodoPriority): {
+    low: null;
+} | {
+    normal: null;
+} | {
+    high: null;
+} {
+    return value == TodoPriority.low ? {
+        low: null
+    } : value == TodoPriority.normal ? {
+        normal: null
+    } : value == TodoPriority.high ? {
+        high: null
+    } : value;
+}
+function to_candid_variant_n39(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): {
     admin: null;
 } | {
     user: null;
@@ -785,7 +4553,7 @@ function to_candid_variant_n2(_uploadFile: (file: ExternalBlob) => Promise<Uint8
         guest: null
     } : value;
 }
-function to_candid_variant_n4(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Species): {
+function to_candid_variant_n41(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Species): {
     other: null;
 } | {
     feline: null;
@@ -800,7 +4568,7 @@ function to_candid_variant_n4(_uploadFile: (file: ExternalBlob) => Promise<Uint8
         canine: null
     } : value;
 }
-function to_candid_variant_n6(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Sex): {
+function to_candid_variant_n43(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Sex): {
     female: null;
 } | {
     male: null;
@@ -823,8 +4591,86 @@ function to_candid_variant_n6(_uploadFile: (file: ExternalBlob) => Promise<Uint8
         unknown_: null
     } : value;
 }
-function to_candid_vec_n19(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<SurgeryCase>): Array<_SurgeryCase> {
-    return value.map((x)=>to_candid_SurgeryCase_n20(_uploadFile, _downloadFile, x));
+function to_candid_variant_n52(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ContactMethod): {
+    text: null;
+} | {
+    email: null;
+} | {
+    phone: null;
+} {
+    return value == ContactMethod.text ? {
+        text: null
+    } : value == ContactMethod.email ? {
+        email: null
+    } : value == ContactMethod.phone ? {
+        phone: null
+    } : value;
+}
+function to_candid_variant_n56(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: NotificationMethod): {
+    fax: null;
+} | {
+    text: null;
+} | {
+    email: null;
+} | {
+    phone: null;
+} {
+    return value == NotificationMethod.fax ? {
+        fax: null
+    } : value == NotificationMethod.text ? {
+        text: null
+    } : value == NotificationMethod.email ? {
+        email: null
+    } : value == NotificationMethod.phone ? {
+        phone: null
+    } : value;
+}
+function to_candid_variant_n60(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Permission): {
+    manageUsers: null;
+} | {
+    viewCases: null;
+} | {
+    importCases: null;
+} | {
+    exportCases: null;
+} | {
+    manageTodos: null;
+} | {
+    deleteCases: null;
+} | {
+    editDemographics: null;
+} | {
+    toggleChecklist: null;
+} {
+    return value == Permission.manageUsers ? {
+        manageUsers: null
+    } : value == Permission.viewCases ? {
+        viewCases: null
+    } : value == Permission.importCases ? {
+        importCases: null
+    } : value == Permission.exportCases ? {
+        exportCases: null
+    } : value == Permission.manageTodos ? {
+        manageTodos: null
+    } : value == Permission.deleteCases ? {
+        deleteCases: null
+    } : value == Permission.editDemographics ? {
+        editDemographics: null
+    } : value == Permission.toggleChecklist ? {
+        toggleChecklist: null
+    } : value;
+}
+function to_candid_vec_n118(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<SurgeryCase>): Array<_SurgeryCase> {
+    return value.map((x)=>to_candid_SurgeryCase_n119(_uploadFile, _downloadFile, x));
+}
+function to_candid_vec_n123(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<ToDoItem>): Array<_ToDoItem> {
+    return value.map((x)=>to_candid_ToDoItem_n124(_uploadFile, _downloadFile, x));
+}
+function to_candid_vec_n45(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<ChecklistEntry>): Array<_ChecklistEntry> {
+    return value.map((x)=>to_candid_ChecklistEntry_n46(_uploadFile, _downloadFile, x));
+}
+function to_candid_vec_n58(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<Permission>): Array<_Permission> {
+    return value.map((x)=>to_candid_Permission_n59(_uploadFile, _downloadFile, x));
 }
 export interface CreateActorOptions {
     agent?: Agent;
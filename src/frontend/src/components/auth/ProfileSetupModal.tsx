@@ -0,0 +1,180 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { useSaveCallerUserProfile } from '../../hooks/useQueries';
+import { isCanisterError } from '../../utils/apiResult';
+import { STAFF_TITLE_LABELS } from '../../utils/profiles';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import type { StaffTitle, UserProfile } from '../../backend';
+
+const PROFILE_FIELDS = ['name', 'credentials', 'extension', 'initials'] as const;
+
+type ProfileField = (typeof PROFILE_FIELDS)[number];
+
+function isProfileField(field: string): field is ProfileField {
+  return (PROFILE_FIELDS as readonly string[]).includes(field);
+}
+
+// Select value for profiles without a title
+const NO_TITLE = 'none';
+
+interface ProfileFormValues {
+  name: string;
+  title: string;
+  credentials: string;
+  extension: string;
+  initials: string;
+}
+
+interface ProfileSetupModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The saved profile to edit; null on first sign-in, when the dialog cannot be dismissed */
+  profile: UserProfile | null;
+}
+
+export default function ProfileSetupModal({ open, onOpenChange, profile }: ProfileSetupModalProps) {
+  const saveProfile = useSaveCallerUserProfile();
+  const { register, handleSubmit, watch, setValue, setError, reset, formState: { errors } } = useForm<ProfileFormValues>();
+
+  const title = watch('title');
+  const isFirstSetup = profile === null;
+
+  useEffect(() => {
+    if (open) {
+      reset({
+        name: profile?.name ?? '',
+        title: profile?.title ?? NO_TITLE,
+        credentials: profile?.credentials ?? '',
+        extension: profile?.extension ?? '',
+        initials: profile?.initials ?? '',
+      });
+    }
+  }, [open, profile, reset]);
+
+  const onSubmit = async (values: ProfileFormValues) => {
+    try {
+      await saveProfile.mutateAsync({
+        name: values.name.trim(),
+        title: values.title === NO_TITLE ? undefined : (values.title as StaffTitle),
+        credentials: values.credentials.trim(),
+        extension: values.extension.trim(),
+        initials: values.initials.trim().toUpperCase(),
+      });
+      toast.success('Profile saved');
+      onOpenChange(false);
+    } catch (error) {
+      if (isCanisterError(error, 'validation')) {
+        for (const fieldError of error.fieldErrors) {
+          if (isProfileField(fieldError.field)) {
+            setError(fieldError.field, { type: 'server', message: fieldError.message });
+          }
+        }
+      }
+      toast.error('Failed to save profile', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
+      console.error('Error saving profile:', error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (isFirstSetup ? undefined : onOpenChange(next))}>
+      <DialogContent
+        className="sm:max-w-lg"
+        showCloseButton={!isFirstSetup}
+        onEscapeKeyDown={(e) => isFirstSetup && e.preventDefault()}
+        onPointerDownOutside={(e) => isFirstSetup && e.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle>{isFirstSetup ? 'Set Up Your Profile' : 'Edit Profile'}</DialogTitle>
+          <DialogDescription>
+            Colleagues see your name and initials on case history, checklists and to-dos
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="profile-name">Name *</Label>
+            <Input
+              id="profile-name"
+              {...register('name', { validate: (value) => value.trim() !== '' || 'Name is required' })}
+              placeholder="e.g., Jane Smith"
+              aria-invalid={!!errors.name}
+            />
+            {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="profile-title">Role</Label>
+              <Select value={title} onValueChange={(value) => setValue('title', value)}>
+                <SelectTrigger id="profile-title">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TITLE}>Not specified</SelectItem>
+                  {Object.entries(STAFF_TITLE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="profile-credentials">Credentials</Label>
+              <Input
+                id="profile-credentials"
+                {...register('credentials')}
+                placeholder="e.g., DVM, DACVS"
+                aria-invalid={!!errors.credentials}
+              />
+              {errors.credentials && <p className="text-sm text-destructive">{errors.credentials.message}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="profile-extension">Extension</Label>
+              <Input
+                id="profile-extension"
+                inputMode="numeric"
+                {...register('extension', {
+                  validate: (value) => /^\d*$/.test(value.trim()) || 'Extension may only contain digits',
+                })}
+                aria-invalid={!!errors.extension}
+              />
+              {errors.extension && <p className="text-sm text-destructive">{errors.extension.message}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="profile-initials">Initials</Label>
+              <Input
+                id="profile-initials"
+                {...register('initials')}
+                placeholder="From your name if left blank"
+                maxLength={4}
+                aria-invalid={!!errors.initials}
+              />
+              {errors.initials && <p className="text-sm text-destructive">{errors.initials.message}</p>}
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            <Button type="submit" disabled={saveProfile.isPending}>
+              {saveProfile.isPending ? 'Saving...' : 'Save Profile'}
+            </Button>
+            {!isFirstSetup && (
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,316 @@
+import { useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { AlertCircle, Camera, FileText, Loader2, Paperclip, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  useAddCaseAttachment,
+  useAttachmentUrl,
+  useDeleteCaseAttachment,
+  useListUserDirectory,
+} from '../../hooks/useQueries';
+import { useCamera } from '../../camera/useCamera';
+import { isCanisterError } from '../../utils/apiResult';
+import { formatDateTime } from '../../utils/dateTime';
+import { formatAssignee } from '../../utils/todos';
+import type { Assignee, CaseAttachment } from '../../backend';
+
+// Matches the limit the canister enforces
+const MAX_ATTACHMENT_SIZE = 100 * 1024 * 1024;
+
+function formatFileSize(size: bigint): string {
+  const bytes = Number(size);
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+interface AttachmentTileProps {
+  attachment: CaseAttachment;
+  directory: Assignee[];
+  onDelete?: () => void;
+  isDeleting: boolean;
+}
+
+function AttachmentTile({ attachment, directory, onDelete, isDeleting }: AttachmentTileProps) {
+  const { data: url } = useAttachmentUrl(attachment.blobHash);
+  const isImage = attachment.mimeType.startsWith('image/');
+
+  return (
+    <div className="rounded-lg border overflow-hidden flex flex-col">
+      <a
+        href={url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="block aspect-square bg-muted"
+        aria-label={`Open ${attachment.filename}`}
+      >
+        {isImage && url ? (
+          <img src={url} alt={attachment.caption || attachment.filename} loading="lazy" className="h-full w-full object-cover" />
+        ) : (
+          <div className="flex h-full w-full items-center justify-center">
+            <FileText className="h-10 w-10 text-muted-foreground" />
+          </div>
+        )}
+      </a>
+      <div className="p-2 space-y-1 text-xs flex-1">
+        <div className="font-medium text-sm truncate" title={attachment.filename}>
+          {attachment.filename}
+        </div>
+        {attachment.caption && <p className="text-muted-foreground">{attachment.caption}</p>}
+        <p className="text-muted-foreground">
+          {formatFileSize(attachment.size)} · {formatAssignee(attachment.uploadedBy, directory)}
+        </p>
+        <p className="text-muted-foreground">{formatDateTime(attachment.uploadedAt)}</p>
+      </div>
+      {onDelete && (
+        <div className="px-2 pb-2">
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="ghost" size="sm" className="w-full" disabled={isDeleting}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete attachment?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {attachment.filename} will be removed from this case.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={onDelete}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                >
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface AttachmentsCardProps {
+  caseId: bigint;
+  attachments: CaseAttachment[];
+  /** Hides uploading and deleting, e.g. while offline */
+  readOnly?: boolean;
+}
+
+export default function AttachmentsCard({ caseId, attachments, readOnly }: AttachmentsCardProps) {
+  const { data: directory = [] } = useListUserDirectory();
+  const addAttachment = useAddCaseAttachment();
+  const deleteAttachment = useDeleteCaseAttachment();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [caption, setCaption] = useState('');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [showCamera, setShowCamera] = useState(false);
+
+  const {
+    isActive,
+    isSupported,
+    error: cameraError,
+    isLoading: cameraLoading,
+    startCamera,
+    stopCamera,
+    capturePhoto,
+    videoRef,
+    canvasRef,
+  } = useCamera({
+    facingMode: 'environment',
+    quality: 0.9,
+  });
+
+  const upload = async (file: File) => {
+    if (file.size === 0 || file.size > MAX_ATTACHMENT_SIZE) {
+      toast.error('Files must be between 1 byte and 100 MB');
+      return;
+    }
+    setProgress(0);
+    try {
+      await addAttachment.mutateAsync({ caseId, file, caption: caption.trim(), onProgress: setProgress });
+      setCaption('');
+      toast.success('File attached');
+    } catch (error) {
+      toast.error('Failed to attach file', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
+      console.error('Error attaching file:', error);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Reset so choosing the same file again still fires a change
+    e.target.value = '';
+    for (const file of files) {
+      await upload(file);
+    }
+  };
+
+  const handleOpenCamera = async () => {
+    setShowCamera(true);
+    const success = await startCamera();
+    if (!success) {
+      setShowCamera(false);
+    }
+  };
+
+  const handleCloseCamera = async () => {
+    await stopCamera();
+    setShowCamera(false);
+  };
+
+  const handleCapture = async () => {
+    const photo = await capturePhoto();
+    if (!photo) {
+      toast.error('Failed to capture photo');
+      return;
+    }
+    await handleCloseCamera();
+    await upload(photo);
+  };
+
+  const handleDelete = async (attachment: CaseAttachment) => {
+    try {
+      await deleteAttachment.mutateAsync({ caseId, attachmentId: attachment.id });
+      toast.success('Attachment deleted');
+    } catch (error) {
+      toast.error('Failed to delete attachment', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
+      console.error('Error deleting attachment:', error);
+    }
+  };
+
+  const isUploading = progress !== null;
+  const sortedAttachments = [...attachments].sort((a, b) => Number(b.uploadedAt - a.uploadedAt));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Attachments</CardTitle>
+        <CardDescription>Photos, radiographs and documents for this case</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!readOnly && !showCamera && (
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="attachmentCaption">Caption</Label>
+              <Input
+                id="attachmentCaption"
+                value={caption}
+                onChange={(e) => setCaption(e.target.value)}
+                placeholder="e.g., Post-op lateral radiograph"
+                maxLength={500}
+                disabled={isUploading}
+              />
+            </div>
+            <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleFileChange} />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isUploading}>
+              <Paperclip className="mr-2 h-4 w-4" />
+              Choose Files
+            </Button>
+            <Button variant="outline" onClick={handleOpenCamera} disabled={isUploading}>
+              <Camera className="mr-2 h-4 w-4" />
+              Take Photo
+            </Button>
+          </div>
+        )}
+
+        {showCamera && (
+          <div className="space-y-4 rounded-lg border p-4 bg-muted/50">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium flex items-center gap-2">
+                <Camera className="h-4 w-4" />
+                Take Photo
+              </h4>
+              <Button variant="ghost" size="sm" onClick={handleCloseCamera} disabled={cameraLoading}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {cameraError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{cameraError.message}</AlertDescription>
+              </Alert>
+            )}
+
+            {isSupported === false && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>Camera is not supported in this browser.</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="relative w-full bg-black rounded-lg overflow-hidden" style={{ aspectRatio: '4/3' }}>
+              <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+              <canvas ref={canvasRef} className="hidden" />
+            </div>
+
+            <Button onClick={handleCapture} disabled={!isActive || cameraLoading} className="w-full">
+              {cameraLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Initializing...
+                </>
+              ) : (
+                <>
+                  <Camera className="mr-2 h-4 w-4" />
+                  Capture and Attach
+                </>
+              )}
+            </Button>
+          </div>
+        )}
+
+        {isUploading && (
+          <div className="space-y-1">
+            <Progress value={progress} />
+            <p className="text-xs text-muted-foreground">Uploading... {progress}%</p>
+          </div>
+        )}
+
+        {sortedAttachments.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No attachments yet</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
+            {sortedAttachments.map((attachment) => (
+              <AttachmentTile
+                key={attachment.id.toString()}
+                attachment={attachment}
+                directory={directory}
+                onDelete={readOnly ? undefined : () => handleDelete(attachment)}
+                isDeleting={deleteAttachment.isPending}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,79 @@
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { useListChecklistDefinitions } from '../../hooks/useQueries';
+import { formatAuditValue, getAuditFieldLabel } from '../../utils/auditLog';
+import type { ConflictingField } from '../../utils/caseConflict';
+
+interface CaseConflictDialogProps {
+  open: boolean;
+  conflicts: ConflictingField[];
+  isSubmitting?: boolean;
+  onMerge: () => void;
+  onOverwrite: () => void;
+  onDiscard: () => void;
+}
+
+export default function CaseConflictDialog({
+  open,
+  conflicts,
+  isSubmitting,
+  onMerge,
+  onOverwrite,
+  onDiscard,
+}: CaseConflictDialogProps) {
+  const { data: definitions } = useListChecklistDefinitions();
+
+  return (
+    <AlertDialog open={open}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>This case was changed by someone else</AlertDialogTitle>
+          <AlertDialogDescription>
+            {conflicts.length === 0
+              ? 'Your edits touch different fields than theirs, so they can be merged safely.'
+              : 'Some fields were changed both by you and on the server. Merging keeps your values for these fields and their values everywhere else.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {conflicts.length > 0 && (
+          <div className="max-h-64 overflow-y-auto rounded-md border text-sm">
+            <div className="grid grid-cols-3 gap-2 border-b bg-muted/50 px-3 py-2 font-medium">
+              <span>Field</span>
+              <span>Yours</span>
+              <span>Theirs</span>
+            </div>
+            {conflicts.map((conflict) => (
+              <div key={conflict.field} className="grid grid-cols-3 gap-2 border-b px-3 py-2 last:border-b-0">
+                <span className="font-medium">{getAuditFieldLabel(conflict.field, definitions)}</span>
+                <span className="break-words">{formatAuditValue(conflict.field, conflict.mine)}</span>
+                <span className="break-words text-muted-foreground">
+                  {formatAuditValue(conflict.field, conflict.theirs)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onDiscard} disabled={isSubmitting}>
+            Discard Mine
+          </AlertDialogCancel>
+          <Button variant="outline" onClick={onOverwrite} disabled={isSubmitting}>
+            Overwrite with Mine
+          </Button>
+          <Button onClick={onMerge} disabled={isSubmitting}>
+            {isSubmitting ? 'Saving...' : 'Merge and Save'}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
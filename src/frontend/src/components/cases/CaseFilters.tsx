@@ -0,0 +1,218 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, X } from 'lucide-react';
+import { CaseSortKey } from '../../backend';
+import type { CaseFilter, CaseStatus, Species, Sex } from '../../backend';
+import { CASE_STATUS_LABELS } from '../../utils/caseStatus';
+import { dateStringToTime, timeToDateString } from '../../utils/dateTime';
+import { hasActiveFilter } from '../../utils/caseQuery';
+import { formatPdvmName } from '../../utils/pdvms';
+import { useListPdvms } from '../../hooks/useQueries';
+
+const NANOSECONDS_PER_DAY = BigInt(24 * 60 * 60 * 1000) * BigInt(1_000_000);
+
+interface CaseFiltersProps {
+  filter: CaseFilter;
+  sortKey: CaseSortKey;
+  onFilterChange: (filter: CaseFilter) => void;
+  onSortKeyChange: (sortKey: CaseSortKey) => void;
+}
+
+// Select values for tri-state boolean filters
+function booleanToSelectValue(value: boolean | undefined): string {
+  return value === undefined ? 'any' : value ? 'yes' : 'no';
+}
+
+function selectValueToBoolean(value: string): boolean | undefined {
+  return value === 'any' ? undefined : value === 'yes';
+}
+
+export default function CaseFilters({ filter, sortKey, onFilterChange, onSortKeyChange }: CaseFiltersProps) {
+  const { data: pdvms = [] } = useListPdvms();
+
+  const update = (changes: Partial<CaseFilter>) => {
+    onFilterChange({ ...filter, ...changes });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="flex flex-1 items-center gap-2">
+          <Search className="h-5 w-5 text-muted-foreground" />
+          <Input
+            placeholder="Search by MRN, patient, owner or complaint..."
+            value={filter.search ?? ''}
+            onChange={(e) => update({ search: e.target.value || undefined })}
+            className="max-w-md"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="whitespace-nowrap text-sm text-muted-foreground">Sort by:</span>
+          <Select value={sortKey} onValueChange={(value) => onSortKeyChange(value as CaseSortKey)}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={CaseSortKey.arrivalNewest}>Arrival Date (Newest)</SelectItem>
+              <SelectItem value={CaseSortKey.arrivalOldest}>Arrival Date (Oldest)</SelectItem>
+              <SelectItem value={CaseSortKey.mrn}>MRN (A-Z)</SelectItem>
+              <SelectItem value={CaseSortKey.patientName}>Patient Name (A-Z)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4 lg:grid-cols-8">
+        <div className="space-y-1">
+          <Label htmlFor="filter-status" className="text-xs">Status</Label>
+          <Select
+            value={filter.status ?? 'any'}
+            onValueChange={(value) => update({ status: value === 'any' ? undefined : (value as CaseStatus) })}
+          >
+            <SelectTrigger id="filter-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">All statuses</SelectItem>
+              {Object.entries(CASE_STATUS_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="filter-species" className="text-xs">Species</Label>
+          <Select
+            value={filter.species ?? 'any'}
+            onValueChange={(value) => update({ species: value === 'any' ? undefined : (value as Species) })}
+          >
+            <SelectTrigger id="filter-species">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">All species</SelectItem>
+              <SelectItem value="canine">Canine</SelectItem>
+              <SelectItem value="feline">Feline</SelectItem>
+              <SelectItem value="other">Other</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="filter-sex" className="text-xs">Sex</Label>
+          <Select
+            value={filter.sex ?? 'any'}
+            onValueChange={(value) => update({ sex: value === 'any' ? undefined : (value as Sex) })}
+          >
+            <SelectTrigger id="filter-sex">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">All</SelectItem>
+              <SelectItem value="male">Male</SelectItem>
+              <SelectItem value="female">Female</SelectItem>
+              <SelectItem value="maleNeutered">Male Neutered</SelectItem>
+              <SelectItem value="femaleSpayed">Female Spayed</SelectItem>
+              <SelectItem value="unknown">Unknown</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="filter-from" className="text-xs">Arrived from</Label>
+          <Input
+            id="filter-from"
+            type="date"
+            value={filter.arrivalFrom !== undefined ? timeToDateString(filter.arrivalFrom) : ''}
+            onChange={(e) =>
+              update({ arrivalFrom: e.target.value ? dateStringToTime(e.target.value) : undefined })
+            }
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="filter-to" className="text-xs">Arrived to</Label>
+          <Input
+            id="filter-to"
+            type="date"
+            value={filter.arrivalTo !== undefined ? timeToDateString(filter.arrivalTo) : ''}
+            onChange={(e) =>
+              update({
+                // Include the whole selected day
+                arrivalTo: e.target.value
+                  ? dateStringToTime(e.target.value) + NANOSECONDS_PER_DAY - BigInt(1)
+                  : undefined,
+              })
+            }
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="filter-checklist" className="text-xs">Checklist</Label>
+          <Select
+            value={booleanToSelectValue(filter.checklistComplete)}
+            onValueChange={(value) => update({ checklistComplete: selectValueToBoolean(value) })}
+          >
+            <SelectTrigger id="filter-checklist">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any</SelectItem>
+              <SelectItem value="yes">Complete</SelectItem>
+              <SelectItem value="no">Incomplete</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="filter-todos" className="text-xs">To-dos</Label>
+          <Select
+            value={booleanToSelectValue(filter.hasOpenTodos)}
+            onValueChange={(value) => update({ hasOpenTodos: selectValueToBoolean(value) })}
+          >
+            <SelectTrigger id="filter-todos">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any</SelectItem>
+              <SelectItem value="yes">Has open to-dos</SelectItem>
+              <SelectItem value="no">No open to-dos</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="filter-pdvm" className="text-xs">Referrer</Label>
+          <Select
+            value={filter.pdvmId?.toString() ?? 'any'}
+            onValueChange={(value) => update({ pdvmId: value === 'any' ? undefined : BigInt(value) })}
+          >
+            <SelectTrigger id="filter-pdvm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">All referrers</SelectItem>
+              {pdvms.map((pdvm) => (
+                <SelectItem key={pdvm.id.toString()} value={pdvm.id.toString()}>
+                  {formatPdvmName(pdvm)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {hasActiveFilter(filter) && (
+        <Button variant="ghost" size="sm" onClick={() => onFilterChange({})}>
+          <X className="mr-2 h-4 w-4" />
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+}
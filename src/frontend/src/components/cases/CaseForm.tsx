@@ -1,19 +1,53 @@
 import { useForm } from 'react-hook-form';
-import { useEffect, useRef } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { getTodayDateString, dateStringToTime, timeToDateString } from '../../utils/dateTime';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { getTodayDateString, dateStringToTime, timeToDateString, formatDateTime } from '../../utils/dateTime';
 import QuickAddDemographics from './QuickAddDemographics';
-import { findMostRecentCaseByMRN } from '../../utils/caseMatching';
+import TemplatePicker from './TemplatePicker';
 import { toast } from 'sonner';
-import type { SurgeryCase, Species, Sex } from '../../backend';
+import {
+  useListChecklistDefinitions,
+  useListUserDirectory,
+  useListCaseTemplates,
+  useListOrgUnits,
+  useListOwners,
+  useListPatients,
+  useListPdvms,
+  useHasPermission,
+} from '../../hooks/useQueries';
+import { findMatchingTemplate } from '../../utils/caseTemplates';
+import { checklistToRecord, getVisibleChecklistDefinitions, recordToChecklist } from '../../utils/checklist';
+import { CONTACT_METHOD_LABELS, formatPhoneList, parsePhoneList } from '../../utils/owners';
+import { NOTIFICATION_METHOD_LABELS, PDVM_NOTIFIED_KEY, formatPdvmName } from '../../utils/pdvms';
+import { formatAssignee } from '../../utils/todos';
+import { Permission } from '../../backend';
+import type {
+  SurgeryCase,
+  Species,
+  Sex,
+  ChecklistEntry,
+  CaseTemplate,
+  ContactMethod,
+  FieldError,
+  NotificationMethod,
+  OwnerDetails,
+} from '../../backend';
 import type { ParsedDemographics } from '../../utils/demographicsParser';
 
+// Items pre-checked on new cases. pdvmNotified is left for whoever actually tells the
+// referring vet, since ticking it records when and how they were told.
+const NEW_CASE_CHECKLIST_DEFAULTS: Record<string, boolean> = {
+  dischargeNotes: true,
+};
+
 export interface CaseFormData {
   mrn: string;
   patientFirstName: string;
@@ -24,14 +58,70 @@ export interface CaseFormData {
   breed: string;
   sex: Sex;
   presentingComplaint: string;
-  dischargeNotesComplete: boolean;
-  pdvmNotified: boolean;
-  labsComplete: boolean;
-  histoComplete: boolean;
-  surgeryReportComplete: boolean;
-  imagingComplete: boolean;
-  cultureComplete: boolean;
+  checklist: ChecklistEntry[];
+  notes: string;
+  /** To-dos seeded from the selected template; only used when creating a case */
+  templateTodos?: string[];
+  /** Owner contact details entered for the patient; only used when creating a case */
+  owner?: OwnerDetails;
+  /** Referring vet (see listPdvms) */
+  pdvmId?: bigint;
+  /** How the pDVM was told, when pdvmNotified is ticked in this edit */
+  pdvmNotificationMethod?: NotificationMethod;
+  /** Unit the case is filed under; only used when creating a case */
+  unitId?: bigint;
+}
+
+interface CaseFormValues {
+  mrn: string;
+  patientFirstName: string;
+  patientLastName: string;
+  dateOfBirth: string;
+  arrivalDate: string;
+  species: Species;
+  breed: string;
+  sex: Sex;
+  presentingComplaint: string;
+  checklist: Record<string, boolean>;
   notes: string;
+  owner: {
+    name: string;
+    phones: string;
+    email: string;
+    preferredContact: ContactMethod;
+  };
+  /** Referring vet id, or NO_PDVM */
+  pdvmId: string;
+  /** Empty until chosen; the canister then assumes the referrer's preferred method */
+  pdvmNotificationMethod: NotificationMethod | '';
+  /** Empty until chosen; the canister then uses the caller's only unit */
+  unitId: string;
+}
+
+const NO_PDVM = 'none';
+
+// Fields the canister validates that have an input on this form
+const SERVER_VALIDATED_FIELDS = [
+  'mrn',
+  'patientFirstName',
+  'patientLastName',
+  'dateOfBirth',
+  'arrivalDate',
+  'breed',
+  'presentingComplaint',
+  'notes',
+  'pdvmId',
+  'unitId',
+  'owner.name',
+  'owner.phones',
+  'owner.email',
+  'owner.preferredContact',
+] as const;
+
+type ServerValidatedField = (typeof SERVER_VALIDATED_FIELDS)[number];
+
+function isServerValidatedField(field: string): field is ServerValidatedField {
+  return (SERVER_VALIDATED_FIELDS as readonly string[]).includes(field);
 }
 
 interface CaseFormProps {
@@ -39,33 +129,33 @@ interface CaseFormProps {
   onSubmit: (data: CaseFormData) => void;
   onCancel: () => void;
   isSubmitting?: boolean;
-  existingCases?: SurgeryCase[];
+  /** Per-field errors from the canister's last rejection of this form */
+  fieldErrors?: FieldError[];
 }
 
-export default function CaseForm({ initialData, onSubmit, onCancel, isSubmitting, existingCases = [] }: CaseFormProps) {
+export default function CaseForm({
+  initialData,
+  onSubmit,
+  onCancel,
+  isSubmitting,
+  fieldErrors,
+}: CaseFormProps) {
   const defaultArrivalDate = initialData ? timeToDateString(initialData.arrivalDate) : getTodayDateString();
   const isNewCase = !initialData;
   const lastCheckedMRN = useRef<string>('');
+  const { data: definitions = [] } = useListChecklistDefinitions();
+  const { data: templates = [] } = useListCaseTemplates();
+  const { data: patients = [] } = useListPatients();
+  const { data: owners = [] } = useListOwners();
+  const { data: pdvms = [] } = useListPdvms();
+  const { data: directory = [] } = useListUserDirectory();
+  const { data: units = [] } = useListOrgUnits();
+  const canEditDetails = useHasPermission(Permission.editDemographics);
+  const canToggleChecklist = useHasPermission(Permission.toggleChecklist);
+  const [selectedTemplate, setSelectedTemplate] = useState<CaseTemplate | null>(null);
+  const [isTemplateManual, setIsTemplateManual] = useState(false);
   
-  const { register, handleSubmit, watch, setValue, getValues, formState: { errors } } = useForm<{
-    mrn: string;
-    patientFirstName: string;
-    patientLastName: string;
-    dateOfBirth: string;
-    arrivalDate: string;
-    species: Species;
-    breed: string;
-    sex: Sex;
-    presentingComplaint: string;
-    dischargeNotesComplete: boolean;
-    pdvmNotified: boolean;
-    labsComplete: boolean;
-    histoComplete: boolean;
-    surgeryReportComplete: boolean;
-    imagingComplete: boolean;
-    cultureComplete: boolean;
-    notes: string;
-  }>({
+  const { register, handleSubmit, watch, setValue, getValues, setError, formState: { errors } } = useForm<CaseFormValues>({
     defaultValues: {
       mrn: initialData?.mrn || '',
       patientFirstName: initialData?.patientFirstName || '',
@@ -76,29 +166,57 @@ export default function CaseForm({ initialData, onSubmit, onCancel, isSubmitting
       breed: initialData?.breed || '',
       sex: (initialData?.sex || 'unknown_') as Sex,
       presentingComplaint: initialData?.presentingComplaint || '',
-      dischargeNotesComplete: initialData?.dischargeNotesComplete ?? (isNewCase ? true : false),
-      pdvmNotified: initialData?.pdvmNotified ?? (isNewCase ? true : false),
-      labsComplete: initialData?.labsComplete || false,
-      histoComplete: initialData?.histoComplete || false,
-      surgeryReportComplete: initialData?.surgeryReportComplete || false,
-      imagingComplete: initialData?.imagingComplete || false,
-      cultureComplete: initialData?.cultureComplete || false,
+      checklist: initialData ? checklistToRecord(initialData.checklist) : { ...NEW_CASE_CHECKLIST_DEFAULTS },
       notes: initialData?.notes || '',
+      owner: { name: '', phones: '', email: '', preferredContact: 'phone' as ContactMethod },
+      pdvmId: initialData?.pdvmId?.toString() ?? NO_PDVM,
+      pdvmNotificationMethod: '',
+      unitId: '',
     },
   });
 
   const mrn = watch('mrn');
   const species = watch('species');
   const sex = watch('sex');
-  const dischargeNotesComplete = watch('dischargeNotesComplete');
-  const pdvmNotified = watch('pdvmNotified');
-  const labsComplete = watch('labsComplete');
-  const histoComplete = watch('histoComplete');
-  const surgeryReportComplete = watch('surgeryReportComplete');
-  const imagingComplete = watch('imagingComplete');
-  const cultureComplete = watch('cultureComplete');
-
-  // Duplicate MRN detection and auto-fill (only for new cases)
+  const presentingComplaint = watch('presentingComplaint');
+  const checklist = watch('checklist');
+  const preferredContact = watch('owner.preferredContact');
+  const pdvmId = watch('pdvmId');
+  const pdvmNotificationMethod = watch('pdvmNotificationMethod');
+  const unitId = watch('unitId');
+  // Users in one unit file every case there, so they are not asked
+  const isChoosingUnit = isNewCase && units.length > 1;
+  const selectedPdvm = pdvms.find((pdvm) => pdvm.id.toString() === pdvmId);
+  // The canister stamps the notification when pdvmNotified is ticked in this save
+  const isNotifyingPdvm = !!checklist[PDVM_NOTIFIED_KEY] && !initialData?.pdvmNotification;
+
+  // Fall back to the keys already on the case when definitions are unavailable (e.g. offline)
+  const checklistItems = definitions.length > 0
+    ? getVisibleChecklistDefinitions(definitions, recordToChecklist(checklist)).map((definition) => ({
+        key: definition.key,
+        title: definition.retired ? `${definition.title} (retired)` : definition.title,
+      }))
+    : Object.keys(checklist).map((key) => ({ key, title: key }));
+
+  // When and by whom a saved item was completed, while it is still ticked in the form
+  const getCompletionText = (key: string): string | undefined => {
+    const entry = initialData?.checklist.find((item) => item.key === key);
+    if (!checklist[key] || !entry?.complete || entry.completedAt === undefined) return undefined;
+    return `Completed ${formatDateTime(entry.completedAt)}${
+      entry.completedBy ? ` by ${formatAssignee(entry.completedBy, directory)}` : ''
+    }`;
+  };
+
+  // Highlight the fields the canister rejected
+  useEffect(() => {
+    for (const fieldError of fieldErrors ?? []) {
+      if (isServerValidatedField(fieldError.field)) {
+        setError(fieldError.field, { type: 'server', message: fieldError.message });
+      }
+    }
+  }, [fieldErrors, setError]);
+
+  // Returning patient detection and auto-fill (only for new cases)
   useEffect(() => {
     if (!isNewCase || !mrn || mrn.trim() === '') {
       return;
@@ -113,26 +231,70 @@ export default function CaseForm({ initialData, onSubmit, onCancel, isSubmitting
 
     lastCheckedMRN.current = trimmedMRN;
 
-    const matchingCase = findMostRecentCaseByMRN(trimmedMRN, existingCases);
+    const patient = patients.find((p) => p.mrn === trimmedMRN);
 
-    if (matchingCase) {
-      // Show alert
-      toast.info('Duplicate MRN detected', {
-        description: `Auto-filling demographics from existing case for ${matchingCase.patientFirstName} ${matchingCase.patientLastName}`,
+    if (patient) {
+      toast.info('Returning patient', {
+        description: `Auto-filling demographics from the patient record for ${patient.firstName} ${patient.lastName}`,
       });
 
-      // Auto-fill demographics
-      setValue('mrn', matchingCase.mrn);
-      setValue('dateOfBirth', matchingCase.dateOfBirth);
-      setValue('patientFirstName', matchingCase.patientFirstName);
-      setValue('patientLastName', matchingCase.patientLastName);
-      setValue('species', matchingCase.species);
-      setValue('breed', matchingCase.breed);
-      setValue('sex', matchingCase.sex);
+      setValue('mrn', patient.mrn);
+      setValue('dateOfBirth', patient.dateOfBirth);
+      setValue('patientFirstName', patient.firstName);
+      setValue('patientLastName', patient.lastName);
+      setValue('species', patient.species);
+      setValue('breed', patient.breed);
+      setValue('sex', patient.sex);
+
+      const owner = owners.find((o) => o.id === patient.ownerId);
+      if (owner) {
+        setValue('owner', {
+          name: owner.name,
+          phones: formatPhoneList(owner.phones),
+          email: owner.email,
+          preferredContact: owner.preferredContact,
+        });
+      }
+    }
+  }, [mrn, isNewCase, patients, owners, setValue]);
+
+  // Adds the template's items as outstanding and drops the previous template's untouched ones.
+  // Ticks are only ever changed by the user.
+  const applyTemplate = useCallback(
+    (template: CaseTemplate | null) => {
+      const checklist = { ...getValues('checklist') };
+      for (const key of selectedTemplate?.checklistKeys ?? []) {
+        if (!checklist[key] && !(key in NEW_CASE_CHECKLIST_DEFAULTS) && !template?.checklistKeys.includes(key)) {
+          delete checklist[key];
+        }
+      }
+      for (const key of template?.checklistKeys ?? []) {
+        checklist[key] = checklist[key] ?? false;
+      }
+      setSelectedTemplate(template);
+      setValue('checklist', checklist);
+    },
+    [selectedTemplate, getValues, setValue]
+  );
+
+  // Auto-select the best matching template until the user picks one (only for new cases)
+  useEffect(() => {
+    if (!isNewCase || isTemplateManual) {
+      return;
+    }
+
+    const match = findMatchingTemplate(templates, species, presentingComplaint);
+    if (match?.id !== selectedTemplate?.id) {
+      applyTemplate(match);
     }
-  }, [mrn, isNewCase, existingCases, setValue]);
+  }, [isNewCase, isTemplateManual, templates, species, presentingComplaint, selectedTemplate, applyTemplate]);
+
+  const handleTemplateChange = (template: CaseTemplate | null) => {
+    setIsTemplateManual(true);
+    applyTemplate(template);
+  };
 
-  const handleQuickAddApply = (demographics: ParsedDemographics) => {
+  const handleQuickAddApply = (demographics: ParsedDemographics, template: CaseTemplate | null) => {
     // Apply parsed demographics to form fields
     if (demographics.mrn) setValue('mrn', demographics.mrn);
     if (demographics.patientFirstName) setValue('patientFirstName', demographics.patientFirstName);
@@ -142,167 +304,355 @@ export default function CaseForm({ initialData, onSubmit, onCancel, isSubmitting
     if (demographics.breed) setValue('breed', demographics.breed);
     if (demographics.sex) setValue('sex', demographics.sex);
     if (demographics.arrivalDate) setValue('arrivalDate', demographics.arrivalDate);
+    if (demographics.ownerName) setValue('owner.name', demographics.ownerName);
+    if (demographics.ownerPhones) setValue('owner.phones', demographics.ownerPhones);
+    if (demographics.ownerEmail) setValue('owner.email', demographics.ownerEmail);
+    if (demographics.ownerPreferredContact) setValue('owner.preferredContact', demographics.ownerPreferredContact);
+    if (template) handleTemplateChange(template);
   };
 
-  const onFormSubmit = (data: any) => {
+  const onFormSubmit = ({ owner, pdvmId, pdvmNotificationMethod, unitId, ...data }: CaseFormValues) => {
+    if (isChoosingUnit && !unitId) {
+      setError('unitId', { type: 'required', message: 'Unit is required' });
+      return;
+    }
+    // Owner details are optional; a blank name means none were entered
+    const hasOwner = isNewCase && owner.name.trim() !== '';
     const formData: CaseFormData = {
       ...data,
       arrivalDate: dateStringToTime(data.arrivalDate),
+      checklist: recordToChecklist(data.checklist),
+      templateTodos: isNewCase ? selectedTemplate?.todoDescriptions ?? [] : undefined,
+      pdvmId: pdvmId === NO_PDVM ? undefined : BigInt(pdvmId),
+      pdvmNotificationMethod: isNotifyingPdvm && pdvmNotificationMethod ? pdvmNotificationMethod : undefined,
+      unitId: isNewCase && unitId ? BigInt(unitId) : undefined,
+      owner: hasOwner
+        ? {
+            name: owner.name.trim(),
+            phones: parsePhoneList(owner.phones),
+            email: owner.email.trim(),
+            preferredContact: owner.preferredContact,
+            notes: '',
+          }
+        : undefined,
     };
     onSubmit(formData);
   };
 
   return (
     <form onSubmit={handleSubmit(onFormSubmit)} className="space-y-8">
-      {/* Patient Demographics */}
-      <div className="space-y-4">
-        <h3 className="text-lg font-semibold">Patient Demographics</h3>
-
-        {/* Quick Add Section - only show on new case */}
-        {isNewCase && (
-          <QuickAddDemographics
-            onApply={handleQuickAddApply}
-            currentValues={{
-              mrn: getValues('mrn'),
-              patientFirstName: getValues('patientFirstName'),
-              patientLastName: getValues('patientLastName'),
-              dateOfBirth: getValues('dateOfBirth'),
-              species: getValues('species'),
-              breed: getValues('breed'),
-              sex: getValues('sex'),
-              arrivalDate: getValues('arrivalDate'),
-            }}
-          />
-        )}
-
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <div className="space-y-2">
-            <Label htmlFor="mrn">Medical Record Number (MRN) *</Label>
-            <Input
-              id="mrn"
-              {...register('mrn', { required: 'MRN is required' })}
-              placeholder="e.g., 12345"
-            />
-            {errors.mrn && (
-              <p className="text-sm text-destructive">{errors.mrn.message}</p>
-            )}
+      <fieldset disabled={!canEditDetails} className="space-y-8">
+        {/* Patient Demographics */}
+        <div className="space-y-4">
+          <div>
+            <h3 className="text-lg font-semibold">Patient Demographics</h3>
+            <p className="text-sm text-muted-foreground">
+              Demographics belong to the patient, so changes apply to all of their visits. If another unit has also seen them, only this case changes.
+            </p>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="dateOfBirth">Date of Birth</Label>
-            <Input
-              id="dateOfBirth"
-              type="date"
-              {...register('dateOfBirth')}
+          {/* Quick Add Section - only show on new case */}
+          {isNewCase && (
+            <QuickAddDemographics
+              onApply={handleQuickAddApply}
+              templates={templates}
+              currentValues={{
+                mrn: getValues('mrn'),
+                patientFirstName: getValues('patientFirstName'),
+                patientLastName: getValues('patientLastName'),
+                dateOfBirth: getValues('dateOfBirth'),
+                species: getValues('species'),
+                breed: getValues('breed'),
+                sex: getValues('sex'),
+                arrivalDate: getValues('arrivalDate'),
+                ownerName: getValues('owner.name'),
+                ownerPhones: getValues('owner.phones'),
+                ownerEmail: getValues('owner.email'),
+                ownerPreferredContact: getValues('owner.preferredContact'),
+              }}
             />
-          </div>
+          )}
 
-          <div className="space-y-2">
-            <Label htmlFor="patientFirstName">Patient First Name *</Label>
-            <Input
-              id="patientFirstName"
-              {...register('patientFirstName', { required: 'First name is required' })}
-              placeholder="e.g., Max"
-            />
-            {errors.patientFirstName && (
-              <p className="text-sm text-destructive">{errors.patientFirstName.message}</p>
-            )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="mrn">Medical Record Number (MRN) *</Label>
+              <Input
+                id="mrn"
+                {...register('mrn', {
+                  validate: (value) => value.trim() !== '' || 'MRN is required',
+                })}
+                placeholder="e.g., 12345"
+                aria-invalid={!!errors.mrn}
+              />
+              {errors.mrn && (
+                <p className="text-sm text-destructive">{errors.mrn.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="dateOfBirth">Date of Birth</Label>
+              <Input
+                id="dateOfBirth"
+                type="date"
+                max={getTodayDateString()}
+                {...register('dateOfBirth')}
+                aria-invalid={!!errors.dateOfBirth}
+              />
+              {errors.dateOfBirth && (
+                <p className="text-sm text-destructive">{errors.dateOfBirth.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="patientFirstName">Patient First Name *</Label>
+              <Input
+                id="patientFirstName"
+                {...register('patientFirstName', { required: 'First name is required' })}
+                placeholder="e.g., Max"
+                aria-invalid={!!errors.patientFirstName}
+              />
+              {errors.patientFirstName && (
+                <p className="text-sm text-destructive">{errors.patientFirstName.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="patientLastName">Patient Last Name *</Label>
+              <Input
+                id="patientLastName"
+                {...register('patientLastName', { required: 'Last name is required' })}
+                placeholder="e.g., Smith"
+                aria-invalid={!!errors.patientLastName}
+              />
+              {errors.patientLastName && (
+                <p className="text-sm text-destructive">{errors.patientLastName.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="species">Species *</Label>
+              <Select value={species} onValueChange={(value) => setValue('species', value as Species)}>
+                <SelectTrigger id="species">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="canine">Canine</SelectItem>
+                  <SelectItem value="feline">Feline</SelectItem>
+                  <SelectItem value="other">Other</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="breed">Breed</Label>
+              <Input
+                id="breed"
+                {...register('breed')}
+                placeholder="e.g., Labrador Retriever"
+                aria-invalid={!!errors.breed}
+              />
+              {errors.breed && (
+                <p className="text-sm text-destructive">{errors.breed.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="sex">Sex</Label>
+              <Select value={sex} onValueChange={(value) => setValue('sex', value as Sex)}>
+                <SelectTrigger id="sex">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="male">Male</SelectItem>
+                  <SelectItem value="female">Female</SelectItem>
+                  <SelectItem value="maleNeutered">Male Neutered</SelectItem>
+                  <SelectItem value="femaleSpayed">Female Spayed</SelectItem>
+                  <SelectItem value="unknown_">Unknown</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="arrivalDate">Arrival Date *</Label>
+              <Input
+                id="arrivalDate"
+                type="date"
+                {...register('arrivalDate', { required: 'Arrival date is required' })}
+                aria-invalid={!!errors.arrivalDate}
+              />
+              {errors.arrivalDate && (
+                <p className="text-sm text-destructive">{errors.arrivalDate.message}</p>
+              )}
+            </div>
           </div>
+        </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="patientLastName">Patient Last Name *</Label>
-            <Input
-              id="patientLastName"
-              {...register('patientLastName', { required: 'Last name is required' })}
-              placeholder="e.g., Smith"
+        {/* Owner - edited on the patient's owner record once the case exists */}
+        {isNewCase && (
+          <>
+            <Separator />
+
+            <div className="space-y-4">
+              <div>
+                <h3 className="text-lg font-semibold">Owner</h3>
+                <p className="text-sm text-muted-foreground">
+                  Optional. Updates the patient's owner record, or creates one if the patient has none.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="ownerName">Owner Name</Label>
+                  <Input
+                    id="ownerName"
+                    {...register('owner.name')}
+                    placeholder="e.g., Jane Smith"
+                    aria-invalid={!!errors.owner?.name}
+                  />
+                  {errors.owner?.name && (
+                    <p className="text-sm text-destructive">{errors.owner.name.message}</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="ownerPhones">Phone Numbers</Label>
+                  <Input
+                    id="ownerPhones"
+                    {...register('owner.phones')}
+                    placeholder="e.g., 555-123-4567, 555-987-6543"
+                    aria-invalid={!!errors.owner?.phones}
+                  />
+                  {errors.owner?.phones && (
+                    <p className="text-sm text-destructive">{errors.owner.phones.message}</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="ownerEmail">Email</Label>
+                  <Input
+                    id="ownerEmail"
+                    type="email"
+                    {...register('owner.email')}
+                    placeholder="e.g., jane@example.com"
+                    aria-invalid={!!errors.owner?.email}
+                  />
+                  {errors.owner?.email && (
+                    <p className="text-sm text-destructive">{errors.owner.email.message}</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="ownerPreferredContact">Preferred Contact</Label>
+                  <Select
+                    value={preferredContact}
+                    onValueChange={(value) => setValue('owner.preferredContact', value as ContactMethod)}
+                  >
+                    <SelectTrigger id="ownerPreferredContact" aria-invalid={!!errors.owner?.preferredContact}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(CONTACT_METHOD_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {errors.owner?.preferredContact && (
+                    <p className="text-sm text-destructive">{errors.owner.preferredContact.message}</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+
+        <Separator />
+
+        {/* Case Information */}
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold">Case Information</h3>
+
+          {isChoosingUnit && (
+            <div className="space-y-2">
+              <Label htmlFor="unitId">Unit *</Label>
+              <Select value={unitId} onValueChange={(value) => setValue('unitId', value, { shouldValidate: true })}>
+                <SelectTrigger id="unitId" aria-invalid={!!errors.unitId}>
+                  <SelectValue placeholder="Choose a unit" />
+                </SelectTrigger>
+                <SelectContent>
+                  {units.map((unit) => (
+                    <SelectItem key={unit.id.toString()} value={unit.id.toString()}>
+                      {unit.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errors.unitId && (
+                <p className="text-sm text-destructive">{errors.unitId.message}</p>
+              )}
+            </div>
+          )}
+
+          {isNewCase && templates.length > 0 && (
+            <TemplatePicker
+              id="template"
+              templates={templates}
+              value={selectedTemplate}
+              isAutoSelected={!isTemplateManual}
+              onChange={handleTemplateChange}
             />
-            {errors.patientLastName && (
-              <p className="text-sm text-destructive">{errors.patientLastName.message}</p>
-            )}
-          </div>
+          )}
 
           <div className="space-y-2">
-            <Label htmlFor="species">Species *</Label>
-            <Select value={species} onValueChange={(value) => setValue('species', value as Species)}>
-              <SelectTrigger id="species">
+            <Label htmlFor="pdvmId">Referring Veterinarian</Label>
+            <Select value={pdvmId} onValueChange={(value) => setValue('pdvmId', value)}>
+              <SelectTrigger id="pdvmId" aria-invalid={!!errors.pdvmId}>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="canine">Canine</SelectItem>
-                <SelectItem value="feline">Feline</SelectItem>
-                <SelectItem value="other">Other</SelectItem>
+                <SelectItem value={NO_PDVM}>None</SelectItem>
+                {pdvms.map((pdvm) => (
+                  <SelectItem key={pdvm.id.toString()} value={pdvm.id.toString()}>
+                    {formatPdvmName(pdvm)}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
+            {errors.pdvmId && (
+              <p className="text-sm text-destructive">{errors.pdvmId.message}</p>
+            )}
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="breed">Breed</Label>
-            <Input
-              id="breed"
-              {...register('breed')}
-              placeholder="e.g., Labrador Retriever"
+            <Label htmlFor="presentingComplaint">Presenting Complaint *</Label>
+            <Textarea
+              id="presentingComplaint"
+              {...register('presentingComplaint', { required: 'Presenting complaint is required' })}
+              placeholder="Describe the reason for the visit..."
+              rows={4}
+              aria-invalid={!!errors.presentingComplaint}
             />
+            {errors.presentingComplaint && (
+              <p className="text-sm text-destructive">{errors.presentingComplaint.message}</p>
+            )}
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="sex">Sex</Label>
-            <Select value={sex} onValueChange={(value) => setValue('sex', value as Sex)}>
-              <SelectTrigger id="sex">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="male">Male</SelectItem>
-                <SelectItem value="female">Female</SelectItem>
-                <SelectItem value="maleNeutered">Male Neutered</SelectItem>
-                <SelectItem value="femaleSpayed">Female Spayed</SelectItem>
-                <SelectItem value="unknown_">Unknown</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="arrivalDate">Arrival Date *</Label>
-            <Input
-              id="arrivalDate"
-              type="date"
-              {...register('arrivalDate', { required: 'Arrival date is required' })}
+            <Label htmlFor="notes">Case Notes</Label>
+            <Textarea
+              id="notes"
+              {...register('notes')}
+              placeholder="Add any additional notes about this case..."
+              rows={4}
+              aria-invalid={!!errors.notes}
             />
-            {errors.arrivalDate && (
-              <p className="text-sm text-destructive">{errors.arrivalDate.message}</p>
+            {errors.notes && (
+              <p className="text-sm text-destructive">{errors.notes.message}</p>
             )}
           </div>
         </div>
-      </div>
-
-      <Separator />
-
-      {/* Case Information */}
-      <div className="space-y-4">
-        <h3 className="text-lg font-semibold">Case Information</h3>
-
-        <div className="space-y-2">
-          <Label htmlFor="presentingComplaint">Presenting Complaint *</Label>
-          <Textarea
-            id="presentingComplaint"
-            {...register('presentingComplaint', { required: 'Presenting complaint is required' })}
-            placeholder="Describe the reason for the visit..."
-            rows={4}
-          />
-          {errors.presentingComplaint && (
-            <p className="text-sm text-destructive">{errors.presentingComplaint.message}</p>
-          )}
-        </div>
-
-        <div className="space-y-2">
-          <Label htmlFor="notes">Case Notes</Label>
-          <Textarea
-            id="notes"
-            {...register('notes')}
-            placeholder="Add any additional notes about this case..."
-            rows={4}
-          />
-        </div>
-      </div>
+      </fieldset>
 
       <Separator />
 
@@ -310,82 +660,76 @@ export default function CaseForm({ initialData, onSubmit, onCancel, isSubmitting
       <div className="space-y-4">
         <h3 className="text-lg font-semibold">Case Checklist</h3>
         <div className="space-y-3">
-          <div className="flex items-center space-x-2">
-            <Checkbox
-              id="dischargeNotesComplete"
-              checked={dischargeNotesComplete}
-              onCheckedChange={(checked) => setValue('dischargeNotesComplete', checked as boolean)}
-            />
-            <Label htmlFor="dischargeNotesComplete" className="cursor-pointer">
-              Discharge Notes Complete
-            </Label>
-          </div>
-
-          <div className="flex items-center space-x-2">
-            <Checkbox
-              id="pdvmNotified"
-              checked={pdvmNotified}
-              onCheckedChange={(checked) => setValue('pdvmNotified', checked as boolean)}
-            />
-            <Label htmlFor="pdvmNotified" className="cursor-pointer">
-              pDVM Notified
-            </Label>
-          </div>
-
-          <div className="flex items-center space-x-2">
-            <Checkbox
-              id="labsComplete"
-              checked={labsComplete}
-              onCheckedChange={(checked) => setValue('labsComplete', checked as boolean)}
-            />
-            <Label htmlFor="labsComplete" className="cursor-pointer">
-              Labs Complete
-            </Label>
-          </div>
-
-          <div className="flex items-center space-x-2">
-            <Checkbox
-              id="histoComplete"
-              checked={histoComplete}
-              onCheckedChange={(checked) => setValue('histoComplete', checked as boolean)}
-            />
-            <Label htmlFor="histoComplete" className="cursor-pointer">
-              Histopathology Complete
-            </Label>
-          </div>
-
-          <div className="flex items-center space-x-2">
-            <Checkbox
-              id="surgeryReportComplete"
-              checked={surgeryReportComplete}
-              onCheckedChange={(checked) => setValue('surgeryReportComplete', checked as boolean)}
-            />
-            <Label htmlFor="surgeryReportComplete" className="cursor-pointer">
-              Surgery Report Complete
-            </Label>
-          </div>
-
-          <div className="flex items-center space-x-2">
-            <Checkbox
-              id="imagingComplete"
-              checked={imagingComplete}
-              onCheckedChange={(checked) => setValue('imagingComplete', checked as boolean)}
-            />
-            <Label htmlFor="imagingComplete" className="cursor-pointer">
-              Imaging Complete
-            </Label>
-          </div>
-
-          <div className="flex items-center space-x-2">
-            <Checkbox
-              id="cultureComplete"
-              checked={cultureComplete}
-              onCheckedChange={(checked) => setValue('cultureComplete', checked as boolean)}
-            />
-            <Label htmlFor="cultureComplete" className="cursor-pointer">
-              Culture Complete
-            </Label>
-          </div>
+          {checklistItems.map((item) => (
+            <div key={item.key} className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`checklist-${item.key}`}
+                  checked={checklist[item.key] ?? false}
+                  onCheckedChange={(checked) =>
+                    setValue('checklist', { ...checklist, [item.key]: checked as boolean })
+                  }
+                  disabled={!canToggleChecklist}
+                />
+                {getCompletionText(item.key) ? (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Label htmlFor={`checklist-${item.key}`} className="cursor-pointer">
+                        {item.title}
+                      </Label>
+                    </TooltipTrigger>
+                    <TooltipContent>{getCompletionText(item.key)}</TooltipContent>
+                  </Tooltip>
+                ) : (
+                  <Label htmlFor={`checklist-${item.key}`} className="cursor-pointer">
+                    {item.title}
+                  </Label>
+                )}
+                {isNewCase && selectedTemplate?.checklistKeys.includes(item.key) && (
+                  <Badge variant="secondary" className="text-xs">
+                    From template
+                  </Badge>
+                )}
+              </div>
+
+              {item.key === PDVM_NOTIFIED_KEY && checklist[item.key] && initialData?.pdvmNotification && (
+                <p className="pl-6 text-sm text-muted-foreground">
+                  Notified {formatDateTime(initialData.pdvmNotification.notifiedAt)} by{' '}
+                  {NOTIFICATION_METHOD_LABELS[initialData.pdvmNotification.method].toLowerCase()}
+                </p>
+              )}
+
+              {item.key === PDVM_NOTIFIED_KEY && isNotifyingPdvm && (
+                <div className="flex items-center gap-2 pl-6">
+                  <Label htmlFor="pdvmNotificationMethod" className="text-sm text-muted-foreground">
+                    Notified by
+                  </Label>
+                  <Select
+                    value={pdvmNotificationMethod}
+                    onValueChange={(value) => setValue('pdvmNotificationMethod', value as NotificationMethod)}
+                    disabled={!canToggleChecklist}
+                  >
+                    <SelectTrigger id="pdvmNotificationMethod" className="w-[200px]">
+                      <SelectValue
+                        placeholder={
+                          selectedPdvm
+                            ? `${NOTIFICATION_METHOD_LABELS[selectedPdvm.preferredContact]} (preferred)`
+                            : NOTIFICATION_METHOD_LABELS.phone
+                        }
+                      />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(NOTIFICATION_METHOD_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          ))}
         </div>
       </div>
 
@@ -393,7 +737,7 @@ export default function CaseForm({ initialData, onSubmit, onCancel, isSubmitting
 
       {/* Form Actions */}
       <div className="flex gap-3">
-        <Button type="submit" disabled={isSubmitting}>
+        <Button type="submit" disabled={isSubmitting || (!canEditDetails && !canToggleChecklist)}>
           {isSubmitting ? 'Saving...' : initialData ? 'Update Case' : 'Create Case'}
         </Button>
         <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
@@ -0,0 +1,71 @@
+import { useGetCaseAuditLog, useListChecklistDefinitions, useListUserDirectory } from '../../hooks/useQueries';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { History } from 'lucide-react';
+import { formatDateTime } from '../../utils/dateTime';
+import { formatAuditValue, getAuditFieldLabel, getAuditMethodLabel } from '../../utils/auditLog';
+import { formatAssignee, getAssigneeInitials } from '../../utils/todos';
+
+interface CaseHistoryProps {
+  caseId: bigint;
+}
+
+export default function CaseHistory({ caseId }: CaseHistoryProps) {
+  const { data: entries = [], isLoading } = useGetCaseAuditLog(caseId);
+  const { data: definitions } = useListChecklistDefinitions();
+  const { data: directory = [] } = useListUserDirectory();
+
+  // Newest first
+  const sortedEntries = [...entries].sort((a, b) => Number(b.timestamp - a.timestamp));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          History
+        </CardTitle>
+        <CardDescription>Every change made to this case</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : sortedEntries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No history recorded yet</p>
+        ) : (
+          <ol className="relative border-l border-border ml-2 space-y-6">
+            {sortedEntries.map((entry) => (
+              <li key={entry.id.toString()} className="ml-4">
+                <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+                <div className="flex flex-col sm:flex-row sm:items-baseline sm:gap-2">
+                  <span className="font-medium">{getAuditMethodLabel(entry.method)}</span>
+                  <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                    {formatDateTime(entry.timestamp)} ·
+                    <Avatar className="h-5 w-5">
+                      <AvatarFallback className="text-[10px]">
+                        {getAssigneeInitials(entry.caller, directory)}
+                      </AvatarFallback>
+                    </Avatar>
+                    {formatAssignee(entry.caller, directory)}
+                  </span>
+                </div>
+                {entry.changes.length > 0 && (
+                  <ul className="mt-2 space-y-1 text-sm">
+                    {entry.changes.map((change, index) => (
+                      <li key={index} className="text-muted-foreground">
+                        <span className="text-foreground">{getAuditFieldLabel(change.field, definitions)}:</span>{' '}
+                        <span className="line-through">{formatAuditValue(change.field, change.before)}</span>
+                        {' → '}
+                        <span>{formatAuditValue(change.field, change.after)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
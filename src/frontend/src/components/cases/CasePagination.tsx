@@ -0,0 +1,84 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationPrevious,
+  PaginationNext,
+  PaginationEllipsis,
+} from '@/components/ui/pagination';
+
+interface CasePaginationProps {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+}
+
+/**
+ * Returns the zero-based page indexes to show, with null marking a gap
+ */
+function getVisiblePages(page: number, pageCount: number): (number | null)[] {
+  if (pageCount <= 7) {
+    return Array.from({ length: pageCount }, (_, index) => index);
+  }
+  const pages = new Set([0, pageCount - 1, page - 1, page, page + 1]);
+  const sorted = [...pages].filter((p) => p >= 0 && p < pageCount).sort((a, b) => a - b);
+  const result: (number | null)[] = [];
+  for (const p of sorted) {
+    const previous = result[result.length - 1];
+    if (typeof previous === 'number' && p - previous > 1) {
+      result.push(null);
+    }
+    result.push(p);
+  }
+  return result;
+}
+
+export default function CasePagination({ page, pageCount, onPageChange }: CasePaginationProps) {
+  if (pageCount <= 1) {
+    return null;
+  }
+
+  const goTo = (target: number) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    if (target >= 0 && target < pageCount && target !== page) {
+      onPageChange(target);
+    }
+  };
+
+  return (
+    <Pagination className="mt-4">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            onClick={goTo(page - 1)}
+            aria-disabled={page === 0}
+            className={page === 0 ? 'pointer-events-none opacity-50' : undefined}
+          />
+        </PaginationItem>
+        {getVisiblePages(page, pageCount).map((p, index) =>
+          p === null ? (
+            <PaginationItem key={`gap-${index}`}>
+              <PaginationEllipsis />
+            </PaginationItem>
+          ) : (
+            <PaginationItem key={p}>
+              <PaginationLink href="#" isActive={p === page} onClick={goTo(p)}>
+                {p + 1}
+              </PaginationLink>
+            </PaginationItem>
+          )
+        )}
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            onClick={goTo(page + 1)}
+            aria-disabled={page === pageCount - 1}
+            className={page === pageCount - 1 ? 'pointer-events-none opacity-50' : undefined}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
@@ -0,0 +1,21 @@
+import { Badge } from '@/components/ui/badge';
+import { CaseStatus } from '../../backend';
+import { CASE_STATUS_LABELS } from '../../utils/caseStatus';
+
+const STATUS_VARIANTS: Record<CaseStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  [CaseStatus.admitted]: 'secondary',
+  [CaseStatus.inSurgery]: 'destructive',
+  [CaseStatus.recovering]: 'secondary',
+  [CaseStatus.discharged]: 'default',
+  [CaseStatus.awaitingResults]: 'default',
+  [CaseStatus.closed]: 'outline',
+};
+
+interface CaseStatusBadgeProps {
+  // Cases cached before statuses existed have none
+  status?: CaseStatus;
+}
+
+export default function CaseStatusBadge({ status = CaseStatus.admitted }: CaseStatusBadgeProps) {
+  return <Badge variant={STATUS_VARIANTS[status]}>{CASE_STATUS_LABELS[status]}</Badge>;
+}
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, ArrowRight } from 'lucide-react';
+import { toast } from 'sonner';
+import { useIsCallerAdmin, useListChecklistDefinitions, useSetCaseStatus } from '../../hooks/useQueries';
+import { isCanisterError } from '../../utils/apiResult';
+import { CASE_STATUS_LABELS, CASE_STATUS_TRANSITIONS, getCloseBlockers } from '../../utils/caseStatus';
+import { formatDateTime } from '../../utils/dateTime';
+import { CaseStatus } from '../../backend';
+import type { SurgeryCase } from '../../backend';
+import CaseStatusBadge from './CaseStatusBadge';
+
+// Longest override reason the canister accepts
+const MAX_REASON_LENGTH = 500;
+
+interface CaseStatusCardProps {
+  caseRecord: SurgeryCase;
+  /** Hides the actions that need the canister, e.g. while offline */
+  readOnly?: boolean;
+}
+
+export default function CaseStatusCard({ caseRecord, readOnly }: CaseStatusCardProps) {
+  const { data: definitions = [] } = useListChecklistDefinitions();
+  const { data: isAdmin } = useIsCallerAdmin();
+  const setCaseStatus = useSetCaseStatus();
+  const [nextStatus, setNextStatus] = useState<CaseStatus | ''>('');
+  const [overrideReason, setOverrideReason] = useState('');
+
+  // Cases cached before statuses existed have none
+  const status = caseRecord.status ?? CaseStatus.admitted;
+  const transitions = CASE_STATUS_TRANSITIONS[status];
+  const blockers = nextStatus === CaseStatus.closed ? getCloseBlockers(caseRecord, definitions) : [];
+  const needsOverride = blockers.length > 0;
+
+  const handleUpdate = async () => {
+    if (!nextStatus) return;
+    try {
+      await setCaseStatus.mutateAsync({
+        caseId: caseRecord.id,
+        status: nextStatus,
+        overrideReason: needsOverride ? overrideReason.trim() : undefined,
+      });
+      setNextStatus('');
+      setOverrideReason('');
+      toast.success(`Case marked ${CASE_STATUS_LABELS[nextStatus].toLowerCase()}`);
+    } catch (error) {
+      toast.error('Failed to update case status', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
+      console.error('Error updating case status:', error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Status</CardTitle>
+          <CardDescription>Where the patient is in their stay</CardDescription>
+        </div>
+        <CaseStatusBadge status={status} />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status === CaseStatus.closed && caseRecord.closeOverride && (
+          <p className="text-sm text-muted-foreground">
+            Closed with open items on {formatDateTime(caseRecord.closeOverride.overriddenAt)}:{' '}
+            {caseRecord.closeOverride.reason}
+          </p>
+        )}
+
+        {!readOnly && (
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="case-next-status" className="text-xs">Move to</Label>
+              <Select value={nextStatus} onValueChange={(value) => setNextStatus(value as CaseStatus)}>
+                <SelectTrigger id="case-next-status" className="w-[200px]">
+                  <SelectValue placeholder="Choose status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {transitions.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {CASE_STATUS_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              onClick={handleUpdate}
+              disabled={
+                !nextStatus ||
+                setCaseStatus.isPending ||
+                (needsOverride && (!isAdmin || !overrideReason.trim()))
+              }
+            >
+              <ArrowRight className="mr-2 h-4 w-4" />
+              {needsOverride ? 'Close with override' : 'Update status'}
+            </Button>
+          </div>
+        )}
+
+        {needsOverride && !readOnly && (
+          <div className="space-y-3">
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                Complete these before closing: {blockers.join(', ')}
+              </AlertDescription>
+            </Alert>
+            {isAdmin ? (
+              <div className="space-y-1">
+                <Label htmlFor="close-override-reason">Reason for closing anyway</Label>
+                <Textarea
+                  id="close-override-reason"
+                  value={overrideReason}
+                  maxLength={MAX_REASON_LENGTH}
+                  onChange={(e) => setOverrideReason(e.target.value)}
+                  placeholder="e.g. Owner declined histopathology"
+                />
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Only an admin can close a case with open items.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, Download, Printer, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  useGetOwner,
+  useListChecklistDefinitions,
+  useListLetterTemplates,
+  useListPdvms,
+  useMarkLetterSent,
+} from '../../hooks/useQueries';
+import { isCanisterError } from '../../utils/apiResult';
+import { getChecklistItemTitle, isChecklistItemComplete } from '../../utils/checklist';
+import { formatDateTime } from '../../utils/dateTime';
+import { NOTIFICATION_METHOD_LABELS } from '../../utils/pdvms';
+import {
+  LETTER_PREREQUISITE_KEYS,
+  buildLetterValues,
+  downloadLetterHtml,
+  getLetterFilename,
+  printLetterHtml,
+  renderLetterHtml,
+  renderLetterText,
+} from '../../utils/dischargeLetter';
+import { NotificationMethod } from '../../backend';
+import type { SurgeryCase } from '../../backend';
+
+interface DischargeLetterCardProps {
+  caseRecord: SurgeryCase;
+  ownerId?: bigint;
+  /** Hides the actions that need the canister, e.g. while offline */
+  readOnly?: boolean;
+}
+
+export default function DischargeLetterCard({ caseRecord, ownerId, readOnly }: DischargeLetterCardProps) {
+  const { data: templates = [], isLoading } = useListLetterTemplates();
+  const { data: definitions = [] } = useListChecklistDefinitions();
+  const { data: pdvms = [] } = useListPdvms();
+  const { data: owner } = useGetOwner(ownerId);
+  const markLetterSent = useMarkLetterSent();
+  const [templateId, setTemplateId] = useState<string>('');
+  const [method, setMethod] = useState<NotificationMethod | ''>('');
+
+  const pdvm = pdvms.find((p) => p.id === caseRecord.pdvmId);
+  const template = templates.find((t) => t.id.toString() === templateId) ?? templates[0];
+  const sendMethod = method || pdvm?.preferredContact || NotificationMethod.email;
+  const missingPrerequisites = LETTER_PREREQUISITE_KEYS.filter(
+    (key) => !isChecklistItemComplete(caseRecord.checklist, key)
+  );
+
+  const letterText = template
+    ? renderLetterText(template.body, buildLetterValues(caseRecord, owner, pdvm, definitions))
+    : '';
+  const letterHtml = template
+    ? renderLetterHtml(`${template.name} - ${caseRecord.patientFirstName} ${caseRecord.patientLastName}`, letterText)
+    : '';
+
+  const handleDownload = () => {
+    if (!template) return;
+    downloadLetterHtml(getLetterFilename(template.name, caseRecord.mrn), letterHtml);
+  };
+
+  const handlePrint = () => {
+    if (!printLetterHtml(letterHtml)) {
+      toast.error('Could not open the print window', {
+        description: 'Allow pop-ups for this site and try again.',
+      });
+    }
+  };
+
+  const handleMarkSent = async () => {
+    try {
+      await markLetterSent.mutateAsync({ caseId: caseRecord.id, method: sendMethod });
+      toast.success('Letter marked as sent');
+    } catch (error) {
+      toast.error('Failed to mark letter as sent', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
+      console.error('Error marking letter as sent:', error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>pDVM Letter</CardTitle>
+        <CardDescription>
+          {pdvm
+            ? `Generate a letter for ${pdvm.vetName || pdvm.clinicName} from the case details`
+            : 'Generate a letter from the case details. Add a referring vet to address it.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading letter templates...</p>
+        ) : !template ? (
+          <p className="text-sm text-muted-foreground">
+            No letter templates yet. An admin can add them under Letters.
+          </p>
+        ) : (
+          <>
+            {missingPrerequisites.length > 0 && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  Not yet complete:{' '}
+                  {missingPrerequisites.map((key) => getChecklistItemTitle(definitions, key)).join(', ')}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="letter-template">Template</Label>
+              <Select value={template.id.toString()} onValueChange={setTemplateId}>
+                <SelectTrigger id="letter-template" className="max-w-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map((t) => (
+                    <SelectItem key={t.id.toString()} value={t.id.toString()}>
+                      {t.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <iframe
+              title="Letter preview"
+              srcDoc={letterHtml}
+              sandbox=""
+              className="h-96 w-full rounded-md border bg-white"
+            />
+
+            <div className="flex flex-wrap items-end gap-3">
+              <Button variant="outline" onClick={handleDownload}>
+                <Download className="mr-2 h-4 w-4" />
+                Download HTML
+              </Button>
+              <Button variant="outline" onClick={handlePrint}>
+                <Printer className="mr-2 h-4 w-4" />
+                Print / Save as PDF
+              </Button>
+
+              {caseRecord.pdvmNotification ? (
+                <p className="text-sm text-muted-foreground">
+                  pDVM notified {formatDateTime(caseRecord.pdvmNotification.notifiedAt)} by{' '}
+                  {NOTIFICATION_METHOD_LABELS[caseRecord.pdvmNotification.method].toLowerCase()}
+                </p>
+              ) : (
+                !readOnly && (
+                  <div className="flex items-end gap-2">
+                    <div className="space-y-1">
+                      <Label htmlFor="letter-method" className="text-xs">Sent by</Label>
+                      <Select value={sendMethod} onValueChange={(value) => setMethod(value as NotificationMethod)}>
+                        <SelectTrigger id="letter-method" className="w-[160px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(NOTIFICATION_METHOD_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button onClick={handleMarkSent} disabled={markLetterSent.isPending}>
+                      <Send className="mr-2 h-4 w-4" />
+                      {markLetterSent.isPending ? 'Saving...' : 'Mark as Sent'}
+                    </Button>
+                  </div>
+                )
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
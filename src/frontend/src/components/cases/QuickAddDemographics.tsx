@@ -11,14 +11,18 @@ import { Camera, FileText, X, AlertCircle, Loader2 } from 'lucide-react';
 import { parseDemographics, getFieldLabel, type ParsedDemographics } from '../../utils/demographicsParser';
 import { extractTextFromImage, isTextDetectionSupported } from '../../utils/ocrText';
 import { useCamera } from '../../camera/useCamera';
-import type { Species, Sex } from '../../backend';
+import { findMatchingTemplate } from '../../utils/caseTemplates';
+import TemplatePicker from './TemplatePicker';
+import { CONTACT_METHOD_LABELS } from '../../utils/owners';
+import type { Species, Sex, CaseTemplate } from '../../backend';
 
 interface QuickAddDemographicsProps {
-  onApply: (demographics: ParsedDemographics) => void;
+  onApply: (demographics: ParsedDemographics, template: CaseTemplate | null) => void;
   currentValues: ParsedDemographics;
+  templates?: CaseTemplate[];
 }
 
-export default function QuickAddDemographics({ onApply, currentValues }: QuickAddDemographicsProps) {
+export default function QuickAddDemographics({ onApply, currentValues, templates = [] }: QuickAddDemographicsProps) {
   const [pastedText, setPastedText] = useState('');
   const [parseResult, setParseResult] = useState<ReturnType<typeof parseDemographics> | null>(null);
   const [editedValues, setEditedValues] = useState<ParsedDemographics>({});
@@ -26,6 +30,8 @@ export default function QuickAddDemographics({ onApply, currentValues }: QuickAd
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
   const [ocrStatus, setOcrStatus] = useState<'idle' | 'processing' | 'success' | 'error'>('idle');
   const [ocrError, setOcrError] = useState<string>('');
+  // undefined means the template follows the parsed species automatically
+  const [chosenTemplate, setChosenTemplate] = useState<CaseTemplate | null | undefined>(undefined);
 
   const {
     isActive,
@@ -58,15 +64,19 @@ export default function QuickAddDemographics({ onApply, currentValues }: QuickAd
     setEditedValues({ ...result.parsed });
   };
 
+  const autoTemplate = findMatchingTemplate(templates, editedValues.species as Species | undefined, '');
+  const selectedTemplate = chosenTemplate === undefined ? autoTemplate : chosenTemplate;
+
   const handleApply = () => {
     if (editedValues && Object.keys(editedValues).length > 0) {
-      onApply(editedValues);
+      onApply(editedValues, selectedTemplate);
       // Clear the quick add state after applying
       setPastedText('');
       setParseResult(null);
       setEditedValues({});
       setCapturedImage(null);
       setOcrStatus('idle');
+      setChosenTemplate(undefined);
     }
   };
 
@@ -77,6 +87,7 @@ export default function QuickAddDemographics({ onApply, currentValues }: QuickAd
     setCapturedImage(null);
     setOcrStatus('idle');
     setOcrError('');
+    setChosenTemplate(undefined);
   };
 
   const handleOpenCamera = async () => {
@@ -397,6 +408,61 @@ export default function QuickAddDemographics({ onApply, currentValues }: QuickAd
                 />
               </div>
             )}
+
+            {editedValues.ownerName !== undefined && (
+              <div className="space-y-1">
+                <Label htmlFor="edit-ownerName" className="text-xs">Owner Name</Label>
+                <Input
+                  id="edit-ownerName"
+                  value={editedValues.ownerName || ''}
+                  onChange={(e) => handleEditField('ownerName', e.target.value)}
+                />
+              </div>
+            )}
+
+            {editedValues.ownerPhones !== undefined && (
+              <div className="space-y-1">
+                <Label htmlFor="edit-ownerPhones" className="text-xs">Owner Phone Numbers</Label>
+                <Input
+                  id="edit-ownerPhones"
+                  value={editedValues.ownerPhones || ''}
+                  onChange={(e) => handleEditField('ownerPhones', e.target.value)}
+                />
+              </div>
+            )}
+
+            {editedValues.ownerEmail !== undefined && (
+              <div className="space-y-1">
+                <Label htmlFor="edit-ownerEmail" className="text-xs">Owner Email</Label>
+                <Input
+                  id="edit-ownerEmail"
+                  type="email"
+                  value={editedValues.ownerEmail || ''}
+                  onChange={(e) => handleEditField('ownerEmail', e.target.value)}
+                />
+              </div>
+            )}
+
+            {editedValues.ownerPreferredContact !== undefined && (
+              <div className="space-y-1">
+                <Label htmlFor="edit-ownerPreferredContact" className="text-xs">Preferred Contact</Label>
+                <Select
+                  value={editedValues.ownerPreferredContact || ''}
+                  onValueChange={(value) => handleEditField('ownerPreferredContact', value)}
+                >
+                  <SelectTrigger id="edit-ownerPreferredContact">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(CONTACT_METHOD_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
           </div>
 
           {parseResult.notFound.length > 0 && (
@@ -417,6 +483,16 @@ export default function QuickAddDemographics({ onApply, currentValues }: QuickAd
             </Alert>
           )}
 
+          {templates.length > 0 && (
+            <TemplatePicker
+              id="quick-add-template"
+              templates={templates}
+              value={selectedTemplate}
+              isAutoSelected={chosenTemplate === undefined}
+              onChange={setChosenTemplate}
+            />
+          )}
+
           <Button
             type="button"
             onClick={handleApply}
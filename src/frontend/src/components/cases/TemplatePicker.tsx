@@ -0,0 +1,51 @@
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { CaseTemplate } from '../../backend';
+
+interface TemplatePickerProps {
+  id: string;
+  templates: CaseTemplate[];
+  value: CaseTemplate | null;
+  isAutoSelected?: boolean;
+  onChange: (template: CaseTemplate | null) => void;
+}
+
+export default function TemplatePicker({ id, templates, value, isAutoSelected, onChange }: TemplatePickerProps) {
+  const handleChange = (selected: string) => {
+    onChange(templates.find((template) => template.id.toString() === selected) ?? null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Label htmlFor={id}>Case Template</Label>
+        {isAutoSelected && value && (
+          <Badge variant="secondary" className="text-xs">
+            Auto-selected
+          </Badge>
+        )}
+      </div>
+      <Select value={value ? value.id.toString() : 'none'} onValueChange={handleChange}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">No template</SelectItem>
+          {templates.map((template) => (
+            <SelectItem key={template.id.toString()} value={template.id.toString()}>
+              {template.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {value && (value.checklistKeys.length > 0 || value.todoDescriptions.length > 0) && (
+        <p className="text-xs text-muted-foreground">
+          Adds {value.checklistKeys.length} checklist{' '}
+          {value.checklistKeys.length === 1 ? 'item' : 'items'} to complete and {value.todoDescriptions.length}{' '}
+          {value.todoDescriptions.length === 1 ? 'to-do' : 'to-dos'}
+        </p>
+      )}
+    </div>
+  );
+}
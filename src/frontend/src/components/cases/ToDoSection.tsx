@@ -1,12 +1,57 @@
 import { useState } from 'react';
-import { useAddTodoItem, useToggleTodoComplete, useDeleteTodoItem } from '../../hooks/useQueries';
+import {
+  useAddTodoItem,
+  useToggleTodoComplete,
+  useDeleteTodoItem,
+  useEditTodoItem,
+  useReorderTodos,
+  useListAssignableUsers,
+  useListUserDirectory,
+  useHasPermission,
+} from '../../hooks/useQueries';
+import { useInternetIdentity } from '../../hooks/useInternetIdentity';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Plus, Trash2 } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, GripVertical, Pencil, Plus, Trash2, X } from 'lucide-react';
 import { toast } from 'sonner';
-import type { ToDoItem } from '../../backend';
+import { cn } from '@/lib/utils';
+import { Permission, TodoPriority } from '../../backend';
+import type { Assignee, ToDoItem } from '../../backend';
+import { isCanisterError } from '../../utils/apiResult';
+import { dateStringToTime, formatDate, timeToDateString } from '../../utils/dateTime';
+import {
+  TODO_PRIORITY_LABELS,
+  TODO_SORT_LABELS,
+  formatAssignee,
+  isTodoDueToday,
+  isTodoOverdue,
+  moveTodo,
+  principalToText,
+  sortTodos,
+  type TodoSortKey,
+} from '../../utils/todos';
+
+// Longest description the canister accepts
+const MAX_TODO_LENGTH = 500;
+
+const UNASSIGNED = 'none';
+
+interface TodoDraft {
+  description: string;
+  dueDate: string;
+  priority: TodoPriority;
+  /** Principal text, or UNASSIGNED */
+  assignee: string;
+}
+
+function findAssignee(assignees: Assignee[], value: string) {
+  return assignees.find((assignee) => principalToText(assignee.principal) === value)?.principal;
+}
 
 interface ToDoSectionProps {
   caseId: bigint;
@@ -15,9 +60,58 @@ interface ToDoSectionProps {
 
 export default function ToDoSection({ caseId, todos }: ToDoSectionProps) {
   const [newTodoText, setNewTodoText] = useState('');
+  const [newDueDate, setNewDueDate] = useState('');
+  const [newPriority, setNewPriority] = useState<TodoPriority>(TodoPriority.normal);
+  const [newAssignee, setNewAssignee] = useState(UNASSIGNED);
+  const [sortKey, setSortKey] = useState<TodoSortKey>('manual');
+  const [editingId, setEditingId] = useState<bigint | null>(null);
+  const [draft, setDraft] = useState<TodoDraft | null>(null);
+  const [draggedId, setDraggedId] = useState<bigint | null>(null);
+  // Order shown while a reorder is being saved, so rows don't jump back
+  const [pendingOrder, setPendingOrder] = useState<bigint[] | null>(null);
+  const { identity } = useInternetIdentity();
+  const { data: assignees = [] } = useListAssignableUsers();
+  // Creators and past assignees may be outside the caller's units
+  const { data: directory = [] } = useListUserDirectory();
   const addTodo = useAddTodoItem();
   const toggleTodo = useToggleTodoComplete();
   const deleteTodo = useDeleteTodoItem();
+  const editTodo = useEditTodoItem();
+  const reorderTodos = useReorderTodos();
+  const canManageTodos = useHasPermission(Permission.manageTodos);
+
+  const principal = identity?.getPrincipal().toString();
+  const orderedTodos = pendingOrder
+    ? pendingOrder.flatMap((id) => todos.filter((todo) => todo.id === id))
+    : todos;
+  const sortedTodos = sortTodos(orderedTodos, sortKey);
+  // Dragging only makes sense when the list shows the case's own order
+  const canReorder = canManageTodos && sortKey === 'manual' && editingId === null && !reorderTodos.isPending;
+
+  const renderAssigneeOptions = () => (
+    <SelectContent>
+      <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+      {assignees.map((assignee) => {
+        const value = principalToText(assignee.principal);
+        return (
+          <SelectItem key={value} value={value}>
+            {formatAssignee(assignee.principal, assignees)}
+            {value === principal ? ' (me)' : ''}
+          </SelectItem>
+        );
+      })}
+    </SelectContent>
+  );
+
+  const renderPriorityOptions = () => (
+    <SelectContent>
+      {Object.entries(TODO_PRIORITY_LABELS).map(([value, label]) => (
+        <SelectItem key={value} value={value}>
+          {label}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  );
 
   const handleAddTodo = async () => {
     if (!newTodoText.trim()) {
@@ -26,11 +120,24 @@ export default function ToDoSection({ caseId, todos }: ToDoSectionProps) {
     }
 
     try {
-      await addTodo.mutateAsync({ caseId, description: newTodoText.trim() });
+      await addTodo.mutateAsync({
+        caseId,
+        description: newTodoText.trim(),
+        details: {
+          dueDate: newDueDate ? dateStringToTime(newDueDate) : undefined,
+          priority: newPriority,
+          assignee: findAssignee(assignees, newAssignee),
+        },
+      });
       setNewTodoText('');
+      setNewDueDate('');
+      setNewPriority(TodoPriority.normal);
+      setNewAssignee(UNASSIGNED);
       toast.success('To-do item added');
     } catch (error) {
-      toast.error('Failed to add to-do item');
+      toast.error('Failed to add to-do item', {
+        description: isCanisterError(error, 'validation') ? error.message : undefined,
+      });
       console.error('Error adding to-do:', error);
     }
   };
@@ -44,6 +151,72 @@ export default function ToDoSection({ caseId, todos }: ToDoSectionProps) {
     }
   };
 
+  const startEditing = (todo: ToDoItem) => {
+    setEditingId(todo.id);
+    setDraft({
+      description: todo.description,
+      dueDate: todo.dueDate !== undefined ? timeToDateString(todo.dueDate) : '',
+      priority: todo.priority,
+      assignee: todo.assignee ? principalToText(todo.assignee) : UNASSIGNED,
+    });
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const handleSaveEdit = async (todo: ToDoItem) => {
+    if (!draft) return;
+    if (!draft.description.trim()) {
+      toast.error('Please enter a to-do item');
+      return;
+    }
+
+    try {
+      await editTodo.mutateAsync({
+        caseId,
+        todoId: todo.id,
+        description: draft.description.trim(),
+        details: {
+          dueDate: draft.dueDate ? dateStringToTime(draft.dueDate) : undefined,
+          priority: draft.priority,
+          // Keep an assignee who is no longer listed rather than silently unassigning them
+          assignee:
+            todo.assignee && principalToText(todo.assignee) === draft.assignee
+              ? todo.assignee
+              : findAssignee(assignees, draft.assignee),
+        },
+      });
+      cancelEditing();
+      toast.success('To-do item updated');
+    } catch (error) {
+      toast.error('Failed to update to-do item', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
+      console.error('Error editing to-do:', error);
+    }
+  };
+
+  const handleDrop = async (targetId: bigint) => {
+    const fromId = draggedId;
+    setDraggedId(null);
+    if (fromId === null || fromId === targetId) return;
+
+    const todoIds = moveTodo(orderedTodos, fromId, targetId);
+    setPendingOrder(todoIds);
+    try {
+      await reorderTodos.mutateAsync({ caseId, todoIds });
+    } catch (error) {
+      toast.error('Failed to reorder to-do items', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
+      console.error('Error reordering to-dos:', error);
+    } finally {
+      setPendingOrder(null);
+    }
+  };
+
   const handleDeleteTodo = async (todoId: bigint) => {
     try {
       await deleteTodo.mutateAsync({ caseId, todoId });
@@ -56,62 +229,227 @@ export default function ToDoSection({ caseId, todos }: ToDoSectionProps) {
 
   return (
     <Card>
-      <CardHeader>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
         <CardTitle>To-Do List</CardTitle>
+        <div className="flex items-center gap-2">
+          <span className="whitespace-nowrap text-sm text-muted-foreground">Sort by:</span>
+          <Select value={sortKey} onValueChange={(value) => setSortKey(value as TodoSortKey)}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(TODO_SORT_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </CardHeader>
       <CardContent className="space-y-4">
-        <div className="flex gap-2">
-          <Input
-            placeholder="Add a new to-do item..."
-            value={newTodoText}
-            onChange={(e) => setNewTodoText(e.target.value)}
-            onKeyDown={(e) => {
-              if (e.key === 'Enter') {
-                handleAddTodo();
-              }
-            }}
-          />
-          <Button
-            onClick={handleAddTodo}
-            disabled={addTodo.isPending || !newTodoText.trim()}
-          >
-            <Plus className="h-4 w-4" />
-          </Button>
-        </div>
+        {canManageTodos && (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Input
+                placeholder="Add a new to-do item..."
+                value={newTodoText}
+                maxLength={MAX_TODO_LENGTH}
+                onChange={(e) => setNewTodoText(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    handleAddTodo();
+                  }
+                }}
+              />
+              <Button
+                onClick={handleAddTodo}
+                disabled={addTodo.isPending || !newTodoText.trim()}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-1 gap-2 sm:grid-cols-3">
+              <div className="space-y-1">
+                <Label htmlFor="todo-due" className="text-xs">Due date</Label>
+                <Input id="todo-due" type="date" value={newDueDate} onChange={(e) => setNewDueDate(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="todo-priority" className="text-xs">Priority</Label>
+                <Select value={newPriority} onValueChange={(value) => setNewPriority(value as TodoPriority)}>
+                  <SelectTrigger id="todo-priority">
+                    <SelectValue />
+                  </SelectTrigger>
+                  {renderPriorityOptions()}
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="todo-assignee" className="text-xs">Assignee</Label>
+                <Select value={newAssignee} onValueChange={setNewAssignee}>
+                  <SelectTrigger id="todo-assignee">
+                    <SelectValue />
+                  </SelectTrigger>
+                  {renderAssigneeOptions()}
+                </Select>
+              </div>
+            </div>
+          </div>
+        )}
 
         {todos.length === 0 ? (
           <p className="text-sm text-muted-foreground text-center py-4">
-            No to-do items yet. Add one above to get started.
+            {canManageTodos ? 'No to-do items yet. Add one above to get started.' : 'No to-do items yet.'}
           </p>
         ) : (
           <div className="space-y-2">
-            {todos.map((todo) => (
-              <div
-                key={todo.id.toString()}
-                className="flex items-center gap-3 p-3 border rounded-lg bg-card hover:bg-muted/50 transition-colors"
-              >
-                <Checkbox
-                  checked={todo.complete}
-                  onCheckedChange={() => handleToggleTodo(todo.id)}
-                  disabled={toggleTodo.isPending}
-                />
-                <span
-                  className={`flex-1 ${
-                    todo.complete ? 'line-through text-muted-foreground' : ''
-                  }`}
-                >
-                  {todo.description}
-                </span>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => handleDeleteTodo(todo.id)}
-                  disabled={deleteTodo.isPending}
+            {sortedTodos.map((todo) => {
+              const overdue = isTodoOverdue(todo);
+              if (editingId === todo.id && draft) {
+                return (
+                  <div key={todo.id.toString()} className="space-y-2 p-3 border rounded-lg bg-muted/30">
+                    <Input
+                      value={draft.description}
+                      maxLength={MAX_TODO_LENGTH}
+                      autoFocus
+                      onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          handleSaveEdit(todo);
+                        } else if (e.key === 'Escape') {
+                          cancelEditing();
+                        }
+                      }}
+                    />
+                    <div className="grid grid-cols-1 gap-2 sm:grid-cols-3">
+                      <Input
+                        type="date"
+                        aria-label="Due date"
+                        value={draft.dueDate}
+                        onChange={(e) => setDraft({ ...draft, dueDate: e.target.value })}
+                      />
+                      <Select
+                        value={draft.priority}
+                        onValueChange={(value) => setDraft({ ...draft, priority: value as TodoPriority })}
+                      >
+                        <SelectTrigger aria-label="Priority">
+                          <SelectValue />
+                        </SelectTrigger>
+                        {renderPriorityOptions()}
+                      </Select>
+                      <Select value={draft.assignee} onValueChange={(value) => setDraft({ ...draft, assignee: value })}>
+                        <SelectTrigger aria-label="Assignee">
+                          <SelectValue />
+                        </SelectTrigger>
+                        {renderAssigneeOptions()}
+                      </Select>
+                    </div>
+                    <div className="flex justify-end gap-2">
+                      <Button variant="ghost" size="sm" onClick={cancelEditing} disabled={editTodo.isPending}>
+                        <X className="h-4 w-4 mr-1" />
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => handleSaveEdit(todo)}
+                        disabled={editTodo.isPending || !draft.description.trim()}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                );
+              }
+              return (
+                <div
+                  key={todo.id.toString()}
+                  draggable={canReorder}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDraggedId(todo.id);
+                  }}
+                  onDragEnd={() => setDraggedId(null)}
+                  onDragOver={(e) => {
+                    if (draggedId !== null) {
+                      e.preventDefault();
+                    }
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleDrop(todo.id);
+                  }}
+                  className={cn(
+                    'flex items-center gap-3 p-3 border rounded-lg bg-card hover:bg-muted/50 transition-colors',
+                    overdue && 'border-destructive/50 bg-destructive/5',
+                    draggedId === todo.id && 'opacity-50'
+                  )}
                 >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
-              </div>
-            ))}
+                  {canManageTodos && sortKey === 'manual' && (
+                    <GripVertical
+                      className={cn(
+                        'h-4 w-4 shrink-0 text-muted-foreground',
+                        canReorder ? 'cursor-grab' : 'opacity-50'
+                      )}
+                      aria-label="Drag to reorder"
+                    />
+                  )}
+                  <Checkbox
+                    checked={todo.complete}
+                    onCheckedChange={() => handleToggleTodo(todo.id)}
+                    disabled={toggleTodo.isPending || !canManageTodos}
+                  />
+                  <div className="flex-1 space-y-1">
+                    <span
+                      className={todo.complete ? 'line-through text-muted-foreground' : ''}
+                      title={
+                        todo.createdAt !== undefined
+                          ? `Added ${formatDate(todo.createdAt)}${
+                              todo.createdBy ? ` by ${formatAssignee(todo.createdBy, directory)}` : ''
+                            }`
+                          : undefined
+                      }
+                    >
+                      {todo.description}
+                    </span>
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      {todo.priority !== TodoPriority.normal && (
+                        <Badge variant={todo.priority === TodoPriority.high ? 'destructive' : 'outline'}>
+                          {TODO_PRIORITY_LABELS[todo.priority]} priority
+                        </Badge>
+                      )}
+                      {todo.dueDate !== undefined && (
+                        <span className={cn(overdue && 'font-medium text-destructive')}>
+                          {overdue ? 'Overdue' : isTodoDueToday(todo) ? 'Due today' : 'Due'} · {formatDate(todo.dueDate)}
+                        </span>
+                      )}
+                      {todo.assignee && <span>Assigned to {formatAssignee(todo.assignee, directory)}</span>}
+                      {todo.completedAt !== undefined && <span>Completed {formatDate(todo.completedAt)}</span>}
+                    </div>
+                  </div>
+                  {canManageTodos && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => startEditing(todo)}
+                        disabled={editingId !== null}
+                        aria-label="Edit to-do"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteTodo(todo.id)}
+                        disabled={deleteTodo.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              );
+            })}
           </div>
         )}
       </CardContent>
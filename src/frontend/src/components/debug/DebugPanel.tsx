@@ -39,7 +39,7 @@ export default function DebugPanel({ onClose }: DebugPanelProps) {
 
   // Detect stopped canister error
   const errorMessage = actorError ? safeErrorMessage(actorError) : '';
-  const stoppedCanisterInfo = detectStoppedCanister(errorMessage);
+  const stoppedCanisterInfo = detectStoppedCanister(actorError);
 
   const handleCopy = () => {
     navigator.clipboard.writeText(principalDisplay);
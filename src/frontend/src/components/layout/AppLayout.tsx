@@ -2,7 +2,9 @@ import { useState, useEffect } from 'react';
 import TopNav from './TopNav';
 import OfflineSyncListener from '../offline/OfflineSyncListener';
 import DebugPanel from '../debug/DebugPanel';
+import ProfileSetupModal from '../auth/ProfileSetupModal';
 import { useInternetIdentity } from '../../hooks/useInternetIdentity';
+import { useGetCallerUserProfile } from '../../hooks/useQueries';
 
 interface AppLayoutProps {
   children: React.ReactNode;
@@ -11,6 +13,11 @@ interface AppLayoutProps {
 export default function AppLayout({ children }: AppLayoutProps) {
   const { identity } = useInternetIdentity();
   const [debugPanelOpen, setDebugPanelOpen] = useState(false);
+  const [profileOpen, setProfileOpen] = useState(false);
+  const { data: profile, isFetched: isProfileFetched } = useGetCallerUserProfile();
+
+  // Users without a profile are asked for one before they carry on
+  const needsProfile = isProfileFetched && profile === null;
 
   // Close debug panel when user logs out
   useEffect(() => {
@@ -29,7 +36,10 @@ export default function AppLayout({ children }: AppLayoutProps) {
 
   return (
     <div className="min-h-screen flex flex-col bg-background">
-      <TopNav onDebugToggle={identity ? handleDebugToggle : undefined} />
+      <TopNav
+        onDebugToggle={identity ? handleDebugToggle : undefined}
+        onProfileEdit={profile ? () => setProfileOpen(true) : undefined}
+      />
       <main className="flex-1 container mx-auto px-4 py-8">
         {children}
       </main>
@@ -52,6 +62,9 @@ export default function AppLayout({ children }: AppLayoutProps) {
       </footer>
       <OfflineSyncListener />
       {identity && debugPanelOpen && <DebugPanel onClose={handleDebugClose} />}
+      {identity && (
+        <ProfileSetupModal open={needsProfile || profileOpen} onOpenChange={setProfileOpen} profile={profile ?? null} />
+      )}
     </div>
   );
 }
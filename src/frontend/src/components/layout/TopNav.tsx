@@ -1,4 +1,5 @@
 import { useInternetIdentity } from '../../hooks/useInternetIdentity';
+import { useGetCallerUserProfile } from '../../hooks/useQueries';
 import LoginButton from '../auth/LoginButton';
 import OfflineStatusIndicator from '../offline/OfflineStatusIndicator';
 import { Button } from '../ui/button';
@@ -6,10 +7,13 @@ import { Bug } from 'lucide-react';
 
 interface TopNavProps {
   onDebugToggle?: () => void;
+  /** Opens the profile editor; only passed once the caller has a profile */
+  onProfileEdit?: () => void;
 }
 
-export default function TopNav({ onDebugToggle }: TopNavProps) {
+export default function TopNav({ onDebugToggle, onProfileEdit }: TopNavProps) {
   const { identity } = useInternetIdentity();
+  const { data: profile } = useGetCallerUserProfile();
 
   return (
     <header className="border-b bg-card">
@@ -33,10 +37,16 @@ export default function TopNav({ onDebugToggle }: TopNavProps) {
                 <span className="hidden sm:inline">Debug</span>
               </Button>
             )}
-            {identity && (
-              <div className="hidden sm:block text-sm text-muted-foreground">
-                {identity.getPrincipal().toString().slice(0, 8)}...
-              </div>
+            {identity && profile && onProfileEdit ? (
+              <Button variant="ghost" size="sm" onClick={onProfileEdit} className="hidden sm:inline-flex">
+                {profile.name}
+              </Button>
+            ) : (
+              identity && (
+                <div className="hidden sm:block text-sm text-muted-foreground">
+                  {identity.getPrincipal().toString().slice(0, 8)}...
+                </div>
+              )
             )}
             <LoginButton />
           </div>
@@ -19,10 +19,13 @@ import {
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { toast } from 'sonner';
 import { useOfflineSync } from '../../hooks/useOfflineSync';
-import { RefreshCw, Trash2, AlertTriangle } from 'lucide-react';
+import { RefreshCw, Trash2, AlertTriangle, GitMerge } from 'lucide-react';
 import { useState } from 'react';
 import type { QueuedOperation } from '../../types/offlineOps';
+import QueuedConflictDialog from './QueuedConflictDialog';
+import { isTempId } from '../../utils/offlineQueue';
 
 interface PendingChangesDialogProps {
   open: boolean;
@@ -30,23 +33,34 @@ interface PendingChangesDialogProps {
 }
 
 export default function PendingChangesDialog({ open, onOpenChange }: PendingChangesDialogProps) {
-  const { pendingOps, isSyncing, retryOperation, removeOp, clearAll } = useOfflineSync();
+  const { pendingOps, isSyncing, retryOperation, resolveOperation, removeOp, clearAll } = useOfflineSync();
   const [showClearConfirm, setShowClearConfirm] = useState(false);
+  const [resolvingId, setResolvingId] = useState<number | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+
+  const resolvingOp = pendingOps.find((op) => op.id === resolvingId && op.conflict) ?? null;
+
+  const caseLabel = (caseId: bigint): string =>
+    isTempId(caseId) ? 'new case' : `case #${caseId}`;
 
   const getOperationLabel = (op: QueuedOperation): string => {
     switch (op.type) {
       case 'createCase':
         return `Create case: ${op.data.patientFirstName} ${op.data.patientLastName}`;
       case 'updateCase':
-        return `Update case #${op.caseId}`;
+        return `Update ${caseLabel(op.caseId)}`;
       case 'deleteCase':
-        return `Delete case #${op.caseId}`;
+        return `Delete ${caseLabel(op.caseId)}`;
       case 'toggleChecklist':
-        return `Toggle ${op.field} for case #${op.caseId}`;
+        return `Toggle ${op.field} for ${caseLabel(op.caseId)}`;
       case 'addTodo':
         return `Add to-do: ${op.description}`;
       case 'toggleTodo':
-        return `Toggle to-do #${op.todoId}`;
+        return isTempId(op.todoId) ? 'Toggle new to-do' : `Toggle to-do #${op.todoId}`;
+      case 'editTodo':
+        return `Edit to-do: ${op.description}`;
+      case 'reorderTodos':
+        return `Reorder to-dos for ${caseLabel(op.caseId)}`;
       case 'deleteTodo':
         return `Delete to-do #${op.todoId}`;
       default:
@@ -54,6 +68,26 @@ export default function PendingChangesDialog({ open, onOpenChange }: PendingChan
     }
   };
 
+  const handleResolve = async (changes: Partial<QueuedOperation>) => {
+    if (resolvingId === null) return;
+    setIsResolving(true);
+    try {
+      await resolveOperation(resolvingId, changes);
+      setResolvingId(null);
+    } catch (error) {
+      toast.error('Failed to resolve change');
+      console.error('Error resolving queued change:', error);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const handleDiscardResolving = async () => {
+    if (resolvingId === null) return;
+    await removeOp(resolvingId);
+    setResolvingId(null);
+  };
+
   const handleClearAll = () => {
     setShowClearConfirm(true);
   };
@@ -108,6 +142,17 @@ export default function PendingChangesDialog({ open, onOpenChange }: PendingChan
                         )}
                       </div>
                       <div className="flex gap-1">
+                        {op.conflict && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => op.id && setResolvingId(op.id)}
+                            disabled={isSyncing}
+                          >
+                            <GitMerge className="mr-1 h-4 w-4" />
+                            Resolve
+                          </Button>
+                        )}
                         <Button
                           size="sm"
                           variant="ghost"
@@ -145,6 +190,14 @@ export default function PendingChangesDialog({ open, onOpenChange }: PendingChan
         </DialogContent>
       </Dialog>
 
+      <QueuedConflictDialog
+        operation={resolvingOp}
+        isSubmitting={isResolving}
+        onResolve={handleResolve}
+        onDiscard={handleDiscardResolving}
+        onCancel={() => setResolvingId(null)}
+      />
+
       <AlertDialog open={showClearConfirm} onOpenChange={setShowClearConfirm}>
         <AlertDialogContent>
           <AlertDialogHeader>
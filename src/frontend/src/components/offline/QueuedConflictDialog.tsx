@@ -0,0 +1,190 @@
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useEffect, useMemo, useState } from 'react';
+import { useListChecklistDefinitions } from '../../hooks/useQueries';
+import { getQueuedChecklist } from '../../hooks/useOfflineSync';
+import { formatAuditValue, getAuditFieldLabel } from '../../utils/auditLog';
+import { getChecklistItemTitle, isChecklistItemComplete } from '../../utils/checklist';
+import {
+  caseToFormData,
+  getDifferingFields,
+  pickCaseFormFields,
+  type ConflictingField,
+} from '../../utils/caseConflict';
+import type { QueuedOperation } from '../../types/offlineOps';
+
+interface QueuedConflictDialogProps {
+  operation: QueuedOperation | null;
+  isSubmitting?: boolean;
+  onResolve: (changes: Partial<QueuedOperation>) => void;
+  onDiscard: () => void;
+  onCancel: () => void;
+}
+
+function completionText(complete: boolean | undefined): string {
+  if (complete === undefined) return '—';
+  return complete ? 'Complete' : 'Incomplete';
+}
+
+/**
+ * Compares a queued change that was rejected because the case changed on the
+ * server with the current server copy, and lets the user keep either side or
+ * pick per field
+ */
+export default function QueuedConflictDialog({
+  operation,
+  isSubmitting,
+  onResolve,
+  onDiscard,
+  onCancel,
+}: QueuedConflictDialogProps) {
+  const { data: definitions } = useListChecklistDefinitions();
+  const current = operation?.conflict;
+
+  const comparison = useMemo(() => {
+    if (!operation || !current) return null;
+    if (operation.type === 'updateCase') {
+      const mine = { ...operation.data, checklist: getQueuedChecklist(operation.data) };
+      const theirs = caseToFormData(current);
+      return { mine, theirs, fields: getDifferingFields(mine, theirs) };
+    }
+    return null;
+  }, [operation, current]);
+
+  // Field-by-field choices default to the queued value
+  const [fromMine, setFromMine] = useState<Set<string>>(new Set());
+  useEffect(() => {
+    setFromMine(new Set(comparison?.fields.map((field) => field.field) ?? []));
+  }, [comparison]);
+
+  if (!operation || !current) {
+    return null;
+  }
+
+  const setChoice = (field: string, side: string) => {
+    setFromMine((previous) => {
+      const next = new Set(previous);
+      if (side === 'mine') {
+        next.add(field);
+      } else {
+        next.delete(field);
+      }
+      return next;
+    });
+  };
+
+  const handleKeepMine = () => {
+    if (operation.type === 'updateCase' && comparison) {
+      onResolve({ data: comparison.mine, todos: current.todos, expectedVersion: current.version });
+    } else {
+      onResolve({ expectedVersion: current.version });
+    }
+  };
+
+  const handleMerge = () => {
+    if (!comparison) return;
+    onResolve({
+      data: pickCaseFormFields(comparison.mine, comparison.theirs, fromMine),
+      todos: current.todos,
+      expectedVersion: current.version,
+    });
+  };
+
+  let toggleRow: ConflictingField | null = null;
+  if (operation.type === 'toggleChecklist') {
+    toggleRow = {
+      field: getChecklistItemTitle(definitions, operation.field),
+      mine: completionText(operation.complete),
+      theirs: completionText(isChecklistItemComplete(current.checklist, operation.field)),
+    };
+  } else if (operation.type === 'toggleTodo') {
+    const todo = current.todos.find((t) => t.id === operation.todoId);
+    toggleRow = {
+      field: todo ? `To-do: ${todo.description}` : `To-do #${operation.todoId}`,
+      mine: completionText(operation.complete),
+      theirs: completionText(todo?.complete),
+    };
+  }
+
+  const patientName = `${current.patientFirstName} ${current.patientLastName}`.trim();
+
+  return (
+    <AlertDialog open={!!operation} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent className="max-w-3xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            Resolve change to case #{current.id.toString()}
+            {patientName && ` (${patientName})`}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            This case changed on the server after your change was queued offline. Keep your change, keep the
+            server version, or choose field by field.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="max-h-80 overflow-y-auto rounded-md border text-sm">
+          <div className="grid grid-cols-3 gap-2 border-b bg-muted/50 px-3 py-2 font-medium">
+            <span>Field</span>
+            <span>Your change</span>
+            <span>Server now</span>
+          </div>
+          {toggleRow && (
+            <div className="grid grid-cols-3 gap-2 px-3 py-2">
+              <span className="font-medium">{toggleRow.field}</span>
+              <span>{toggleRow.mine}</span>
+              <span className="text-muted-foreground">{toggleRow.theirs}</span>
+            </div>
+          )}
+          {comparison && comparison.fields.length === 0 && (
+            <p className="px-3 py-2 text-muted-foreground">
+              Your queued edit already matches the server version.
+            </p>
+          )}
+          {comparison?.fields.map((conflict) => (
+            <RadioGroup
+              key={conflict.field}
+              value={fromMine.has(conflict.field) ? 'mine' : 'theirs'}
+              onValueChange={(side) => setChoice(conflict.field, side)}
+              className="grid grid-cols-3 gap-2 border-b px-3 py-2 last:border-b-0"
+            >
+              <span className="font-medium">{getAuditFieldLabel(conflict.field, definitions)}</span>
+              <label className="flex items-start gap-2 break-words">
+                <RadioGroupItem value="mine" className="mt-0.5" />
+                {formatAuditValue(conflict.field, conflict.mine)}
+              </label>
+              <label className="flex items-start gap-2 break-words text-muted-foreground">
+                <RadioGroupItem value="theirs" className="mt-0.5" />
+                {formatAuditValue(conflict.field, conflict.theirs)}
+              </label>
+            </RadioGroup>
+          ))}
+        </div>
+
+        <AlertDialogFooter>
+          <Button variant="ghost" onClick={onCancel} disabled={isSubmitting}>
+            Decide Later
+          </Button>
+          <Button variant="outline" onClick={onDiscard} disabled={isSubmitting}>
+            Keep Server Version
+          </Button>
+          <Button variant={comparison ? 'outline' : 'default'} onClick={handleKeepMine} disabled={isSubmitting}>
+            Keep Mine
+          </Button>
+          {comparison && comparison.fields.length > 0 && (
+            <Button onClick={handleMerge} disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : 'Use Selected Values'}
+            </Button>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Mail, Pencil, Phone, UserPlus } from 'lucide-react';
+import { toast } from 'sonner';
+import OwnerForm from './OwnerForm';
+import {
+  useCreateOwner,
+  useGetOwner,
+  useListOwners,
+  useSetPatientOwner,
+  useUpdateOwner,
+} from '../../hooks/useQueries';
+import { isCanisterError } from '../../utils/apiResult';
+import { CONTACT_METHOD_LABELS } from '../../utils/owners';
+import type { OwnerDetails } from '../../backend';
+
+const NO_OWNER = 'none';
+
+interface OwnerCardProps {
+  mrn: string;
+  ownerId?: bigint;
+  /** Hides the edit controls, e.g. while offline */
+  readOnly?: boolean;
+}
+
+export default function OwnerCard({ mrn, ownerId, readOnly }: OwnerCardProps) {
+  const { data: owner, isLoading, refetch } = useGetOwner(ownerId);
+  const { data: owners = [] } = useListOwners();
+  const createOwner = useCreateOwner();
+  const updateOwner = useUpdateOwner();
+  const setPatientOwner = useSetPatientOwner();
+  const [dialog, setDialog] = useState<'create' | 'edit' | null>(null);
+
+  const activeMutation = dialog === 'edit' ? updateOwner : createOwner;
+
+  const handleSave = async (details: OwnerDetails) => {
+    try {
+      if (dialog === 'edit' && owner) {
+        await updateOwner.mutateAsync({ id: owner.id, details, expectedVersion: owner.version });
+        toast.success('Owner updated');
+      } else {
+        const id = await createOwner.mutateAsync(details);
+        await setPatientOwner.mutateAsync({ mrn, ownerId: id });
+        toast.success('Owner added to patient');
+      }
+      setDialog(null);
+    } catch (error) {
+      if (isCanisterError(error, 'conflict')) {
+        toast.error('This owner was changed by someone else', {
+          description: 'The latest details have been loaded. Reapply your changes and save again.',
+        });
+        setDialog(null);
+        refetch();
+        return;
+      }
+      toast.error('Failed to save owner', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
+      console.error('Error saving owner:', error);
+    }
+  };
+
+  const handleLink = async (value: string) => {
+    try {
+      await setPatientOwner.mutateAsync({ mrn, ownerId: value === NO_OWNER ? null : BigInt(value) });
+      toast.success(value === NO_OWNER ? 'Owner removed from patient' : 'Owner linked to patient');
+    } catch (error) {
+      toast.error('Failed to link owner', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
+      console.error('Error linking owner:', error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Owner</CardTitle>
+          <CardDescription>Shared by every patient this owner is linked to</CardDescription>
+        </div>
+        {!readOnly && (
+          owner ? (
+            <Button variant="outline" size="sm" onClick={() => setDialog('edit')}>
+              <Pencil className="mr-2 h-4 w-4" />
+              Edit Owner
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" onClick={() => setDialog('create')}>
+              <UserPlus className="mr-2 h-4 w-4" />
+              Add Owner
+            </Button>
+          )
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading owner...</p>
+        ) : owner ? (
+          <div className="space-y-2 text-sm">
+            <p className="text-base font-medium">{owner.name}</p>
+            {owner.phones.map((phone) => (
+              <p key={phone} className="flex items-center gap-2">
+                <Phone className="h-4 w-4 text-muted-foreground" />
+                <a href={`tel:${phone}`} className="hover:underline">{phone}</a>
+              </p>
+            ))}
+            {owner.email && (
+              <p className="flex items-center gap-2">
+                <Mail className="h-4 w-4 text-muted-foreground" />
+                <a href={`mailto:${owner.email}`} className="hover:underline">{owner.email}</a>
+              </p>
+            )}
+            <p className="text-muted-foreground">
+              Prefers: {CONTACT_METHOD_LABELS[owner.preferredContact]}
+            </p>
+            {owner.notes && <p className="whitespace-pre-wrap text-muted-foreground">{owner.notes}</p>}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No owner on record for this patient</p>
+        )}
+
+        {!readOnly && owners.length > 0 && (
+          <div className="space-y-2">
+            <Label htmlFor="link-owner">Linked owner</Label>
+            <Select
+              value={ownerId?.toString() ?? NO_OWNER}
+              onValueChange={handleLink}
+              disabled={setPatientOwner.isPending}
+            >
+              <SelectTrigger id="link-owner">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_OWNER}>No owner</SelectItem>
+                {owners.map((o) => (
+                  <SelectItem key={o.id.toString()} value={o.id.toString()}>
+                    {o.name}
+                    {o.email ? ` (${o.email})` : o.phones.length > 0 ? ` (${o.phones[0]})` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialog === 'edit' ? 'Edit Owner' : 'Add Owner'}</DialogTitle>
+            <DialogDescription>
+              {dialog === 'edit'
+                ? 'Changes apply to every patient linked to this owner.'
+                : 'Creates an owner record and links it to this patient.'}
+            </DialogDescription>
+          </DialogHeader>
+          {dialog !== null && (
+            <OwnerForm
+              owner={dialog === 'edit' ? owner ?? undefined : undefined}
+              onSubmit={handleSave}
+              isSubmitting={activeMutation.isPending || setPatientOwner.isPending}
+              fieldErrors={
+                isCanisterError(activeMutation.error, 'validation') ? activeMutation.error.fieldErrors : undefined
+              }
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
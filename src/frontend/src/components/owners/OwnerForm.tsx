@@ -0,0 +1,129 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CONTACT_METHOD_LABELS, formatPhoneList, parsePhoneList } from '../../utils/owners';
+import type { ContactMethod, FieldError, Owner, OwnerDetails } from '../../backend';
+
+const OWNER_FIELDS = ['name', 'phones', 'email', 'preferredContact', 'notes'] as const;
+
+type OwnerField = (typeof OWNER_FIELDS)[number];
+
+function isOwnerField(field: string): field is OwnerField {
+  return (OWNER_FIELDS as readonly string[]).includes(field);
+}
+
+interface OwnerFormValues {
+  name: string;
+  phones: string;
+  email: string;
+  preferredContact: ContactMethod;
+  notes: string;
+}
+
+interface OwnerFormProps {
+  owner?: Owner;
+  onSubmit: (details: OwnerDetails) => void;
+  isSubmitting?: boolean;
+  /** Per-field errors from the canister's last rejection of this form */
+  fieldErrors?: FieldError[];
+}
+
+export default function OwnerForm({ owner, onSubmit, isSubmitting, fieldErrors }: OwnerFormProps) {
+  const { register, handleSubmit, watch, setValue, setError, formState: { errors } } = useForm<OwnerFormValues>({
+    defaultValues: {
+      name: owner?.name ?? '',
+      phones: owner ? formatPhoneList(owner.phones) : '',
+      email: owner?.email ?? '',
+      preferredContact: owner?.preferredContact ?? ('phone' as ContactMethod),
+      notes: owner?.notes ?? '',
+    },
+  });
+
+  const preferredContact = watch('preferredContact');
+
+  // Highlight the fields the canister rejected
+  useEffect(() => {
+    for (const fieldError of fieldErrors ?? []) {
+      if (isOwnerField(fieldError.field)) {
+        setError(fieldError.field, { type: 'server', message: fieldError.message });
+      }
+    }
+  }, [fieldErrors, setError]);
+
+  const onFormSubmit = (values: OwnerFormValues) => {
+    onSubmit({
+      name: values.name.trim(),
+      phones: parsePhoneList(values.phones),
+      email: values.email.trim(),
+      preferredContact: values.preferredContact,
+      notes: values.notes,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onFormSubmit)} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="owner-name">Name *</Label>
+        <Input
+          id="owner-name"
+          {...register('name', { validate: (value) => value.trim() !== '' || 'Owner name is required' })}
+          aria-invalid={!!errors.name}
+        />
+        {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="owner-phones">Phone Numbers</Label>
+        <Input
+          id="owner-phones"
+          {...register('phones')}
+          placeholder="Separate numbers with commas"
+          aria-invalid={!!errors.phones}
+        />
+        {errors.phones && <p className="text-sm text-destructive">{errors.phones.message}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="owner-email">Email</Label>
+        <Input id="owner-email" type="email" {...register('email')} aria-invalid={!!errors.email} />
+        {errors.email && <p className="text-sm text-destructive">{errors.email.message}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="owner-preferredContact">Preferred Contact</Label>
+        <Select
+          value={preferredContact}
+          onValueChange={(value) => setValue('preferredContact', value as ContactMethod)}
+        >
+          <SelectTrigger id="owner-preferredContact" aria-invalid={!!errors.preferredContact}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(CONTACT_METHOD_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {errors.preferredContact && (
+          <p className="text-sm text-destructive">{errors.preferredContact.message}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="owner-notes">Notes</Label>
+        <Textarea id="owner-notes" {...register('notes')} rows={3} aria-invalid={!!errors.notes} />
+        {errors.notes && <p className="text-sm text-destructive">{errors.notes.message}</p>}
+      </div>
+
+      <Button type="submit" disabled={isSubmitting}>
+        {isSubmitting ? 'Saving...' : 'Save Owner'}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,137 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getTodayDateString } from '../../utils/dateTime';
+import type { FieldError, Patient, Sex, Species } from '../../backend';
+import type { PatientInput } from '../../hooks/useQueries';
+
+const PATIENT_FIELDS = ['firstName', 'lastName', 'dateOfBirth', 'breed'] as const;
+
+type PatientField = (typeof PATIENT_FIELDS)[number];
+
+function isPatientField(field: string): field is PatientField {
+  return (PATIENT_FIELDS as readonly string[]).includes(field);
+}
+
+interface PatientFormProps {
+  patient: Patient;
+  onSubmit: (data: PatientInput) => void;
+  isSubmitting?: boolean;
+  /** Per-field errors from the canister's last rejection of this form */
+  fieldErrors?: FieldError[];
+  /** Shows the details without letting them be changed */
+  readOnly?: boolean;
+}
+
+export default function PatientForm({ patient, onSubmit, isSubmitting, fieldErrors, readOnly }: PatientFormProps) {
+  const { register, handleSubmit, watch, setValue, setError, formState: { errors, isDirty } } = useForm<PatientInput>({
+    defaultValues: {
+      firstName: patient.firstName,
+      lastName: patient.lastName,
+      dateOfBirth: patient.dateOfBirth,
+      species: patient.species,
+      breed: patient.breed,
+      sex: patient.sex,
+    },
+  });
+
+  const species = watch('species');
+  const sex = watch('sex');
+
+  // Highlight the fields the canister rejected
+  useEffect(() => {
+    for (const fieldError of fieldErrors ?? []) {
+      if (isPatientField(fieldError.field)) {
+        setError(fieldError.field, { type: 'server', message: fieldError.message });
+      }
+    }
+  }, [fieldErrors, setError]);
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)}>
+      <fieldset disabled={readOnly} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="firstName">First Name *</Label>
+            <Input
+              id="firstName"
+              {...register('firstName', { required: 'First name is required' })}
+              aria-invalid={!!errors.firstName}
+            />
+            {errors.firstName && <p className="text-sm text-destructive">{errors.firstName.message}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="lastName">Last Name *</Label>
+            <Input
+              id="lastName"
+              {...register('lastName', { required: 'Last name is required' })}
+              aria-invalid={!!errors.lastName}
+            />
+            {errors.lastName && <p className="text-sm text-destructive">{errors.lastName.message}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="dateOfBirth">Date of Birth</Label>
+            <Input
+              id="dateOfBirth"
+              type="date"
+              max={getTodayDateString()}
+              {...register('dateOfBirth')}
+              aria-invalid={!!errors.dateOfBirth}
+            />
+            {errors.dateOfBirth && <p className="text-sm text-destructive">{errors.dateOfBirth.message}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="species">Species *</Label>
+            <Select
+              value={species}
+              onValueChange={(value) => setValue('species', value as Species, { shouldDirty: true })}
+            >
+              <SelectTrigger id="species">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="canine">Canine</SelectItem>
+                <SelectItem value="feline">Feline</SelectItem>
+                <SelectItem value="other">Other</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="breed">Breed</Label>
+            <Input id="breed" {...register('breed')} aria-invalid={!!errors.breed} />
+            {errors.breed && <p className="text-sm text-destructive">{errors.breed.message}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sex">Sex</Label>
+            <Select value={sex} onValueChange={(value) => setValue('sex', value as Sex, { shouldDirty: true })}>
+              <SelectTrigger id="sex">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="male">Male</SelectItem>
+                <SelectItem value="female">Female</SelectItem>
+                <SelectItem value="maleNeutered">Male Neutered</SelectItem>
+                <SelectItem value="femaleSpayed">Female Spayed</SelectItem>
+                <SelectItem value="unknown_">Unknown</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {!readOnly && (
+          <Button type="submit" disabled={isSubmitting || !isDirty}>
+            {isSubmitting ? 'Saving...' : 'Save Patient'}
+          </Button>
+        )}
+      </fieldset>
+    </form>
+  );
+}
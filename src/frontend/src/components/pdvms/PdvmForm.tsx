@@ -0,0 +1,151 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { NOTIFICATION_METHOD_LABELS } from '../../utils/pdvms';
+import type { FieldError, NotificationMethod, Pdvm, PdvmDetails } from '../../backend';
+
+const PDVM_FIELDS = ['clinicName', 'vetName', 'phone', 'fax', 'email', 'address', 'preferredContact', 'notes'] as const;
+
+type PdvmField = (typeof PDVM_FIELDS)[number];
+
+function isPdvmField(field: string): field is PdvmField {
+  return (PDVM_FIELDS as readonly string[]).includes(field);
+}
+
+interface PdvmFormProps {
+  pdvm?: Pdvm;
+  onSubmit: (details: PdvmDetails) => void;
+  isSubmitting?: boolean;
+  /** Per-field errors from the canister's last rejection of this form */
+  fieldErrors?: FieldError[];
+}
+
+export default function PdvmForm({ pdvm, onSubmit, isSubmitting, fieldErrors }: PdvmFormProps) {
+  const { register, handleSubmit, watch, setValue, setError, formState: { errors } } = useForm<PdvmDetails>({
+    defaultValues: {
+      clinicName: pdvm?.clinicName ?? '',
+      vetName: pdvm?.vetName ?? '',
+      phone: pdvm?.phone ?? '',
+      fax: pdvm?.fax ?? '',
+      email: pdvm?.email ?? '',
+      address: pdvm?.address ?? '',
+      preferredContact: pdvm?.preferredContact ?? ('phone' as NotificationMethod),
+      notes: pdvm?.notes ?? '',
+    },
+  });
+
+  const preferredContact = watch('preferredContact');
+
+  // Highlight the fields the canister rejected
+  useEffect(() => {
+    for (const fieldError of fieldErrors ?? []) {
+      if (isPdvmField(fieldError.field)) {
+        setError(fieldError.field, { type: 'server', message: fieldError.message });
+      }
+    }
+  }, [fieldErrors, setError]);
+
+  const onFormSubmit = (values: PdvmDetails) => {
+    onSubmit({
+      ...values,
+      clinicName: values.clinicName.trim(),
+      vetName: values.vetName.trim(),
+      phone: values.phone.trim(),
+      fax: values.fax.trim(),
+      email: values.email.trim(),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onFormSubmit)} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="pdvm-clinicName">Clinic *</Label>
+          <Input
+            id="pdvm-clinicName"
+            {...register('clinicName', { validate: (value) => value.trim() !== '' || 'Clinic name is required' })}
+            aria-invalid={!!errors.clinicName}
+          />
+          {errors.clinicName && <p className="text-sm text-destructive">{errors.clinicName.message}</p>}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="pdvm-vetName">Veterinarian</Label>
+          <Input
+            id="pdvm-vetName"
+            {...register('vetName')}
+            placeholder="e.g., Dr. Jane Smith"
+            aria-invalid={!!errors.vetName}
+          />
+          {errors.vetName && <p className="text-sm text-destructive">{errors.vetName.message}</p>}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="pdvm-phone">Phone</Label>
+          <Input id="pdvm-phone" {...register('phone')} aria-invalid={!!errors.phone} />
+          {errors.phone && <p className="text-sm text-destructive">{errors.phone.message}</p>}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="pdvm-fax">Fax</Label>
+          <Input id="pdvm-fax" {...register('fax')} aria-invalid={!!errors.fax} />
+          {errors.fax && <p className="text-sm text-destructive">{errors.fax.message}</p>}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="pdvm-email">Email</Label>
+          <Input id="pdvm-email" type="email" {...register('email')} aria-invalid={!!errors.email} />
+          {errors.email && <p className="text-sm text-destructive">{errors.email.message}</p>}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="pdvm-preferredContact">Preferred Contact</Label>
+          <Select
+            value={preferredContact}
+            onValueChange={(value) => setValue('preferredContact', value as NotificationMethod)}
+          >
+            <SelectTrigger id="pdvm-preferredContact" aria-invalid={!!errors.preferredContact}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(NOTIFICATION_METHOD_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {errors.preferredContact && (
+            <p className="text-sm text-destructive">{errors.preferredContact.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="pdvm-address">Address</Label>
+        <Textarea id="pdvm-address" {...register('address')} rows={2} aria-invalid={!!errors.address} />
+        {errors.address && <p className="text-sm text-destructive">{errors.address.message}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="pdvm-notes">Communication Notes</Label>
+        <Textarea
+          id="pdvm-notes"
+          {...register('notes')}
+          placeholder="e.g., Send discharge summaries to the practice manager"
+          rows={3}
+          aria-invalid={!!errors.notes}
+        />
+        {errors.notes && <p className="text-sm text-destructive">{errors.notes.message}</p>}
+      </div>
+
+      <Button type="submit" disabled={isSubmitting}>
+        {isSubmitting ? 'Saving...' : 'Save Referring Vet'}
+      </Button>
+    </form>
+  );
+}
@@ -80,11 +80,7 @@ function processError(e: unknown): never {
     } else throw e;
 }
 
-export async function createActorWithConfig(options?: CreateActorOptions): Promise<backendInterface> {
-    const config = await loadConfig();
-    if (!options) {
-        options = {};
-    }
+async function createAgent(config: Config, options: CreateActorOptions): Promise<HttpAgent> {
     const agent = new HttpAgent({
         ...options.agentOptions,
         host: config.backend_host
@@ -95,19 +91,41 @@ export async function createActorWithConfig(options?: CreateActorOptions): Promi
             console.error(err);
         });
     }
-    options = {
-        ...options,
-        agent: agent,
-        processError
-    };
+    return agent;
+}
 
-    const storageClient = new StorageClient(
+function createStorageClient(config: Config, agent: HttpAgent): StorageClient {
+    return new StorageClient(
         config.bucket_name,
         config.storage_gateway_url,
         config.backend_canister_id,
         config.project_id,
         agent
     );
+}
+
+/**
+ * Storage client for uploading files directly, signed by the same identity as the actor.
+ * Uploads are certified by the backend canister, which checks the caller's permissions.
+ */
+export async function createStorageClientWithConfig(options: CreateActorOptions = {}): Promise<StorageClient> {
+    const config = await loadConfig();
+    return createStorageClient(config, await createAgent(config, options));
+}
+
+export async function createActorWithConfig(options?: CreateActorOptions): Promise<backendInterface> {
+    const config = await loadConfig();
+    if (!options) {
+        options = {};
+    }
+    const agent = await createAgent(config, options);
+    options = {
+        ...options,
+        agent: agent,
+        processError
+    };
+
+    const storageClient = createStorageClient(config, agent);
 
     const MOTOKO_DEDUPLICATION_SENTINEL = '!caf!';
 
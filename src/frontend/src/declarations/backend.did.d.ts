@@ -10,6 +10,351 @@ import type { ActorMethod } from '@icp-sdk/core/agent';
 import type { IDL } from '@icp-sdk/core/candid';
 import type { Principal } from '@icp-sdk/core/principal';
 
+export type AccountStatus = { 'active' : null } |
+  { 'pending' : null } |
+  { 'disabled' : null };
+export type ApiResult = { 'ok' : bigint } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_1 = { 'ok' : null } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_10 = { 'ok' : Array<OrgUnit> } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_11 = { 'ok' : Array<AssignedTodo> } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_12 = { 'ok' : Array<LetterTemplate> } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_13 = { 'ok' : Array<CustomRole> } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_14 = { 'ok' : Array<CustomRoleAssignment> } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_15 = { 'ok' : Array<ChecklistItemDefinition> } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_16 = { 'ok' : Array<SurgeryCase> } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_17 = { 'ok' : Array<CaseTemplate> } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_18 = { 'ok' : [] | [UserProfile] } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_19 = { 'ok' : Pdvm } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_2 = { 'ok' : boolean } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_20 = { 'ok' : Patient } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_21 = { 'ok' : Owner } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_22 = { 'ok' : Dashboard } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_23 = { 'ok' : Array<AuditEntry> } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_24 = { 'ok' : SurgeryCase } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_25 = { 'ok' : Array<Permission> } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_26 = { 'ok' : AccountStatus } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_3 = { 'ok' : CasePage } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_4 = { 'ok' : Array<UserSummary> } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_5 = { 'ok' : Array<Assignee> } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_6 = { 'ok' : Array<TrashedCase> } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_7 = { 'ok' : Array<Pdvm> } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_8 = { 'ok' : Array<Patient> } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export type ApiResult_9 = { 'ok' : Array<Owner> } |
+  { 'conflict' : Conflict } |
+  { 'notFound' : string } |
+  { 'unauthorized' : string } |
+  { 'validation' : Array<FieldError> };
+export interface AssignedTodo { 'todo' : ToDoItem, 'caseSummary' : CaseSummary }
+export interface Assignee {
+  'principal' : Principal,
+  'name' : string,
+  'initials' : string,
+  'credentials' : string,
+}
+export interface AttachmentDetails {
+  'size' : bigint,
+  'mimeType' : string,
+  'blobHash' : string,
+  'filename' : string,
+  'caption' : string,
+}
+export interface AuditEntry {
+  'id' : bigint,
+  'method' : string,
+  'timestamp' : Time,
+  'caller' : Principal,
+  'caseId' : bigint,
+  'changes' : Array<FieldChange>,
+}
+export interface CaseAttachment {
+  'id' : bigint,
+  'size' : bigint,
+  'mimeType' : string,
+  'blobHash' : string,
+  'filename' : string,
+  'caption' : string,
+  'uploadedAt' : Time,
+  'uploadedBy' : Principal,
+}
+export interface CaseFilter {
+  'sex' : [] | [Sex],
+  'status' : [] | [CaseStatus],
+  'hasOpenTodos' : [] | [boolean],
+  'arrivalTo' : [] | [Time],
+  'arrivalFrom' : [] | [Time],
+  'search' : [] | [string],
+  'pdvmId' : [] | [bigint],
+  'checklistComplete' : [] | [boolean],
+  'species' : [] | [Species],
+}
+export interface CasePage {
+  'total' : bigint,
+  'nextOffset' : [] | [bigint],
+  'cases' : Array<SurgeryCase>,
+}
+export type CaseSortKey = { 'mrn' : null } |
+  { 'arrivalNewest' : null } |
+  { 'arrivalOldest' : null } |
+  { 'patientName' : null };
+export type CaseStatus = { 'closed' : null } |
+  { 'discharged' : null } |
+  { 'admitted' : null } |
+  { 'inSurgery' : null } |
+  { 'awaitingResults' : null } |
+  { 'recovering' : null };
+export interface CaseSummary {
+  'id' : bigint,
+  'mrn' : string,
+  'arrivalDate' : Time,
+  'patientLastName' : string,
+  'patientFirstName' : string,
+}
+export interface CaseTemplate {
+  'id' : bigint,
+  'checklistKeys' : Array<string>,
+  'name' : string,
+  'complaintKeywords' : Array<string>,
+  'todoDescriptions' : Array<string>,
+  'species' : [] | [Species],
+}
+export interface ChecklistEntry {
+  'key' : string,
+  'completedAt' : [] | [Time],
+  'completedBy' : [] | [Principal],
+  'complete' : boolean,
+}
+export interface ChecklistGap { 'key' : string, 'cases' : Array<CaseSummary> }
+export interface ChecklistItemDefinition {
+  'key' : string,
+  'title' : string,
+  'order' : bigint,
+  'retired' : boolean,
+}
+export interface ChecklistTurnaround {
+  'key' : string,
+  'count' : bigint,
+  'averageDuration' : [] | [bigint],
+  'medianDuration' : [] | [bigint],
+}
+export interface CloseOverride {
+  'overriddenAt' : Time,
+  'overriddenBy' : Principal,
+  'reason' : string,
+}
+export interface Conflict { 'message' : string, 'current' : [] | [SurgeryCase] }
+export type ContactMethod = { 'text' : null } |
+  { 'email' : null } |
+  { 'phone' : null };
+export interface CustomRole {
+  'id' : bigint,
+  'permissions' : Array<Permission>,
+  'name' : string,
+}
+export interface CustomRoleAssignment {
+  'principal' : Principal,
+  'roleId' : bigint,
+}
+export interface Dashboard {
+  'weeklyArrivals' : Array<WeeklyArrivals>,
+  'oldestOutstanding' : Array<OutstandingItem>,
+  'gaps' : Array<ChecklistGap>,
+  'openCaseCount' : bigint,
+  'turnaround' : Array<ChecklistTurnaround>,
+  'casesWithOpenTodos' : Array<CaseSummary>,
+}
+export interface FieldChange {
+  'field' : string,
+  'after' : string,
+  'before' : string,
+}
+export interface FieldError { 'field' : string, 'message' : string }
+export interface LetterTemplate {
+  'id' : bigint,
+  'body' : string,
+  'name' : string,
+}
+export type NotificationMethod = { 'fax' : null } |
+  { 'text' : null } |
+  { 'email' : null } |
+  { 'phone' : null };
+export interface OrgUnit {
+  'id' : bigint,
+  'members' : Array<UnitMember>,
+  'name' : string,
+}
+export interface OutstandingItem {
+  'kind' : OutstandingItemKind,
+  'caseSummary' : CaseSummary,
+  'description' : string,
+}
+export type OutstandingItemKind = { 'todo' : null } |
+  { 'checklist' : null };
+export interface Owner {
+  'id' : bigint,
+  'name' : string,
+  'email' : string,
+  'version' : bigint,
+  'preferredContact' : ContactMethod,
+  'notes' : string,
+  'phones' : Array<string>,
+}
+export interface OwnerDetails {
+  'name' : string,
+  'email' : string,
+  'preferredContact' : ContactMethod,
+  'notes' : string,
+  'phones' : Array<string>,
+}
+export interface Patient {
+  'mrn' : string,
+  'sex' : Sex,
+  'ownerId' : [] | [bigint],
+  'dateOfBirth' : string,
+  'version' : bigint,
+  'breed' : string,
+  'lastName' : string,
+  'species' : Species,
+  'firstName' : string,
+}
+export interface Pdvm {
+  'id' : bigint,
+  'fax' : string,
+  'email' : string,
+  'version' : bigint,
+  'preferredContact' : NotificationMethod,
+  'vetName' : string,
+  'address' : string,
+  'notes' : string,
+  'phone' : string,
+  'clinicName' : string,
+}
+export interface PdvmDetails {
+  'fax' : string,
+  'email' : string,
+  'preferredContact' : NotificationMethod,
+  'vetName' : string,
+  'address' : string,
+  'notes' : string,
+  'phone' : string,
+  'clinicName' : string,
+}
+export interface PdvmNotification {
+  'method' : NotificationMethod,
+  'notifiedAt' : Time,
+  'notifiedBy' : Principal,
+}
+export type Permission = { 'manageUsers' : null } |
+  { 'viewCases' : null } |
+  { 'importCases' : null } |
+  { 'exportCases' : null } |
+  { 'manageTodos' : null } |
+  { 'deleteCases' : null } |
+  { 'editDemographics' : null } |
+  { 'toggleChecklist' : null };
 export type Sex = { 'female' : null } |
   { 'male' : null } |
   { 'femaleSpayed' : null } |
@@ -18,40 +363,102 @@ export type Sex = { 'female' : null } |
 export type Species = { 'other' : null } |
   { 'feline' : null } |
   { 'canine' : null };
+export type StaffTitle = { 'dvm' : null } |
+  { 'technician' : null } |
+  { 'resident' : null } |
+  { 'student' : null };
 export interface SurgeryCase {
   'id' : bigint,
   'mrn' : string,
   'sex' : Sex,
+  'status' : CaseStatus,
   'todos' : Array<ToDoItem>,
-  'pdvmNotified' : boolean,
-  'histoComplete' : boolean,
   'arrivalDate' : Time,
   'presentingComplaint' : string,
   'dateOfBirth' : string,
   'patientLastName' : string,
-  'labsComplete' : boolean,
+  'closeOverride' : [] | [CloseOverride],
+  'unitId' : bigint,
+  'version' : bigint,
   'patientFirstName' : string,
-  'imagingComplete' : boolean,
-  'surgeryReportComplete' : boolean,
   'notes' : string,
-  'dischargeNotesComplete' : boolean,
+  'pdvmId' : [] | [bigint],
+  'checklist' : Array<ChecklistEntry>,
   'breed' : string,
   'species' : Species,
-  'cultureComplete' : boolean,
+  'attachments' : Array<CaseAttachment>,
+  'pdvmNotification' : [] | [PdvmNotification],
 }
 export type Time = bigint;
 export interface ToDoItem {
   'id' : bigint,
+  'completedAt' : [] | [Time],
+  'assignee' : [] | [Principal],
+  'createdAt' : [] | [Time],
+  'createdBy' : [] | [Principal],
+  'dueDate' : [] | [Time],
   'description' : string,
   'complete' : boolean,
+  'priority' : TodoPriority,
+}
+export interface TodoDetails {
+  'assignee' : [] | [Principal],
+  'dueDate' : [] | [Time],
+  'priority' : TodoPriority,
+}
+export type TodoPriority = { 'low' : null } |
+  { 'normal' : null } |
+  { 'high' : null };
+export interface TrashedCase {
+  'caseRecord' : SurgeryCase,
+  'deletedAt' : Time,
+  'deletedBy' : Principal,
+}
+export interface UnitMember { 'principal' : Principal, 'role' : UnitRole }
+export type UnitRole = { 'member' : null } |
+  { 'unitAdmin' : null };
+export interface UserProfile {
+  'title' : [] | [StaffTitle],
+  'name' : string,
+  'initials' : string,
+  'credentials' : string,
+  'extension' : string,
 }
-export interface UserProfile { 'name' : string }
 export type UserRole = { 'admin' : null } |
   { 'user' : null } |
   { 'guest' : null };
+export interface UserSummary {
+  'status' : AccountStatus,
+  'principal' : Principal,
+  'name' : string,
+  'role' : UserRole,
+  'caseChanges' : bigint,
+  'lastCaseChange' : [] | [Time],
+  'lastSeen' : [] | [Time],
+}
+export interface WeeklyArrivals {
+  'incomplete' : bigint,
+  'complete' : bigint,
+  'weekStart' : Time,
+}
 export interface _SERVICE {
+  '_caffeineStorageCreateCertificate' : ActorMethod<
+    [string],
+    { 'method' : string, 'blob_hash' : string }
+  >,
   '_initializeAccessControlWithSecret' : ActorMethod<[string], undefined>,
-  'addTodoItem' : ActorMethod<[bigint, string], bigint>,
+  'addCaseAttachment' : ActorMethod<
+    [bigint, AttachmentDetails, [] | [string]],
+    ApiResult
+  >,
+  'addChecklistDefinition' : ActorMethod<
+    [string, string, [] | [string]],
+    ApiResult_1
+  >,
+  'addTodoItem' : ActorMethod<
+    [bigint, string, TodoDetails, [] | [string]],
+    ApiResult
+  >,
   'assignCallerUserRole' : ActorMethod<[Principal, UserRole], undefined>,
   'createCase' : ActorMethod<
     [
@@ -64,42 +471,157 @@ export interface _SERVICE {
       Sex,
       string,
       [] | [Time],
-      boolean,
-      boolean,
-      boolean,
-      boolean,
-      boolean,
-      boolean,
-      boolean,
+      Array<ChecklistEntry>,
+      string,
+      Array<string>,
+      [] | [OwnerDetails],
+      [] | [bigint],
+      [] | [NotificationMethod],
+      [] | [bigint],
+      [] | [string],
+    ],
+    ApiResult
+  >,
+  'createCaseTemplate' : ActorMethod<
+    [
       string,
+      [] | [Species],
+      Array<string>,
       Array<string>,
+      Array<string>,
+      [] | [string],
     ],
-    bigint
+    ApiResult
+  >,
+  'createCustomRole' : ActorMethod<
+    [string, Array<Permission>, [] | [string]],
+    ApiResult
   >,
+  'createLetterTemplate' : ActorMethod<
+    [string, string, [] | [string]],
+    ApiResult
+  >,
+  'createOrgUnit' : ActorMethod<[string, [] | [string]], ApiResult>,
+  'createOwner' : ActorMethod<[OwnerDetails, [] | [string]], ApiResult>,
+  'createPdvm' : ActorMethod<[PdvmDetails, [] | [string]], ApiResult>,
   'debugGetRole' : ActorMethod<[], string>,
-  'deleteCase' : ActorMethod<[bigint], undefined>,
-  'deleteTodoItem' : ActorMethod<[bigint, bigint], undefined>,
-  'ensureUserRole' : ActorMethod<[], undefined>,
-  'exportCases' : ActorMethod<[], Array<SurgeryCase>>,
-  'getCallerUserProfile' : ActorMethod<[], [] | [UserProfile]>,
+  'deleteCase' : ActorMethod<[bigint, [] | [string]], ApiResult_1>,
+  'deleteCaseAttachment' : ActorMethod<
+    [bigint, bigint, [] | [string]],
+    ApiResult_1
+  >,
+  'deleteCaseTemplate' : ActorMethod<[bigint, [] | [string]], ApiResult_1>,
+  'deleteCustomRole' : ActorMethod<[bigint, [] | [string]], ApiResult_1>,
+  'deleteLetterTemplate' : ActorMethod<[bigint, [] | [string]], ApiResult_1>,
+  'deleteTodoItem' : ActorMethod<[bigint, bigint, [] | [string]], ApiResult_1>,
+  'editTodoItem' : ActorMethod<
+    [bigint, bigint, string, TodoDetails, [] | [string]],
+    ApiResult_1
+  >,
+  'ensureUserRole' : ActorMethod<[], ApiResult_26>,
+  'exportCases' : ActorMethod<[], ApiResult_16>,
+  'getAutoProvisionUsers' : ActorMethod<[], ApiResult_2>,
+  'getCallerPermissions' : ActorMethod<[], ApiResult_25>,
+  'getCallerUserProfile' : ActorMethod<[], ApiResult_18>,
   'getCallerUserRole' : ActorMethod<[], UserRole>,
-  'getCase' : ActorMethod<[bigint], [] | [SurgeryCase]>,
+  'getCase' : ActorMethod<[bigint], ApiResult_24>,
+  'getCaseAuditLog' : ActorMethod<[bigint], ApiResult_23>,
   'getCaseCount' : ActorMethod<[], bigint>,
-  'getCasesBySpecies' : ActorMethod<[Species], Array<SurgeryCase>>,
-  'getUserProfile' : ActorMethod<[Principal], [] | [UserProfile]>,
+  'getCasesBySpecies' : ActorMethod<[Species], ApiResult_16>,
+  'getDashboard' : ActorMethod<[Time, bigint, bigint], ApiResult_22>,
+  'getOwner' : ActorMethod<[bigint], ApiResult_21>,
+  'getPatient' : ActorMethod<[string], ApiResult_20>,
+  'getPatientCases' : ActorMethod<[string], ApiResult_16>,
+  'getPdvm' : ActorMethod<[bigint], ApiResult_19>,
+  'getTrashRetentionDays' : ActorMethod<[], ApiResult>,
+  'getUserProfile' : ActorMethod<[Principal], ApiResult_18>,
   'getVersion' : ActorMethod<[], string>,
-  'importCases' : ActorMethod<[Array<SurgeryCase>], undefined>,
+  'importCases' : ActorMethod<[Array<SurgeryCase>, [] | [string]], ApiResult_1>,
   'isCallerAdmin' : ActorMethod<[], boolean>,
-  'listCases' : ActorMethod<[], Array<SurgeryCase>>,
-  'saveCallerUserProfile' : ActorMethod<[UserProfile], undefined>,
-  'toggleCulture' : ActorMethod<[bigint], boolean>,
-  'toggleDischargeNotes' : ActorMethod<[bigint], boolean>,
-  'toggleHisto' : ActorMethod<[bigint], boolean>,
-  'toggleImaging' : ActorMethod<[bigint], boolean>,
-  'toggleLabs' : ActorMethod<[bigint], boolean>,
-  'togglePdvmNotified' : ActorMethod<[bigint], boolean>,
-  'toggleSurgeryReport' : ActorMethod<[bigint], boolean>,
-  'toggleTodoComplete' : ActorMethod<[bigint, bigint], undefined>,
+  'listAssignableUsers' : ActorMethod<[], ApiResult_5>,
+  'listCaseTemplates' : ActorMethod<[], ApiResult_17>,
+  'listCases' : ActorMethod<[], ApiResult_16>,
+  'listChecklistDefinitions' : ActorMethod<[], ApiResult_15>,
+  'listCustomRoleAssignments' : ActorMethod<[], ApiResult_14>,
+  'listCustomRoles' : ActorMethod<[], ApiResult_13>,
+  'listLetterTemplates' : ActorMethod<[], ApiResult_12>,
+  'listMyTodos' : ActorMethod<[boolean], ApiResult_11>,
+  'listOrgUnits' : ActorMethod<[], ApiResult_10>,
+  'listOwners' : ActorMethod<[], ApiResult_9>,
+  'listPatients' : ActorMethod<[], ApiResult_8>,
+  'listPdvms' : ActorMethod<[], ApiResult_7>,
+  'listTrash' : ActorMethod<[], ApiResult_6>,
+  'listUserDirectory' : ActorMethod<[], ApiResult_5>,
+  'listUsers' : ActorMethod<[], ApiResult_4>,
+  'markLetterSent' : ActorMethod<
+    [bigint, NotificationMethod, [] | [string]],
+    ApiResult_1
+  >,
+  'purgeTrash' : ActorMethod<[[] | [string]], ApiResult>,
+  'queryCases' : ActorMethod<
+    [CaseFilter, CaseSortKey, bigint, bigint],
+    ApiResult_3
+  >,
+  'removeUnitMember' : ActorMethod<
+    [bigint, Principal, [] | [string]],
+    ApiResult_1
+  >,
+  'renameChecklistDefinition' : ActorMethod<
+    [string, string, [] | [string]],
+    ApiResult_1
+  >,
+  'renameOrgUnit' : ActorMethod<[bigint, string, [] | [string]], ApiResult_1>,
+  'reorderChecklistDefinitions' : ActorMethod<
+    [Array<string>, [] | [string]],
+    ApiResult_1
+  >,
+  'reorderTodos' : ActorMethod<
+    [bigint, Array<bigint>, [] | [string]],
+    ApiResult_1
+  >,
+  'restoreCase' : ActorMethod<[bigint, [] | [string]], ApiResult_1>,
+  'saveCallerUserProfile' : ActorMethod<
+    [UserProfile, [] | [string]],
+    ApiResult_1
+  >,
+  'setAutoProvisionUsers' : ActorMethod<[boolean, [] | [string]], ApiResult_1>,
+  'setCaseStatus' : ActorMethod<
+    [bigint, CaseStatus, [] | [string], [] | [string]],
+    ApiResult_1
+  >,
+  'setChecklistDefinitionRetired' : ActorMethod<
+    [string, boolean, [] | [string]],
+    ApiResult_1
+  >,
+  'setPatientOwner' : ActorMethod<
+    [string, [] | [bigint], [] | [string]],
+    ApiResult_1
+  >,
+  'setTrashRetentionDays' : ActorMethod<[bigint, [] | [string]], ApiResult_1>,
+  'setUnitMember' : ActorMethod<
+    [bigint, Principal, UnitRole, [] | [string]],
+    ApiResult_1
+  >,
+  'setUserAccess' : ActorMethod<
+    [Principal, boolean, [] | [string]],
+    ApiResult_1
+  >,
+  'setUserCustomRole' : ActorMethod<
+    [Principal, [] | [bigint], [] | [string]],
+    ApiResult_1
+  >,
+  'setUserRole' : ActorMethod<
+    [Principal, UserRole, [] | [string]],
+    ApiResult_1
+  >,
+  'toggleChecklistItem' : ActorMethod<
+    [bigint, string, [] | [NotificationMethod], [] | [string]],
+    ApiResult_2
+  >,
+  'toggleTodoComplete' : ActorMethod<
+    [bigint, bigint, [] | [string]],
+    ApiResult_1
+  >,
   'updateCase' : ActorMethod<
     [
       bigint,
@@ -112,17 +634,57 @@ export interface _SERVICE {
       string,
       Sex,
       string,
-      boolean,
-      boolean,
-      boolean,
-      boolean,
-      boolean,
-      boolean,
-      boolean,
+      Array<ChecklistEntry>,
       string,
       Array<ToDoItem>,
+      [] | [bigint],
+      [] | [NotificationMethod],
+      bigint,
+      [] | [string],
+    ],
+    ApiResult
+  >,
+  'updateCaseTemplate' : ActorMethod<
+    [
+      bigint,
+      string,
+      [] | [Species],
+      Array<string>,
+      Array<string>,
+      Array<string>,
+      [] | [string],
     ],
-    undefined
+    ApiResult_1
+  >,
+  'updateCustomRole' : ActorMethod<
+    [bigint, string, Array<Permission>, [] | [string]],
+    ApiResult_1
+  >,
+  'updateLetterTemplate' : ActorMethod<
+    [bigint, string, string, [] | [string]],
+    ApiResult_1
+  >,
+  'updateOwner' : ActorMethod<
+    [bigint, OwnerDetails, bigint, [] | [string]],
+    ApiResult
+  >,
+  'updatePatient' : ActorMethod<
+    [
+      string,
+      string,
+      string,
+      string,
+      Species,
+      string,
+      Sex,
+      bigint,
+      [] | [string],
+    ],
+    ApiResult
+  >,
+  'updatePdvm' : ActorMethod<
+    [bigint, PdvmDetails, bigint, [] | [string]],
+    ApiResult
   >,
 }
 export declare const idlService: IDL.ServiceClass;
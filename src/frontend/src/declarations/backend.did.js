@@ -8,15 +8,12 @@
 
 import { IDL } from '@icp-sdk/core/candid';
 
-export const UserRole = IDL.Variant({
-  'admin' : IDL.Null,
-  'user' : IDL.Null,
-  'guest' : IDL.Null,
-});
-export const Species = IDL.Variant({
-  'other' : IDL.Null,
-  'feline' : IDL.Null,
-  'canine' : IDL.Null,
+export const AttachmentDetails = IDL.Record({
+  'size' : IDL.Nat,
+  'mimeType' : IDL.Text,
+  'blobHash' : IDL.Text,
+  'filename' : IDL.Text,
+  'caption' : IDL.Text,
 });
 export const Sex = IDL.Variant({
   'female' : IDL.Null,
@@ -25,38 +22,535 @@ export const Sex = IDL.Variant({
   'maleNeutered' : IDL.Null,
   'unknown' : IDL.Null,
 });
+export const CaseStatus = IDL.Variant({
+  'closed' : IDL.Null,
+  'discharged' : IDL.Null,
+  'admitted' : IDL.Null,
+  'inSurgery' : IDL.Null,
+  'awaitingResults' : IDL.Null,
+  'recovering' : IDL.Null,
+});
 export const Time = IDL.Int;
+export const TodoPriority = IDL.Variant({
+  'low' : IDL.Null,
+  'normal' : IDL.Null,
+  'high' : IDL.Null,
+});
 export const ToDoItem = IDL.Record({
   'id' : IDL.Nat,
+  'completedAt' : IDL.Opt(Time),
+  'assignee' : IDL.Opt(IDL.Principal),
+  'createdAt' : IDL.Opt(Time),
+  'createdBy' : IDL.Opt(IDL.Principal),
+  'dueDate' : IDL.Opt(Time),
   'description' : IDL.Text,
   'complete' : IDL.Bool,
+  'priority' : TodoPriority,
+});
+export const CloseOverride = IDL.Record({
+  'overriddenAt' : Time,
+  'overriddenBy' : IDL.Principal,
+  'reason' : IDL.Text,
+});
+export const ChecklistEntry = IDL.Record({
+  'key' : IDL.Text,
+  'completedAt' : IDL.Opt(Time),
+  'completedBy' : IDL.Opt(IDL.Principal),
+  'complete' : IDL.Bool,
+});
+export const Species = IDL.Variant({
+  'other' : IDL.Null,
+  'feline' : IDL.Null,
+  'canine' : IDL.Null,
+});
+export const CaseAttachment = IDL.Record({
+  'id' : IDL.Nat,
+  'size' : IDL.Nat,
+  'mimeType' : IDL.Text,
+  'blobHash' : IDL.Text,
+  'filename' : IDL.Text,
+  'caption' : IDL.Text,
+  'uploadedAt' : Time,
+  'uploadedBy' : IDL.Principal,
+});
+export const NotificationMethod = IDL.Variant({
+  'fax' : IDL.Null,
+  'text' : IDL.Null,
+  'email' : IDL.Null,
+  'phone' : IDL.Null,
+});
+export const PdvmNotification = IDL.Record({
+  'method' : NotificationMethod,
+  'notifiedAt' : Time,
+  'notifiedBy' : IDL.Principal,
 });
 export const SurgeryCase = IDL.Record({
   'id' : IDL.Nat,
   'mrn' : IDL.Text,
   'sex' : Sex,
+  'status' : CaseStatus,
   'todos' : IDL.Vec(ToDoItem),
-  'pdvmNotified' : IDL.Bool,
-  'histoComplete' : IDL.Bool,
   'arrivalDate' : Time,
   'presentingComplaint' : IDL.Text,
   'dateOfBirth' : IDL.Text,
   'patientLastName' : IDL.Text,
-  'labsComplete' : IDL.Bool,
+  'closeOverride' : IDL.Opt(CloseOverride),
+  'unitId' : IDL.Nat,
+  'version' : IDL.Nat,
+  'patientFirstName' : IDL.Text,
+  'notes' : IDL.Text,
+  'pdvmId' : IDL.Opt(IDL.Nat),
+  'checklist' : IDL.Vec(ChecklistEntry),
+  'breed' : IDL.Text,
+  'species' : Species,
+  'attachments' : IDL.Vec(CaseAttachment),
+  'pdvmNotification' : IDL.Opt(PdvmNotification),
+});
+export const Conflict = IDL.Record({
+  'message' : IDL.Text,
+  'current' : IDL.Opt(SurgeryCase),
+});
+export const FieldError = IDL.Record({ 'field' : IDL.Text, 'message' : IDL.Text });
+export const ApiResult = IDL.Variant({
+  'ok' : IDL.Nat,
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const ApiResult_1 = IDL.Variant({
+  'ok' : IDL.Null,
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const TodoDetails = IDL.Record({
+  'assignee' : IDL.Opt(IDL.Principal),
+  'dueDate' : IDL.Opt(Time),
+  'priority' : TodoPriority,
+});
+export const UserRole = IDL.Variant({
+  'admin' : IDL.Null,
+  'user' : IDL.Null,
+  'guest' : IDL.Null,
+});
+export const ContactMethod = IDL.Variant({
+  'text' : IDL.Null,
+  'email' : IDL.Null,
+  'phone' : IDL.Null,
+});
+export const OwnerDetails = IDL.Record({
+  'name' : IDL.Text,
+  'email' : IDL.Text,
+  'preferredContact' : ContactMethod,
+  'notes' : IDL.Text,
+  'phones' : IDL.Vec(IDL.Text),
+});
+export const Permission = IDL.Variant({
+  'manageUsers' : IDL.Null,
+  'viewCases' : IDL.Null,
+  'importCases' : IDL.Null,
+  'exportCases' : IDL.Null,
+  'manageTodos' : IDL.Null,
+  'deleteCases' : IDL.Null,
+  'editDemographics' : IDL.Null,
+  'toggleChecklist' : IDL.Null,
+});
+export const PdvmDetails = IDL.Record({
+  'fax' : IDL.Text,
+  'email' : IDL.Text,
+  'preferredContact' : NotificationMethod,
+  'vetName' : IDL.Text,
+  'address' : IDL.Text,
+  'notes' : IDL.Text,
+  'phone' : IDL.Text,
+  'clinicName' : IDL.Text,
+});
+export const AccountStatus = IDL.Variant({
+  'active' : IDL.Null,
+  'pending' : IDL.Null,
+  'disabled' : IDL.Null,
+});
+export const ApiResult_26 = IDL.Variant({
+  'ok' : AccountStatus,
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const ApiResult_16 = IDL.Variant({
+  'ok' : IDL.Vec(SurgeryCase),
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const ApiResult_2 = IDL.Variant({
+  'ok' : IDL.Bool,
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const ApiResult_25 = IDL.Variant({
+  'ok' : IDL.Vec(Permission),
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const StaffTitle = IDL.Variant({
+  'dvm' : IDL.Null,
+  'technician' : IDL.Null,
+  'resident' : IDL.Null,
+  'student' : IDL.Null,
+});
+export const UserProfile = IDL.Record({
+  'title' : IDL.Opt(StaffTitle),
+  'name' : IDL.Text,
+  'initials' : IDL.Text,
+  'credentials' : IDL.Text,
+  'extension' : IDL.Text,
+});
+export const ApiResult_18 = IDL.Variant({
+  'ok' : IDL.Opt(UserProfile),
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const ApiResult_24 = IDL.Variant({
+  'ok' : SurgeryCase,
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const FieldChange = IDL.Record({
+  'field' : IDL.Text,
+  'after' : IDL.Text,
+  'before' : IDL.Text,
+});
+export const AuditEntry = IDL.Record({
+  'id' : IDL.Nat,
+  'method' : IDL.Text,
+  'timestamp' : Time,
+  'caller' : IDL.Principal,
+  'caseId' : IDL.Nat,
+  'changes' : IDL.Vec(FieldChange),
+});
+export const ApiResult_23 = IDL.Variant({
+  'ok' : IDL.Vec(AuditEntry),
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const WeeklyArrivals = IDL.Record({
+  'incomplete' : IDL.Nat,
+  'complete' : IDL.Nat,
+  'weekStart' : Time,
+});
+export const OutstandingItemKind = IDL.Variant({
+  'todo' : IDL.Null,
+  'checklist' : IDL.Null,
+});
+export const CaseSummary = IDL.Record({
+  'id' : IDL.Nat,
+  'mrn' : IDL.Text,
+  'arrivalDate' : Time,
+  'patientLastName' : IDL.Text,
   'patientFirstName' : IDL.Text,
-  'imagingComplete' : IDL.Bool,
-  'surgeryReportComplete' : IDL.Bool,
+});
+export const OutstandingItem = IDL.Record({
+  'kind' : OutstandingItemKind,
+  'caseSummary' : CaseSummary,
+  'description' : IDL.Text,
+});
+export const ChecklistGap = IDL.Record({
+  'key' : IDL.Text,
+  'cases' : IDL.Vec(CaseSummary),
+});
+export const ChecklistTurnaround = IDL.Record({
+  'key' : IDL.Text,
+  'count' : IDL.Nat,
+  'averageDuration' : IDL.Opt(IDL.Int),
+  'medianDuration' : IDL.Opt(IDL.Int),
+});
+export const Dashboard = IDL.Record({
+  'weeklyArrivals' : IDL.Vec(WeeklyArrivals),
+  'oldestOutstanding' : IDL.Vec(OutstandingItem),
+  'gaps' : IDL.Vec(ChecklistGap),
+  'openCaseCount' : IDL.Nat,
+  'turnaround' : IDL.Vec(ChecklistTurnaround),
+  'casesWithOpenTodos' : IDL.Vec(CaseSummary),
+});
+export const ApiResult_22 = IDL.Variant({
+  'ok' : Dashboard,
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const Owner = IDL.Record({
+  'id' : IDL.Nat,
+  'name' : IDL.Text,
+  'email' : IDL.Text,
+  'version' : IDL.Nat,
+  'preferredContact' : ContactMethod,
   'notes' : IDL.Text,
-  'dischargeNotesComplete' : IDL.Bool,
+  'phones' : IDL.Vec(IDL.Text),
+});
+export const ApiResult_21 = IDL.Variant({
+  'ok' : Owner,
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const Patient = IDL.Record({
+  'mrn' : IDL.Text,
+  'sex' : Sex,
+  'ownerId' : IDL.Opt(IDL.Nat),
+  'dateOfBirth' : IDL.Text,
+  'version' : IDL.Nat,
   'breed' : IDL.Text,
+  'lastName' : IDL.Text,
   'species' : Species,
-  'cultureComplete' : IDL.Bool,
+  'firstName' : IDL.Text,
+});
+export const ApiResult_20 = IDL.Variant({
+  'ok' : Patient,
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const Pdvm = IDL.Record({
+  'id' : IDL.Nat,
+  'fax' : IDL.Text,
+  'email' : IDL.Text,
+  'version' : IDL.Nat,
+  'preferredContact' : NotificationMethod,
+  'vetName' : IDL.Text,
+  'address' : IDL.Text,
+  'notes' : IDL.Text,
+  'phone' : IDL.Text,
+  'clinicName' : IDL.Text,
+});
+export const ApiResult_19 = IDL.Variant({
+  'ok' : Pdvm,
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const Assignee = IDL.Record({
+  'principal' : IDL.Principal,
+  'name' : IDL.Text,
+  'initials' : IDL.Text,
+  'credentials' : IDL.Text,
+});
+export const ApiResult_5 = IDL.Variant({
+  'ok' : IDL.Vec(Assignee),
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const CaseTemplate = IDL.Record({
+  'id' : IDL.Nat,
+  'checklistKeys' : IDL.Vec(IDL.Text),
+  'name' : IDL.Text,
+  'complaintKeywords' : IDL.Vec(IDL.Text),
+  'todoDescriptions' : IDL.Vec(IDL.Text),
+  'species' : IDL.Opt(Species),
+});
+export const ApiResult_17 = IDL.Variant({
+  'ok' : IDL.Vec(CaseTemplate),
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const ChecklistItemDefinition = IDL.Record({
+  'key' : IDL.Text,
+  'title' : IDL.Text,
+  'order' : IDL.Nat,
+  'retired' : IDL.Bool,
+});
+export const ApiResult_15 = IDL.Variant({
+  'ok' : IDL.Vec(ChecklistItemDefinition),
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const CustomRoleAssignment = IDL.Record({
+  'principal' : IDL.Principal,
+  'roleId' : IDL.Nat,
+});
+export const ApiResult_14 = IDL.Variant({
+  'ok' : IDL.Vec(CustomRoleAssignment),
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const CustomRole = IDL.Record({
+  'id' : IDL.Nat,
+  'permissions' : IDL.Vec(Permission),
+  'name' : IDL.Text,
+});
+export const ApiResult_13 = IDL.Variant({
+  'ok' : IDL.Vec(CustomRole),
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const LetterTemplate = IDL.Record({
+  'id' : IDL.Nat,
+  'body' : IDL.Text,
+  'name' : IDL.Text,
+});
+export const ApiResult_12 = IDL.Variant({
+  'ok' : IDL.Vec(LetterTemplate),
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const AssignedTodo = IDL.Record({
+  'todo' : ToDoItem,
+  'caseSummary' : CaseSummary,
+});
+export const ApiResult_11 = IDL.Variant({
+  'ok' : IDL.Vec(AssignedTodo),
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const UnitRole = IDL.Variant({ 'member' : IDL.Null, 'unitAdmin' : IDL.Null });
+export const UnitMember = IDL.Record({
+  'principal' : IDL.Principal,
+  'role' : UnitRole,
+});
+export const OrgUnit = IDL.Record({
+  'id' : IDL.Nat,
+  'members' : IDL.Vec(UnitMember),
+  'name' : IDL.Text,
+});
+export const ApiResult_10 = IDL.Variant({
+  'ok' : IDL.Vec(OrgUnit),
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const ApiResult_9 = IDL.Variant({
+  'ok' : IDL.Vec(Owner),
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const ApiResult_8 = IDL.Variant({
+  'ok' : IDL.Vec(Patient),
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const ApiResult_7 = IDL.Variant({
+  'ok' : IDL.Vec(Pdvm),
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const TrashedCase = IDL.Record({
+  'caseRecord' : SurgeryCase,
+  'deletedAt' : Time,
+  'deletedBy' : IDL.Principal,
+});
+export const ApiResult_6 = IDL.Variant({
+  'ok' : IDL.Vec(TrashedCase),
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const UserSummary = IDL.Record({
+  'status' : AccountStatus,
+  'principal' : IDL.Principal,
+  'name' : IDL.Text,
+  'role' : UserRole,
+  'caseChanges' : IDL.Nat,
+  'lastCaseChange' : IDL.Opt(Time),
+  'lastSeen' : IDL.Opt(Time),
+});
+export const ApiResult_4 = IDL.Variant({
+  'ok' : IDL.Vec(UserSummary),
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
+});
+export const CaseFilter = IDL.Record({
+  'sex' : IDL.Opt(Sex),
+  'status' : IDL.Opt(CaseStatus),
+  'hasOpenTodos' : IDL.Opt(IDL.Bool),
+  'arrivalTo' : IDL.Opt(Time),
+  'arrivalFrom' : IDL.Opt(Time),
+  'search' : IDL.Opt(IDL.Text),
+  'pdvmId' : IDL.Opt(IDL.Nat),
+  'checklistComplete' : IDL.Opt(IDL.Bool),
+  'species' : IDL.Opt(Species),
+});
+export const CaseSortKey = IDL.Variant({
+  'mrn' : IDL.Null,
+  'arrivalNewest' : IDL.Null,
+  'arrivalOldest' : IDL.Null,
+  'patientName' : IDL.Null,
+});
+export const CasePage = IDL.Record({
+  'total' : IDL.Nat,
+  'nextOffset' : IDL.Opt(IDL.Nat),
+  'cases' : IDL.Vec(SurgeryCase),
+});
+export const ApiResult_3 = IDL.Variant({
+  'ok' : CasePage,
+  'conflict' : Conflict,
+  'notFound' : IDL.Text,
+  'unauthorized' : IDL.Text,
+  'validation' : IDL.Vec(FieldError),
 });
-export const UserProfile = IDL.Record({ 'name' : IDL.Text });
 
 export const idlService = IDL.Service({
+  '_caffeineStorageCreateCertificate' : IDL.Func(
+      [IDL.Text],
+      [IDL.Record({ 'method' : IDL.Text, 'blob_hash' : IDL.Text })],
+      [],
+    ),
   '_initializeAccessControlWithSecret' : IDL.Func([IDL.Text], [], []),
-  'addTodoItem' : IDL.Func([IDL.Nat, IDL.Text], [IDL.Nat], []),
+  'addCaseAttachment' : IDL.Func(
+      [IDL.Nat, AttachmentDetails, IDL.Opt(IDL.Text)],
+      [ApiResult],
+      [],
+    ),
+  'addChecklistDefinition' : IDL.Func(
+      [IDL.Text, IDL.Text, IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'addTodoItem' : IDL.Func(
+      [IDL.Nat, IDL.Text, TodoDetails, IDL.Opt(IDL.Text)],
+      [ApiResult],
+      [],
+    ),
   'assignCallerUserRole' : IDL.Func([IDL.Principal, UserRole], [], []),
   'createCase' : IDL.Func(
       [
@@ -69,47 +563,215 @@ export const idlService = IDL.Service({
         Sex,
         IDL.Text,
         IDL.Opt(Time),
-        IDL.Bool,
-        IDL.Bool,
-        IDL.Bool,
-        IDL.Bool,
-        IDL.Bool,
-        IDL.Bool,
-        IDL.Bool,
+        IDL.Vec(ChecklistEntry),
         IDL.Text,
         IDL.Vec(IDL.Text),
+        IDL.Opt(OwnerDetails),
+        IDL.Opt(IDL.Nat),
+        IDL.Opt(NotificationMethod),
+        IDL.Opt(IDL.Nat),
+        IDL.Opt(IDL.Text),
       ],
-      [IDL.Nat],
+      [ApiResult],
       [],
     ),
+  'createCaseTemplate' : IDL.Func(
+      [
+        IDL.Text,
+        IDL.Opt(Species),
+        IDL.Vec(IDL.Text),
+        IDL.Vec(IDL.Text),
+        IDL.Vec(IDL.Text),
+        IDL.Opt(IDL.Text),
+      ],
+      [ApiResult],
+      [],
+    ),
+  'createCustomRole' : IDL.Func(
+      [IDL.Text, IDL.Vec(Permission), IDL.Opt(IDL.Text)],
+      [ApiResult],
+      [],
+    ),
+  'createLetterTemplate' : IDL.Func(
+      [IDL.Text, IDL.Text, IDL.Opt(IDL.Text)],
+      [ApiResult],
+      [],
+    ),
+  'createOrgUnit' : IDL.Func([IDL.Text, IDL.Opt(IDL.Text)], [ApiResult], []),
+  'createOwner' : IDL.Func([OwnerDetails, IDL.Opt(IDL.Text)], [ApiResult], []),
+  'createPdvm' : IDL.Func([PdvmDetails, IDL.Opt(IDL.Text)], [ApiResult], []),
   'debugGetRole' : IDL.Func([], [IDL.Text], ['query']),
-  'deleteCase' : IDL.Func([IDL.Nat], [], []),
-  'deleteTodoItem' : IDL.Func([IDL.Nat, IDL.Nat], [], []),
-  'ensureUserRole' : IDL.Func([], [], []),
-  'exportCases' : IDL.Func([], [IDL.Vec(SurgeryCase)], ['query']),
-  'getCallerUserProfile' : IDL.Func([], [IDL.Opt(UserProfile)], ['query']),
+  'deleteCase' : IDL.Func([IDL.Nat, IDL.Opt(IDL.Text)], [ApiResult_1], []),
+  'deleteCaseAttachment' : IDL.Func(
+      [IDL.Nat, IDL.Nat, IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'deleteCaseTemplate' : IDL.Func(
+      [IDL.Nat, IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'deleteCustomRole' : IDL.Func(
+      [IDL.Nat, IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'deleteLetterTemplate' : IDL.Func(
+      [IDL.Nat, IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'deleteTodoItem' : IDL.Func(
+      [IDL.Nat, IDL.Nat, IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'editTodoItem' : IDL.Func(
+      [IDL.Nat, IDL.Nat, IDL.Text, TodoDetails, IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'ensureUserRole' : IDL.Func([], [ApiResult_26], []),
+  'exportCases' : IDL.Func([], [ApiResult_16], ['query']),
+  'getAutoProvisionUsers' : IDL.Func([], [ApiResult_2], ['query']),
+  'getCallerPermissions' : IDL.Func([], [ApiResult_25], ['query']),
+  'getCallerUserProfile' : IDL.Func([], [ApiResult_18], ['query']),
   'getCallerUserRole' : IDL.Func([], [UserRole], ['query']),
-  'getCase' : IDL.Func([IDL.Nat], [IDL.Opt(SurgeryCase)], ['query']),
+  'getCase' : IDL.Func([IDL.Nat], [ApiResult_24], ['query']),
+  'getCaseAuditLog' : IDL.Func([IDL.Nat], [ApiResult_23], ['query']),
   'getCaseCount' : IDL.Func([], [IDL.Nat], ['query']),
-  'getCasesBySpecies' : IDL.Func([Species], [IDL.Vec(SurgeryCase)], ['query']),
-  'getUserProfile' : IDL.Func(
-      [IDL.Principal],
-      [IDL.Opt(UserProfile)],
+  'getCasesBySpecies' : IDL.Func([Species], [ApiResult_16], ['query']),
+  'getDashboard' : IDL.Func(
+      [Time, IDL.Nat, IDL.Nat],
+      [ApiResult_22],
       ['query'],
     ),
+  'getOwner' : IDL.Func([IDL.Nat], [ApiResult_21], ['query']),
+  'getPatient' : IDL.Func([IDL.Text], [ApiResult_20], ['query']),
+  'getPatientCases' : IDL.Func([IDL.Text], [ApiResult_16], ['query']),
+  'getPdvm' : IDL.Func([IDL.Nat], [ApiResult_19], ['query']),
+  'getTrashRetentionDays' : IDL.Func([], [ApiResult], ['query']),
+  'getUserProfile' : IDL.Func([IDL.Principal], [ApiResult_18], ['query']),
   'getVersion' : IDL.Func([], [IDL.Text], ['query']),
-  'importCases' : IDL.Func([IDL.Vec(SurgeryCase)], [], []),
+  'importCases' : IDL.Func(
+      [IDL.Vec(SurgeryCase), IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
   'isCallerAdmin' : IDL.Func([], [IDL.Bool], ['query']),
-  'listCases' : IDL.Func([], [IDL.Vec(SurgeryCase)], ['query']),
-  'saveCallerUserProfile' : IDL.Func([UserProfile], [], []),
-  'toggleCulture' : IDL.Func([IDL.Nat], [IDL.Bool], []),
-  'toggleDischargeNotes' : IDL.Func([IDL.Nat], [IDL.Bool], []),
-  'toggleHisto' : IDL.Func([IDL.Nat], [IDL.Bool], []),
-  'toggleImaging' : IDL.Func([IDL.Nat], [IDL.Bool], []),
-  'toggleLabs' : IDL.Func([IDL.Nat], [IDL.Bool], []),
-  'togglePdvmNotified' : IDL.Func([IDL.Nat], [IDL.Bool], []),
-  'toggleSurgeryReport' : IDL.Func([IDL.Nat], [IDL.Bool], []),
-  'toggleTodoComplete' : IDL.Func([IDL.Nat, IDL.Nat], [], []),
+  'listAssignableUsers' : IDL.Func([], [ApiResult_5], ['query']),
+  'listCaseTemplates' : IDL.Func([], [ApiResult_17], ['query']),
+  'listCases' : IDL.Func([], [ApiResult_16], ['query']),
+  'listChecklistDefinitions' : IDL.Func([], [ApiResult_15], ['query']),
+  'listCustomRoleAssignments' : IDL.Func([], [ApiResult_14], ['query']),
+  'listCustomRoles' : IDL.Func([], [ApiResult_13], ['query']),
+  'listLetterTemplates' : IDL.Func([], [ApiResult_12], ['query']),
+  'listMyTodos' : IDL.Func([IDL.Bool], [ApiResult_11], ['query']),
+  'listOrgUnits' : IDL.Func([], [ApiResult_10], ['query']),
+  'listOwners' : IDL.Func([], [ApiResult_9], ['query']),
+  'listPatients' : IDL.Func([], [ApiResult_8], ['query']),
+  'listPdvms' : IDL.Func([], [ApiResult_7], ['query']),
+  'listTrash' : IDL.Func([], [ApiResult_6], ['query']),
+  'listUserDirectory' : IDL.Func([], [ApiResult_5], ['query']),
+  'listUsers' : IDL.Func([], [ApiResult_4], ['query']),
+  'markLetterSent' : IDL.Func(
+      [IDL.Nat, NotificationMethod, IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'purgeTrash' : IDL.Func([IDL.Opt(IDL.Text)], [ApiResult], []),
+  'queryCases' : IDL.Func(
+      [CaseFilter, CaseSortKey, IDL.Nat, IDL.Nat],
+      [ApiResult_3],
+      ['query'],
+    ),
+  'removeUnitMember' : IDL.Func(
+      [IDL.Nat, IDL.Principal, IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'renameChecklistDefinition' : IDL.Func(
+      [IDL.Text, IDL.Text, IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'renameOrgUnit' : IDL.Func(
+      [IDL.Nat, IDL.Text, IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'reorderChecklistDefinitions' : IDL.Func(
+      [IDL.Vec(IDL.Text), IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'reorderTodos' : IDL.Func(
+      [IDL.Nat, IDL.Vec(IDL.Nat), IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'restoreCase' : IDL.Func([IDL.Nat, IDL.Opt(IDL.Text)], [ApiResult_1], []),
+  'saveCallerUserProfile' : IDL.Func(
+      [UserProfile, IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'setAutoProvisionUsers' : IDL.Func(
+      [IDL.Bool, IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'setCaseStatus' : IDL.Func(
+      [IDL.Nat, CaseStatus, IDL.Opt(IDL.Text), IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'setChecklistDefinitionRetired' : IDL.Func(
+      [IDL.Text, IDL.Bool, IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'setPatientOwner' : IDL.Func(
+      [IDL.Text, IDL.Opt(IDL.Nat), IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'setTrashRetentionDays' : IDL.Func(
+      [IDL.Nat, IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'setUnitMember' : IDL.Func(
+      [IDL.Nat, IDL.Principal, UnitRole, IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'setUserAccess' : IDL.Func(
+      [IDL.Principal, IDL.Bool, IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'setUserCustomRole' : IDL.Func(
+      [IDL.Principal, IDL.Opt(IDL.Nat), IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'setUserRole' : IDL.Func(
+      [IDL.Principal, UserRole, IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'toggleChecklistItem' : IDL.Func(
+      [IDL.Nat, IDL.Text, IDL.Opt(NotificationMethod), IDL.Opt(IDL.Text)],
+      [ApiResult_2],
+      [],
+    ),
+  'toggleTodoComplete' : IDL.Func(
+      [IDL.Nat, IDL.Nat, IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
   'updateCase' : IDL.Func(
       [
         IDL.Nat,
@@ -122,17 +784,63 @@ export const idlService = IDL.Service({
         IDL.Text,
         Sex,
         IDL.Text,
-        IDL.Bool,
-        IDL.Bool,
-        IDL.Bool,
-        IDL.Bool,
-        IDL.Bool,
-        IDL.Bool,
-        IDL.Bool,
+        IDL.Vec(ChecklistEntry),
         IDL.Text,
         IDL.Vec(ToDoItem),
+        IDL.Opt(IDL.Nat),
+        IDL.Opt(NotificationMethod),
+        IDL.Nat,
+        IDL.Opt(IDL.Text),
       ],
+      [ApiResult],
       [],
+    ),
+  'updateCaseTemplate' : IDL.Func(
+      [
+        IDL.Nat,
+        IDL.Text,
+        IDL.Opt(Species),
+        IDL.Vec(IDL.Text),
+        IDL.Vec(IDL.Text),
+        IDL.Vec(IDL.Text),
+        IDL.Opt(IDL.Text),
+      ],
+      [ApiResult_1],
+      [],
+    ),
+  'updateCustomRole' : IDL.Func(
+      [IDL.Nat, IDL.Text, IDL.Vec(Permission), IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'updateLetterTemplate' : IDL.Func(
+      [IDL.Nat, IDL.Text, IDL.Text, IDL.Opt(IDL.Text)],
+      [ApiResult_1],
+      [],
+    ),
+  'updateOwner' : IDL.Func(
+      [IDL.Nat, OwnerDetails, IDL.Nat, IDL.Opt(IDL.Text)],
+      [ApiResult],
+      [],
+    ),
+  'updatePatient' : IDL.Func(
+      [
+        IDL.Text,
+        IDL.Text,
+        IDL.Text,
+        IDL.Text,
+        Species,
+        IDL.Text,
+        Sex,
+        IDL.Nat,
+        IDL.Opt(IDL.Text),
+      ],
+      [ApiResult],
+      [],
+    ),
+  'updatePdvm' : IDL.Func(
+      [IDL.Nat, PdvmDetails, IDL.Nat, IDL.Opt(IDL.Text)],
+      [ApiResult],
       [],
     ),
 });
@@ -140,15 +848,12 @@ export const idlService = IDL.Service({
 export const idlInitArgs = [];
 
 export const idlFactory = ({ IDL }) => {
-  const UserRole = IDL.Variant({
-    'admin' : IDL.Null,
-    'user' : IDL.Null,
-    'guest' : IDL.Null,
-  });
-  const Species = IDL.Variant({
-    'other' : IDL.Null,
-    'feline' : IDL.Null,
-    'canine' : IDL.Null,
+  const AttachmentDetails = IDL.Record({
+    'size' : IDL.Nat,
+    'mimeType' : IDL.Text,
+    'blobHash' : IDL.Text,
+    'filename' : IDL.Text,
+    'caption' : IDL.Text,
   });
   const Sex = IDL.Variant({
     'female' : IDL.Null,
@@ -157,38 +862,535 @@ export const idlFactory = ({ IDL }) => {
     'maleNeutered' : IDL.Null,
     'unknown' : IDL.Null,
   });
+  const CaseStatus = IDL.Variant({
+    'closed' : IDL.Null,
+    'discharged' : IDL.Null,
+    'admitted' : IDL.Null,
+    'inSurgery' : IDL.Null,
+    'awaitingResults' : IDL.Null,
+    'recovering' : IDL.Null,
+  });
   const Time = IDL.Int;
+  const TodoPriority = IDL.Variant({
+    'low' : IDL.Null,
+    'normal' : IDL.Null,
+    'high' : IDL.Null,
+  });
   const ToDoItem = IDL.Record({
     'id' : IDL.Nat,
+    'completedAt' : IDL.Opt(Time),
+    'assignee' : IDL.Opt(IDL.Principal),
+    'createdAt' : IDL.Opt(Time),
+    'createdBy' : IDL.Opt(IDL.Principal),
+    'dueDate' : IDL.Opt(Time),
     'description' : IDL.Text,
     'complete' : IDL.Bool,
+    'priority' : TodoPriority,
+  });
+  const CloseOverride = IDL.Record({
+    'overriddenAt' : Time,
+    'overriddenBy' : IDL.Principal,
+    'reason' : IDL.Text,
+  });
+  const ChecklistEntry = IDL.Record({
+    'key' : IDL.Text,
+    'completedAt' : IDL.Opt(Time),
+    'completedBy' : IDL.Opt(IDL.Principal),
+    'complete' : IDL.Bool,
+  });
+  const Species = IDL.Variant({
+    'other' : IDL.Null,
+    'feline' : IDL.Null,
+    'canine' : IDL.Null,
+  });
+  const CaseAttachment = IDL.Record({
+    'id' : IDL.Nat,
+    'size' : IDL.Nat,
+    'mimeType' : IDL.Text,
+    'blobHash' : IDL.Text,
+    'filename' : IDL.Text,
+    'caption' : IDL.Text,
+    'uploadedAt' : Time,
+    'uploadedBy' : IDL.Principal,
+  });
+  const NotificationMethod = IDL.Variant({
+    'fax' : IDL.Null,
+    'text' : IDL.Null,
+    'email' : IDL.Null,
+    'phone' : IDL.Null,
+  });
+  const PdvmNotification = IDL.Record({
+    'method' : NotificationMethod,
+    'notifiedAt' : Time,
+    'notifiedBy' : IDL.Principal,
   });
   const SurgeryCase = IDL.Record({
     'id' : IDL.Nat,
     'mrn' : IDL.Text,
     'sex' : Sex,
+    'status' : CaseStatus,
     'todos' : IDL.Vec(ToDoItem),
-    'pdvmNotified' : IDL.Bool,
-    'histoComplete' : IDL.Bool,
     'arrivalDate' : Time,
     'presentingComplaint' : IDL.Text,
     'dateOfBirth' : IDL.Text,
     'patientLastName' : IDL.Text,
-    'labsComplete' : IDL.Bool,
+    'closeOverride' : IDL.Opt(CloseOverride),
+    'unitId' : IDL.Nat,
+    'version' : IDL.Nat,
+    'patientFirstName' : IDL.Text,
+    'notes' : IDL.Text,
+    'pdvmId' : IDL.Opt(IDL.Nat),
+    'checklist' : IDL.Vec(ChecklistEntry),
+    'breed' : IDL.Text,
+    'species' : Species,
+    'attachments' : IDL.Vec(CaseAttachment),
+    'pdvmNotification' : IDL.Opt(PdvmNotification),
+  });
+  const Conflict = IDL.Record({
+    'message' : IDL.Text,
+    'current' : IDL.Opt(SurgeryCase),
+  });
+  const FieldError = IDL.Record({ 'field' : IDL.Text, 'message' : IDL.Text });
+  const ApiResult = IDL.Variant({
+    'ok' : IDL.Nat,
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const ApiResult_1 = IDL.Variant({
+    'ok' : IDL.Null,
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const TodoDetails = IDL.Record({
+    'assignee' : IDL.Opt(IDL.Principal),
+    'dueDate' : IDL.Opt(Time),
+    'priority' : TodoPriority,
+  });
+  const UserRole = IDL.Variant({
+    'admin' : IDL.Null,
+    'user' : IDL.Null,
+    'guest' : IDL.Null,
+  });
+  const ContactMethod = IDL.Variant({
+    'text' : IDL.Null,
+    'email' : IDL.Null,
+    'phone' : IDL.Null,
+  });
+  const OwnerDetails = IDL.Record({
+    'name' : IDL.Text,
+    'email' : IDL.Text,
+    'preferredContact' : ContactMethod,
+    'notes' : IDL.Text,
+    'phones' : IDL.Vec(IDL.Text),
+  });
+  const Permission = IDL.Variant({
+    'manageUsers' : IDL.Null,
+    'viewCases' : IDL.Null,
+    'importCases' : IDL.Null,
+    'exportCases' : IDL.Null,
+    'manageTodos' : IDL.Null,
+    'deleteCases' : IDL.Null,
+    'editDemographics' : IDL.Null,
+    'toggleChecklist' : IDL.Null,
+  });
+  const PdvmDetails = IDL.Record({
+    'fax' : IDL.Text,
+    'email' : IDL.Text,
+    'preferredContact' : NotificationMethod,
+    'vetName' : IDL.Text,
+    'address' : IDL.Text,
+    'notes' : IDL.Text,
+    'phone' : IDL.Text,
+    'clinicName' : IDL.Text,
+  });
+  const AccountStatus = IDL.Variant({
+    'active' : IDL.Null,
+    'pending' : IDL.Null,
+    'disabled' : IDL.Null,
+  });
+  const ApiResult_26 = IDL.Variant({
+    'ok' : AccountStatus,
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const ApiResult_16 = IDL.Variant({
+    'ok' : IDL.Vec(SurgeryCase),
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const ApiResult_2 = IDL.Variant({
+    'ok' : IDL.Bool,
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const ApiResult_25 = IDL.Variant({
+    'ok' : IDL.Vec(Permission),
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const StaffTitle = IDL.Variant({
+    'dvm' : IDL.Null,
+    'technician' : IDL.Null,
+    'resident' : IDL.Null,
+    'student' : IDL.Null,
+  });
+  const UserProfile = IDL.Record({
+    'title' : IDL.Opt(StaffTitle),
+    'name' : IDL.Text,
+    'initials' : IDL.Text,
+    'credentials' : IDL.Text,
+    'extension' : IDL.Text,
+  });
+  const ApiResult_18 = IDL.Variant({
+    'ok' : IDL.Opt(UserProfile),
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const ApiResult_24 = IDL.Variant({
+    'ok' : SurgeryCase,
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const FieldChange = IDL.Record({
+    'field' : IDL.Text,
+    'after' : IDL.Text,
+    'before' : IDL.Text,
+  });
+  const AuditEntry = IDL.Record({
+    'id' : IDL.Nat,
+    'method' : IDL.Text,
+    'timestamp' : Time,
+    'caller' : IDL.Principal,
+    'caseId' : IDL.Nat,
+    'changes' : IDL.Vec(FieldChange),
+  });
+  const ApiResult_23 = IDL.Variant({
+    'ok' : IDL.Vec(AuditEntry),
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const WeeklyArrivals = IDL.Record({
+    'incomplete' : IDL.Nat,
+    'complete' : IDL.Nat,
+    'weekStart' : Time,
+  });
+  const OutstandingItemKind = IDL.Variant({
+    'todo' : IDL.Null,
+    'checklist' : IDL.Null,
+  });
+  const CaseSummary = IDL.Record({
+    'id' : IDL.Nat,
+    'mrn' : IDL.Text,
+    'arrivalDate' : Time,
+    'patientLastName' : IDL.Text,
     'patientFirstName' : IDL.Text,
-    'imagingComplete' : IDL.Bool,
-    'surgeryReportComplete' : IDL.Bool,
+  });
+  const OutstandingItem = IDL.Record({
+    'kind' : OutstandingItemKind,
+    'caseSummary' : CaseSummary,
+    'description' : IDL.Text,
+  });
+  const ChecklistGap = IDL.Record({
+    'key' : IDL.Text,
+    'cases' : IDL.Vec(CaseSummary),
+  });
+  const ChecklistTurnaround = IDL.Record({
+    'key' : IDL.Text,
+    'count' : IDL.Nat,
+    'averageDuration' : IDL.Opt(IDL.Int),
+    'medianDuration' : IDL.Opt(IDL.Int),
+  });
+  const Dashboard = IDL.Record({
+    'weeklyArrivals' : IDL.Vec(WeeklyArrivals),
+    'oldestOutstanding' : IDL.Vec(OutstandingItem),
+    'gaps' : IDL.Vec(ChecklistGap),
+    'openCaseCount' : IDL.Nat,
+    'turnaround' : IDL.Vec(ChecklistTurnaround),
+    'casesWithOpenTodos' : IDL.Vec(CaseSummary),
+  });
+  const ApiResult_22 = IDL.Variant({
+    'ok' : Dashboard,
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const Owner = IDL.Record({
+    'id' : IDL.Nat,
+    'name' : IDL.Text,
+    'email' : IDL.Text,
+    'version' : IDL.Nat,
+    'preferredContact' : ContactMethod,
     'notes' : IDL.Text,
-    'dischargeNotesComplete' : IDL.Bool,
+    'phones' : IDL.Vec(IDL.Text),
+  });
+  const ApiResult_21 = IDL.Variant({
+    'ok' : Owner,
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const Patient = IDL.Record({
+    'mrn' : IDL.Text,
+    'sex' : Sex,
+    'ownerId' : IDL.Opt(IDL.Nat),
+    'dateOfBirth' : IDL.Text,
+    'version' : IDL.Nat,
     'breed' : IDL.Text,
+    'lastName' : IDL.Text,
     'species' : Species,
-    'cultureComplete' : IDL.Bool,
+    'firstName' : IDL.Text,
+  });
+  const ApiResult_20 = IDL.Variant({
+    'ok' : Patient,
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const Pdvm = IDL.Record({
+    'id' : IDL.Nat,
+    'fax' : IDL.Text,
+    'email' : IDL.Text,
+    'version' : IDL.Nat,
+    'preferredContact' : NotificationMethod,
+    'vetName' : IDL.Text,
+    'address' : IDL.Text,
+    'notes' : IDL.Text,
+    'phone' : IDL.Text,
+    'clinicName' : IDL.Text,
+  });
+  const ApiResult_19 = IDL.Variant({
+    'ok' : Pdvm,
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const Assignee = IDL.Record({
+    'principal' : IDL.Principal,
+    'name' : IDL.Text,
+    'initials' : IDL.Text,
+    'credentials' : IDL.Text,
+  });
+  const ApiResult_5 = IDL.Variant({
+    'ok' : IDL.Vec(Assignee),
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const CaseTemplate = IDL.Record({
+    'id' : IDL.Nat,
+    'checklistKeys' : IDL.Vec(IDL.Text),
+    'name' : IDL.Text,
+    'complaintKeywords' : IDL.Vec(IDL.Text),
+    'todoDescriptions' : IDL.Vec(IDL.Text),
+    'species' : IDL.Opt(Species),
+  });
+  const ApiResult_17 = IDL.Variant({
+    'ok' : IDL.Vec(CaseTemplate),
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const ChecklistItemDefinition = IDL.Record({
+    'key' : IDL.Text,
+    'title' : IDL.Text,
+    'order' : IDL.Nat,
+    'retired' : IDL.Bool,
+  });
+  const ApiResult_15 = IDL.Variant({
+    'ok' : IDL.Vec(ChecklistItemDefinition),
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const CustomRoleAssignment = IDL.Record({
+    'principal' : IDL.Principal,
+    'roleId' : IDL.Nat,
+  });
+  const ApiResult_14 = IDL.Variant({
+    'ok' : IDL.Vec(CustomRoleAssignment),
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const CustomRole = IDL.Record({
+    'id' : IDL.Nat,
+    'permissions' : IDL.Vec(Permission),
+    'name' : IDL.Text,
+  });
+  const ApiResult_13 = IDL.Variant({
+    'ok' : IDL.Vec(CustomRole),
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const LetterTemplate = IDL.Record({
+    'id' : IDL.Nat,
+    'body' : IDL.Text,
+    'name' : IDL.Text,
+  });
+  const ApiResult_12 = IDL.Variant({
+    'ok' : IDL.Vec(LetterTemplate),
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const AssignedTodo = IDL.Record({
+    'todo' : ToDoItem,
+    'caseSummary' : CaseSummary,
+  });
+  const ApiResult_11 = IDL.Variant({
+    'ok' : IDL.Vec(AssignedTodo),
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const UnitRole = IDL.Variant({ 'member' : IDL.Null, 'unitAdmin' : IDL.Null });
+  const UnitMember = IDL.Record({
+    'principal' : IDL.Principal,
+    'role' : UnitRole,
+  });
+  const OrgUnit = IDL.Record({
+    'id' : IDL.Nat,
+    'members' : IDL.Vec(UnitMember),
+    'name' : IDL.Text,
+  });
+  const ApiResult_10 = IDL.Variant({
+    'ok' : IDL.Vec(OrgUnit),
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const ApiResult_9 = IDL.Variant({
+    'ok' : IDL.Vec(Owner),
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const ApiResult_8 = IDL.Variant({
+    'ok' : IDL.Vec(Patient),
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const ApiResult_7 = IDL.Variant({
+    'ok' : IDL.Vec(Pdvm),
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const TrashedCase = IDL.Record({
+    'caseRecord' : SurgeryCase,
+    'deletedAt' : Time,
+    'deletedBy' : IDL.Principal,
+  });
+  const ApiResult_6 = IDL.Variant({
+    'ok' : IDL.Vec(TrashedCase),
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const UserSummary = IDL.Record({
+    'status' : AccountStatus,
+    'principal' : IDL.Principal,
+    'name' : IDL.Text,
+    'role' : UserRole,
+    'caseChanges' : IDL.Nat,
+    'lastCaseChange' : IDL.Opt(Time),
+    'lastSeen' : IDL.Opt(Time),
+  });
+  const ApiResult_4 = IDL.Variant({
+    'ok' : IDL.Vec(UserSummary),
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
+  });
+  const CaseFilter = IDL.Record({
+    'sex' : IDL.Opt(Sex),
+    'status' : IDL.Opt(CaseStatus),
+    'hasOpenTodos' : IDL.Opt(IDL.Bool),
+    'arrivalTo' : IDL.Opt(Time),
+    'arrivalFrom' : IDL.Opt(Time),
+    'search' : IDL.Opt(IDL.Text),
+    'pdvmId' : IDL.Opt(IDL.Nat),
+    'checklistComplete' : IDL.Opt(IDL.Bool),
+    'species' : IDL.Opt(Species),
+  });
+  const CaseSortKey = IDL.Variant({
+    'mrn' : IDL.Null,
+    'arrivalNewest' : IDL.Null,
+    'arrivalOldest' : IDL.Null,
+    'patientName' : IDL.Null,
+  });
+  const CasePage = IDL.Record({
+    'total' : IDL.Nat,
+    'nextOffset' : IDL.Opt(IDL.Nat),
+    'cases' : IDL.Vec(SurgeryCase),
+  });
+  const ApiResult_3 = IDL.Variant({
+    'ok' : CasePage,
+    'conflict' : Conflict,
+    'notFound' : IDL.Text,
+    'unauthorized' : IDL.Text,
+    'validation' : IDL.Vec(FieldError),
   });
-  const UserProfile = IDL.Record({ 'name' : IDL.Text });
   
   return IDL.Service({
+    '_caffeineStorageCreateCertificate' : IDL.Func(
+        [IDL.Text],
+        [IDL.Record({ 'method' : IDL.Text, 'blob_hash' : IDL.Text })],
+        [],
+      ),
     '_initializeAccessControlWithSecret' : IDL.Func([IDL.Text], [], []),
-    'addTodoItem' : IDL.Func([IDL.Nat, IDL.Text], [IDL.Nat], []),
+    'addCaseAttachment' : IDL.Func(
+        [IDL.Nat, AttachmentDetails, IDL.Opt(IDL.Text)],
+        [ApiResult],
+        [],
+      ),
+    'addChecklistDefinition' : IDL.Func(
+        [IDL.Text, IDL.Text, IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'addTodoItem' : IDL.Func(
+        [IDL.Nat, IDL.Text, TodoDetails, IDL.Opt(IDL.Text)],
+        [ApiResult],
+        [],
+      ),
     'assignCallerUserRole' : IDL.Func([IDL.Principal, UserRole], [], []),
     'createCase' : IDL.Func(
         [
@@ -201,51 +1403,219 @@ export const idlFactory = ({ IDL }) => {
           Sex,
           IDL.Text,
           IDL.Opt(Time),
-          IDL.Bool,
-          IDL.Bool,
-          IDL.Bool,
-          IDL.Bool,
-          IDL.Bool,
-          IDL.Bool,
-          IDL.Bool,
+          IDL.Vec(ChecklistEntry),
           IDL.Text,
           IDL.Vec(IDL.Text),
+          IDL.Opt(OwnerDetails),
+          IDL.Opt(IDL.Nat),
+          IDL.Opt(NotificationMethod),
+          IDL.Opt(IDL.Nat),
+          IDL.Opt(IDL.Text),
         ],
-        [IDL.Nat],
+        [ApiResult],
         [],
       ),
+    'createCaseTemplate' : IDL.Func(
+        [
+          IDL.Text,
+          IDL.Opt(Species),
+          IDL.Vec(IDL.Text),
+          IDL.Vec(IDL.Text),
+          IDL.Vec(IDL.Text),
+          IDL.Opt(IDL.Text),
+        ],
+        [ApiResult],
+        [],
+      ),
+    'createCustomRole' : IDL.Func(
+        [IDL.Text, IDL.Vec(Permission), IDL.Opt(IDL.Text)],
+        [ApiResult],
+        [],
+      ),
+    'createLetterTemplate' : IDL.Func(
+        [IDL.Text, IDL.Text, IDL.Opt(IDL.Text)],
+        [ApiResult],
+        [],
+      ),
+    'createOrgUnit' : IDL.Func([IDL.Text, IDL.Opt(IDL.Text)], [ApiResult], []),
+    'createOwner' : IDL.Func(
+        [OwnerDetails, IDL.Opt(IDL.Text)],
+        [ApiResult],
+        [],
+      ),
+    'createPdvm' : IDL.Func([PdvmDetails, IDL.Opt(IDL.Text)], [ApiResult], []),
     'debugGetRole' : IDL.Func([], [IDL.Text], ['query']),
-    'deleteCase' : IDL.Func([IDL.Nat], [], []),
-    'deleteTodoItem' : IDL.Func([IDL.Nat, IDL.Nat], [], []),
-    'ensureUserRole' : IDL.Func([], [], []),
-    'exportCases' : IDL.Func([], [IDL.Vec(SurgeryCase)], ['query']),
-    'getCallerUserProfile' : IDL.Func([], [IDL.Opt(UserProfile)], ['query']),
+    'deleteCase' : IDL.Func([IDL.Nat, IDL.Opt(IDL.Text)], [ApiResult_1], []),
+    'deleteCaseAttachment' : IDL.Func(
+        [IDL.Nat, IDL.Nat, IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'deleteCaseTemplate' : IDL.Func(
+        [IDL.Nat, IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'deleteCustomRole' : IDL.Func(
+        [IDL.Nat, IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'deleteLetterTemplate' : IDL.Func(
+        [IDL.Nat, IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'deleteTodoItem' : IDL.Func(
+        [IDL.Nat, IDL.Nat, IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'editTodoItem' : IDL.Func(
+        [IDL.Nat, IDL.Nat, IDL.Text, TodoDetails, IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'ensureUserRole' : IDL.Func([], [ApiResult_26], []),
+    'exportCases' : IDL.Func([], [ApiResult_16], ['query']),
+    'getAutoProvisionUsers' : IDL.Func([], [ApiResult_2], ['query']),
+    'getCallerPermissions' : IDL.Func([], [ApiResult_25], ['query']),
+    'getCallerUserProfile' : IDL.Func([], [ApiResult_18], ['query']),
     'getCallerUserRole' : IDL.Func([], [UserRole], ['query']),
-    'getCase' : IDL.Func([IDL.Nat], [IDL.Opt(SurgeryCase)], ['query']),
+    'getCase' : IDL.Func([IDL.Nat], [ApiResult_24], ['query']),
+    'getCaseAuditLog' : IDL.Func([IDL.Nat], [ApiResult_23], ['query']),
     'getCaseCount' : IDL.Func([], [IDL.Nat], ['query']),
-    'getCasesBySpecies' : IDL.Func(
-        [Species],
-        [IDL.Vec(SurgeryCase)],
-        ['query'],
-      ),
-    'getUserProfile' : IDL.Func(
-        [IDL.Principal],
-        [IDL.Opt(UserProfile)],
+    'getCasesBySpecies' : IDL.Func([Species], [ApiResult_16], ['query']),
+    'getDashboard' : IDL.Func(
+        [Time, IDL.Nat, IDL.Nat],
+        [ApiResult_22],
         ['query'],
       ),
+    'getOwner' : IDL.Func([IDL.Nat], [ApiResult_21], ['query']),
+    'getPatient' : IDL.Func([IDL.Text], [ApiResult_20], ['query']),
+    'getPatientCases' : IDL.Func([IDL.Text], [ApiResult_16], ['query']),
+    'getPdvm' : IDL.Func([IDL.Nat], [ApiResult_19], ['query']),
+    'getTrashRetentionDays' : IDL.Func([], [ApiResult], ['query']),
+    'getUserProfile' : IDL.Func([IDL.Principal], [ApiResult_18], ['query']),
     'getVersion' : IDL.Func([], [IDL.Text], ['query']),
-    'importCases' : IDL.Func([IDL.Vec(SurgeryCase)], [], []),
+    'importCases' : IDL.Func(
+        [IDL.Vec(SurgeryCase), IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
     'isCallerAdmin' : IDL.Func([], [IDL.Bool], ['query']),
-    'listCases' : IDL.Func([], [IDL.Vec(SurgeryCase)], ['query']),
-    'saveCallerUserProfile' : IDL.Func([UserProfile], [], []),
-    'toggleCulture' : IDL.Func([IDL.Nat], [IDL.Bool], []),
-    'toggleDischargeNotes' : IDL.Func([IDL.Nat], [IDL.Bool], []),
-    'toggleHisto' : IDL.Func([IDL.Nat], [IDL.Bool], []),
-    'toggleImaging' : IDL.Func([IDL.Nat], [IDL.Bool], []),
-    'toggleLabs' : IDL.Func([IDL.Nat], [IDL.Bool], []),
-    'togglePdvmNotified' : IDL.Func([IDL.Nat], [IDL.Bool], []),
-    'toggleSurgeryReport' : IDL.Func([IDL.Nat], [IDL.Bool], []),
-    'toggleTodoComplete' : IDL.Func([IDL.Nat, IDL.Nat], [], []),
+    'listAssignableUsers' : IDL.Func([], [ApiResult_5], ['query']),
+    'listCaseTemplates' : IDL.Func([], [ApiResult_17], ['query']),
+    'listCases' : IDL.Func([], [ApiResult_16], ['query']),
+    'listChecklistDefinitions' : IDL.Func([], [ApiResult_15], ['query']),
+    'listCustomRoleAssignments' : IDL.Func([], [ApiResult_14], ['query']),
+    'listCustomRoles' : IDL.Func([], [ApiResult_13], ['query']),
+    'listLetterTemplates' : IDL.Func([], [ApiResult_12], ['query']),
+    'listMyTodos' : IDL.Func([IDL.Bool], [ApiResult_11], ['query']),
+    'listOrgUnits' : IDL.Func([], [ApiResult_10], ['query']),
+    'listOwners' : IDL.Func([], [ApiResult_9], ['query']),
+    'listPatients' : IDL.Func([], [ApiResult_8], ['query']),
+    'listPdvms' : IDL.Func([], [ApiResult_7], ['query']),
+    'listTrash' : IDL.Func([], [ApiResult_6], ['query']),
+    'listUserDirectory' : IDL.Func([], [ApiResult_5], ['query']),
+    'listUsers' : IDL.Func([], [ApiResult_4], ['query']),
+    'markLetterSent' : IDL.Func(
+        [IDL.Nat, NotificationMethod, IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'purgeTrash' : IDL.Func([IDL.Opt(IDL.Text)], [ApiResult], []),
+    'queryCases' : IDL.Func(
+        [CaseFilter, CaseSortKey, IDL.Nat, IDL.Nat],
+        [ApiResult_3],
+        ['query'],
+      ),
+    'removeUnitMember' : IDL.Func(
+        [IDL.Nat, IDL.Principal, IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'renameChecklistDefinition' : IDL.Func(
+        [IDL.Text, IDL.Text, IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'renameOrgUnit' : IDL.Func(
+        [IDL.Nat, IDL.Text, IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'reorderChecklistDefinitions' : IDL.Func(
+        [IDL.Vec(IDL.Text), IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'reorderTodos' : IDL.Func(
+        [IDL.Nat, IDL.Vec(IDL.Nat), IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'restoreCase' : IDL.Func([IDL.Nat, IDL.Opt(IDL.Text)], [ApiResult_1], []),
+    'saveCallerUserProfile' : IDL.Func(
+        [UserProfile, IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'setAutoProvisionUsers' : IDL.Func(
+        [IDL.Bool, IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'setCaseStatus' : IDL.Func(
+        [IDL.Nat, CaseStatus, IDL.Opt(IDL.Text), IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'setChecklistDefinitionRetired' : IDL.Func(
+        [IDL.Text, IDL.Bool, IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'setPatientOwner' : IDL.Func(
+        [IDL.Text, IDL.Opt(IDL.Nat), IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'setTrashRetentionDays' : IDL.Func(
+        [IDL.Nat, IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'setUnitMember' : IDL.Func(
+        [IDL.Nat, IDL.Principal, UnitRole, IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'setUserAccess' : IDL.Func(
+        [IDL.Principal, IDL.Bool, IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'setUserCustomRole' : IDL.Func(
+        [IDL.Principal, IDL.Opt(IDL.Nat), IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'setUserRole' : IDL.Func(
+        [IDL.Principal, UserRole, IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'toggleChecklistItem' : IDL.Func(
+        [IDL.Nat, IDL.Text, IDL.Opt(NotificationMethod), IDL.Opt(IDL.Text)],
+        [ApiResult_2],
+        [],
+      ),
+    'toggleTodoComplete' : IDL.Func(
+        [IDL.Nat, IDL.Nat, IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
     'updateCase' : IDL.Func(
         [
           IDL.Nat,
@@ -258,17 +1628,63 @@ export const idlFactory = ({ IDL }) => {
           IDL.Text,
           Sex,
           IDL.Text,
-          IDL.Bool,
-          IDL.Bool,
-          IDL.Bool,
-          IDL.Bool,
-          IDL.Bool,
-          IDL.Bool,
-          IDL.Bool,
+          IDL.Vec(ChecklistEntry),
           IDL.Text,
           IDL.Vec(ToDoItem),
+          IDL.Opt(IDL.Nat),
+          IDL.Opt(NotificationMethod),
+          IDL.Nat,
+          IDL.Opt(IDL.Text),
         ],
+        [ApiResult],
         [],
+      ),
+    'updateCaseTemplate' : IDL.Func(
+        [
+          IDL.Nat,
+          IDL.Text,
+          IDL.Opt(Species),
+          IDL.Vec(IDL.Text),
+          IDL.Vec(IDL.Text),
+          IDL.Vec(IDL.Text),
+          IDL.Opt(IDL.Text),
+        ],
+        [ApiResult_1],
+        [],
+      ),
+    'updateCustomRole' : IDL.Func(
+        [IDL.Nat, IDL.Text, IDL.Vec(Permission), IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'updateLetterTemplate' : IDL.Func(
+        [IDL.Nat, IDL.Text, IDL.Text, IDL.Opt(IDL.Text)],
+        [ApiResult_1],
+        [],
+      ),
+    'updateOwner' : IDL.Func(
+        [IDL.Nat, OwnerDetails, IDL.Nat, IDL.Opt(IDL.Text)],
+        [ApiResult],
+        [],
+      ),
+    'updatePatient' : IDL.Func(
+        [
+          IDL.Text,
+          IDL.Text,
+          IDL.Text,
+          IDL.Text,
+          Species,
+          IDL.Text,
+          Sex,
+          IDL.Nat,
+          IDL.Opt(IDL.Text),
+        ],
+        [ApiResult],
+        [],
+      ),
+    'updatePdvm' : IDL.Func(
+        [IDL.Nat, PdvmDetails, IDL.Nat, IDL.Opt(IDL.Text)],
+        [ApiResult],
         [],
       ),
   });
@@ -1,17 +1,21 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useActor } from './useActor';
 import { useInternetIdentity } from './useInternetIdentity';
 import { useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
+import { unwrapResult } from '../utils/apiResult';
+import type { AccountStatus } from '../backend';
 
 /**
  * Hook that automatically provisions the #user role for new users after login.
  * Retries until actor is ready, with bounded retry window.
+ * Returns the caller's account status, or null until the canister has answered.
  */
-export function useEnsureUserRoleProvisioning() {
+export function useEnsureUserRoleProvisioning(): AccountStatus | null {
   const { actor, isFetching: actorFetching } = useActor();
   const { identity } = useInternetIdentity();
   const queryClient = useQueryClient();
+  const [accountStatus, setAccountStatus] = useState<AccountStatus | null>(null);
   
   const provisionedPrincipalRef = useRef<string | null>(null);
   const isProvisioningRef = useRef(false);
@@ -83,7 +87,7 @@ export function useEnsureUserRoleProvisioning() {
         isProvisioningRef.current = true;
         
         // Call backend to ensure user has the #user role
-        await actor.ensureUserRole();
+        setAccountStatus(unwrapResult(await actor.ensureUserRole()));
         
         // Mark this principal as provisioned
         provisionedPrincipalRef.current = currentPrincipal;
@@ -95,6 +99,8 @@ export function useEnsureUserRoleProvisioning() {
         // Invalidate case queries so they refresh with proper permissions
         queryClient.invalidateQueries({ queryKey: ['cases'] });
         queryClient.invalidateQueries({ queryKey: ['case'] });
+        queryClient.invalidateQueries({ queryKey: ['currentUserProfile'] });
+        queryClient.invalidateQueries({ queryKey: ['permissions'] });
         
       } catch (error: any) {
         console.error('Failed to provision user role:', error);
@@ -126,6 +132,7 @@ export function useEnsureUserRoleProvisioning() {
   // Reset all state when identity changes (logout/login)
   useEffect(() => {
     if (!identity) {
+      setAccountStatus(null);
       provisionedPrincipalRef.current = null;
       startTimeRef.current = null;
       retryCountRef.current = 0;
@@ -135,4 +142,6 @@ export function useEnsureUserRoleProvisioning() {
       }
     }
   }, [identity]);
+
+  return accountStatus;
 }
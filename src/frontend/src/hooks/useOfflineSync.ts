@@ -1,17 +1,62 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
+import { Principal } from '@icp-sdk/core/principal';
 import { useActor } from './useActor';
 import { useInternetIdentity } from './useInternetIdentity';
 import { useOfflineStatus } from './useOfflineStatus';
 import {
   getPendingOperations,
   updateOperationStatus,
+  requeueOperation,
   removeOperation,
   clearAllOperations,
+  orderOperations,
+  getTempDependencies,
+  resolveTempIds,
+  remapTempId,
 } from '../utils/offlineQueue';
+import { removeFromCaseListCache } from '../utils/offlineDb';
 import type { QueuedOperation } from '../types/offlineOps';
+import { TodoPriority } from '../backend';
+import type { ChecklistEntry, SurgeryCase, TodoDetails } from '../backend';
+import type { CaseFormData } from '../components/cases/CaseForm';
+import { isChecklistItemComplete, legacyChecklistFromRecord } from '../utils/checklist';
+import { CaseConflictError, isCaseConflictError } from '../utils/caseConflict';
+import { isRetryableError, unwrapResult } from '../utils/apiResult';
 import { toast } from 'sonner';
 
+// Operations queued before checklists became configurable carry the legacy boolean fields
+export function getQueuedChecklist(data: CaseFormData): ChecklistEntry[] {
+  return data.checklist ?? legacyChecklistFromRecord(data as unknown as Record<string, unknown>);
+}
+
+/**
+ * State carried between the operations replayed in one sync run
+ */
+interface SyncRun {
+  /**
+   * Version bumps made by operations already synced, per case. Queued operations
+   * were all based on the version cached while offline, so an operation's
+   * expected version is moved past the bumps made by its predecessors.
+   */
+  versionOffsets: Map<string, bigint>;
+  /** Server ids of records created offline, keyed by their temporary id */
+  resolvedIds: Map<string, bigint>;
+}
+
+function createSyncRun(): SyncRun {
+  return { versionOffsets: new Map(), resolvedIds: new Map() };
+}
+
+function rebaseVersion(run: SyncRun, caseId: bigint, expectedVersion: bigint): bigint {
+  return expectedVersion + (run.versionOffsets.get(caseId.toString()) ?? BigInt(0));
+}
+
+function recordVersionBump(run: SyncRun, caseId: bigint) {
+  const key = caseId.toString();
+  run.versionOffsets.set(key, (run.versionOffsets.get(key) ?? BigInt(0)) + BigInt(1));
+}
+
 export function useOfflineSync() {
   const { actor } = useActor();
   const { identity } = useInternetIdentity();
@@ -32,13 +77,58 @@ export function useOfflineSync() {
     loadPendingOps();
   }, [loadPendingOps]);
 
-  const syncOperation = async (op: QueuedOperation): Promise<boolean> => {
-    if (!actor || !op.id) return false;
+  // Fetches the case a toggle targets. Returns false when the server already has
+  // the intended value (perhaps from an earlier attempt whose response was lost),
+  // so toggling would undo it; otherwise rejects the toggle if the case has
+  // changed since it was queued.
+  const checkToggle = async (
+    caseId: bigint,
+    complete: boolean | undefined,
+    expectedVersion: bigint | undefined,
+    run: SyncRun,
+    getCurrentValue: (current: SurgeryCase) => boolean | undefined
+  ): Promise<boolean> => {
+    // Operations queued before conflict checks toggle blindly
+    if (!actor || complete === undefined) return true;
+
+    const current = unwrapResult(await actor.getCase(caseId));
+    const currentValue = getCurrentValue(current);
+    if (currentValue === undefined) {
+      throw new Error('The item no longer exists on this case');
+    }
+    if (currentValue === complete) {
+      return false;
+    }
+    if (expectedVersion !== undefined && current.version !== rebaseVersion(run, caseId, expectedVersion)) {
+      throw new CaseConflictError(current);
+    }
+    return true;
+  };
+
+  // Points queued operations that refer to an offline-created record at its server id
+  const resolveCreatedId = async (tempId: bigint, serverId: bigint, run: SyncRun) => {
+    // Operations queued before remapping carry an unusable string placeholder
+    if (!principal || typeof tempId !== 'bigint') return;
+    run.resolvedIds.set(tempId.toString(), serverId);
+    await remapTempId(principal, tempId, serverId);
+  };
+
+  const syncOperation = async (
+    queuedOp: QueuedOperation,
+    run: SyncRun = createSyncRun()
+  ): Promise<boolean> => {
+    if (!actor || !queuedOp.id) return false;
+    const op = resolveTempIds(queuedOp, run.resolvedIds);
+    const idempotencyKey = op.idempotencyKey ?? null;
 
     try {
+      if (getTempDependencies(op).length > 0) {
+        throw new Error('Waiting for a case or to-do created offline to sync first');
+      }
+
       switch (op.type) {
         case 'createCase': {
-          await actor.createCase(
+          const result = await actor.createCase(
             op.data.mrn,
             op.data.patientFirstName,
             op.data.patientLastName,
@@ -48,20 +138,22 @@ export function useOfflineSync() {
             op.data.sex,
             op.data.presentingComplaint,
             op.data.arrivalDate,
-            op.data.dischargeNotesComplete,
-            op.data.pdvmNotified,
-            op.data.labsComplete,
-            op.data.histoComplete,
-            op.data.surgeryReportComplete,
-            op.data.imagingComplete,
-            op.data.cultureComplete,
+            getQueuedChecklist(op.data),
             op.data.notes,
-            []
+            op.data.templateTodos ?? [],
+            op.data.owner ?? null,
+            op.data.pdvmId ?? null,
+            op.data.pdvmNotificationMethod ?? null,
+            op.data.unitId ?? null,
+            idempotencyKey
           );
+          await resolveCreatedId(op.tempId, unwrapResult(result), run);
+          // The placeholder is replaced by the real case when the list is next fetched
+          if (principal && typeof op.tempId === 'bigint') await removeFromCaseListCache(principal, [op.tempId]);
           break;
         }
         case 'updateCase': {
-          await actor.updateCase(
+          const result = await actor.updateCase(
             op.caseId,
             op.data.mrn,
             op.data.patientFirstName,
@@ -72,56 +164,94 @@ export function useOfflineSync() {
             op.data.breed,
             op.data.sex,
             op.data.presentingComplaint,
-            op.data.dischargeNotesComplete,
-            op.data.pdvmNotified,
-            op.data.labsComplete,
-            op.data.histoComplete,
-            op.data.surgeryReportComplete,
-            op.data.imagingComplete,
-            op.data.cultureComplete,
+            getQueuedChecklist(op.data),
             op.data.notes,
-            op.todos
+            op.todos,
+            op.data.pdvmId ?? null,
+            op.data.pdvmNotificationMethod ?? null,
+            // Operations queued before versioning are checked against the migrated version
+            rebaseVersion(run, op.caseId, op.expectedVersion ?? BigInt(0)),
+            idempotencyKey
           );
+          if (result.__kind__ === 'conflict' && result.conflict.current) {
+            throw new CaseConflictError(result.conflict.current);
+          }
+          unwrapResult(result);
+          recordVersionBump(run, op.caseId);
           break;
         }
         case 'deleteCase': {
-          await actor.deleteCase(op.caseId);
+          unwrapResult(await actor.deleteCase(op.caseId, idempotencyKey));
+          if (principal) await removeFromCaseListCache(principal, [op.caseId]);
           break;
         }
         case 'toggleChecklist': {
-          const methodMap = {
-            dischargeNotes: 'toggleDischargeNotes',
-            pdvmNotified: 'togglePdvmNotified',
-            labs: 'toggleLabs',
-            histo: 'toggleHisto',
-            surgeryReport: 'toggleSurgeryReport',
-            imaging: 'toggleImaging',
-            culture: 'toggleCulture',
-          };
-          const method = methodMap[op.field];
-          await (actor as any)[method](op.caseId);
+          const needsToggle = await checkToggle(op.caseId, op.complete, op.expectedVersion, run, (current) =>
+            isChecklistItemComplete(current.checklist, op.field)
+          );
+          if (needsToggle) {
+            unwrapResult(await actor.toggleChecklistItem(op.caseId, op.field, op.notificationMethod ?? null, idempotencyKey));
+            recordVersionBump(run, op.caseId);
+          }
           break;
         }
         case 'addTodo': {
-          await actor.addTodoItem(op.caseId, op.description);
+          const details: TodoDetails = {
+            dueDate: op.dueDate,
+            priority: op.priority ?? TodoPriority.normal,
+            assignee: op.assignee ? Principal.fromText(op.assignee) : undefined,
+          };
+          const todoId = unwrapResult(await actor.addTodoItem(op.caseId, op.description, details, idempotencyKey));
+          await resolveCreatedId(op.tempId, todoId, run);
+          recordVersionBump(run, op.caseId);
           break;
         }
         case 'toggleTodo': {
-          await actor.toggleTodoComplete(op.caseId, op.todoId);
+          const needsToggle = await checkToggle(op.caseId, op.complete, op.expectedVersion, run, (current) =>
+            current.todos.find((todo) => todo.id === op.todoId)?.complete
+          );
+          if (needsToggle) {
+            unwrapResult(await actor.toggleTodoComplete(op.caseId, op.todoId, idempotencyKey));
+            recordVersionBump(run, op.caseId);
+          }
+          break;
+        }
+        case 'editTodo': {
+          const details: TodoDetails = {
+            dueDate: op.dueDate,
+            priority: op.priority,
+            assignee: op.assignee ? Principal.fromText(op.assignee) : undefined,
+          };
+          unwrapResult(await actor.editTodoItem(op.caseId, op.todoId, op.description, details, idempotencyKey));
+          recordVersionBump(run, op.caseId);
+          break;
+        }
+        case 'reorderTodos': {
+          unwrapResult(await actor.reorderTodos(op.caseId, op.todoIds, idempotencyKey));
+          recordVersionBump(run, op.caseId);
           break;
         }
         case 'deleteTodo': {
-          await actor.deleteTodoItem(op.caseId, op.todoId);
+          unwrapResult(await actor.deleteTodoItem(op.caseId, op.todoId, idempotencyKey));
+          recordVersionBump(run, op.caseId);
           break;
         }
       }
 
-      await updateOperationStatus(op.id, 'succeeded');
-      await removeOperation(op.id);
+      await updateOperationStatus(queuedOp.id, 'succeeded');
+      await removeOperation(queuedOp.id);
       return true;
     } catch (error: any) {
       console.error('Sync error:', error);
-      await updateOperationStatus(op.id, 'failed', error.message || 'Unknown error');
+      // Operations that may still go through stay pending for the next sync;
+      // ones the canister rejected outright wait for the user to resolve them
+      const canRetry = isRetryableError(error) || getTempDependencies(op).length > 0;
+      await updateOperationStatus(
+        queuedOp.id,
+        canRetry ? 'pending' : 'failed',
+        error.message || 'Unknown error',
+        isCaseConflictError(error) ? error.current : undefined
+      );
       return false;
     }
   };
@@ -131,7 +261,9 @@ export function useOfflineSync() {
 
     setIsSyncing(true);
     try {
-      const ops = await getPendingOperations(principal);
+      const ops = orderOperations(
+        (await getPendingOperations(principal)).filter((op) => op.status === 'pending')
+      );
       if (ops.length === 0) {
         setIsSyncing(false);
         return;
@@ -139,9 +271,10 @@ export function useOfflineSync() {
 
       let successCount = 0;
       let failCount = 0;
+      const run = createSyncRun();
 
       for (const op of ops) {
-        const success = await syncOperation(op);
+        const success = await syncOperation(op, run);
         if (success) {
           successCount++;
         } else {
@@ -186,6 +319,32 @@ export function useOfflineSync() {
     [actor, pendingOps, loadPendingOps, queryClient]
   );
 
+  // Re-enqueues a conflicted operation with the user's chosen changes and
+  // syncs it straight away when online
+  const resolveOperation = useCallback(
+    async (opId: number, changes: Partial<QueuedOperation>) => {
+      if (!principal) return;
+      await requeueOperation(opId, changes);
+
+      const op = isOnline && actor
+        ? (await getPendingOperations(principal)).find((o) => o.id === opId)
+        : undefined;
+      const success = op ? await syncOperation(op) : false;
+      await loadPendingOps();
+
+      if (success) {
+        queryClient.invalidateQueries({ queryKey: ['cases'] });
+        queryClient.invalidateQueries({ queryKey: ['case'] });
+        toast.success('Change synced successfully');
+      } else if (op) {
+        toast.error('Failed to sync change');
+      } else {
+        toast.success('Change queued to sync when back online');
+      }
+    },
+    [actor, principal, isOnline, loadPendingOps, queryClient]
+  );
+
   const removeOp = useCallback(
     async (opId: number) => {
       await removeOperation(opId);
@@ -215,6 +374,7 @@ export function useOfflineSync() {
     pendingCount: pendingOps.length,
     syncAll,
     retryOperation,
+    resolveOperation,
     removeOp,
     clearAll,
     loadPendingOps,
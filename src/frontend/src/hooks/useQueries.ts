@@ -1,15 +1,64 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import type { QueryClient } from '@tanstack/react-query';
+import type { Principal } from '@icp-sdk/core/principal';
 import { useActor } from './useActor';
 import { useInternetIdentity } from './useInternetIdentity';
-import type { SurgeryCase, ToDoItem } from '../backend';
+import { createStorageClientWithConfig } from '../config';
+import type {
+  AssignedTodo,
+  Assignee,
+  AuditEntry,
+  CaseTemplate,
+  ChecklistItemDefinition,
+  CustomRole,
+  CustomRoleAssignment,
+  Dashboard,
+  LetterTemplate,
+  NotificationMethod,
+  Owner,
+  OrgUnit,
+  OwnerDetails,
+  Patient,
+  Pdvm,
+  PdvmDetails,
+  Sex,
+  Species,
+  SurgeryCase,
+  TodoDetails,
+  ToDoItem,
+  TrashedCase,
+  UserProfile,
+  UserSummary,
+} from '../backend';
+import { CaseStatus, Permission, UnitRole, UserRole } from '../backend';
 import type { CaseFormData } from '../components/cases/CaseForm';
 import {
   saveCaseListCache,
+  mergeCaseListCache,
+  removeFromCaseListCache,
   getCaseListCache,
   saveCaseCache,
   getCaseCache,
 } from '../utils/offlineDb';
-import { enqueueOperation, isNetworkError } from '../utils/offlineQueue';
+import {
+  createIdempotencyKey,
+  createTempId,
+  enqueueOperation,
+  isTempId,
+} from '../utils/offlineQueue';
+import { isCanisterError, isNetworkError, unwrapResult } from '../utils/apiResult';
+import {
+  getCaseQueryKey,
+  queryCasesLocally,
+  type CaseQueryParams,
+  type CaseQueryResult,
+} from '../utils/caseQuery';
+import { CaseConflictError } from '../utils/caseConflict';
+import {
+  getChecklistItemTitle,
+  isChecklistItemComplete,
+  setChecklistItem,
+} from '../utils/checklist';
 import type {
   CreateCaseOperation,
   UpdateCaseOperation,
@@ -17,9 +66,22 @@ import type {
   ToggleChecklistOperation,
   AddTodoOperation,
   ToggleTodoOperation,
+  EditTodoOperation,
+  ReorderTodosOperation,
   DeleteTodoOperation,
 } from '../types/offlineOps';
 
+// Applies a change made offline to the cached case list, which the paged case
+// queries fall back to when they are refetched, and to the full list if loaded
+async function updateOfflineCaseList(
+  queryClient: QueryClient,
+  principal: string,
+  update: (cases: SurgeryCase[]) => SurgeryCase[]
+) {
+  await saveCaseListCache(principal, update((await getCaseListCache(principal)) ?? []));
+  queryClient.setQueryData<SurgeryCase[]>(['cases'], (old) => old && update(old));
+}
+
 // Case Queries
 export function useListCases() {
   const { actor, isFetching } = useActor();
@@ -32,7 +94,7 @@ export function useListCases() {
       if (!actor || !principal) return [];
       
       try {
-        const cases = await actor.listCases();
+        const cases = unwrapResult(await actor.listCases());
         // Cache the result
         await saveCaseListCache(principal, cases);
         return cases;
@@ -51,6 +113,53 @@ export function useListCases() {
   });
 }
 
+export function useQueryCases(params: CaseQueryParams) {
+  const { actor, isFetching } = useActor();
+  const { identity } = useInternetIdentity();
+  const queryClient = useQueryClient();
+  const principal = identity?.getPrincipal().toString();
+
+  return useQuery<CaseQueryResult>({
+    queryKey: getCaseQueryKey(params),
+    queryFn: async () => {
+      if (!actor || !principal) return { cases: [], total: 0, hasNextPage: false };
+
+      try {
+        const page = unwrapResult(
+          await actor.queryCases(
+            params.filter,
+            params.sortKey,
+            BigInt(params.page * params.pageSize),
+            BigInt(params.pageSize)
+          )
+        );
+        // Keep the fetched cases for the offline fallback below
+        await mergeCaseListCache(principal, page.cases);
+        return {
+          cases: page.cases,
+          total: Number(page.total),
+          hasNextPage: page.nextOffset !== undefined,
+        };
+      } catch (error) {
+        // If network error, run the query against the cached case list
+        if (isNetworkError(error)) {
+          const cached = await getCaseListCache(principal);
+          if (cached) {
+            const definitions = queryClient.getQueryData<ChecklistItemDefinition[]>(['checklistDefinitions']) ?? [];
+            return queryCasesLocally(cached, params, definitions, {
+              patients: queryClient.getQueryData<Patient[]>(['patients']) ?? [],
+              owners: queryClient.getQueryData<Owner[]>(['owners']) ?? [],
+            });
+          }
+        }
+        throw error;
+      }
+    },
+    enabled: !!actor && !isFetching && !!principal,
+    placeholderData: keepPreviousData,
+  });
+}
+
 export function useGetCase(id: bigint) {
   const { actor, isFetching } = useActor();
   const { identity } = useInternetIdentity();
@@ -60,15 +169,21 @@ export function useGetCase(id: bigint) {
     queryKey: ['case', id.toString()],
     queryFn: async () => {
       if (!actor || !principal) return null;
+
+      // Cases created offline only exist in the local list until they sync
+      if (isTempId(id)) {
+        return (await getCaseListCache(principal))?.find((c) => c.id === id) ?? null;
+      }
       
       try {
-        const caseData = await actor.getCase(id);
+        const caseData = unwrapResult(await actor.getCase(id));
         // Cache the result
-        if (caseData) {
-          await saveCaseCache(principal, caseData);
-        }
+        await saveCaseCache(principal, caseData);
         return caseData;
       } catch (error) {
+        if (isCanisterError(error, 'notFound')) {
+          return null;
+        }
         // If network error, try to load from cache
         if (isNetworkError(error)) {
           const cached = await getCaseCache(principal, id.toString());
@@ -83,6 +198,20 @@ export function useGetCase(id: bigint) {
   });
 }
 
+export function useGetCaseAuditLog(caseId: bigint) {
+  const { actor, isFetching } = useActor();
+
+  // Keyed under the case so mutations that invalidate the case refresh its history too
+  return useQuery<AuditEntry[]>({
+    queryKey: ['case', caseId.toString(), 'audit'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return unwrapResult(await actor.getCaseAuditLog(caseId));
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
 export function useGetCaseCount() {
   const { actor, isFetching } = useActor();
   const { identity } = useInternetIdentity();
@@ -99,17 +228,28 @@ export function useGetCaseCount() {
   });
 }
 
-// Helper to map checklist items to to-do descriptions
-function getCheckedTodoDescriptions(data: CaseFormData): string[] {
-  const todos: string[] = [];
-  if (data.dischargeNotesComplete) todos.push('Discharge Notes Complete');
-  if (data.pdvmNotified) todos.push('pDVM Notified');
-  if (data.labsComplete) todos.push('Labs Complete');
-  if (data.histoComplete) todos.push('Histopathology Complete');
-  if (data.surgeryReportComplete) todos.push('Surgery Report Complete');
-  if (data.imagingComplete) todos.push('Imaging Complete');
-  if (data.cultureComplete) todos.push('Culture Complete');
-  return todos;
+// Keyed under the cases so anything that changes a case refreshes it
+export function useGetDashboard(trendStart: bigint, trendWeeks: number, oldestLimit: number) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Dashboard | null>({
+    queryKey: ['cases', 'dashboard', trendStart.toString(), trendWeeks, oldestLimit],
+    queryFn: async () => {
+      if (!actor) return null;
+      return unwrapResult(await actor.getDashboard(trendStart, BigInt(trendWeeks), BigInt(oldestLimit)));
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+// Helper to map checked checklist items to to-do descriptions
+function getCheckedTodoDescriptions(
+  data: CaseFormData,
+  definitions: ChecklistItemDefinition[] | undefined
+): string[] {
+  return data.checklist
+    .filter((entry) => entry.complete)
+    .map((entry) => getChecklistItemTitle(definitions, entry.key));
 }
 
 export function useCreateCase() {
@@ -121,9 +261,17 @@ export function useCreateCase() {
   return useMutation({
     mutationFn: async (data: CaseFormData) => {
       if (!actor || !principal) throw new Error('Actor not available');
+      // Reused by the queued operation so a replay after a lost response is recognised
+      const idempotencyKey = createIdempotencyKey();
       
       try {
-        const todoDescriptions = getCheckedTodoDescriptions(data);
+        const todoDescriptions = [
+          ...getCheckedTodoDescriptions(
+            data,
+            queryClient.getQueryData<ChecklistItemDefinition[]>(['checklistDefinitions'])
+          ),
+          ...(data.templateTodos ?? []),
+        ];
         const id = await actor.createCase(
           data.mrn,
           data.patientFirstName,
@@ -134,43 +282,47 @@ export function useCreateCase() {
           data.sex,
           data.presentingComplaint,
           data.arrivalDate,
-          data.dischargeNotesComplete,
-          data.pdvmNotified,
-          data.labsComplete,
-          data.histoComplete,
-          data.surgeryReportComplete,
-          data.imagingComplete,
-          data.cultureComplete,
+          data.checklist,
           data.notes,
-          todoDescriptions
+          todoDescriptions,
+          data.owner ?? null,
+          data.pdvmId ?? null,
+          data.pdvmNotificationMethod ?? null,
+          data.unitId ?? null,
+          idempotencyKey
         );
-        return id;
+        return unwrapResult(id);
       } catch (error) {
         if (isNetworkError(error)) {
           // Queue for later
-          const tempId = `temp-${Date.now()}`;
+          const tempId = createTempId();
           const operation: Omit<CreateCaseOperation, 'id'> = {
             type: 'createCase',
             principal,
             data,
             tempId,
+            idempotencyKey,
             createdAt: Date.now(),
             status: 'pending',
           };
           await enqueueOperation(operation);
           
           // Optimistic update
-          queryClient.setQueryData<SurgeryCase[]>(['cases'], (old = []) => [
+          await updateOfflineCaseList(queryClient, principal, (old) => [
             ...old,
             {
-              id: BigInt(tempId),
+              id: tempId,
               ...data,
               arrivalDate: data.arrivalDate || BigInt(Date.now() * 1000000),
               todos: [],
+              attachments: [],
+              status: CaseStatus.admitted,
+              unitId: data.unitId ?? queryClient.getQueryData<OrgUnit[]>(['orgUnits'])?.[0]?.id ?? BigInt(0),
+              version: BigInt(0),
             } as SurgeryCase,
           ]);
           
-          return BigInt(tempId);
+          return tempId;
         }
         throw error;
       }
@@ -178,6 +330,10 @@ export function useCreateCase() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['cases'] });
       queryClient.invalidateQueries({ queryKey: ['caseCount'] });
+      queryClient.invalidateQueries({ queryKey: ['patients'] });
+      queryClient.invalidateQueries({ queryKey: ['patient'] });
+      queryClient.invalidateQueries({ queryKey: ['owners'] });
+      queryClient.invalidateQueries({ queryKey: ['owner'] });
     },
   });
 }
@@ -189,20 +345,32 @@ export function useUpdateCase() {
   const principal = identity?.getPrincipal().toString();
 
   return useMutation({
-    mutationFn: async ({ id, data, todos }: { id: bigint; data: CaseFormData; todos?: ToDoItem[] }) => {
+    mutationFn: async ({
+      id,
+      data,
+      todos,
+      expectedVersion,
+    }: {
+      id: bigint;
+      data: CaseFormData;
+      todos?: ToDoItem[];
+      expectedVersion: bigint;
+    }) => {
       if (!actor || !principal) throw new Error('Actor not available');
       
       // Get current case to preserve todos if not provided
       let todosToSave = todos || [];
       if (!todos) {
         const currentCase = await actor.getCase(id);
-        if (currentCase) {
-          todosToSave = currentCase.todos;
+        if (currentCase.__kind__ === 'ok') {
+          todosToSave = currentCase.ok.todos;
         }
       }
 
+      const idempotencyKey = createIdempotencyKey();
+      let result: Awaited<ReturnType<typeof actor.updateCase>>;
       try {
-        await actor.updateCase(
+        result = await actor.updateCase(
           id,
           data.mrn,
           data.patientFirstName,
@@ -213,15 +381,13 @@ export function useUpdateCase() {
           data.breed,
           data.sex,
           data.presentingComplaint,
-          data.dischargeNotesComplete,
-          data.pdvmNotified,
-          data.labsComplete,
-          data.histoComplete,
-          data.surgeryReportComplete,
-          data.imagingComplete,
-          data.cultureComplete,
+          data.checklist,
           data.notes,
-          todosToSave
+          todosToSave,
+          data.pdvmId ?? null,
+          data.pdvmNotificationMethod ?? null,
+          expectedVersion,
+          idempotencyKey
         );
       } catch (error) {
         if (isNetworkError(error)) {
@@ -232,13 +398,15 @@ export function useUpdateCase() {
             caseId: id,
             data,
             todos: todosToSave,
+            expectedVersion,
+            idempotencyKey,
             createdAt: Date.now(),
             status: 'pending',
           };
           await enqueueOperation(operation);
           
           // Optimistic update
-          queryClient.setQueryData<SurgeryCase[]>(['cases'], (old = []) =>
+          await updateOfflineCaseList(queryClient, principal, (old) =>
             old.map((c) =>
               c.id === id
                 ? {
@@ -254,11 +422,19 @@ export function useUpdateCase() {
         }
         throw error;
       }
+
+      if (result.__kind__ === 'conflict' && result.conflict.current) {
+        throw new CaseConflictError(result.conflict.current);
+      }
+      unwrapResult(result);
     },
-    onSuccess: (_, variables) => {
+    onSuccess: () => {
+      // Demographics are shared by the patient's other visits, so those cases change too
       queryClient.invalidateQueries({ queryKey: ['cases'] });
-      queryClient.invalidateQueries({ queryKey: ['case', variables.id.toString()] });
+      queryClient.invalidateQueries({ queryKey: ['case'] });
       queryClient.invalidateQueries({ queryKey: ['caseCount'] });
+      queryClient.invalidateQueries({ queryKey: ['patients'] });
+      queryClient.invalidateQueries({ queryKey: ['patient'] });
     },
   });
 }
@@ -273,14 +449,18 @@ export function useDeleteCase() {
     mutationFn: async (id: bigint) => {
       if (!actor || !principal) throw new Error('Actor not available');
       
+      const idempotencyKey = createIdempotencyKey();
       try {
-        await actor.deleteCase(id);
+        unwrapResult(await actor.deleteCase(id, idempotencyKey));
+        // Trashed cases no longer come back from the canister, so the cache cannot learn of it by itself
+        await removeFromCaseListCache(principal, [id]);
       } catch (error) {
         if (isNetworkError(error)) {
           // Queue for later
           const operation: Omit<DeleteCaseOperation, 'id'> = {
             type: 'deleteCase',
             principal,
+            idempotencyKey,
             caseId: id,
             createdAt: Date.now(),
             status: 'pending',
@@ -288,9 +468,7 @@ export function useDeleteCase() {
           await enqueueOperation(operation);
           
           // Optimistic update
-          queryClient.setQueryData<SurgeryCase[]>(['cases'], (old = []) =>
-            old.filter((c) => c.id !== id)
-          );
+          await updateOfflineCaseList(queryClient, principal, (old) => old.filter((c) => c.id !== id));
           
           return;
         }
@@ -300,293 +478,984 @@ export function useDeleteCase() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['cases'] });
       queryClient.invalidateQueries({ queryKey: ['caseCount'] });
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
     },
   });
 }
 
-// Checklist toggle mutations
-export function useToggleDischargeNotes() {
-  const { actor } = useActor();
-  const { identity } = useInternetIdentity();
-  const queryClient = useQueryClient();
-  const principal = identity?.getPrincipal().toString();
+// Patient queries
+export function useListPatients() {
+  const { actor, isFetching } = useActor();
 
-  return useMutation({
-    mutationFn: async (id: bigint) => {
-      if (!actor || !principal) throw new Error('Actor not available');
-      
+  return useQuery<Patient[]>({
+    queryKey: ['patients'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return unwrapResult(await actor.listPatients());
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useGetPatient(mrn: string) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Patient | null>({
+    queryKey: ['patient', mrn],
+    queryFn: async () => {
+      if (!actor) return null;
       try {
-        return await actor.toggleDischargeNotes(id);
+        return unwrapResult(await actor.getPatient(mrn));
       } catch (error) {
-        if (isNetworkError(error)) {
-          const operation: Omit<ToggleChecklistOperation, 'id'> = {
-            type: 'toggleChecklist',
-            principal,
-            caseId: id,
-            field: 'dischargeNotes',
-            createdAt: Date.now(),
-            status: 'pending',
-          };
-          await enqueueOperation(operation);
-          
-          // Optimistic update
-          queryClient.setQueryData<SurgeryCase | null>(['case', id.toString()], (old) =>
-            old ? { ...old, dischargeNotesComplete: !old.dischargeNotesComplete } : null
-          );
-          
-          return !queryClient.getQueryData<SurgeryCase>(['case', id.toString()])?.dischargeNotesComplete;
+        if (isCanisterError(error, 'notFound')) {
+          return null;
         }
         throw error;
       }
     },
-    onSuccess: (_, id) => {
-      queryClient.invalidateQueries({ queryKey: ['cases'] });
-      queryClient.invalidateQueries({ queryKey: ['case', id.toString()] });
+    enabled: !!actor && !isFetching && !!mrn,
+  });
+}
+
+export function useGetPatientCases(mrn: string) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<SurgeryCase[]>({
+    queryKey: ['patient', mrn, 'cases'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return unwrapResult(await actor.getPatientCases(mrn));
     },
+    enabled: !!actor && !isFetching && !!mrn,
   });
 }
 
-export function useTogglePdvmNotified() {
+export interface PatientInput {
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string;
+  species: Species;
+  breed: string;
+  sex: Sex;
+}
+
+export function useUpdatePatient() {
   const { actor } = useActor();
-  const { identity } = useInternetIdentity();
   const queryClient = useQueryClient();
-  const principal = identity?.getPrincipal().toString();
 
   return useMutation({
-    mutationFn: async (id: bigint) => {
-      if (!actor || !principal) throw new Error('Actor not available');
-      
+    mutationFn: async ({
+      mrn,
+      patient,
+      expectedVersion,
+    }: {
+      mrn: string;
+      patient: PatientInput;
+      expectedVersion: bigint;
+    }) => {
+      if (!actor) throw new Error('Actor not available');
+      return unwrapResult(
+        await actor.updatePatient(
+          mrn,
+          patient.firstName,
+          patient.lastName,
+          patient.dateOfBirth,
+          patient.species,
+          patient.breed,
+          patient.sex,
+          expectedVersion,
+          createIdempotencyKey()
+        )
+      );
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['patients'] });
+      queryClient.invalidateQueries({ queryKey: ['patient', variables.mrn] });
+      queryClient.invalidateQueries({ queryKey: ['cases'] });
+      queryClient.invalidateQueries({ queryKey: ['case'] });
+    },
+  });
+}
+
+// Owner queries
+export function useListOwners() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Owner[]>({
+    queryKey: ['owners'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return unwrapResult(await actor.listOwners());
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useGetOwner(id: bigint | undefined) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Owner | null>({
+    queryKey: ['owner', id?.toString()],
+    queryFn: async () => {
+      if (!actor || id === undefined) return null;
       try {
-        return await actor.togglePdvmNotified(id);
+        return unwrapResult(await actor.getOwner(id));
       } catch (error) {
-        if (isNetworkError(error)) {
-          const operation: Omit<ToggleChecklistOperation, 'id'> = {
-            type: 'toggleChecklist',
-            principal,
-            caseId: id,
-            field: 'pdvmNotified',
-            createdAt: Date.now(),
-            status: 'pending',
-          };
-          await enqueueOperation(operation);
-          
-          queryClient.setQueryData<SurgeryCase | null>(['case', id.toString()], (old) =>
-            old ? { ...old, pdvmNotified: !old.pdvmNotified } : null
-          );
-          
-          return !queryClient.getQueryData<SurgeryCase>(['case', id.toString()])?.pdvmNotified;
+        if (isCanisterError(error, 'notFound')) {
+          return null;
         }
         throw error;
       }
     },
-    onSuccess: (_, id) => {
-      queryClient.invalidateQueries({ queryKey: ['cases'] });
-      queryClient.invalidateQueries({ queryKey: ['case', id.toString()] });
-    },
+    enabled: !!actor && !isFetching && id !== undefined,
   });
 }
 
-export function useToggleLabs() {
+export function useCreateOwner() {
   const { actor } = useActor();
-  const { identity } = useInternetIdentity();
   const queryClient = useQueryClient();
-  const principal = identity?.getPrincipal().toString();
 
   return useMutation({
-    mutationFn: async (id: bigint) => {
-      if (!actor || !principal) throw new Error('Actor not available');
-      
-      try {
-        return await actor.toggleLabs(id);
-      } catch (error) {
-        if (isNetworkError(error)) {
-          const operation: Omit<ToggleChecklistOperation, 'id'> = {
-            type: 'toggleChecklist',
-            principal,
-            caseId: id,
-            field: 'labs',
-            createdAt: Date.now(),
-            status: 'pending',
-          };
-          await enqueueOperation(operation);
-          
-          queryClient.setQueryData<SurgeryCase | null>(['case', id.toString()], (old) =>
-            old ? { ...old, labsComplete: !old.labsComplete } : null
-          );
-          
-          return !queryClient.getQueryData<SurgeryCase>(['case', id.toString()])?.labsComplete;
-        }
-        throw error;
-      }
+    mutationFn: async (details: OwnerDetails) => {
+      if (!actor) throw new Error('Actor not available');
+      return unwrapResult(await actor.createOwner(details, createIdempotencyKey()));
     },
-    onSuccess: (_, id) => {
-      queryClient.invalidateQueries({ queryKey: ['cases'] });
-      queryClient.invalidateQueries({ queryKey: ['case', id.toString()] });
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['owners'] });
     },
   });
 }
 
-export function useToggleHisto() {
+export function useUpdateOwner() {
   const { actor } = useActor();
-  const { identity } = useInternetIdentity();
   const queryClient = useQueryClient();
-  const principal = identity?.getPrincipal().toString();
 
   return useMutation({
-    mutationFn: async (id: bigint) => {
-      if (!actor || !principal) throw new Error('Actor not available');
-      
-      try {
-        return await actor.toggleHisto(id);
-      } catch (error) {
-        if (isNetworkError(error)) {
-          const operation: Omit<ToggleChecklistOperation, 'id'> = {
-            type: 'toggleChecklist',
-            principal,
-            caseId: id,
-            field: 'histo',
-            createdAt: Date.now(),
-            status: 'pending',
-          };
-          await enqueueOperation(operation);
-          
-          queryClient.setQueryData<SurgeryCase | null>(['case', id.toString()], (old) =>
-            old ? { ...old, histoComplete: !old.histoComplete } : null
-          );
-          
-          return !queryClient.getQueryData<SurgeryCase>(['case', id.toString()])?.histoComplete;
-        }
-        throw error;
-      }
+    mutationFn: async ({
+      id,
+      details,
+      expectedVersion,
+    }: {
+      id: bigint;
+      details: OwnerDetails;
+      expectedVersion: bigint;
+    }) => {
+      if (!actor) throw new Error('Actor not available');
+      return unwrapResult(await actor.updateOwner(id, details, expectedVersion, createIdempotencyKey()));
     },
-    onSuccess: (_, id) => {
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['owners'] });
+      queryClient.invalidateQueries({ queryKey: ['owner', variables.id.toString()] });
+      // Case search matches owner details
       queryClient.invalidateQueries({ queryKey: ['cases'] });
-      queryClient.invalidateQueries({ queryKey: ['case', id.toString()] });
     },
   });
 }
 
-export function useToggleSurgeryReport() {
+export function useSetPatientOwner() {
   const { actor } = useActor();
-  const { identity } = useInternetIdentity();
   const queryClient = useQueryClient();
-  const principal = identity?.getPrincipal().toString();
 
   return useMutation({
-    mutationFn: async (id: bigint) => {
-      if (!actor || !principal) throw new Error('Actor not available');
-      
-      try {
-        return await actor.toggleSurgeryReport(id);
-      } catch (error) {
-        if (isNetworkError(error)) {
-          const operation: Omit<ToggleChecklistOperation, 'id'> = {
-            type: 'toggleChecklist',
-            principal,
-            caseId: id,
-            field: 'surgeryReport',
-            createdAt: Date.now(),
-            status: 'pending',
-          };
-          await enqueueOperation(operation);
-          
-          queryClient.setQueryData<SurgeryCase | null>(['case', id.toString()], (old) =>
-            old ? { ...old, surgeryReportComplete: !old.surgeryReportComplete } : null
-          );
-          
-          return !queryClient.getQueryData<SurgeryCase>(['case', id.toString()])?.surgeryReportComplete;
-        }
-        throw error;
-      }
+    mutationFn: async ({ mrn, ownerId }: { mrn: string; ownerId: bigint | null }) => {
+      if (!actor) throw new Error('Actor not available');
+      unwrapResult(await actor.setPatientOwner(mrn, ownerId, createIdempotencyKey()));
     },
-    onSuccess: (_, id) => {
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['patients'] });
+      queryClient.invalidateQueries({ queryKey: ['patient', variables.mrn] });
       queryClient.invalidateQueries({ queryKey: ['cases'] });
-      queryClient.invalidateQueries({ queryKey: ['case', id.toString()] });
     },
   });
 }
 
-export function useToggleImaging() {
+// Referring vet (pDVM) queries
+export function useListPdvms() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Pdvm[]>({
+    queryKey: ['pdvms'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return unwrapResult(await actor.listPdvms());
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useCreatePdvm() {
   const { actor } = useActor();
-  const { identity } = useInternetIdentity();
   const queryClient = useQueryClient();
-  const principal = identity?.getPrincipal().toString();
 
   return useMutation({
-    mutationFn: async (id: bigint) => {
-      if (!actor || !principal) throw new Error('Actor not available');
-      
-      try {
-        return await actor.toggleImaging(id);
-      } catch (error) {
-        if (isNetworkError(error)) {
-          const operation: Omit<ToggleChecklistOperation, 'id'> = {
-            type: 'toggleChecklist',
-            principal,
-            caseId: id,
-            field: 'imaging',
-            createdAt: Date.now(),
-            status: 'pending',
-          };
-          await enqueueOperation(operation);
-          
-          queryClient.setQueryData<SurgeryCase | null>(['case', id.toString()], (old) =>
-            old ? { ...old, imagingComplete: !old.imagingComplete } : null
-          );
-          
-          return !queryClient.getQueryData<SurgeryCase>(['case', id.toString()])?.imagingComplete;
-        }
-        throw error;
-      }
+    mutationFn: async (details: PdvmDetails) => {
+      if (!actor) throw new Error('Actor not available');
+      return unwrapResult(await actor.createPdvm(details, createIdempotencyKey()));
     },
-    onSuccess: (_, id) => {
-      queryClient.invalidateQueries({ queryKey: ['cases'] });
-      queryClient.invalidateQueries({ queryKey: ['case', id.toString()] });
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pdvms'] });
     },
   });
 }
 
-export function useToggleCulture() {
+export function useUpdatePdvm() {
   const { actor } = useActor();
-  const { identity } = useInternetIdentity();
   const queryClient = useQueryClient();
-  const principal = identity?.getPrincipal().toString();
 
   return useMutation({
-    mutationFn: async (id: bigint) => {
-      if (!actor || !principal) throw new Error('Actor not available');
-      
-      try {
-        return await actor.toggleCulture(id);
-      } catch (error) {
-        if (isNetworkError(error)) {
-          const operation: Omit<ToggleChecklistOperation, 'id'> = {
-            type: 'toggleChecklist',
+    mutationFn: async ({
+      id,
+      details,
+      expectedVersion,
+    }: {
+      id: bigint;
+      details: PdvmDetails;
+      expectedVersion: bigint;
+    }) => {
+      if (!actor) throw new Error('Actor not available');
+      return unwrapResult(await actor.updatePdvm(id, details, expectedVersion, createIdempotencyKey()));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pdvms'] });
+    },
+  });
+}
+
+// Trash queries
+export function useListTrash() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<TrashedCase[]>({
+    queryKey: ['trash'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return unwrapResult(await actor.listTrash());
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useRestoreCase() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: bigint) => {
+      if (!actor) throw new Error('Actor not available');
+      unwrapResult(await actor.restoreCase(id, null));
+    },
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      queryClient.invalidateQueries({ queryKey: ['cases'] });
+      queryClient.invalidateQueries({ queryKey: ['case', id.toString()] });
+      queryClient.invalidateQueries({ queryKey: ['caseCount'] });
+    },
+  });
+}
+
+export function usePurgeTrash() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return Number(unwrapResult(await actor.purgeTrash(null)));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+    },
+  });
+}
+
+export function useGetTrashRetentionDays() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<number>({
+    queryKey: ['trashRetentionDays'],
+    queryFn: async () => {
+      if (!actor) return 0;
+      return Number(unwrapResult(await actor.getTrashRetentionDays()));
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useSetTrashRetentionDays() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (days: number) => {
+      if (!actor) throw new Error('Actor not available');
+      unwrapResult(await actor.setTrashRetentionDays(BigInt(days), null));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['trashRetentionDays'] });
+    },
+  });
+}
+
+// Checklist toggle mutation
+export function useToggleChecklistItem() {
+  const { actor } = useActor();
+  const { identity } = useInternetIdentity();
+  const queryClient = useQueryClient();
+  const principal = identity?.getPrincipal().toString();
+
+  return useMutation({
+    mutationFn: async ({
+      caseId,
+      key,
+      notificationMethod,
+    }: {
+      caseId: bigint;
+      key: string;
+      /** How the pDVM was told, when ticking pdvmNotified */
+      notificationMethod?: NotificationMethod;
+    }) => {
+      if (!actor || !principal) throw new Error('Actor not available');
+      
+      const idempotencyKey = createIdempotencyKey();
+      try {
+        return unwrapResult(
+          await actor.toggleChecklistItem(caseId, key, notificationMethod ?? null, idempotencyKey)
+        );
+      } catch (error) {
+        if (isNetworkError(error)) {
+          const cached = queryClient.getQueryData<SurgeryCase | null>(['case', caseId.toString()]);
+          const operation: Omit<ToggleChecklistOperation, 'id'> = {
+            type: 'toggleChecklist',
             principal,
-            caseId: id,
-            field: 'culture',
+            idempotencyKey,
+            caseId,
+            field: key,
+            notificationMethod,
+            complete: cached ? !isChecklistItemComplete(cached.checklist, key) : undefined,
+            expectedVersion: cached?.version,
             createdAt: Date.now(),
             status: 'pending',
           };
           await enqueueOperation(operation);
           
-          queryClient.setQueryData<SurgeryCase | null>(['case', id.toString()], (old) =>
-            old ? { ...old, cultureComplete: !old.cultureComplete } : null
+          // Optimistic update
+          queryClient.setQueryData<SurgeryCase | null>(['case', caseId.toString()], (old) =>
+            old
+              ? {
+                  ...old,
+                  checklist: setChecklistItem(
+                    old.checklist,
+                    key,
+                    !isChecklistItemComplete(old.checklist, key),
+                    identity?.getPrincipal()
+                  ),
+                }
+              : null
           );
           
-          return !queryClient.getQueryData<SurgeryCase>(['case', id.toString()])?.cultureComplete;
+          const updated = queryClient.getQueryData<SurgeryCase>(['case', caseId.toString()]);
+          return updated ? isChecklistItemComplete(updated.checklist, key) : false;
         }
         throw error;
       }
     },
-    onSuccess: (_, id) => {
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['cases'] });
+      queryClient.invalidateQueries({ queryKey: ['case', variables.caseId.toString()] });
+    },
+  });
+}
+
+// Status changes are checked against the case's open items by the canister, so
+// they are not queued offline
+export function useSetCaseStatus() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      caseId,
+      status,
+      overrideReason,
+    }: {
+      caseId: bigint;
+      status: CaseStatus;
+      /** Admin's reason for closing a case that still has open items */
+      overrideReason?: string;
+    }) => {
+      if (!actor) throw new Error('Actor not available');
+      unwrapResult(await actor.setCaseStatus(caseId, status, overrideReason ?? null, createIdempotencyKey()));
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['cases'] });
+      queryClient.invalidateQueries({ queryKey: ['case', variables.caseId.toString()] });
+    },
+  });
+}
+
+// Checklist definition queries
+export function useListChecklistDefinitions() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<ChecklistItemDefinition[]>({
+    queryKey: ['checklistDefinitions'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return unwrapResult(await actor.listChecklistDefinitions());
+    },
+    enabled: !!actor && !isFetching,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useIsCallerAdmin() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<boolean>({
+    queryKey: ['isCallerAdmin'],
+    queryFn: async () => {
+      if (!actor) return false;
+      return actor.isCallerAdmin();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useCallerPermissions() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Permission[]>({
+    queryKey: ['permissions'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return unwrapResult(await actor.getCallerPermissions());
+    },
+    enabled: !!actor && !isFetching,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Whether the caller holds a permission, for hiding controls they cannot use.
+ * Until permissions have loaded, e.g. when the app starts offline, controls
+ * stay visible; the canister checks every call either way.
+ */
+export function useHasPermission(permission: Permission): boolean {
+  const { data: permissions } = useCallerPermissions();
+  return permissions === undefined || permissions.includes(permission);
+}
+
+export interface CustomRoleInput {
+  name: string;
+  permissions: Permission[];
+}
+
+export function useListCustomRoles() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<CustomRole[]>({
+    queryKey: ['customRoles'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return unwrapResult(await actor.listCustomRoles());
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useListCustomRoleAssignments() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<CustomRoleAssignment[]>({
+    queryKey: ['customRoleAssignments'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return unwrapResult(await actor.listCustomRoleAssignments());
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useCreateCustomRole() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (role: CustomRoleInput) => {
+      if (!actor) throw new Error('Actor not available');
+      return unwrapResult(await actor.createCustomRole(role.name, role.permissions, createIdempotencyKey()));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customRoles'] });
+    },
+  });
+}
+
+export function useUpdateCustomRole() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, role }: { id: bigint; role: CustomRoleInput }) => {
+      if (!actor) throw new Error('Actor not available');
+      unwrapResult(await actor.updateCustomRole(id, role.name, role.permissions, createIdempotencyKey()));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customRoles'] });
+      queryClient.invalidateQueries({ queryKey: ['permissions'] });
+    },
+  });
+}
+
+export function useDeleteCustomRole() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: bigint) => {
+      if (!actor) throw new Error('Actor not available');
+      unwrapResult(await actor.deleteCustomRole(id, createIdempotencyKey()));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customRoles'] });
+      queryClient.invalidateQueries({ queryKey: ['customRoleAssignments'] });
+      queryClient.invalidateQueries({ queryKey: ['permissions'] });
+    },
+  });
+}
+
+export function useSetUserCustomRole() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ user, roleId }: { user: Principal; roleId: bigint | null }) => {
+      if (!actor) throw new Error('Actor not available');
+      unwrapResult(await actor.setUserCustomRole(user, roleId, createIdempotencyKey()));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customRoleAssignments'] });
+      queryClient.invalidateQueries({ queryKey: ['permissions'] });
+    },
+  });
+}
+
+export function useListUsers() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<UserSummary[]>({
+    queryKey: ['users'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return unwrapResult(await actor.listUsers());
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useSetUserRole() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ user, role }: { user: Principal; role: UserRole }) => {
+      if (!actor) throw new Error('Actor not available');
+      unwrapResult(await actor.setUserRole(user, role, createIdempotencyKey()));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      queryClient.invalidateQueries({ queryKey: ['customRoleAssignments'] });
+    },
+  });
+}
+
+export function useSetUserAccess() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ user, enabled }: { user: Principal; enabled: boolean }) => {
+      if (!actor) throw new Error('Actor not available');
+      unwrapResult(await actor.setUserAccess(user, enabled, createIdempotencyKey()));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      queryClient.invalidateQueries({ queryKey: ['assignableUsers'] });
+    },
+  });
+}
+
+export function useGetAutoProvisionUsers() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<boolean>({
+    queryKey: ['autoProvisionUsers'],
+    queryFn: async () => {
+      if (!actor) return true;
+      return unwrapResult(await actor.getAutoProvisionUsers());
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useSetAutoProvisionUsers() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (enabled: boolean) => {
+      if (!actor) throw new Error('Actor not available');
+      unwrapResult(await actor.setAutoProvisionUsers(enabled, createIdempotencyKey()));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['autoProvisionUsers'] });
+    },
+  });
+}
+
+export function useAddChecklistDefinition() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ key, title }: { key: string; title: string }) => {
+      if (!actor) throw new Error('Actor not available');
+      unwrapResult(await actor.addChecklistDefinition(key, title, null));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['checklistDefinitions'] });
+    },
+  });
+}
+
+export function useRenameChecklistDefinition() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ key, title }: { key: string; title: string }) => {
+      if (!actor) throw new Error('Actor not available');
+      unwrapResult(await actor.renameChecklistDefinition(key, title, null));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['checklistDefinitions'] });
+    },
+  });
+}
+
+export function useSetChecklistDefinitionRetired() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ key, retired }: { key: string; retired: boolean }) => {
+      if (!actor) throw new Error('Actor not available');
+      unwrapResult(await actor.setChecklistDefinitionRetired(key, retired, null));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['checklistDefinitions'] });
+    },
+  });
+}
+
+export function useReorderChecklistDefinitions() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (keys: string[]) => {
+      if (!actor) throw new Error('Actor not available');
+      unwrapResult(await actor.reorderChecklistDefinitions(keys, null));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['checklistDefinitions'] });
+    },
+  });
+}
+
+// Case template queries
+export interface CaseTemplateInput {
+  name: string;
+  species: Species | null;
+  complaintKeywords: string[];
+  checklistKeys: string[];
+  todoDescriptions: string[];
+}
+
+export function useListCaseTemplates() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<CaseTemplate[]>({
+    queryKey: ['caseTemplates'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return unwrapResult(await actor.listCaseTemplates());
+    },
+    enabled: !!actor && !isFetching,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useCreateCaseTemplate() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (template: CaseTemplateInput) => {
+      if (!actor) throw new Error('Actor not available');
+      return unwrapResult(
+        await actor.createCaseTemplate(
+          template.name,
+          template.species,
+          template.complaintKeywords,
+          template.checklistKeys,
+          template.todoDescriptions,
+          null
+        )
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['caseTemplates'] });
+    },
+  });
+}
+
+export function useUpdateCaseTemplate() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, template }: { id: bigint; template: CaseTemplateInput }) => {
+      if (!actor) throw new Error('Actor not available');
+      unwrapResult(
+        await actor.updateCaseTemplate(
+          id,
+          template.name,
+          template.species,
+          template.complaintKeywords,
+          template.checklistKeys,
+          template.todoDescriptions,
+          null
+        )
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['caseTemplates'] });
+    },
+  });
+}
+
+export function useDeleteCaseTemplate() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: bigint) => {
+      if (!actor) throw new Error('Actor not available');
+      unwrapResult(await actor.deleteCaseTemplate(id, null));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['caseTemplates'] });
+    },
+  });
+}
+
+// pDVM letter template queries
+export interface LetterTemplateInput {
+  name: string;
+  body: string;
+}
+
+export function useListLetterTemplates() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<LetterTemplate[]>({
+    queryKey: ['letterTemplates'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return unwrapResult(await actor.listLetterTemplates());
+    },
+    enabled: !!actor && !isFetching,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useCreateLetterTemplate() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (template: LetterTemplateInput) => {
+      if (!actor) throw new Error('Actor not available');
+      return unwrapResult(await actor.createLetterTemplate(template.name, template.body, createIdempotencyKey()));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['letterTemplates'] });
+    },
+  });
+}
+
+export function useUpdateLetterTemplate() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, template }: { id: bigint; template: LetterTemplateInput }) => {
+      if (!actor) throw new Error('Actor not available');
+      unwrapResult(await actor.updateLetterTemplate(id, template.name, template.body, createIdempotencyKey()));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['letterTemplates'] });
+    },
+  });
+}
+
+export function useDeleteLetterTemplate() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: bigint) => {
+      if (!actor) throw new Error('Actor not available');
+      unwrapResult(await actor.deleteLetterTemplate(id, createIdempotencyKey()));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['letterTemplates'] });
+    },
+  });
+}
+
+export function useMarkLetterSent() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ caseId, method }: { caseId: bigint; method: NotificationMethod }) => {
+      if (!actor) throw new Error('Actor not available');
+      unwrapResult(await actor.markLetterSent(caseId, method, createIdempotencyKey()));
+    },
+    onSuccess: (_, { caseId }) => {
       queryClient.invalidateQueries({ queryKey: ['cases'] });
-      queryClient.invalidateQueries({ queryKey: ['case', id.toString()] });
+      queryClient.invalidateQueries({ queryKey: ['case', caseId.toString()] });
+    },
+  });
+}
+
+// Unit queries
+export function useListOrgUnits() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<OrgUnit[]>({
+    queryKey: ['orgUnits'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return unwrapResult(await actor.listOrgUnits());
+    },
+    enabled: !!actor && !isFetching,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useCreateOrgUnit() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      if (!actor) throw new Error('Actor not available');
+      return unwrapResult(await actor.createOrgUnit(name, createIdempotencyKey()));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['orgUnits'] });
+    },
+  });
+}
+
+export function useRenameOrgUnit() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, name }: { id: bigint; name: string }) => {
+      if (!actor) throw new Error('Actor not available');
+      unwrapResult(await actor.renameOrgUnit(id, name, createIdempotencyKey()));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['orgUnits'] });
+    },
+  });
+}
+
+export function useSetUnitMember() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ unitId, user, role }: { unitId: bigint; user: Principal; role: UnitRole }) => {
+      if (!actor) throw new Error('Actor not available');
+      unwrapResult(await actor.setUnitMember(unitId, user, role, createIdempotencyKey()));
+    },
+    // Membership decides which cases and patients each user can see
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['orgUnits'] });
+      queryClient.invalidateQueries({ queryKey: ['assignableUsers'] });
+      queryClient.invalidateQueries({ queryKey: ['cases'] });
+      queryClient.invalidateQueries({ queryKey: ['caseCount'] });
+      queryClient.invalidateQueries({ queryKey: ['patients'] });
+    },
+  });
+}
+
+export function useRemoveUnitMember() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ unitId, user }: { unitId: bigint; user: Principal }) => {
+      if (!actor) throw new Error('Actor not available');
+      unwrapResult(await actor.removeUnitMember(unitId, user, createIdempotencyKey()));
+    },
+    // Membership decides which cases and patients each user can see
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['orgUnits'] });
+      queryClient.invalidateQueries({ queryKey: ['assignableUsers'] });
+      queryClient.invalidateQueries({ queryKey: ['cases'] });
+      queryClient.invalidateQueries({ queryKey: ['caseCount'] });
+      queryClient.invalidateQueries({ queryKey: ['patients'] });
     },
   });
 }
 
 // To-do item mutations
+export function useListAssignableUsers() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Assignee[]>({
+    queryKey: ['assignableUsers'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return unwrapResult(await actor.listAssignableUsers());
+    },
+    enabled: !!actor && !isFetching,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// Profiles of every user, for showing names in history and attributions
+export function useListUserDirectory() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Assignee[]>({
+    queryKey: ['userDirectory'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return unwrapResult(await actor.listUserDirectory());
+    },
+    enabled: !!actor && !isFetching,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
 export function useAddTodoItem() {
   const { actor } = useActor();
   const { identity } = useInternetIdentity();
@@ -594,19 +1463,32 @@ export function useAddTodoItem() {
   const principal = identity?.getPrincipal().toString();
 
   return useMutation({
-    mutationFn: async ({ caseId, description }: { caseId: bigint; description: string }) => {
+    mutationFn: async ({
+      caseId,
+      description,
+      details,
+    }: {
+      caseId: bigint;
+      description: string;
+      details: TodoDetails;
+    }) => {
       if (!actor || !principal) throw new Error('Actor not available');
       
+      const idempotencyKey = createIdempotencyKey();
       try {
-        return await actor.addTodoItem(caseId, description);
+        return unwrapResult(await actor.addTodoItem(caseId, description, details, idempotencyKey));
       } catch (error) {
         if (isNetworkError(error)) {
-          const tempId = `temp-${Date.now()}`;
+          const tempId = createTempId();
           const operation: Omit<AddTodoOperation, 'id'> = {
             type: 'addTodo',
             principal,
+            idempotencyKey,
             caseId,
             description,
+            dueDate: details.dueDate,
+            priority: details.priority,
+            assignee: details.assignee?.toText(),
             tempId,
             createdAt: Date.now(),
             status: 'pending',
@@ -614,20 +1496,26 @@ export function useAddTodoItem() {
           await enqueueOperation(operation);
           
           // Optimistic update
-          const tempIdBigInt = BigInt(Date.now());
           queryClient.setQueryData<SurgeryCase | null>(['case', caseId.toString()], (old) =>
             old
               ? {
                   ...old,
                   todos: [
                     ...old.todos,
-                    { id: tempIdBigInt, description, complete: false },
+                    {
+                      ...details,
+                      id: tempId,
+                      description,
+                      complete: false,
+                      createdBy: identity?.getPrincipal(),
+                      createdAt: BigInt(Date.now()) * BigInt(1_000_000),
+                    },
                   ],
                 }
               : null
           );
           
-          return tempIdBigInt;
+          return tempId;
         }
         throw error;
       }
@@ -639,6 +1527,21 @@ export function useAddTodoItem() {
   });
 }
 
+// Keyed under the cases so to-do changes made anywhere refresh it
+export function useListMyTodos(includeCompleted: boolean) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<AssignedTodo[]>({
+    queryKey: ['cases', 'myTodos', includeCompleted],
+    queryFn: async () => {
+      if (!actor) return [];
+      return unwrapResult(await actor.listMyTodos(includeCompleted));
+    },
+    enabled: !!actor && !isFetching,
+    placeholderData: keepPreviousData,
+  });
+}
+
 export function useToggleTodoComplete() {
   const { actor } = useActor();
   const { identity } = useInternetIdentity();
@@ -649,15 +1552,21 @@ export function useToggleTodoComplete() {
     mutationFn: async ({ caseId, todoId }: { caseId: bigint; todoId: bigint }) => {
       if (!actor || !principal) throw new Error('Actor not available');
       
+      const idempotencyKey = createIdempotencyKey();
       try {
-        await actor.toggleTodoComplete(caseId, todoId);
+        unwrapResult(await actor.toggleTodoComplete(caseId, todoId, idempotencyKey));
       } catch (error) {
         if (isNetworkError(error)) {
+          const cached = queryClient.getQueryData<SurgeryCase | null>(['case', caseId.toString()]);
+          const todo = cached?.todos.find((t) => t.id === todoId);
           const operation: Omit<ToggleTodoOperation, 'id'> = {
             type: 'toggleTodo',
             principal,
+            idempotencyKey,
             caseId,
             todoId,
+            complete: todo ? !todo.complete : undefined,
+            expectedVersion: todo ? cached?.version : undefined,
             createdAt: Date.now(),
             status: 'pending',
           };
@@ -669,7 +1578,13 @@ export function useToggleTodoComplete() {
               ? {
                   ...old,
                   todos: old.todos.map((todo) =>
-                    todo.id === todoId ? { ...todo, complete: !todo.complete } : todo
+                    todo.id === todoId
+                      ? {
+                          ...todo,
+                          complete: !todo.complete,
+                          completedAt: todo.complete ? undefined : BigInt(Date.now()) * BigInt(1_000_000),
+                        }
+                      : todo
                   ),
                 }
               : null
@@ -687,6 +1602,116 @@ export function useToggleTodoComplete() {
   });
 }
 
+export function useEditTodoItem() {
+  const { actor } = useActor();
+  const { identity } = useInternetIdentity();
+  const queryClient = useQueryClient();
+  const principal = identity?.getPrincipal().toString();
+
+  return useMutation({
+    mutationFn: async ({
+      caseId,
+      todoId,
+      description,
+      details,
+    }: {
+      caseId: bigint;
+      todoId: bigint;
+      description: string;
+      details: TodoDetails;
+    }) => {
+      if (!actor || !principal) throw new Error('Actor not available');
+
+      const idempotencyKey = createIdempotencyKey();
+      try {
+        unwrapResult(await actor.editTodoItem(caseId, todoId, description, details, idempotencyKey));
+      } catch (error) {
+        if (isNetworkError(error)) {
+          const operation: Omit<EditTodoOperation, 'id'> = {
+            type: 'editTodo',
+            principal,
+            idempotencyKey,
+            caseId,
+            todoId,
+            description,
+            dueDate: details.dueDate,
+            priority: details.priority,
+            assignee: details.assignee?.toText(),
+            createdAt: Date.now(),
+            status: 'pending',
+          };
+          await enqueueOperation(operation);
+
+          // Optimistic update
+          queryClient.setQueryData<SurgeryCase | null>(['case', caseId.toString()], (old) =>
+            old
+              ? {
+                  ...old,
+                  todos: old.todos.map((todo) => (todo.id === todoId ? { ...todo, ...details, description } : todo)),
+                }
+              : null
+          );
+
+          return;
+        }
+        throw error;
+      }
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['cases'] });
+      queryClient.invalidateQueries({ queryKey: ['case', variables.caseId.toString()] });
+    },
+  });
+}
+
+export function useReorderTodos() {
+  const { actor } = useActor();
+  const { identity } = useInternetIdentity();
+  const queryClient = useQueryClient();
+  const principal = identity?.getPrincipal().toString();
+
+  return useMutation({
+    mutationFn: async ({ caseId, todoIds }: { caseId: bigint; todoIds: bigint[] }) => {
+      if (!actor || !principal) throw new Error('Actor not available');
+
+      const idempotencyKey = createIdempotencyKey();
+      try {
+        unwrapResult(await actor.reorderTodos(caseId, todoIds, idempotencyKey));
+      } catch (error) {
+        if (isNetworkError(error)) {
+          const operation: Omit<ReorderTodosOperation, 'id'> = {
+            type: 'reorderTodos',
+            principal,
+            idempotencyKey,
+            caseId,
+            todoIds,
+            createdAt: Date.now(),
+            status: 'pending',
+          };
+          await enqueueOperation(operation);
+
+          // Optimistic update
+          queryClient.setQueryData<SurgeryCase | null>(['case', caseId.toString()], (old) =>
+            old
+              ? {
+                  ...old,
+                  todos: todoIds.flatMap((id) => old.todos.filter((todo) => todo.id === id)),
+                }
+              : null
+          );
+
+          return;
+        }
+        throw error;
+      }
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['cases'] });
+      queryClient.invalidateQueries({ queryKey: ['case', variables.caseId.toString()] });
+    },
+  });
+}
+
 export function useDeleteTodoItem() {
   const { actor } = useActor();
   const { identity } = useInternetIdentity();
@@ -697,13 +1722,15 @@ export function useDeleteTodoItem() {
     mutationFn: async ({ caseId, todoId }: { caseId: bigint; todoId: bigint }) => {
       if (!actor || !principal) throw new Error('Actor not available');
       
+      const idempotencyKey = createIdempotencyKey();
       try {
-        await actor.deleteTodoItem(caseId, todoId);
+        unwrapResult(await actor.deleteTodoItem(caseId, todoId, idempotencyKey));
       } catch (error) {
         if (isNetworkError(error)) {
           const operation: Omit<DeleteTodoOperation, 'id'> = {
             type: 'deleteTodo',
             principal,
+            idempotencyKey,
             caseId,
             todoId,
             createdAt: Date.now(),
@@ -733,6 +1760,75 @@ export function useDeleteTodoItem() {
   });
 }
 
+export function useAddCaseAttachment() {
+  const { actor } = useActor();
+  const { identity } = useInternetIdentity();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      caseId,
+      file,
+      caption,
+      onProgress,
+    }: {
+      caseId: bigint;
+      file: File;
+      caption: string;
+      onProgress?: (percentage: number) => void;
+    }) => {
+      if (!actor || !identity) throw new Error('Actor not available');
+      const storageClient = await createStorageClientWithConfig({ agentOptions: { identity } });
+      const { hash } = await storageClient.putFile(new Uint8Array(await file.arrayBuffer()), onProgress);
+      return unwrapResult(
+        await actor.addCaseAttachment(
+          caseId,
+          {
+            blobHash: hash,
+            filename: file.name,
+            mimeType: file.type || 'application/octet-stream',
+            size: BigInt(file.size),
+            caption,
+          },
+          createIdempotencyKey()
+        )
+      );
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['cases'] });
+      queryClient.invalidateQueries({ queryKey: ['case', variables.caseId.toString()] });
+    },
+  });
+}
+
+export function useDeleteCaseAttachment() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ caseId, attachmentId }: { caseId: bigint; attachmentId: bigint }) => {
+      if (!actor) throw new Error('Actor not available');
+      unwrapResult(await actor.deleteCaseAttachment(caseId, attachmentId, createIdempotencyKey()));
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['cases'] });
+      queryClient.invalidateQueries({ queryKey: ['case', variables.caseId.toString()] });
+    },
+  });
+}
+
+// Where the storage gateway serves an attachment; blobs never change, so neither does the URL
+export function useAttachmentUrl(blobHash: string) {
+  return useQuery<string>({
+    queryKey: ['attachmentUrl', blobHash],
+    queryFn: async () => {
+      const storageClient = await createStorageClientWithConfig();
+      return storageClient.getDirectURL(blobHash);
+    },
+    staleTime: Infinity,
+  });
+}
+
 // Export/Import mutations
 export function useExportCases() {
   const { actor } = useActor();
@@ -740,7 +1836,7 @@ export function useExportCases() {
   return useMutation({
     mutationFn: async () => {
       if (!actor) throw new Error('Actor not available');
-      return await actor.exportCases();
+      return unwrapResult(await actor.exportCases());
     },
   });
 }
@@ -752,7 +1848,7 @@ export function useImportCases() {
   return useMutation({
     mutationFn: async (cases: SurgeryCase[]) => {
       if (!actor) throw new Error('Actor not available');
-      await actor.importCases(cases);
+      unwrapResult(await actor.importCases(cases, null));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['cases'] });
@@ -769,7 +1865,7 @@ export function useGetCallerUserProfile() {
     queryKey: ['currentUserProfile'],
     queryFn: async () => {
       if (!actor) throw new Error('Actor not available');
-      return actor.getCallerUserProfile();
+      return unwrapResult(await actor.getCallerUserProfile());
     },
     enabled: !!actor && !actorFetching,
     retry: false,
@@ -787,12 +1883,14 @@ export function useSaveCallerUserProfile() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (profile: { name: string }) => {
+    mutationFn: async (profile: UserProfile) => {
       if (!actor) throw new Error('Actor not available');
-      await actor.saveCallerUserProfile(profile);
+      unwrapResult(await actor.saveCallerUserProfile(profile, null));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['currentUserProfile'] });
+      queryClient.invalidateQueries({ queryKey: ['userDirectory'] });
+      queryClient.invalidateQueries({ queryKey: ['assignableUsers'] });
     },
   });
 }
@@ -2,9 +2,17 @@ import ReactDOM from 'react-dom/client';
 import { InternetIdentityProvider } from './hooks/useInternetIdentity';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import App from './App';
+import { isRetryableError } from './utils/apiResult';
 import './index.css';
 
-const queryClient = new QueryClient();
+// Structured canister failures are final, so only transport and transient errors are retried
+const queryClient = new QueryClient({
+    defaultOptions: {
+        queries: {
+            retry: (failureCount, error) => isRetryableError(error) && failureCount < 3,
+        },
+    },
+});
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
     <QueryClientProvider client={queryClient}>
@@ -1,13 +1,27 @@
 import { useParams, useNavigate } from '@tanstack/react-router';
-import { useGetCase, useUpdateCase, useDeleteCase } from '../hooks/useQueries';
+import { useGetCase, useUpdateCase, useDeleteCase, useGetPatient, useHasPermission } from '../hooks/useQueries';
 import { useOfflineStatus } from '../hooks/useOfflineStatus';
 import { getCaseCache } from '../utils/offlineDb';
 import { useInternetIdentity } from '../hooks/useInternetIdentity';
 import CaseForm from '../components/cases/CaseForm';
 import ToDoSection from '../components/cases/ToDoSection';
+import AttachmentsCard from '../components/cases/AttachmentsCard';
+import CaseHistory from '../components/cases/CaseHistory';
+import CaseConflictDialog from '../components/cases/CaseConflictDialog';
+import OwnerCard from '../components/owners/OwnerCard';
+import DischargeLetterCard from '../components/cases/DischargeLetterCard';
+import CaseStatusCard from '../components/cases/CaseStatusCard';
+import {
+  caseToFormData,
+  getConflictingFields,
+  isCaseConflictError,
+  mergeCaseFormData,
+} from '../utils/caseConflict';
+import { isCanisterError } from '../utils/apiResult';
+import { useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Trash2, WifiOff } from 'lucide-react';
+import { ArrowLeft, PawPrint, Trash2, WifiOff } from 'lucide-react';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -21,8 +35,16 @@ import {
 } from '@/components/ui/alert-dialog';
 import { toast } from 'sonner';
 import type { CaseFormData } from '../components/cases/CaseForm';
+import { Permission } from '../backend';
+import type { SurgeryCase } from '../backend';
 import { useState, useEffect } from 'react';
 
+interface CaseConflictState {
+  base: CaseFormData;
+  mine: CaseFormData;
+  current: SurgeryCase;
+}
+
 export default function CaseDetailPage() {
   const { caseId } = useParams({ from: '/cases/$caseId' });
   const navigate = useNavigate();
@@ -32,7 +54,12 @@ export default function CaseDetailPage() {
   const { data: caseData, isLoading, error } = useGetCase(caseIdBigInt);
   const updateCase = useUpdateCase();
   const deleteCase = useDeleteCase();
+  const canEditDetails = useHasPermission(Permission.editDemographics);
+  const canToggleChecklist = useHasPermission(Permission.toggleChecklist);
+  const canDelete = useHasPermission(Permission.deleteCases);
   const [cachedCase, setCachedCase] = useState<typeof caseData>(null);
+  const [conflict, setConflict] = useState<CaseConflictState | null>(null);
+  const queryClient = useQueryClient();
 
   const principal = identity?.getPrincipal().toString();
 
@@ -43,25 +70,57 @@ export default function CaseDetailPage() {
   }, [isOffline, caseData, principal, caseId]);
 
   const displayCase = caseData || cachedCase;
+  const { data: patient } = useGetPatient(displayCase?.mrn ?? '');
 
-  const handleSubmit = async (data: CaseFormData) => {
+  const saveCase = async (data: CaseFormData, baseCase: SurgeryCase) => {
     try {
       await updateCase.mutateAsync({
         id: caseIdBigInt,
         data,
-        todos: displayCase?.todos,
+        todos: baseCase.todos,
+        expectedVersion: baseCase.version,
       });
+      setConflict(null);
       toast.success('Case updated successfully');
     } catch (error) {
-      toast.error('Failed to update case');
+      if (isCaseConflictError(error)) {
+        setConflict({ base: conflict?.base ?? caseToFormData(baseCase), mine: data, current: error.current });
+        return;
+      }
+      toast.error('Failed to update case', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
       console.error('Error updating case:', error);
     }
   };
 
+  const handleSubmit = async (data: CaseFormData) => {
+    if (displayCase) {
+      await saveCase(data, displayCase);
+    }
+  };
+
+  const handleMergeConflict = async () => {
+    if (!conflict) return;
+    const merged = mergeCaseFormData(conflict.base, conflict.mine, caseToFormData(conflict.current));
+    await saveCase(merged, conflict.current);
+  };
+
+  const handleOverwriteConflict = async () => {
+    if (!conflict) return;
+    await saveCase(conflict.mine, conflict.current);
+  };
+
+  const handleDiscardConflict = () => {
+    setConflict(null);
+    queryClient.invalidateQueries({ queryKey: ['case', caseId] });
+    toast.info('Loaded the latest version of this case');
+  };
+
   const handleDelete = async () => {
     try {
       await deleteCase.mutateAsync(caseIdBigInt);
-      toast.success('Case deleted successfully');
+      toast.success('Case moved to trash');
       navigate({ to: '/' });
     } catch (error) {
       toast.error('Failed to delete case');
@@ -143,31 +202,45 @@ export default function CaseDetailPage() {
             <p className="text-muted-foreground mt-1">MRN: {displayCase.mrn}</p>
           </div>
         </div>
-        <AlertDialog>
-          <AlertDialogTrigger asChild>
-            <Button variant="destructive" size="sm" disabled={isOffline}>
-              <Trash2 className="mr-2 h-4 w-4" />
-              Delete Case
-            </Button>
-          </AlertDialogTrigger>
-          <AlertDialogContent>
-            <AlertDialogHeader>
-              <AlertDialogTitle>Are you sure?</AlertDialogTitle>
-              <AlertDialogDescription>
-                This will permanently delete this case and all associated data. This action cannot be
-                undone.
-              </AlertDialogDescription>
-            </AlertDialogHeader>
-            <AlertDialogFooter>
-              <AlertDialogCancel>Cancel</AlertDialogCancel>
-              <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
-                Delete
-              </AlertDialogAction>
-            </AlertDialogFooter>
-          </AlertDialogContent>
-        </AlertDialog>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => navigate({ to: '/patients/$mrn', params: { mrn: displayCase.mrn } })}
+          >
+            <PawPrint className="mr-2 h-4 w-4" />
+            Patient Record
+          </Button>
+          {canDelete && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="destructive" size="sm" disabled={isOffline}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete Case
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This will move the case to the trash. It can be restored from there until it is purged
+                    after the retention period.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+                    Delete
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
       </div>
 
+      <CaseStatusCard caseRecord={displayCase} readOnly={isOffline || !canEditDetails} />
+
       <Card>
         <CardHeader>
           <CardTitle>Case Information</CardTitle>
@@ -175,15 +248,44 @@ export default function CaseDetailPage() {
         </CardHeader>
         <CardContent>
           <CaseForm
+            key={displayCase.version.toString()}
             initialData={displayCase}
             onSubmit={handleSubmit}
             onCancel={() => navigate({ to: '/' })}
             isSubmitting={updateCase.isPending}
+            fieldErrors={isCanisterError(updateCase.error, 'validation') ? updateCase.error.fieldErrors : undefined}
           />
         </CardContent>
       </Card>
 
+      {patient && <OwnerCard mrn={patient.mrn} ownerId={patient.ownerId} readOnly={isOffline || !canEditDetails} />}
+
       <ToDoSection caseId={caseIdBigInt} todos={displayCase.todos} />
+
+      <AttachmentsCard
+        caseId={caseIdBigInt}
+        attachments={displayCase.attachments}
+        readOnly={isOffline || !canEditDetails}
+      />
+
+      <DischargeLetterCard
+        caseRecord={displayCase}
+        ownerId={patient?.ownerId}
+        readOnly={isOffline || !canToggleChecklist}
+      />
+
+      <CaseConflictDialog
+        open={!!conflict}
+        conflicts={
+          conflict ? getConflictingFields(conflict.base, conflict.mine, caseToFormData(conflict.current)) : []
+        }
+        isSubmitting={updateCase.isPending}
+        onMerge={handleMergeConflict}
+        onOverwrite={handleOverwriteConflict}
+        onDiscard={handleDiscardConflict}
+      />
+
+      {!isOffline && <CaseHistory caseId={caseIdBigInt} />}
     </div>
   );
 }
@@ -1,6 +1,6 @@
-import { useState, useMemo, useRef } from 'react';
+import { useState, useRef } from 'react';
 import { useNavigate } from '@tanstack/react-router';
-import { useListCases, useExportCases, useImportCases } from '../hooks/useQueries';
+import { useQueryCases, useExportCases, useImportCases, useIsCallerAdmin, useListOrgUnits, useHasPermission } from '../hooks/useQueries';
 import { useOfflineStatus } from '../hooks/useOfflineStatus';
 import { useInternetIdentity } from '../hooks/useInternetIdentity';
 import { hasCaseListCache } from '../utils/offlineDb';
@@ -9,67 +9,69 @@ import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Search, Plus, FileText, Download, Upload, WifiOff } from 'lucide-react';
+import { Plus, FileText, Download, Upload, WifiOff, ListChecks, LayoutTemplate, Trash2, Stethoscope, Mail, LayoutDashboard, ListTodo, Building2, ShieldCheck, UserCog } from 'lucide-react';
 import { formatDate } from '../utils/dateTime';
 import { toast } from 'sonner';
 import { parseCsvToSurgeryCases } from '../utils/surgeryCaseCsvImport';
-import type { SurgeryCase, Species } from '../backend';
+import { legacyChecklistFromRecord } from '../utils/checklist';
+import { legacyTodo } from '../utils/todos';
+import CaseFilters from '../components/cases/CaseFilters';
+import CasePagination from '../components/cases/CasePagination';
+import CaseStatusBadge from '../components/cases/CaseStatusBadge';
+import { CASE_PAGE_SIZE, hasActiveFilter } from '../utils/caseQuery';
+import { CaseSortKey, CaseStatus, Permission, TodoPriority } from '../backend';
+import type { CaseFilter, SurgeryCase, Species } from '../backend';
 import { useEffect } from 'react';
 
-type SortOption = 'arrival-newest' | 'arrival-oldest' | 'mrn-asc';
-
 export default function CaseListPage() {
   const navigate = useNavigate();
-  const { data: cases = [], isLoading, error } = useListCases();
   const { isOffline } = useOfflineStatus();
   const { identity } = useInternetIdentity();
-  const [searchTerm, setSearchTerm] = useState('');
-  const [sortBy, setSortBy] = useState<SortOption>('arrival-newest');
+  const [filter, setFilter] = useState<CaseFilter>({});
+  const [sortKey, setSortKey] = useState<CaseSortKey>(CaseSortKey.arrivalNewest);
+  const [page, setPage] = useState(0);
   const [hasCache, setHasCache] = useState<boolean | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const exportCases = useExportCases();
   const importCases = useImportCases();
+  const { data: isAdmin } = useIsCallerAdmin();
+  const { data: units = [] } = useListOrgUnits();
+  const canExport = useHasPermission(Permission.exportCases);
+  const canImport = useHasPermission(Permission.importCases);
+  const canCreate = useHasPermission(Permission.editDemographics);
+  const canDelete = useHasPermission(Permission.deleteCases);
+  const canManageUsers = useHasPermission(Permission.manageUsers);
 
   const principal = identity?.getPrincipal().toString();
 
+  const { data: result, isLoading } = useQueryCases({
+    filter,
+    sortKey,
+    page,
+    pageSize: CASE_PAGE_SIZE,
+  });
+  const pageCases = result?.cases ?? [];
+  const total = result?.total ?? 0;
+  const pageCount = Math.ceil(total / CASE_PAGE_SIZE);
+  const isFiltered = hasActiveFilter(filter);
+
+  const handleFilterChange = (newFilter: CaseFilter) => {
+    setFilter(newFilter);
+    setPage(0);
+  };
+
+  const handleSortKeyChange = (newSortKey: CaseSortKey) => {
+    setSortKey(newSortKey);
+    setPage(0);
+  };
+
   useEffect(() => {
     if (principal) {
       hasCaseListCache(principal).then(setHasCache);
     }
   }, [principal]);
 
-  const filteredAndSortedCases = useMemo(() => {
-    // First filter
-    let filtered = cases;
-    if (searchTerm.trim()) {
-      const term = searchTerm.toLowerCase();
-      filtered = cases.filter(
-        (c) =>
-          c.mrn.toLowerCase().includes(term) ||
-          c.patientFirstName.toLowerCase().includes(term) ||
-          c.patientLastName.toLowerCase().includes(term)
-      );
-    }
-
-    // Then sort
-    const sorted = [...filtered];
-    switch (sortBy) {
-      case 'arrival-newest':
-        sorted.sort((a, b) => Number(b.arrivalDate - a.arrivalDate));
-        break;
-      case 'arrival-oldest':
-        sorted.sort((a, b) => Number(a.arrivalDate - b.arrivalDate));
-        break;
-      case 'mrn-asc':
-        sorted.sort((a, b) => a.mrn.localeCompare(b.mrn));
-        break;
-    }
-
-    return sorted;
-  }, [cases, searchTerm, sortBy]);
-
   const getSpeciesBadgeVariant = (species: Species) => {
     if (species === 'canine') return 'default';
     if (species === 'feline') return 'secondary';
@@ -110,6 +112,16 @@ export default function CaseListPage() {
     const file = event.target.files?.[0];
     if (!file) return;
 
+    // Unit ids differ between deployments, so cases keep theirs only when it is one of the caller's
+    const defaultUnitId = units[0]?.id;
+    if (defaultUnitId === undefined) {
+      toast.error('You need to belong to a unit to import cases');
+      event.target.value = '';
+      return;
+    }
+    const importUnitId = (unitId: unknown): bigint =>
+      units.find((unit) => unitId != null && unit.id.toString() === String(unitId))?.id ?? defaultUnitId;
+
     try {
       const text = await file.text();
       const fileExtension = file.name.split('.').pop()?.toLowerCase();
@@ -119,7 +131,7 @@ export default function CaseListPage() {
       if (fileExtension === 'csv') {
         // Parse CSV
         try {
-          casesToImport = parseCsvToSurgeryCases(text);
+          casesToImport = parseCsvToSurgeryCases(text, defaultUnitId);
         } catch (error: any) {
           toast.error(error.message || 'Failed to parse CSV file');
           return;
@@ -138,12 +150,31 @@ export default function CaseListPage() {
         casesToImport = data.map((c: any) => ({
           ...c,
           id: BigInt(c.id),
+          unitId: importUnitId(c.unitId),
           arrivalDate: BigInt(c.arrivalDate),
           notes: c.notes || '', // Default to empty string if missing
+          // Older exports used boolean fields. Completion times are kept for turnaround
+          // reporting; who completed each item is not carried over between deployments.
+          checklist: (c.checklist || legacyChecklistFromRecord(c)).map((entry: any) => ({
+            key: entry.key,
+            complete: entry.complete === true,
+            completedAt: entry.completedAt != null ? BigInt(entry.completedAt) : undefined,
+          })),
+          version: BigInt(c.version ?? 0),
+          status: c.status ?? CaseStatus.admitted,
+          // Who overrode a close is not carried over; the original audit log keeps the reason
+          closeOverride: undefined,
+          pdvmId: c.pdvmId != null ? BigInt(c.pdvmId) : undefined,
+          // Notifications are not carried over; sending a letter records a new one
+          pdvmNotification: undefined,
+          // Assignees and who created each to-do are not carried over between deployments
           todos: c.todos?.map((t: any) => ({
-            ...t,
-            id: BigInt(t.id),
+            ...legacyTodo(BigInt(t.id), t.description, t.complete === true),
+            dueDate: t.dueDate != null ? BigInt(t.dueDate) : undefined,
+            priority: t.priority ?? TodoPriority.normal,
           })) || [],
+          // Attached files live in this deployment's blob storage; the canister keeps existing ones
+          attachments: [],
         }));
       } else {
         toast.error('Unsupported file format. Please use .json or .csv files.');
@@ -180,7 +211,7 @@ export default function CaseListPage() {
   }
 
   // Show offline empty state if offline and no cache
-  if (isOffline && hasCache === false && cases.length === 0) {
+  if (isOffline && hasCache === false && total === 0) {
     return (
       <div className="flex items-center justify-center py-12">
         <Card className="max-w-md">
@@ -206,8 +237,8 @@ export default function CaseListPage() {
         <div>
           <h1 className="text-3xl font-bold">Surgery Cases</h1>
           <p className="text-muted-foreground mt-1">
-            {cases.length} {cases.length === 1 ? 'case' : 'cases'} total
-            {isOffline && cases.length > 0 && (
+            {total} {total === 1 ? 'case' : 'cases'} {isFiltered ? 'matching' : 'total'}
+            {isOffline && total > 0 && (
               <Badge variant="secondary" className="ml-2">
                 Cached
               </Badge>
@@ -215,78 +246,158 @@ export default function CaseListPage() {
           </p>
         </div>
         <div className="flex gap-2">
+          {canExport && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExport}
+              disabled={exportCases.isPending || (total === 0 && !isFiltered) || isOffline}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Export
+            </Button>
+          )}
+          {canImport && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleImportClick}
+              disabled={importCases.isPending || isOffline}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.csv"
+            onChange={handleFileChange}
+            className="hidden"
+          />
           <Button
             variant="outline"
             size="sm"
-            onClick={handleExport}
-            disabled={exportCases.isPending || cases.length === 0 || isOffline}
+            onClick={() => navigate({ to: '/dashboard' })}
           >
-            <Download className="mr-2 h-4 w-4" />
-            Export
+            <LayoutDashboard className="mr-2 h-4 w-4" />
+            Dashboard
           </Button>
           <Button
             variant="outline"
             size="sm"
-            onClick={handleImportClick}
-            disabled={importCases.isPending || isOffline}
+            onClick={() => navigate({ to: '/todos' })}
           >
-            <Upload className="mr-2 h-4 w-4" />
-            Import
+            <ListTodo className="mr-2 h-4 w-4" />
+            My To-dos
           </Button>
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept=".json,.csv"
-            onChange={handleFileChange}
-            className="hidden"
-          />
-          <Button onClick={() => navigate({ to: '/cases/new' })} size="sm">
-            <Plus className="mr-2 h-4 w-4" />
-            New Case
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => navigate({ to: '/settings/units' })}
+          >
+            <Building2 className="mr-2 h-4 w-4" />
+            Units
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => navigate({ to: '/pdvms' })}
+          >
+            <Stethoscope className="mr-2 h-4 w-4" />
+            Referrers
           </Button>
+          {isAdmin && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate({ to: '/settings/checklist' })}
+            >
+              <ListChecks className="mr-2 h-4 w-4" />
+              Checklist
+            </Button>
+          )}
+          {isAdmin && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate({ to: '/settings/templates' })}
+            >
+              <LayoutTemplate className="mr-2 h-4 w-4" />
+              Templates
+            </Button>
+          )}
+          {isAdmin && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate({ to: '/settings/letters' })}
+            >
+              <Mail className="mr-2 h-4 w-4" />
+              Letters
+            </Button>
+          )}
+          {canManageUsers && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate({ to: '/settings/roles' })}
+            >
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              Roles
+            </Button>
+          )}
+          {canManageUsers && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate({ to: '/settings/users' })}
+            >
+              <UserCog className="mr-2 h-4 w-4" />
+              Users
+            </Button>
+          )}
+          {canDelete && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate({ to: '/trash' })}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Trash
+            </Button>
+          )}
+          {canCreate && (
+            <Button onClick={() => navigate({ to: '/cases/new' })} size="sm">
+              <Plus className="mr-2 h-4 w-4" />
+              New Case
+            </Button>
+          )}
         </div>
       </div>
 
       <Card>
         <CardHeader>
-          <div className="flex flex-col sm:flex-row gap-3">
-            <div className="flex items-center gap-2 flex-1">
-              <Search className="h-5 w-5 text-muted-foreground" />
-              <Input
-                placeholder="Search by MRN or patient name..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="max-w-md"
-              />
-            </div>
-            <div className="flex items-center gap-2">
-              <span className="text-sm text-muted-foreground whitespace-nowrap">Sort by:</span>
-              <Select value={sortBy} onValueChange={(value) => setSortBy(value as SortOption)}>
-                <SelectTrigger className="w-[200px]">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="arrival-newest">Arrival Date (Newest)</SelectItem>
-                  <SelectItem value="arrival-oldest">Arrival Date (Oldest)</SelectItem>
-                  <SelectItem value="mrn-asc">MRN (A-Z)</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
+          <CaseFilters
+            filter={filter}
+            sortKey={sortKey}
+            onFilterChange={handleFilterChange}
+            onSortKeyChange={handleSortKeyChange}
+          />
         </CardHeader>
         <CardContent>
-          {filteredAndSortedCases.length === 0 ? (
+          {pageCases.length === 0 ? (
             <div className="text-center py-12">
               <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <h3 className="text-lg font-semibold mb-2">
-                {searchTerm ? 'No cases found' : 'No cases yet'}
+                {isFiltered ? 'No cases found' : 'No cases yet'}
               </h3>
               <p className="text-muted-foreground mb-4">
-                {searchTerm
-                  ? 'Try adjusting your search terms'
+                {isFiltered
+                  ? 'Try adjusting your filters'
                   : 'Get started by creating your first surgery case'}
               </p>
-              {!searchTerm && (
+              {!isFiltered && (
                 <Button onClick={() => navigate({ to: '/cases/new' })}>
                   <Plus className="mr-2 h-4 w-4" />
                   Create First Case
@@ -301,13 +412,14 @@ export default function CaseListPage() {
                     <TableHead>MRN</TableHead>
                     <TableHead>Patient Name</TableHead>
                     <TableHead>Species</TableHead>
+                    <TableHead>Status</TableHead>
                     <TableHead>Arrival Date</TableHead>
                     <TableHead>Presenting Complaint</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredAndSortedCases.map((caseItem) => (
+                  {pageCases.map((caseItem) => (
                     <TableRow
                       key={caseItem.id.toString()}
                       className="cursor-pointer hover:bg-muted/50"
@@ -322,6 +434,9 @@ export default function CaseListPage() {
                           {getSpeciesLabel(caseItem.species)}
                         </Badge>
                       </TableCell>
+                      <TableCell>
+                        <CaseStatusBadge status={caseItem.status} />
+                      </TableCell>
                       <TableCell>{formatDate(caseItem.arrivalDate)}</TableCell>
                       <TableCell className="max-w-xs truncate">
                         {caseItem.presentingComplaint}
@@ -342,6 +457,7 @@ export default function CaseListPage() {
                   ))}
                 </TableBody>
               </Table>
+              <CasePagination page={page} pageCount={pageCount} onPageChange={setPage} />
             </div>
           )}
         </CardContent>
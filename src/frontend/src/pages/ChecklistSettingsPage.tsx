@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+import {
+  useListChecklistDefinitions,
+  useIsCallerAdmin,
+  useAddChecklistDefinition,
+  useRenameChecklistDefinition,
+  useSetChecklistDefinitionRetired,
+  useReorderChecklistDefinitions,
+} from '../hooks/useQueries';
+import { sortChecklistDefinitions } from '../utils/checklist';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, ArrowUp, ArrowDown, Plus, Save, Archive, ArchiveRestore } from 'lucide-react';
+import { toast } from 'sonner';
+import type { ChecklistItemDefinition } from '../backend';
+
+export default function ChecklistSettingsPage() {
+  const navigate = useNavigate();
+  const { data: isAdmin, isLoading: isAdminLoading } = useIsCallerAdmin();
+  const { data: definitions = [], isLoading } = useListChecklistDefinitions();
+  const addDefinition = useAddChecklistDefinition();
+  const renameDefinition = useRenameChecklistDefinition();
+  const setRetired = useSetChecklistDefinitionRetired();
+  const reorderDefinitions = useReorderChecklistDefinitions();
+
+  const [newKey, setNewKey] = useState('');
+  const [newTitle, setNewTitle] = useState('');
+  const [editedTitles, setEditedTitles] = useState<Record<string, string>>({});
+
+  const sortedDefinitions = sortChecklistDefinitions(definitions);
+
+  const handleAdd = async () => {
+    const key = newKey.trim();
+    const title = newTitle.trim();
+    if (!key || !title) {
+      toast.error('Key and title are required');
+      return;
+    }
+    try {
+      await addDefinition.mutateAsync({ key, title });
+      setNewKey('');
+      setNewTitle('');
+      toast.success('Checklist item added');
+    } catch (error) {
+      toast.error('Failed to add checklist item');
+      console.error('Error adding checklist item:', error);
+    }
+  };
+
+  const handleRename = async (definition: ChecklistItemDefinition) => {
+    const title = (editedTitles[definition.key] ?? definition.title).trim();
+    if (!title || title === definition.title) return;
+    try {
+      await renameDefinition.mutateAsync({ key: definition.key, title });
+      setEditedTitles((prev) => {
+        const { [definition.key]: _, ...rest } = prev;
+        return rest;
+      });
+      toast.success('Checklist item renamed');
+    } catch (error) {
+      toast.error('Failed to rename checklist item');
+      console.error('Error renaming checklist item:', error);
+    }
+  };
+
+  const handleToggleRetired = async (definition: ChecklistItemDefinition) => {
+    try {
+      await setRetired.mutateAsync({ key: definition.key, retired: !definition.retired });
+      toast.success(definition.retired ? 'Checklist item restored' : 'Checklist item retired');
+    } catch (error) {
+      toast.error('Failed to update checklist item');
+      console.error('Error updating checklist item:', error);
+    }
+  };
+
+  const handleMove = async (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= sortedDefinitions.length) return;
+    const keys = sortedDefinitions.map((definition) => definition.key);
+    [keys[index], keys[target]] = [keys[target], keys[index]];
+    try {
+      await reorderDefinitions.mutateAsync(keys);
+    } catch (error) {
+      toast.error('Failed to reorder checklist items');
+      console.error('Error reordering checklist items:', error);
+    }
+  };
+
+  if (isLoading || isAdminLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading checklist...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold mb-2">Access denied</h2>
+        <p className="text-muted-foreground mb-4">Only admins can manage checklist items.</p>
+        <Button onClick={() => navigate({ to: '/' })}>Back to Cases</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" onClick={() => navigate({ to: '/' })}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Checklist Items</h1>
+          <p className="text-muted-foreground mt-1">Define the checklist tracked on every case</p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Current Items</CardTitle>
+          <CardDescription>
+            Retired items are hidden from new cases but kept on existing ones
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {sortedDefinitions.map((definition, index) => (
+            <div key={definition.key} className="flex items-center gap-2">
+              <div className="flex flex-col">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => handleMove(index, -1)}
+                  disabled={index === 0 || reorderDefinitions.isPending}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => handleMove(index, 1)}
+                  disabled={index === sortedDefinitions.length - 1 || reorderDefinitions.isPending}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+              </div>
+              <Input
+                value={editedTitles[definition.key] ?? definition.title}
+                onChange={(e) =>
+                  setEditedTitles((prev) => ({ ...prev, [definition.key]: e.target.value }))
+                }
+                className="flex-1"
+              />
+              <code className="text-xs text-muted-foreground w-32 truncate">{definition.key}</code>
+              {definition.retired && <Badge variant="secondary">Retired</Badge>}
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => handleRename(definition)}
+                disabled={renameDefinition.isPending || editedTitles[definition.key] === undefined}
+              >
+                <Save className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => handleToggleRetired(definition)}
+                disabled={setRetired.isPending}
+              >
+                {definition.retired ? (
+                  <ArchiveRestore className="h-4 w-4" />
+                ) : (
+                  <Archive className="h-4 w-4" />
+                )}
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Item</CardTitle>
+          <CardDescription>The key is stored on cases and cannot be changed later</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="newKey">Key</Label>
+              <Input
+                id="newKey"
+                value={newKey}
+                onChange={(e) => setNewKey(e.target.value)}
+                placeholder="e.g., dentalChart"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="newTitle">Title</Label>
+              <Input
+                id="newTitle"
+                value={newTitle}
+                onChange={(e) => setNewTitle(e.target.value)}
+                placeholder="e.g., Dental Chart Complete"
+              />
+            </div>
+            <Button onClick={handleAdd} disabled={addDefinition.isPending}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
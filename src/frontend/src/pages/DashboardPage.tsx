@@ -0,0 +1,269 @@
+import { useState } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { useGetDashboard, useListChecklistDefinitions } from '../hooks/useQueries';
+import { durationToDays, formatWeek, getDaysSinceArrival, getTrendStart } from '../utils/dashboard';
+import { getChecklistItemTitle } from '../utils/checklist';
+import { formatDate } from '../utils/dateTime';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { ArrowLeft } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { OutstandingItemKind } from '../backend';
+import type { CaseSummary } from '../backend';
+
+const OPEN_TODOS = 'todos';
+const OLDEST_ITEM_LIMIT = 10;
+const TREND_WEEKS = 12;
+
+function formatDays(days: number | undefined): string {
+  return days === undefined ? '—' : days.toFixed(1);
+}
+
+const TREND_CHART_CONFIG = {
+  incomplete: { label: 'Checklist incomplete', color: 'oklch(var(--chart-1))' },
+  complete: { label: 'Checklist complete', color: 'oklch(var(--chart-2))' },
+} satisfies ChartConfig;
+
+export default function DashboardPage() {
+  const navigate = useNavigate();
+  const { data: dashboard, isLoading } = useGetDashboard(getTrendStart(TREND_WEEKS), TREND_WEEKS, OLDEST_ITEM_LIMIT);
+  const { data: definitions } = useListChecklistDefinitions();
+  // Checklist key or OPEN_TODOS for the drill-down list
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const openCaseCount = Number(dashboard?.openCaseCount ?? 0);
+  const gaps = dashboard?.gaps ?? [];
+  const todoCases = dashboard?.casesWithOpenTodos ?? [];
+  const oldestItems = dashboard?.oldestOutstanding ?? [];
+  const trend = (dashboard?.weeklyArrivals ?? []).map((week) => ({
+    week: formatWeek(week.weekStart),
+    complete: Number(week.complete),
+    incomplete: Number(week.incomplete),
+  }));
+  const turnaround = dashboard?.turnaround ?? [];
+
+  const selectedGap = gaps.find((gap) => gap.key === selected);
+  const drillDown: { title: string; cases: CaseSummary[] } | null =
+    selected === OPEN_TODOS
+      ? { title: 'Cases with open to-dos', cases: todoCases }
+      : selectedGap
+        ? {
+            title: `Cases missing ${getChecklistItemTitle(definitions, selectedGap.key).toLowerCase()}`,
+            cases: selectedGap.cases,
+          }
+        : null;
+
+  const openCase = (caseSummary: CaseSummary) => navigate({ to: `/cases/${caseSummary.id}` });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading dashboard...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" onClick={() => navigate({ to: '/' })}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Dashboard</h1>
+          <p className="text-muted-foreground mt-1">
+            Outstanding work across {openCaseCount} open {openCaseCount === 1 ? 'case' : 'cases'}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        {[
+          ...gaps.map((gap) => ({
+            key: gap.key,
+            title: getChecklistItemTitle(definitions, gap.key),
+            count: gap.cases.length,
+          })),
+          { key: OPEN_TODOS, title: 'Open to-dos', count: todoCases.length },
+        ].map((tile) => (
+          <button
+            key={tile.key}
+            type="button"
+            onClick={() => setSelected(selected === tile.key ? null : tile.key)}
+            className="text-left"
+          >
+            <Card className={cn('h-full transition-colors hover:bg-muted/50', selected === tile.key && 'ring-2 ring-primary')}>
+              <CardHeader className="pb-2">
+                <CardDescription>{tile.key === OPEN_TODOS ? 'Cases with' : 'Missing'}</CardDescription>
+                <CardTitle className="text-base">{tile.title}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className={cn('text-3xl font-bold', tile.count === 0 && 'text-muted-foreground')}>{tile.count}</p>
+              </CardContent>
+            </Card>
+          </button>
+        ))}
+      </div>
+
+      {drillDown && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{drillDown.title}</CardTitle>
+            <CardDescription>Oldest arrivals first</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {drillDown.cases.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">Nothing outstanding</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>MRN</TableHead>
+                      <TableHead>Patient</TableHead>
+                      <TableHead>Arrived</TableHead>
+                      <TableHead className="text-right">Days</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {drillDown.cases.map((caseSummary) => (
+                      <TableRow
+                        key={caseSummary.id.toString()}
+                        className="cursor-pointer hover:bg-muted/50"
+                        onClick={() => openCase(caseSummary)}
+                      >
+                        <TableCell className="font-medium">{caseSummary.mrn}</TableCell>
+                        <TableCell>
+                          {caseSummary.patientFirstName} {caseSummary.patientLastName}
+                        </TableCell>
+                        <TableCell>{formatDate(caseSummary.arrivalDate)}</TableCell>
+                        <TableCell className="text-right">{getDaysSinceArrival(caseSummary)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Oldest Outstanding Items</CardTitle>
+            <CardDescription>Incomplete checklist items and open to-dos on the longest-running cases</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {oldestItems.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">Everything is up to date</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Patient</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">Days</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {oldestItems.map((item, index) => (
+                    <TableRow
+                      key={`${item.caseSummary.id}-${item.kind}-${index}`}
+                      className="cursor-pointer hover:bg-muted/50"
+                      onClick={() => openCase(item.caseSummary)}
+                    >
+                      <TableCell>
+                        <div className="font-medium">
+                          {item.caseSummary.patientFirstName} {item.caseSummary.patientLastName}
+                        </div>
+                        <div className="text-xs text-muted-foreground">{item.caseSummary.mrn}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Badge variant={item.kind === OutstandingItemKind.todo ? 'secondary' : 'outline'}>
+                            {item.kind === OutstandingItemKind.todo ? 'To-do' : 'Checklist'}
+                          </Badge>
+                          <span>{item.description}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{getDaysSinceArrival(item.caseSummary)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Weekly Arrivals</CardTitle>
+            <CardDescription>Cases by arrival week over the last {TREND_WEEKS} weeks</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={TREND_CHART_CONFIG} className="min-h-[250px] w-full">
+              <BarChart data={trend} accessibilityLayer>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="week" tickLine={false} axisLine={false} tickMargin={8} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="incomplete" stackId="arrivals" fill="var(--color-incomplete)" />
+                <Bar dataKey="complete" stackId="arrivals" fill="var(--color-complete)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Turnaround</CardTitle>
+          <CardDescription>
+            Days from arrival to each checklist item being completed. Items completed before completion times were
+            recorded are not counted.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-right">Cases</TableHead>
+                <TableHead className="text-right">Median days</TableHead>
+                <TableHead className="text-right">Average days</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {turnaround.map((row) => (
+                <TableRow key={row.key}>
+                  <TableCell className="font-medium">
+                    Arrival to {getChecklistItemTitle(definitions, row.key).toLowerCase()}
+                  </TableCell>
+                  <TableCell className="text-right">{Number(row.count)}</TableCell>
+                  <TableCell className="text-right">{formatDays(durationToDays(row.medianDuration))}</TableCell>
+                  <TableCell className="text-right">{formatDays(durationToDays(row.averageDuration))}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useState } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+import {
+  useListLetterTemplates,
+  useIsCallerAdmin,
+  useCreateLetterTemplate,
+  useUpdateLetterTemplate,
+  useDeleteLetterTemplate,
+  type LetterTemplateInput,
+} from '../hooks/useQueries';
+import { LETTER_PLACEHOLDERS, findUnknownPlaceholders } from '../utils/dischargeLetter';
+import { isCanisterError } from '../utils/apiResult';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowLeft, Plus, Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { LetterTemplate } from '../backend';
+
+const EMPTY_DRAFT: LetterTemplateInput = {
+  name: '',
+  body: '',
+};
+
+export default function LetterTemplateSettingsPage() {
+  const navigate = useNavigate();
+  const { data: isAdmin, isLoading: isAdminLoading } = useIsCallerAdmin();
+  const { data: templates = [], isLoading } = useListLetterTemplates();
+  const createTemplate = useCreateLetterTemplate();
+  const updateTemplate = useUpdateLetterTemplate();
+  const deleteTemplate = useDeleteLetterTemplate();
+
+  // null = not editing, 'new' = creating, otherwise the id being edited
+  const [editing, setEditing] = useState<bigint | 'new' | null>(null);
+  const [draft, setDraft] = useState<LetterTemplateInput>(EMPTY_DRAFT);
+
+  const unknownPlaceholders = findUnknownPlaceholders(draft.body);
+
+  const startEditing = (template: LetterTemplate | null) => {
+    setEditing(template ? template.id : 'new');
+    setDraft(template ? { name: template.name, body: template.body } : EMPTY_DRAFT);
+  };
+
+  const handleSave = async () => {
+    const input = { name: draft.name.trim(), body: draft.body };
+    if (!input.name || !input.body.trim()) {
+      toast.error('Template name and letter text are required');
+      return;
+    }
+    try {
+      if (editing === 'new') {
+        await createTemplate.mutateAsync(input);
+        toast.success('Letter template created');
+      } else if (editing !== null) {
+        await updateTemplate.mutateAsync({ id: editing, template: input });
+        toast.success('Letter template updated');
+      }
+      setEditing(null);
+    } catch (error) {
+      toast.error('Failed to save letter template', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
+      console.error('Error saving letter template:', error);
+    }
+  };
+
+  const handleDelete = async (template: LetterTemplate) => {
+    try {
+      await deleteTemplate.mutateAsync(template.id);
+      toast.success('Letter template deleted');
+    } catch (error) {
+      toast.error('Failed to delete letter template', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
+      console.error('Error deleting letter template:', error);
+    }
+  };
+
+  if (isLoading || isAdminLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading letter templates...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold mb-2">Access denied</h2>
+        <p className="text-muted-foreground mb-4">Only admins can manage letter templates.</p>
+        <Button onClick={() => navigate({ to: '/' })}>Back to Cases</Button>
+      </div>
+    );
+  }
+
+  const isSaving = createTemplate.isPending || updateTemplate.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate({ to: '/' })}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">Letter Templates</h1>
+            <p className="text-muted-foreground mt-1">
+              Discharge summaries and other letters sent to referring vets
+            </p>
+          </div>
+        </div>
+        {editing === null && (
+          <Button size="sm" onClick={() => startEditing(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Letter Template
+          </Button>
+        )}
+      </div>
+
+      {editing !== null && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editing === 'new' ? 'New Letter Template' : 'Edit Letter Template'}</CardTitle>
+            <CardDescription>
+              Placeholders in double braces are filled in from the case when the letter is generated
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="letterTemplateName">Name *</Label>
+              <Input
+                id="letterTemplateName"
+                value={draft.name}
+                onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., Discharge summary"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+              <div className="space-y-2 lg:col-span-2">
+                <Label htmlFor="letterTemplateBody">Letter text *</Label>
+                <Textarea
+                  id="letterTemplateBody"
+                  value={draft.body}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, body: e.target.value }))}
+                  placeholder="Dear {{pdvmName}}, ..."
+                  rows={16}
+                  className="font-mono text-sm"
+                  aria-invalid={unknownPlaceholders.length > 0}
+                />
+                {unknownPlaceholders.length > 0 && (
+                  <p className="text-sm text-destructive">
+                    Unknown placeholders: {unknownPlaceholders.map((name) => `{{${name}}}`).join(', ')}
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>Placeholders</Label>
+                <dl className="space-y-1 text-sm">
+                  {Object.entries(LETTER_PLACEHOLDERS).map(([name, description]) => (
+                    <div key={name}>
+                      <dt className="font-mono">{`{{${name}}}`}</dt>
+                      <dd className="text-muted-foreground">{description}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            </div>
+
+            <div className="flex gap-3">
+              <Button onClick={handleSave} disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save Template'}
+              </Button>
+              <Button variant="outline" onClick={() => setEditing(null)} disabled={isSaving}>
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {templates.length === 0 && editing === null ? (
+        <Card>
+          <CardContent className="pt-6 text-center text-muted-foreground">
+            No letter templates yet
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {templates.map((template) => (
+            <Card key={template.id.toString()}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-2">
+                  <CardTitle className="text-lg">{template.name}</CardTitle>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => startEditing(template)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(template)}
+                      disabled={deleteTemplate.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <p className="line-clamp-6 whitespace-pre-wrap text-sm text-muted-foreground">{template.body}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
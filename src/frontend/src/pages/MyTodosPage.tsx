@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+import { useListMyTodos, useToggleTodoComplete, useHasPermission } from '../hooks/useQueries';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { Permission, TodoPriority } from '../backend';
+import { formatDate } from '../utils/dateTime';
+import { TODO_PRIORITY_LABELS, isTodoDueToday, isTodoOverdue, sortAssignedTodos } from '../utils/todos';
+
+export default function MyTodosPage() {
+  const navigate = useNavigate();
+  const [showCompleted, setShowCompleted] = useState(false);
+  const { data: assigned = [], isLoading } = useListMyTodos(showCompleted);
+  const toggleTodo = useToggleTodoComplete();
+  const canManageTodos = useHasPermission(Permission.manageTodos);
+
+  const visible = sortAssignedTodos(assigned);
+  const overdueCount = assigned.filter(({ todo }) => isTodoOverdue(todo)).length;
+
+  const handleToggle = async (caseId: bigint, todoId: bigint) => {
+    try {
+      await toggleTodo.mutateAsync({ caseId, todoId });
+    } catch (error) {
+      toast.error('Failed to update to-do item');
+      console.error('Error toggling to-do:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" onClick={() => navigate({ to: '/' })}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">My To-dos</h1>
+          <p className="text-muted-foreground mt-1">To-dos assigned to you across all cases</p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Assigned to me</CardTitle>
+            <CardDescription>
+              {assigned.filter(({ todo }) => !todo.complete).length} open
+              {overdueCount > 0 && `, ${overdueCount} overdue`}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="show-completed" checked={showCompleted} onCheckedChange={setShowCompleted} />
+            <Label htmlFor="show-completed">Show completed</Label>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-center text-muted-foreground py-8">Loading to-dos...</p>
+          ) : visible.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">Nothing assigned to you</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[40px]"></TableHead>
+                    <TableHead>To-do</TableHead>
+                    <TableHead>Patient</TableHead>
+                    <TableHead>Priority</TableHead>
+                    <TableHead>Due</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visible.map(({ caseSummary, todo }) => {
+                    const overdue = isTodoOverdue(todo);
+                    return (
+                      <TableRow key={todo.id.toString()} className={cn(overdue && 'bg-destructive/5')}>
+                        <TableCell>
+                          <Checkbox
+                            checked={todo.complete}
+                            onCheckedChange={() => handleToggle(caseSummary.id, todo.id)}
+                            disabled={toggleTodo.isPending || !canManageTodos}
+                          />
+                        </TableCell>
+                        <TableCell className={cn(todo.complete && 'line-through text-muted-foreground')}>
+                          {todo.description}
+                        </TableCell>
+                        <TableCell>
+                          <button
+                            type="button"
+                            className="text-left hover:underline"
+                            onClick={() => navigate({ to: `/cases/${caseSummary.id}` })}
+                          >
+                            {caseSummary.patientFirstName} {caseSummary.patientLastName}
+                            <span className="block text-xs text-muted-foreground">{caseSummary.mrn}</span>
+                          </button>
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={
+                              todo.priority === TodoPriority.high
+                                ? 'destructive'
+                                : todo.priority === TodoPriority.low
+                                  ? 'outline'
+                                  : 'secondary'
+                            }
+                          >
+                            {TODO_PRIORITY_LABELS[todo.priority]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className={cn(overdue && 'font-medium text-destructive')}>
+                          {todo.dueDate !== undefined
+                            ? `${formatDate(todo.dueDate)}${overdue ? ' (overdue)' : isTodoDueToday(todo) ? ' (today)' : ''}`
+                            : '—'}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
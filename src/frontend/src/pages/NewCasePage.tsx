@@ -1,5 +1,5 @@
 import { useNavigate } from '@tanstack/react-router';
-import { useCreateCase, useListCases } from '../hooks/useQueries';
+import { useCreateCase } from '../hooks/useQueries';
 import { useOfflineStatus } from '../hooks/useOfflineStatus';
 import CaseForm from '../components/cases/CaseForm';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -7,12 +7,12 @@ import { ArrowLeft } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 import type { CaseFormData } from '../components/cases/CaseForm';
+import { isCanisterError } from '../utils/apiResult';
 
 export default function NewCasePage() {
   const navigate = useNavigate();
   const { isOffline } = useOfflineStatus();
   const createCase = useCreateCase();
-  const { data: existingCases = [] } = useListCases();
 
   const handleSubmit = async (data: CaseFormData) => {
     try {
@@ -24,7 +24,9 @@ export default function NewCasePage() {
       }
       navigate({ to: '/' });
     } catch (error) {
-      toast.error('Failed to create case');
+      toast.error('Failed to create case', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
       console.error('Error creating case:', error);
     }
   };
@@ -57,7 +59,7 @@ export default function NewCasePage() {
             onSubmit={handleSubmit}
             onCancel={() => navigate({ to: '/' })}
             isSubmitting={createCase.isPending}
-            existingCases={existingCases}
+            fieldErrors={isCanisterError(createCase.error, 'validation') ? createCase.error.fieldErrors : undefined}
           />
         </CardContent>
       </Card>
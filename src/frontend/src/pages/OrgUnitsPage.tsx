@@ -0,0 +1,330 @@
+import { useState } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+import { Principal } from '@icp-sdk/core/principal';
+import {
+  useListOrgUnits,
+  useIsCallerAdmin,
+  useListAssignableUsers,
+  useCreateOrgUnit,
+  useRenameOrgUnit,
+  useSetUnitMember,
+  useRemoveUnitMember,
+} from '../hooks/useQueries';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { isCanisterError } from '../utils/apiResult';
+import { formatAssignee, principalToText } from '../utils/todos';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, Plus, Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { UnitRole } from '../backend';
+import type { Assignee, OrgUnit } from '../backend';
+
+const UNIT_ROLE_LABELS: Record<UnitRole, string> = {
+  [UnitRole.member]: 'Member',
+  [UnitRole.unitAdmin]: 'Unit admin',
+};
+
+interface OrgUnitCardProps {
+  unit: OrgUnit;
+  canManage: boolean;
+  assignees: Assignee[];
+}
+
+function OrgUnitCard({ unit, canManage, assignees }: OrgUnitCardProps) {
+  const renameUnit = useRenameOrgUnit();
+  const setMember = useSetUnitMember();
+  const removeMember = useRemoveUnitMember();
+  const [name, setName] = useState<string | null>(null);
+  const [newMember, setNewMember] = useState('');
+  const [newRole, setNewRole] = useState<UnitRole>(UnitRole.member);
+
+  const handleRename = async () => {
+    if (name === null || !name.trim()) return;
+    try {
+      await renameUnit.mutateAsync({ id: unit.id, name: name.trim() });
+      toast.success('Unit renamed');
+      setName(null);
+    } catch (error) {
+      toast.error('Failed to rename unit', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
+      console.error('Error renaming unit:', error);
+    }
+  };
+
+  const handleSetRole = async (user: Principal, role: UnitRole): Promise<boolean> => {
+    try {
+      await setMember.mutateAsync({ unitId: unit.id, user, role });
+      toast.success('Member updated');
+      return true;
+    } catch (error) {
+      toast.error('Failed to update member', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
+      console.error('Error updating unit member:', error);
+      return false;
+    }
+  };
+
+  const handleAdd = async () => {
+    let user: Principal;
+    try {
+      user = Principal.fromText(newMember.trim());
+    } catch {
+      toast.error('Enter a valid principal');
+      return;
+    }
+    if (await handleSetRole(user, newRole)) {
+      setNewMember('');
+      setNewRole(UnitRole.member);
+    }
+  };
+
+  const handleRemove = async (user: Principal) => {
+    try {
+      await removeMember.mutateAsync({ unitId: unit.id, user });
+      toast.success('Member removed');
+    } catch (error) {
+      toast.error('Failed to remove member', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
+      console.error('Error removing unit member:', error);
+    }
+  };
+
+  const isSaving = setMember.isPending || removeMember.isPending;
+  // Registered users not yet in the unit, offered as suggestions for the principal field
+  const candidates = assignees.filter(
+    (assignee) =>
+      !unit.members.some((member) => principalToText(member.principal) === principalToText(assignee.principal))
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        {name !== null ? (
+          <div className="flex flex-1 items-center gap-2">
+            <Input
+              aria-label="Unit name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+            />
+            <Button size="sm" onClick={handleRename} disabled={renameUnit.isPending || !name.trim()}>
+              Save
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setName(null)}>
+              Cancel
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-1.5">
+            <CardTitle>{unit.name}</CardTitle>
+            <CardDescription>
+              {unit.members.length} {unit.members.length === 1 ? 'member' : 'members'}
+            </CardDescription>
+          </div>
+        )}
+        {canManage && name === null && (
+          <Button variant="ghost" size="icon" onClick={() => setName(unit.name)} aria-label="Rename unit">
+            <Pencil className="h-4 w-4" />
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {unit.members.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4">No members yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Role</TableHead>
+                {canManage && <TableHead className="w-[60px]"></TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {unit.members.map((member) => (
+                <TableRow key={principalToText(member.principal)}>
+                  <TableCell>{formatAssignee(member.principal, assignees)}</TableCell>
+                  <TableCell>
+                    {canManage ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) => handleSetRole(member.principal, value as UnitRole)}
+                        disabled={isSaving}
+                      >
+                        <SelectTrigger className="w-[160px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(UNIT_ROLE_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      UNIT_ROLE_LABELS[member.role]
+                    )}
+                  </TableCell>
+                  {canManage && (
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRemove(member.principal)}
+                        disabled={isSaving}
+                        aria-label="Remove member"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {canManage && (
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor={`unit-${unit.id}-member`}>Add member</Label>
+              <Input
+                id={`unit-${unit.id}-member`}
+                list={`unit-${unit.id}-candidates`}
+                value={newMember}
+                onChange={(e) => setNewMember(e.target.value)}
+                placeholder="Principal"
+              />
+              <datalist id={`unit-${unit.id}-candidates`}>
+                {candidates.map((candidate) => (
+                  <option key={principalToText(candidate.principal)} value={principalToText(candidate.principal)}>
+                    {candidate.name}
+                  </option>
+                ))}
+              </datalist>
+            </div>
+            <Select value={newRole} onValueChange={(value) => setNewRole(value as UnitRole)}>
+              <SelectTrigger className="sm:w-[160px]" aria-label="Role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(UNIT_ROLE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleAdd} disabled={isSaving || !newMember.trim()}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function OrgUnitsPage() {
+  const navigate = useNavigate();
+  const { identity } = useInternetIdentity();
+  const { data: isAdmin } = useIsCallerAdmin();
+  const { data: units = [], isLoading } = useListOrgUnits();
+  const { data: assignees = [] } = useListAssignableUsers();
+  const createUnit = useCreateOrgUnit();
+  const [newName, setNewName] = useState('');
+
+  const principal = identity?.getPrincipal().toString();
+
+  // Admins manage every unit; unit admins manage their own
+  const canManage = (unit: OrgUnit) =>
+    !!isAdmin ||
+    unit.members.some(
+      (member) => member.role === UnitRole.unitAdmin && principalToText(member.principal) === principal
+    );
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    try {
+      await createUnit.mutateAsync(newName.trim());
+      toast.success('Unit created');
+      setNewName('');
+    } catch (error) {
+      toast.error('Failed to create unit', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
+      console.error('Error creating unit:', error);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading units...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" onClick={() => navigate({ to: '/' })}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Units</h1>
+          <p className="text-muted-foreground mt-1">Each case belongs to a unit and is only visible to its members</p>
+        </div>
+      </div>
+
+      {isAdmin && (
+        <Card>
+          <CardHeader>
+            <CardTitle>New Unit</CardTitle>
+            <CardDescription>Add a unit, then choose its first member as unit admin</CardDescription>
+          </CardHeader>
+          <CardContent className="flex gap-2">
+            <Input
+              aria-label="Unit name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              placeholder="e.g., Orthopedics"
+            />
+            <Button onClick={handleCreate} disabled={createUnit.isPending || !newName.trim()}>
+              <Plus className="mr-2 h-4 w-4" />
+              Create
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {units.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground py-8">
+              You are not a member of any unit yet. Ask a unit admin to add you.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        units.map((unit) => (
+          <OrgUnitCard key={unit.id.toString()} unit={unit} canManage={canManage(unit)} assignees={assignees} />
+        ))
+      )}
+    </div>
+  );
+}
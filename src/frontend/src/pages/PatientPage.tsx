@@ -0,0 +1,162 @@
+import { useParams, useNavigate } from '@tanstack/react-router';
+import {
+  useGetPatient,
+  useGetPatientCases,
+  useUpdatePatient,
+  useHasPermission,
+  type PatientInput,
+} from '../hooks/useQueries';
+import PatientForm from '../components/patients/PatientForm';
+import OwnerCard from '../components/owners/OwnerCard';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft } from 'lucide-react';
+import { formatDate } from '../utils/dateTime';
+import { isCanisterError } from '../utils/apiResult';
+import { toast } from 'sonner';
+import { Permission } from '../backend';
+
+export default function PatientPage() {
+  const { mrn } = useParams({ from: '/patients/$mrn' });
+  const navigate = useNavigate();
+  const { data: patient, isLoading, refetch } = useGetPatient(mrn);
+  const { data: visits = [], isLoading: visitsLoading } = useGetPatientCases(mrn);
+  const updatePatient = useUpdatePatient();
+  const canEditDetails = useHasPermission(Permission.editDemographics);
+
+  const handleSubmit = async (data: PatientInput) => {
+    if (!patient) return;
+    try {
+      await updatePatient.mutateAsync({ mrn, patient: data, expectedVersion: patient.version });
+      toast.success('Patient updated on all visits');
+    } catch (error) {
+      if (isCanisterError(error, 'conflict')) {
+        toast.error('This patient was changed by someone else', {
+          description: 'The latest details have been loaded. Reapply your changes and save again.',
+        });
+        refetch();
+        return;
+      }
+      toast.error('Failed to update patient', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
+      console.error('Error updating patient:', error);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading patient...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!patient) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate({ to: '/' })}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-3xl font-bold">Patient Not Found</h1>
+        </div>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">No patient has MRN {mrn}.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" onClick={() => navigate({ to: '/' })}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">
+            {patient.firstName} {patient.lastName}
+          </h1>
+          <p className="text-muted-foreground mt-1">MRN: {patient.mrn}</p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Patient Details</CardTitle>
+          <CardDescription>Changes here are applied to every visit for this patient</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <PatientForm
+            key={patient.version.toString()}
+            patient={patient}
+            onSubmit={handleSubmit}
+            isSubmitting={updatePatient.isPending}
+            readOnly={!canEditDetails}
+            fieldErrors={isCanisterError(updatePatient.error, 'validation') ? updatePatient.error.fieldErrors : undefined}
+          />
+        </CardContent>
+      </Card>
+
+      <OwnerCard mrn={patient.mrn} ownerId={patient.ownerId} readOnly={!canEditDetails} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Case History</CardTitle>
+          <CardDescription>
+            {visits.length} {visits.length === 1 ? 'visit' : 'visits'}, most recent first
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {visitsLoading ? (
+            <p className="text-center text-muted-foreground py-8">Loading visits...</p>
+          ) : visits.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No visits on record</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Arrival Date</TableHead>
+                    <TableHead>Presenting Complaint</TableHead>
+                    <TableHead>To-Dos</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visits.map((visit) => {
+                    const openTodos = visit.todos.filter((todo) => !todo.complete).length;
+                    return (
+                      <TableRow
+                        key={visit.id.toString()}
+                        className="cursor-pointer hover:bg-muted/50"
+                        onClick={() => navigate({ to: `/cases/${visit.id}` })}
+                      >
+                        <TableCell>{formatDate(visit.arrivalDate)}</TableCell>
+                        <TableCell className="max-w-md truncate">{visit.presentingComplaint}</TableCell>
+                        <TableCell>
+                          {openTodos > 0 ? (
+                            <Badge variant="secondary">{openTodos} open</Badge>
+                          ) : (
+                            <span className="text-muted-foreground">None open</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
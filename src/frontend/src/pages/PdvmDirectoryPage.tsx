@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+import { useListPdvms, useCreatePdvm, useUpdatePdvm, useHasPermission } from '../hooks/useQueries';
+import PdvmForm from '../components/pdvms/PdvmForm';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ArrowLeft, Pencil, Plus, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { isCanisterError } from '../utils/apiResult';
+import { NOTIFICATION_METHOD_LABELS } from '../utils/pdvms';
+import { Permission } from '../backend';
+import type { Pdvm, PdvmDetails } from '../backend';
+
+function matchesSearch(pdvm: Pdvm, term: string): boolean {
+  return [pdvm.clinicName, pdvm.vetName, pdvm.email, pdvm.phone].some((value) =>
+    value.toLowerCase().includes(term)
+  );
+}
+
+export default function PdvmDirectoryPage() {
+  const navigate = useNavigate();
+  const { data: pdvms = [], isLoading, refetch } = useListPdvms();
+  const createPdvm = useCreatePdvm();
+  const updatePdvm = useUpdatePdvm();
+  const canEdit = useHasPermission(Permission.editDemographics);
+  const [search, setSearch] = useState('');
+  // null = closed, 'new' = creating, otherwise the referrer being edited
+  const [editing, setEditing] = useState<Pdvm | 'new' | null>(null);
+
+  const activeMutation = editing === 'new' ? createPdvm : updatePdvm;
+  const term = search.trim().toLowerCase();
+  const visiblePdvms = pdvms
+    .filter((pdvm) => !term || matchesSearch(pdvm, term))
+    .sort((a, b) => a.clinicName.localeCompare(b.clinicName));
+
+  const handleSave = async (details: PdvmDetails) => {
+    try {
+      if (editing === 'new') {
+        await createPdvm.mutateAsync(details);
+        toast.success('Referring vet added');
+      } else if (editing) {
+        await updatePdvm.mutateAsync({ id: editing.id, details, expectedVersion: editing.version });
+        toast.success('Referring vet updated');
+      }
+      setEditing(null);
+    } catch (error) {
+      if (isCanisterError(error, 'conflict')) {
+        toast.error('This referring vet was changed by someone else', {
+          description: 'The latest details have been loaded. Reapply your changes and save again.',
+        });
+        setEditing(null);
+        refetch();
+        return;
+      }
+      toast.error('Failed to save referring vet', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
+      console.error('Error saving referring vet:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate({ to: '/' })}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">Referring Vets</h1>
+            <p className="text-muted-foreground mt-1">Clinics and veterinarians who refer cases</p>
+          </div>
+        </div>
+        {canEdit && (
+          <Button size="sm" onClick={() => setEditing('new')}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Referring Vet
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Directory</CardTitle>
+          <CardDescription>
+            {pdvms.length} {pdvms.length === 1 ? 'referrer' : 'referrers'} on record
+          </CardDescription>
+          <div className="flex items-center gap-2 pt-2">
+            <Search className="h-5 w-5 text-muted-foreground" />
+            <Input
+              placeholder="Search by clinic, vet, email or phone..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="max-w-md"
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-center text-muted-foreground py-8">Loading referring vets...</p>
+          ) : visiblePdvms.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">
+              {term ? 'No referring vets match your search' : 'No referring vets yet'}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Clinic</TableHead>
+                    <TableHead>Veterinarian</TableHead>
+                    <TableHead>Contact</TableHead>
+                    <TableHead>Preferred</TableHead>
+                    <TableHead className="w-[80px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visiblePdvms.map((pdvm) => (
+                    <TableRow key={pdvm.id.toString()}>
+                      <TableCell className="font-medium">{pdvm.clinicName}</TableCell>
+                      <TableCell>{pdvm.vetName || '—'}</TableCell>
+                      <TableCell className="text-sm">
+                        {pdvm.phone && <div>Phone: {pdvm.phone}</div>}
+                        {pdvm.fax && <div>Fax: {pdvm.fax}</div>}
+                        {pdvm.email && <div>{pdvm.email}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{NOTIFICATION_METHOD_LABELS[pdvm.preferredContact]}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {canEdit && (
+                          <Button variant="ghost" size="icon" onClick={() => setEditing(pdvm)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'Add Referring Vet' : 'Edit Referring Vet'}</DialogTitle>
+            <DialogDescription>Contact details and how they prefer to hear about their cases</DialogDescription>
+          </DialogHeader>
+          {editing !== null && (
+            <PdvmForm
+              pdvm={editing === 'new' ? undefined : editing}
+              onSubmit={handleSave}
+              isSubmitting={activeMutation.isPending}
+              fieldErrors={
+                isCanisterError(activeMutation.error, 'validation') ? activeMutation.error.fieldErrors : undefined
+              }
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
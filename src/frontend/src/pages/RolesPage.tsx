@@ -0,0 +1,369 @@
+import { useState } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+import { Principal } from '@icp-sdk/core/principal';
+import {
+  useCallerPermissions,
+  useListCustomRoles,
+  useListCustomRoleAssignments,
+  useListAssignableUsers,
+  useCreateCustomRole,
+  useUpdateCustomRole,
+  useDeleteCustomRole,
+  useSetUserCustomRole,
+  type CustomRoleInput,
+} from '../hooks/useQueries';
+import { isCanisterError } from '../utils/apiResult';
+import { PERMISSIONS, PERMISSION_LABELS } from '../utils/permissions';
+import { formatAssignee, principalToText } from '../utils/todos';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, Plus, Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Permission } from '../backend';
+import type { CustomRole } from '../backend';
+
+const EMPTY_DRAFT: CustomRoleInput = {
+  name: '',
+  permissions: [Permission.viewCases],
+};
+
+// Select value for users without a custom role
+const DEFAULT_ROLE = 'default';
+
+export default function RolesPage() {
+  const navigate = useNavigate();
+  const { data: permissions, isLoading: isPermissionsLoading } = useCallerPermissions();
+  const canManageUsers = !!permissions?.includes(Permission.manageUsers);
+  const { data: roles = [], isLoading } = useListCustomRoles();
+  const { data: assignments = [] } = useListCustomRoleAssignments();
+  const { data: assignees = [] } = useListAssignableUsers();
+  const createRole = useCreateCustomRole();
+  const updateRole = useUpdateCustomRole();
+  const deleteRole = useDeleteCustomRole();
+  const setUserRole = useSetUserCustomRole();
+
+  // null = not editing, 'new' = creating, otherwise the id being edited
+  const [editing, setEditing] = useState<bigint | 'new' | null>(null);
+  const [draft, setDraft] = useState<CustomRoleInput>(EMPTY_DRAFT);
+  const [newUser, setNewUser] = useState('');
+  const [newUserRole, setNewUserRole] = useState('');
+
+  const startEditing = (role: CustomRole | null) => {
+    setEditing(role ? role.id : 'new');
+    setDraft(role ? { name: role.name, permissions: role.permissions } : EMPTY_DRAFT);
+  };
+
+  const togglePermission = (permission: Permission, granted: boolean) => {
+    setDraft((prev) => ({
+      ...prev,
+      permissions: granted
+        ? [...prev.permissions, permission]
+        : prev.permissions.filter((existing) => existing !== permission),
+    }));
+  };
+
+  const handleSave = async () => {
+    const input = { ...draft, name: draft.name.trim() };
+    if (!input.name) {
+      toast.error('Role name is required');
+      return;
+    }
+    try {
+      if (editing === 'new') {
+        await createRole.mutateAsync(input);
+        toast.success('Role created');
+      } else if (editing !== null) {
+        await updateRole.mutateAsync({ id: editing, role: input });
+        toast.success('Role updated');
+      }
+      setEditing(null);
+    } catch (error) {
+      toast.error('Failed to save role', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
+      console.error('Error saving role:', error);
+    }
+  };
+
+  const handleDelete = async (role: CustomRole) => {
+    try {
+      await deleteRole.mutateAsync(role.id);
+      toast.success('Role deleted');
+    } catch (error) {
+      toast.error('Failed to delete role', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
+      console.error('Error deleting role:', error);
+    }
+  };
+
+  const assignRole = async (user: Principal, value: string): Promise<boolean> => {
+    try {
+      await setUserRole.mutateAsync({ user, roleId: value === DEFAULT_ROLE ? null : BigInt(value) });
+      toast.success('Role assigned');
+      return true;
+    } catch (error) {
+      toast.error('Failed to assign role', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
+      console.error('Error assigning role:', error);
+      return false;
+    }
+  };
+
+  const handleAssign = async () => {
+    let user: Principal;
+    try {
+      user = Principal.fromText(newUser.trim());
+    } catch {
+      toast.error('Enter a valid principal');
+      return;
+    }
+    if (await assignRole(user, newUserRole)) {
+      setNewUser('');
+      setNewUserRole('');
+    }
+  };
+
+  if (isLoading || isPermissionsLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading roles...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!canManageUsers) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold mb-2">Access denied</h2>
+        <p className="text-muted-foreground mb-4">You do not have permission to manage roles.</p>
+        <Button onClick={() => navigate({ to: '/' })}>Back to Cases</Button>
+      </div>
+    );
+  }
+
+  const isSaving = createRole.isPending || updateRole.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate({ to: '/' })}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">Roles</h1>
+            <p className="text-muted-foreground mt-1">
+              Users without a role can do everything except delete cases and manage users. Admins can do everything.
+            </p>
+          </div>
+        </div>
+        {editing === null && (
+          <Button size="sm" onClick={() => startEditing(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Role
+          </Button>
+        )}
+      </div>
+
+      {editing !== null && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editing === 'new' ? 'New Role' : 'Edit Role'}</CardTitle>
+            <CardDescription>Choose what users with this role can do</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="roleName">Name *</Label>
+              <Input
+                id="roleName"
+                value={draft.name}
+                onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., Student"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+              {PERMISSIONS.map(({ permission, label, description }) => (
+                <div key={permission} className="flex items-start gap-2">
+                  <Checkbox
+                    id={`permission-${permission}`}
+                    checked={draft.permissions.includes(permission)}
+                    onCheckedChange={(checked) => togglePermission(permission, checked === true)}
+                  />
+                  <div className="space-y-0.5">
+                    <Label htmlFor={`permission-${permission}`} className="cursor-pointer">
+                      {label}
+                    </Label>
+                    <p className="text-xs text-muted-foreground">{description}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-3">
+              <Button onClick={handleSave} disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save Role'}
+              </Button>
+              <Button variant="outline" onClick={() => setEditing(null)} disabled={isSaving}>
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Custom Roles</CardTitle>
+          <CardDescription>
+            {roles.length} {roles.length === 1 ? 'role' : 'roles'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {roles.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No custom roles yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Permissions</TableHead>
+                  <TableHead className="w-[100px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {roles.map((role) => (
+                  <TableRow key={role.id.toString()}>
+                    <TableCell className="font-medium">{role.name}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {role.permissions.length === 0 ? (
+                          <span className="text-muted-foreground">None</span>
+                        ) : (
+                          role.permissions.map((permission) => (
+                            <Badge key={permission} variant="secondary">
+                              {PERMISSION_LABELS[permission]}
+                            </Badge>
+                          ))
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => startEditing(role)} aria-label="Edit role">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(role)}
+                          disabled={deleteRole.isPending}
+                          aria-label="Delete role"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Assignments</CardTitle>
+          <CardDescription>Users with a custom role</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {assignments.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Role</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {assignments.map((assignment) => (
+                  <TableRow key={principalToText(assignment.principal)}>
+                    <TableCell>{formatAssignee(assignment.principal, assignees)}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={assignment.roleId.toString()}
+                        onValueChange={(value) => assignRole(assignment.principal, value)}
+                        disabled={setUserRole.isPending}
+                      >
+                        <SelectTrigger className="w-[200px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={DEFAULT_ROLE}>Default permissions</SelectItem>
+                          {roles.map((role) => (
+                            <SelectItem key={role.id.toString()} value={role.id.toString()}>
+                              {role.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {roles.length > 0 && (
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="assignUser">Assign a role</Label>
+                <Input
+                  id="assignUser"
+                  list="assignUserCandidates"
+                  value={newUser}
+                  onChange={(e) => setNewUser(e.target.value)}
+                  placeholder="Principal"
+                />
+                <datalist id="assignUserCandidates">
+                  {assignees.map((assignee) => (
+                    <option key={principalToText(assignee.principal)} value={principalToText(assignee.principal)}>
+                      {assignee.name}
+                    </option>
+                  ))}
+                </datalist>
+              </div>
+              <Select value={newUserRole} onValueChange={setNewUserRole}>
+                <SelectTrigger className="sm:w-[200px]" aria-label="Role">
+                  <SelectValue placeholder="Choose a role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {roles.map((role) => (
+                    <SelectItem key={role.id.toString()} value={role.id.toString()}>
+                      {role.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleAssign} disabled={setUserRole.isPending || !newUser.trim() || !newUserRole}>
+                Assign
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+import { useState } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+import {
+  useListCaseTemplates,
+  useListChecklistDefinitions,
+  useIsCallerAdmin,
+  useCreateCaseTemplate,
+  useUpdateCaseTemplate,
+  useDeleteCaseTemplate,
+  type CaseTemplateInput,
+} from '../hooks/useQueries';
+import { getChecklistItemTitle, sortChecklistDefinitions } from '../utils/checklist';
+import { parseListInput } from '../utils/caseTemplates';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, Plus, Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { CaseTemplate, Species } from '../backend';
+
+interface TemplateDraft {
+  name: string;
+  species: Species | 'any';
+  complaintKeywords: string;
+  checklistKeys: string[];
+  todoDescriptions: string;
+}
+
+const EMPTY_DRAFT: TemplateDraft = {
+  name: '',
+  species: 'any',
+  complaintKeywords: '',
+  checklistKeys: [],
+  todoDescriptions: '',
+};
+
+function templateToDraft(template: CaseTemplate): TemplateDraft {
+  return {
+    name: template.name,
+    species: template.species ?? 'any',
+    complaintKeywords: template.complaintKeywords.join(', '),
+    checklistKeys: template.checklistKeys,
+    todoDescriptions: template.todoDescriptions.join('\n'),
+  };
+}
+
+function draftToInput(draft: TemplateDraft): CaseTemplateInput {
+  return {
+    name: draft.name.trim(),
+    species: draft.species === 'any' ? null : draft.species,
+    complaintKeywords: parseListInput(draft.complaintKeywords),
+    checklistKeys: draft.checklistKeys,
+    todoDescriptions: draft.todoDescriptions
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0),
+  };
+}
+
+export default function TemplateSettingsPage() {
+  const navigate = useNavigate();
+  const { data: isAdmin, isLoading: isAdminLoading } = useIsCallerAdmin();
+  const { data: templates = [], isLoading } = useListCaseTemplates();
+  const { data: definitions = [] } = useListChecklistDefinitions();
+  const createTemplate = useCreateCaseTemplate();
+  const updateTemplate = useUpdateCaseTemplate();
+  const deleteTemplate = useDeleteCaseTemplate();
+
+  // null = not editing, 'new' = creating, otherwise the id being edited
+  const [editing, setEditing] = useState<bigint | 'new' | null>(null);
+  const [draft, setDraft] = useState<TemplateDraft>(EMPTY_DRAFT);
+
+  const activeDefinitions = sortChecklistDefinitions(definitions).filter((definition) => !definition.retired);
+
+  const startEditing = (template: CaseTemplate | null) => {
+    setEditing(template ? template.id : 'new');
+    setDraft(template ? templateToDraft(template) : EMPTY_DRAFT);
+  };
+
+  const toggleDraftChecklistKey = (key: string, checked: boolean) => {
+    setDraft((prev) => ({
+      ...prev,
+      checklistKeys: checked
+        ? [...prev.checklistKeys, key]
+        : prev.checklistKeys.filter((existing) => existing !== key),
+    }));
+  };
+
+  const handleSave = async () => {
+    const input = draftToInput(draft);
+    if (!input.name) {
+      toast.error('Template name is required');
+      return;
+    }
+    try {
+      if (editing === 'new') {
+        await createTemplate.mutateAsync(input);
+        toast.success('Template created');
+      } else if (editing !== null) {
+        await updateTemplate.mutateAsync({ id: editing, template: input });
+        toast.success('Template updated');
+      }
+      setEditing(null);
+    } catch (error) {
+      toast.error('Failed to save template');
+      console.error('Error saving template:', error);
+    }
+  };
+
+  const handleDelete = async (template: CaseTemplate) => {
+    try {
+      await deleteTemplate.mutateAsync(template.id);
+      toast.success('Template deleted');
+    } catch (error) {
+      toast.error('Failed to delete template');
+      console.error('Error deleting template:', error);
+    }
+  };
+
+  if (isLoading || isAdminLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading templates...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold mb-2">Access denied</h2>
+        <p className="text-muted-foreground mb-4">Only admins can manage case templates.</p>
+        <Button onClick={() => navigate({ to: '/' })}>Back to Cases</Button>
+      </div>
+    );
+  }
+
+  const isSaving = createTemplate.isPending || updateTemplate.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate({ to: '/' })}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">Case Templates</h1>
+            <p className="text-muted-foreground mt-1">
+              Add checklist items to complete and seed to-dos for new cases
+            </p>
+          </div>
+        </div>
+        {editing === null && (
+          <Button size="sm" onClick={() => startEditing(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Template
+          </Button>
+        )}
+      </div>
+
+      {editing !== null && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editing === 'new' ? 'New Template' : 'Edit Template'}</CardTitle>
+            <CardDescription>
+              Templates are suggested automatically when the species or presenting complaint matches
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="templateName">Name *</Label>
+                <Input
+                  id="templateName"
+                  value={draft.name}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g., Canine TPLO"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="templateSpecies">Species</Label>
+                <Select
+                  value={draft.species}
+                  onValueChange={(value) => setDraft((prev) => ({ ...prev, species: value as TemplateDraft['species'] }))}
+                >
+                  <SelectTrigger id="templateSpecies">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any species</SelectItem>
+                    <SelectItem value="canine">Canine</SelectItem>
+                    <SelectItem value="feline">Feline</SelectItem>
+                    <SelectItem value="other">Other</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="templateKeywords">Complaint keywords</Label>
+              <Input
+                id="templateKeywords"
+                value={draft.complaintKeywords}
+                onChange={(e) => setDraft((prev) => ({ ...prev, complaintKeywords: e.target.value }))}
+                placeholder="Comma-separated, e.g., TPLO, cruciate, CCL"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Checklist items to complete</Label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {activeDefinitions.map((definition) => (
+                  <div key={definition.key} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`template-checklist-${definition.key}`}
+                      checked={draft.checklistKeys.includes(definition.key)}
+                      onCheckedChange={(checked) => toggleDraftChecklistKey(definition.key, checked as boolean)}
+                    />
+                    <Label htmlFor={`template-checklist-${definition.key}`} className="cursor-pointer">
+                      {definition.title}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="templateTodos">To-dos</Label>
+              <Textarea
+                id="templateTodos"
+                value={draft.todoDescriptions}
+                onChange={(e) => setDraft((prev) => ({ ...prev, todoDescriptions: e.target.value }))}
+                placeholder="One to-do per line"
+                rows={4}
+              />
+            </div>
+
+            <div className="flex gap-3">
+              <Button onClick={handleSave} disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save Template'}
+              </Button>
+              <Button variant="outline" onClick={() => setEditing(null)} disabled={isSaving}>
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {templates.length === 0 && editing === null ? (
+        <Card>
+          <CardContent className="pt-6 text-center text-muted-foreground">
+            No templates yet
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {templates.map((template) => (
+            <Card key={template.id.toString()}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <CardTitle className="text-lg">{template.name}</CardTitle>
+                    <CardDescription>
+                      {template.species ? template.species : 'Any species'}
+                      {template.complaintKeywords.length > 0 &&
+                        ` · ${template.complaintKeywords.join(', ')}`}
+                    </CardDescription>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => startEditing(template)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(template)}
+                      disabled={deleteTemplate.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <div className="flex flex-wrap gap-1">
+                  {template.checklistKeys.map((key) => (
+                    <Badge key={key} variant="secondary">
+                      {getChecklistItemTitle(definitions, key)}
+                    </Badge>
+                  ))}
+                </div>
+                {template.todoDescriptions.length > 0 && (
+                  <ul className="text-sm text-muted-foreground list-disc pl-5">
+                    {template.todoDescriptions.map((description, index) => (
+                      <li key={index}>{description}</li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
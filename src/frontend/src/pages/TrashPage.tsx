@@ -0,0 +1,206 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+import {
+  useListTrash,
+  useIsCallerAdmin,
+  useCallerPermissions,
+  useRestoreCase,
+  usePurgeTrash,
+  useGetTrashRetentionDays,
+  useSetTrashRetentionDays,
+  useListUserDirectory,
+} from '../hooks/useQueries';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, ArchiveRestore, Trash2 } from 'lucide-react';
+import { formatDate, formatDateTime } from '../utils/dateTime';
+import { formatAssignee } from '../utils/todos';
+import { toast } from 'sonner';
+import { Permission } from '../backend';
+
+const NANOSECONDS_PER_DAY = BigInt(24 * 60 * 60 * 1000) * BigInt(1_000_000);
+
+export default function TrashPage() {
+  const navigate = useNavigate();
+  const { data: isAdmin, isLoading: isAdminLoading } = useIsCallerAdmin();
+  const { data: permissions, isLoading: isPermissionsLoading } = useCallerPermissions();
+  const { data: trash = [], isLoading } = useListTrash();
+  const { data: retentionDays } = useGetTrashRetentionDays();
+  const { data: directory = [] } = useListUserDirectory();
+  const restoreCase = useRestoreCase();
+  const purgeTrash = usePurgeTrash();
+  const setRetentionDays = useSetTrashRetentionDays();
+  const [retentionInput, setRetentionInput] = useState('');
+
+  useEffect(() => {
+    if (retentionDays !== undefined) {
+      setRetentionInput(retentionDays.toString());
+    }
+  }, [retentionDays]);
+
+  // Most recently deleted first
+  const sortedTrash = [...trash].sort((a, b) => Number(b.deletedAt - a.deletedAt));
+
+  const handleRestore = async (id: bigint) => {
+    try {
+      await restoreCase.mutateAsync(id);
+      toast.success('Case restored');
+    } catch (error) {
+      toast.error('Failed to restore case');
+      console.error('Error restoring case:', error);
+    }
+  };
+
+  const handlePurge = async () => {
+    try {
+      const purged = await purgeTrash.mutateAsync();
+      toast.success(`Purged ${purged} expired ${purged === 1 ? 'case' : 'cases'}`);
+    } catch (error) {
+      toast.error('Failed to purge trash');
+      console.error('Error purging trash:', error);
+    }
+  };
+
+  const handleSaveRetention = async () => {
+    const days = parseInt(retentionInput, 10);
+    if (isNaN(days) || days < 1) {
+      toast.error('Retention must be at least one day');
+      return;
+    }
+    try {
+      await setRetentionDays.mutateAsync(days);
+      toast.success('Retention period updated');
+    } catch (error) {
+      toast.error('Failed to update retention period');
+      console.error('Error updating retention period:', error);
+    }
+  };
+
+  if (isLoading || isAdminLoading || isPermissionsLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading trash...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!permissions?.includes(Permission.deleteCases)) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold mb-2">Access denied</h2>
+        <p className="text-muted-foreground mb-4">You do not have permission to view the trash.</p>
+        <Button onClick={() => navigate({ to: '/' })}>Back to Cases</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" onClick={() => navigate({ to: '/' })}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Trash</h1>
+          <p className="text-muted-foreground mt-1">
+            Deleted cases are kept for {retentionDays ?? '…'} days before being purged
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Retention</CardTitle>
+          <CardDescription>Expired cases are purged automatically once a day</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            {/* Retention is a setting, so only admins change it */}
+            {isAdmin && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="retentionDays">Retention (days)</Label>
+                  <Input
+                    id="retentionDays"
+                    type="number"
+                    min={1}
+                    value={retentionInput}
+                    onChange={(e) => setRetentionInput(e.target.value)}
+                    className="w-32"
+                  />
+                </div>
+                <Button onClick={handleSaveRetention} disabled={setRetentionDays.isPending}>
+                  Save
+                </Button>
+              </>
+            )}
+            <Button variant="outline" onClick={handlePurge} disabled={purgeTrash.isPending}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Purge Expired Now
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Deleted Cases</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {sortedTrash.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">The trash is empty</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>MRN</TableHead>
+                    <TableHead>Patient</TableHead>
+                    <TableHead>Deleted</TableHead>
+                    <TableHead>Deleted By</TableHead>
+                    <TableHead>Purge After</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sortedTrash.map((entry) => (
+                    <TableRow key={entry.caseRecord.id.toString()}>
+                      <TableCell className="font-medium">{entry.caseRecord.mrn}</TableCell>
+                      <TableCell>
+                        {entry.caseRecord.patientFirstName} {entry.caseRecord.patientLastName}
+                      </TableCell>
+                      <TableCell>{formatDateTime(entry.deletedAt)}</TableCell>
+                      <TableCell>{formatAssignee(entry.deletedBy, directory)}</TableCell>
+                      <TableCell>
+                        {retentionDays !== undefined
+                          ? formatDate(entry.deletedAt + BigInt(retentionDays) * NANOSECONDS_PER_DAY)
+                          : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRestore(entry.caseRecord.id)}
+                          disabled={restoreCase.isPending}
+                        >
+                          <ArchiveRestore className="mr-2 h-4 w-4" />
+                          Restore
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
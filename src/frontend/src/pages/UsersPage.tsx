@@ -0,0 +1,256 @@
+import { useNavigate } from '@tanstack/react-router';
+import type { Principal } from '@icp-sdk/core/principal';
+import {
+  useCallerPermissions,
+  useIsCallerAdmin,
+  useListUsers,
+  useSetUserRole,
+  useSetUserAccess,
+  useGetAutoProvisionUsers,
+  useSetAutoProvisionUsers,
+} from '../hooks/useQueries';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { isCanisterError } from '../utils/apiResult';
+import { formatDateTime } from '../utils/dateTime';
+import { principalToText } from '../utils/todos';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft } from 'lucide-react';
+import { toast } from 'sonner';
+import { AccountStatus, Permission, UserRole } from '../backend';
+import type { UserSummary } from '../backend';
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  [UserRole.admin]: 'Admin',
+  [UserRole.user]: 'User',
+  [UserRole.guest]: 'Guest',
+};
+
+const STATUS_BADGES: Record<AccountStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+  [AccountStatus.active]: { label: 'Active', variant: 'secondary' },
+  [AccountStatus.pending]: { label: 'Pending', variant: 'default' },
+  [AccountStatus.disabled]: { label: 'Disabled', variant: 'destructive' },
+};
+
+// Pending users first so they are easy to approve, then by name
+function compareUsers(a: UserSummary, b: UserSummary): number {
+  const pendingOrder = Number(b.status === AccountStatus.pending) - Number(a.status === AccountStatus.pending);
+  return pendingOrder || (a.name || principalToText(a.principal)).localeCompare(b.name || principalToText(b.principal));
+}
+
+export default function UsersPage() {
+  const navigate = useNavigate();
+  const { identity } = useInternetIdentity();
+  const { data: permissions, isLoading: isPermissionsLoading } = useCallerPermissions();
+  const canManageUsers = !!permissions?.includes(Permission.manageUsers);
+  const { data: isAdmin } = useIsCallerAdmin();
+  const { data: users = [], isLoading } = useListUsers();
+  const { data: autoProvision } = useGetAutoProvisionUsers();
+  const setUserRole = useSetUserRole();
+  const setUserAccess = useSetUserAccess();
+  const setAutoProvision = useSetAutoProvisionUsers();
+
+  const principal = identity?.getPrincipal().toString();
+  const sortedUsers = [...users].sort(compareUsers);
+  const pendingCount = users.filter((user) => user.status === AccountStatus.pending).length;
+
+  const handleRoleChange = async (user: Principal, role: UserRole) => {
+    try {
+      await setUserRole.mutateAsync({ user, role });
+      toast.success('Role updated');
+    } catch (error) {
+      toast.error('Failed to update role', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
+      console.error('Error updating user role:', error);
+    }
+  };
+
+  const handleAccessChange = async (user: Principal, enabled: boolean) => {
+    try {
+      await setUserAccess.mutateAsync({ user, enabled });
+      toast.success(enabled ? 'Access granted' : 'Access disabled');
+    } catch (error) {
+      toast.error('Failed to update access', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
+      console.error('Error updating user access:', error);
+    }
+  };
+
+  const handleAutoProvisionChange = async (enabled: boolean) => {
+    try {
+      await setAutoProvision.mutateAsync(enabled);
+      toast.success(enabled ? 'New sign-ins are approved automatically' : 'New sign-ins now wait for approval');
+    } catch (error) {
+      toast.error('Failed to save setting', {
+        description: isCanisterError(error) ? error.message : undefined,
+      });
+      console.error('Error saving provisioning setting:', error);
+    }
+  };
+
+  if (isLoading || isPermissionsLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading users...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!canManageUsers) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold mb-2">Access denied</h2>
+        <p className="text-muted-foreground mb-4">You do not have permission to manage users.</p>
+        <Button onClick={() => navigate({ to: '/' })}>Back to Cases</Button>
+      </div>
+    );
+  }
+
+  const isSaving = setUserRole.isPending || setUserAccess.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" onClick={() => navigate({ to: '/' })}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Users</h1>
+          <p className="text-muted-foreground mt-1">
+            {users.length} {users.length === 1 ? 'user' : 'users'}
+            {pendingCount > 0 && `, ${pendingCount} waiting for approval`}
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Sign-ins</CardTitle>
+          <CardDescription>When turned off, new users cannot see anything until an admin approves them</CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-center gap-2">
+          <Switch
+            id="auto-provision"
+            checked={autoProvision ?? true}
+            onCheckedChange={handleAutoProvisionChange}
+            disabled={autoProvision === undefined || setAutoProvision.isPending}
+          />
+          <Label htmlFor="auto-provision">Approve new sign-ins automatically</Label>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Users</CardTitle>
+          <CardDescription>Everyone who has signed in. Case activity counts changes recorded in case history.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Last seen</TableHead>
+                  <TableHead>Case activity</TableHead>
+                  <TableHead className="w-[120px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedUsers.map((user) => {
+                  const userPrincipal = principalToText(user.principal);
+                  const isSelf = userPrincipal === principal;
+                  // Only admins may change an admin or make someone one
+                  const isLocked = isSelf || (user.role === UserRole.admin && !isAdmin);
+                  const badge = STATUS_BADGES[user.status];
+                  return (
+                    <TableRow key={userPrincipal}>
+                      <TableCell>
+                        <div className="font-medium">
+                          {user.name || <span className="text-muted-foreground">No profile</span>}
+                          {isSelf && <span className="text-muted-foreground"> (you)</span>}
+                        </div>
+                        <div className="text-xs text-muted-foreground break-all">{userPrincipal}</div>
+                      </TableCell>
+                      <TableCell>
+                        {user.status === AccountStatus.active && !isLocked ? (
+                          <Select
+                            value={user.role}
+                            onValueChange={(value) => handleRoleChange(user.principal, value as UserRole)}
+                            disabled={isSaving}
+                          >
+                            <SelectTrigger className="w-[120px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={UserRole.user}>{ROLE_LABELS[UserRole.user]}</SelectItem>
+                              {isAdmin && (
+                                <SelectItem value={UserRole.admin}>{ROLE_LABELS[UserRole.admin]}</SelectItem>
+                              )}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          ROLE_LABELS[user.role]
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={badge.variant}>{badge.label}</Badge>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {user.lastSeen !== undefined ? formatDateTime(user.lastSeen) : '—'}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {user.caseChanges === BigInt(0) ? (
+                          <span className="text-muted-foreground">None</span>
+                        ) : (
+                          <>
+                            <div>
+                              {user.caseChanges.toString()} {user.caseChanges === BigInt(1) ? 'change' : 'changes'}
+                            </div>
+                            {user.lastCaseChange !== undefined && (
+                              <div className="text-xs text-muted-foreground">
+                                Latest {formatDateTime(user.lastCaseChange)}
+                              </div>
+                            )}
+                          </>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {!isLocked &&
+                          (user.status === AccountStatus.active ? (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleAccessChange(user.principal, false)}
+                              disabled={isSaving}
+                            >
+                              Disable
+                            </Button>
+                          ) : (
+                            <Button size="sm" onClick={() => handleAccessChange(user.principal, true)} disabled={isSaving}>
+                              {user.status === AccountStatus.pending ? 'Approve' : 'Enable'}
+                            </Button>
+                          ))}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
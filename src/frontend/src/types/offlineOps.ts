@@ -1,4 +1,4 @@
-import type { SurgeryCase, ToDoItem, Species, Sex } from '../backend';
+import type { SurgeryCase, ToDoItem, Species, Sex, NotificationMethod, TodoPriority } from '../backend';
 import type { CaseFormData } from '../components/cases/CaseForm';
 
 export type OperationStatus = 'pending' | 'failed' | 'succeeded';
@@ -9,12 +9,20 @@ export interface BaseOperation {
   createdAt: number;
   status: OperationStatus;
   lastError?: string;
+  /**
+   * Sent with every attempt so the canister returns the original result instead
+   * of applying the change twice; absent on operations queued before keys existed
+   */
+  idempotencyKey?: string;
+  /** Server copy of the case when the operation was rejected because the case had moved on */
+  conflict?: SurgeryCase;
 }
 
 export interface CreateCaseOperation extends BaseOperation {
   type: 'createCase';
   data: CaseFormData;
-  tempId: string;
+  /** Negative placeholder id that queued operations on this case refer to until it syncs */
+  tempId: bigint;
 }
 
 export interface UpdateCaseOperation extends BaseOperation {
@@ -22,6 +30,8 @@ export interface UpdateCaseOperation extends BaseOperation {
   caseId: bigint;
   data: CaseFormData;
   todos: ToDoItem[];
+  /** Case version the edit was based on; the canister rejects the update if it has moved on */
+  expectedVersion: bigint;
 }
 
 export interface DeleteCaseOperation extends BaseOperation {
@@ -32,20 +42,55 @@ export interface DeleteCaseOperation extends BaseOperation {
 export interface ToggleChecklistOperation extends BaseOperation {
   type: 'toggleChecklist';
   caseId: bigint;
-  field: 'dischargeNotes' | 'pdvmNotified' | 'labs' | 'histo' | 'surgeryReport' | 'imaging' | 'culture';
+  /** Checklist item key (see listChecklistDefinitions) */
+  field: string;
+  /** How the pDVM was told, when the toggled item is pdvmNotified */
+  notificationMethod?: NotificationMethod;
+  /** Value the user toggled the item to; absent on operations queued before conflict checks */
+  complete?: boolean;
+  /** Case version the toggle was based on */
+  expectedVersion?: bigint;
 }
 
 export interface AddTodoOperation extends BaseOperation {
   type: 'addTodo';
   caseId: bigint;
   description: string;
-  tempId: string;
+  /** Absent on operations queued before to-dos had due dates, priorities and assignees */
+  dueDate?: bigint;
+  priority?: TodoPriority;
+  /** Principal text; IndexedDB does not keep Principal instances */
+  assignee?: string;
+  /** Negative placeholder id that queued operations on this to-do refer to until it syncs */
+  tempId: bigint;
 }
 
 export interface ToggleTodoOperation extends BaseOperation {
   type: 'toggleTodo';
   caseId: bigint;
   todoId: bigint;
+  /** Value the user toggled the to-do to; absent on operations queued before conflict checks */
+  complete?: boolean;
+  /** Case version the toggle was based on */
+  expectedVersion?: bigint;
+}
+
+export interface EditTodoOperation extends BaseOperation {
+  type: 'editTodo';
+  caseId: bigint;
+  todoId: bigint;
+  description: string;
+  dueDate?: bigint;
+  priority: TodoPriority;
+  /** Principal text; IndexedDB does not keep Principal instances */
+  assignee?: string;
+}
+
+export interface ReorderTodosOperation extends BaseOperation {
+  type: 'reorderTodos';
+  caseId: bigint;
+  /** Every to-do on the case, in the new order */
+  todoIds: bigint[];
 }
 
 export interface DeleteTodoOperation extends BaseOperation {
@@ -61,4 +106,6 @@ export type QueuedOperation =
   | ToggleChecklistOperation
   | AddTodoOperation
   | ToggleTodoOperation
+  | EditTodoOperation
+  | ReorderTodosOperation
   | DeleteTodoOperation;
@@ -0,0 +1,120 @@
+import {
+  AgentError,
+  CertifiedRejectErrorCode,
+  ErrorKindEnum,
+  ReplicaRejectCode,
+  TransportError,
+  UncertifiedRejectErrorCode,
+  UncertifiedRejectUpdateErrorCode,
+} from '@icp-sdk/core/agent';
+import type { Conflict, FieldError } from '../backend';
+
+/**
+ * The failure variants shared by every canister method result
+ */
+export type ApiFailure =
+  | { __kind__: 'conflict'; conflict: Conflict }
+  | { __kind__: 'notFound'; notFound: string }
+  | { __kind__: 'unauthorized'; unauthorized: string }
+  | { __kind__: 'validation'; validation: Array<FieldError> };
+
+export type ApiResultOf<T> = { __kind__: 'ok'; ok: T } | ApiFailure;
+
+export type ApiFailureKind = ApiFailure['__kind__'];
+
+/**
+ * Thrown when the canister rejects a request with a structured reason.
+ * These failures are deterministic, so retrying the same request will not help.
+ */
+export class CanisterError extends Error {
+  readonly kind: ApiFailureKind;
+  readonly fieldErrors: FieldError[];
+  readonly conflict?: Conflict;
+
+  constructor(failure: ApiFailure) {
+    super(describeFailure(failure));
+    this.name = 'CanisterError';
+    this.kind = failure.__kind__;
+    this.fieldErrors = failure.__kind__ === 'validation' ? failure.validation : [];
+    this.conflict = failure.__kind__ === 'conflict' ? failure.conflict : undefined;
+  }
+}
+
+export function isCanisterError(error: unknown, kind?: ApiFailureKind): error is CanisterError {
+  return error instanceof CanisterError && (kind === undefined || error.kind === kind);
+}
+
+function describeFailure(failure: ApiFailure): string {
+  switch (failure.__kind__) {
+    case 'notFound':
+      return `${failure.notFound}. It may have been deleted or moved to the trash.`;
+    case 'unauthorized':
+      return `You don't have permission for this. ${failure.unauthorized}.`;
+    case 'conflict':
+      return `${failure.conflict.message}. Reload to see the latest version.`;
+    case 'validation':
+      return failure.validation.map((error) => error.message).join('. ') || 'Some fields are invalid';
+  }
+}
+
+/**
+ * Returns the value of a successful result and throws a CanisterError otherwise
+ */
+export function unwrapResult<T>(result: ApiResultOf<T>): T {
+  if (result.__kind__ === 'ok') {
+    return result.ok;
+  }
+  throw new CanisterError(result);
+}
+
+/**
+ * True when the request never reached the canister: the browser is offline or
+ * the HTTP transport failed
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (!error) return false;
+  if (error instanceof TransportError || (error instanceof AgentError && error.kind === ErrorKindEnum.Transport)) {
+    return true;
+  }
+  // fetch itself rejects with a TypeError when there is no connection
+  return error instanceof TypeError && typeof navigator !== 'undefined' && !navigator.onLine;
+}
+
+export interface RejectDetails {
+  rejectCode: ReplicaRejectCode;
+  /** IC error code such as "IC0508" */
+  errorCode?: string;
+  canisterId?: string;
+}
+
+/**
+ * Extracts the replica's reject details when the call was rejected before or
+ * outside the canister's own code, e.g. a trap or a stopped canister
+ */
+export function getRejectDetails(error: unknown): RejectDetails | null {
+  if (!(error instanceof AgentError)) return null;
+  const code = error.code;
+  if (
+    code instanceof CertifiedRejectErrorCode ||
+    code instanceof UncertifiedRejectErrorCode ||
+    code instanceof UncertifiedRejectUpdateErrorCode
+  ) {
+    return {
+      rejectCode: code.rejectCode,
+      errorCode: code.rejectErrorCode,
+      canisterId: code.callContext?.canisterId.toText(),
+    };
+  }
+  return null;
+}
+
+/**
+ * Whether sending the same request again could succeed. Structured canister
+ * failures never will; transport failures and transient replica rejects may.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof CanisterError) {
+    return false;
+  }
+  return isNetworkError(error) || getRejectDetails(error)?.rejectCode === ReplicaRejectCode.SysTransient;
+}
@@ -0,0 +1,108 @@
+import type { ChecklistItemDefinition } from '../backend';
+import { CASE_STATUS_LABELS } from './caseStatus';
+import { getChecklistItemTitle } from './checklist';
+import { formatDate, formatDateTime } from './dateTime';
+import { NOTIFICATION_METHOD_LABELS } from './pdvms';
+import { TODO_PRIORITY_LABELS } from './todos';
+
+const METHOD_LABELS: Record<string, string> = {
+  createCase: 'Created case',
+  updateCase: 'Updated case',
+  deleteCase: 'Moved case to trash',
+  restoreCase: 'Restored case from trash',
+  importCases: 'Imported case',
+  toggleChecklistItem: 'Toggled checklist item',
+  addTodoItem: 'Added to-do',
+  toggleTodoComplete: 'Toggled to-do',
+  editTodoItem: 'Edited to-do',
+  reorderTodos: 'Reordered to-dos',
+  deleteTodoItem: 'Deleted to-do',
+  markLetterSent: 'Sent pDVM letter',
+  setCaseStatus: 'Changed status',
+  addCaseAttachment: 'Added attachment',
+  deleteCaseAttachment: 'Deleted attachment',
+};
+
+const TODO_ATTRIBUTE_LABELS: Record<string, string> = {
+  dueDate: 'To-do due date',
+  priority: 'To-do priority',
+  assignee: 'To-do assignee',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  mrn: 'MRN',
+  patientFirstName: 'First name',
+  patientLastName: 'Last name',
+  dateOfBirth: 'Date of birth',
+  arrivalDate: 'Arrival date',
+  species: 'Species',
+  breed: 'Breed',
+  sex: 'Sex',
+  presentingComplaint: 'Presenting complaint',
+  notes: 'Notes',
+  pdvm: 'Referring vet',
+  pdvmId: 'Referring vet',
+  pdvmNotification: 'pDVM notification',
+  todoOrder: 'To-do order',
+  status: 'Status',
+  closeOverride: 'Closed with open items',
+};
+
+/**
+ * Returns a readable label for the canister method recorded in an audit entry
+ */
+export function getAuditMethodLabel(method: string): string {
+  return METHOD_LABELS[method] || method;
+}
+
+/**
+ * Returns a readable label for a changed field.
+ * Checklist changes are recorded as "checklist.<key>", to-dos as "todo.<id>" and
+ * attachments as "attachment.<id>".
+ */
+export function getAuditFieldLabel(field: string, definitions?: ChecklistItemDefinition[]): string {
+  if (field.startsWith('checklist.')) {
+    return getChecklistItemTitle(definitions, field.slice('checklist.'.length));
+  }
+  if (field.startsWith('todo.')) {
+    // "todo.<id>.<attribute>" for due date, priority and assignee changes
+    const attribute = field.split('.')[2];
+    return attribute ? TODO_ATTRIBUTE_LABELS[attribute] ?? 'To-do' : 'To-do';
+  }
+  if (field.startsWith('attachment.')) {
+    return 'Attachment';
+  }
+  return FIELD_LABELS[field] || field;
+}
+
+/**
+ * Formats a recorded value for display; values are stored as text by the canister
+ */
+export function formatAuditValue(field: string, value: string): string {
+  if (value === '') {
+    return '—';
+  }
+  if ((field === 'arrivalDate' || /^todo\.\d+\.dueDate$/.test(field)) && /^\d+$/.test(value)) {
+    return formatDate(BigInt(value));
+  }
+  if (field.startsWith('checklist.')) {
+    return value === 'true' ? 'Complete' : 'Incomplete';
+  }
+  if (field === 'status') {
+    return CASE_STATUS_LABELS[value as keyof typeof CASE_STATUS_LABELS] ?? value;
+  }
+  if (/^todo\.\d+\.priority$/.test(field)) {
+    return TODO_PRIORITY_LABELS[value as keyof typeof TODO_PRIORITY_LABELS] ?? value;
+  }
+  // Recorded as "<method>@<time>"
+  if (field === 'pdvmNotification') {
+    const [method, time] = value.split('@');
+    const label = NOTIFICATION_METHOD_LABELS[method as keyof typeof NOTIFICATION_METHOD_LABELS] ?? method;
+    return time && /^\d+$/.test(time) ? `${label}, ${formatDateTime(BigInt(time))}` : label;
+  }
+  // Conflicting case edits report the referrer's id; the canister's audit log records its name
+  if (field === 'pdvmId') {
+    return value === 'undefined' ? '—' : `#${value}`;
+  }
+  return value;
+}
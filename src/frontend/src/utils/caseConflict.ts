@@ -0,0 +1,166 @@
+import type { SurgeryCase } from '../backend';
+import type { CaseFormData } from '../components/cases/CaseForm';
+import { checklistToRecord, isChecklistItemComplete, recordToChecklist } from './checklist';
+
+/**
+ * Thrown when updateCase is rejected because the case changed since it was loaded.
+ * Carries the current server version so the caller can merge or retry.
+ */
+export class CaseConflictError extends Error {
+  readonly current: SurgeryCase;
+
+  constructor(current: SurgeryCase) {
+    super('Case was changed by someone else');
+    this.name = 'CaseConflictError';
+    this.current = current;
+  }
+}
+
+export function isCaseConflictError(error: unknown): error is CaseConflictError {
+  return error instanceof CaseConflictError;
+}
+
+type ScalarField = Exclude<keyof CaseFormData, 'checklist' | 'templateTodos'>;
+
+export const CONFLICT_FIELDS: ScalarField[] = [
+  'mrn',
+  'patientFirstName',
+  'patientLastName',
+  'dateOfBirth',
+  'arrivalDate',
+  'species',
+  'breed',
+  'sex',
+  'presentingComplaint',
+  'notes',
+  'pdvmId',
+];
+
+export interface ConflictingField {
+  /** A CaseFormData field, or "checklist.<key>" for a checklist item */
+  field: string;
+  mine: string;
+  theirs: string;
+}
+
+/**
+ * Extracts the editable fields of a case in the shape used by CaseForm
+ */
+export function caseToFormData(caseRecord: SurgeryCase): CaseFormData {
+  return {
+    mrn: caseRecord.mrn,
+    patientFirstName: caseRecord.patientFirstName,
+    patientLastName: caseRecord.patientLastName,
+    dateOfBirth: caseRecord.dateOfBirth,
+    arrivalDate: caseRecord.arrivalDate,
+    species: caseRecord.species,
+    breed: caseRecord.breed,
+    sex: caseRecord.sex,
+    presentingComplaint: caseRecord.presentingComplaint,
+    checklist: caseRecord.checklist,
+    notes: caseRecord.notes,
+    pdvmId: caseRecord.pdvmId,
+  };
+}
+
+function getChecklistKeys(...forms: CaseFormData[]): string[] {
+  return [...new Set(forms.flatMap((form) => form.checklist.map((entry) => entry.key)))];
+}
+
+/**
+ * Three-way merge: every field I changed relative to the base wins, everything
+ * else takes the server value.
+ */
+export function mergeCaseFormData(base: CaseFormData, mine: CaseFormData, theirs: CaseFormData): CaseFormData {
+  const merged: CaseFormData = { ...theirs };
+  for (const field of CONFLICT_FIELDS) {
+    if (mine[field] !== base[field]) {
+      (merged as unknown as Record<string, unknown>)[field] = mine[field];
+    }
+  }
+
+  const checklist = checklistToRecord(theirs.checklist);
+  for (const key of getChecklistKeys(base, mine)) {
+    const mineComplete = isChecklistItemComplete(mine.checklist, key);
+    if (mineComplete !== isChecklistItemComplete(base.checklist, key)) {
+      checklist[key] = mineComplete;
+    }
+  }
+  merged.checklist = recordToChecklist(checklist);
+
+  return merged;
+}
+
+/**
+ * Lists fields changed on both sides to different values, which a merge would
+ * resolve in favour of my edit
+ */
+export function getConflictingFields(
+  base: CaseFormData,
+  mine: CaseFormData,
+  theirs: CaseFormData
+): ConflictingField[] {
+  const conflicts: ConflictingField[] = [];
+  for (const field of CONFLICT_FIELDS) {
+    if (mine[field] !== base[field] && theirs[field] !== base[field] && mine[field] !== theirs[field]) {
+      conflicts.push({ field, mine: String(mine[field]), theirs: String(theirs[field]) });
+    }
+  }
+
+  for (const key of getChecklistKeys(base, mine, theirs)) {
+    const baseComplete = isChecklistItemComplete(base.checklist, key);
+    const mineComplete = isChecklistItemComplete(mine.checklist, key);
+    const theirsComplete = isChecklistItemComplete(theirs.checklist, key);
+    if (mineComplete !== baseComplete && theirsComplete !== baseComplete && mineComplete !== theirsComplete) {
+      conflicts.push({ field: `checklist.${key}`, mine: String(mineComplete), theirs: String(theirsComplete) });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Lists every field where my version differs from the server's, for
+ * choosing a side per field when no common base is available
+ */
+export function getDifferingFields(mine: CaseFormData, theirs: CaseFormData): ConflictingField[] {
+  const differences: ConflictingField[] = [];
+  for (const field of CONFLICT_FIELDS) {
+    if (mine[field] !== theirs[field]) {
+      differences.push({ field, mine: String(mine[field]), theirs: String(theirs[field]) });
+    }
+  }
+
+  for (const key of getChecklistKeys(mine, theirs)) {
+    const mineComplete = isChecklistItemComplete(mine.checklist, key);
+    const theirsComplete = isChecklistItemComplete(theirs.checklist, key);
+    if (mineComplete !== theirsComplete) {
+      differences.push({ field: `checklist.${key}`, mine: String(mineComplete), theirs: String(theirsComplete) });
+    }
+  }
+
+  return differences;
+}
+
+/**
+ * Builds a case from the server version, taking my value for each field in
+ * `fromMine` (field names as reported by getDifferingFields)
+ */
+export function pickCaseFormFields(mine: CaseFormData, theirs: CaseFormData, fromMine: Set<string>): CaseFormData {
+  const picked: CaseFormData = { ...theirs };
+  for (const field of CONFLICT_FIELDS) {
+    if (fromMine.has(field)) {
+      (picked as unknown as Record<string, unknown>)[field] = mine[field];
+    }
+  }
+
+  const checklist = checklistToRecord(theirs.checklist);
+  for (const key of getChecklistKeys(mine)) {
+    if (fromMine.has(`checklist.${key}`)) {
+      checklist[key] = isChecklistItemComplete(mine.checklist, key);
+    }
+  }
+  picked.checklist = recordToChecklist(checklist);
+
+  return picked;
+}
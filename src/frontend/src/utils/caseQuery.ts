@@ -0,0 +1,157 @@
+import { CaseSortKey, CaseStatus } from '../backend';
+import type { CaseFilter, ChecklistItemDefinition, Owner, Patient, SurgeryCase } from '../backend';
+import { isChecklistItemComplete } from './checklist';
+
+export const CASE_PAGE_SIZE = 25;
+
+export interface CaseQueryParams {
+  filter: CaseFilter;
+  sortKey: CaseSortKey;
+  page: number;
+  pageSize: number;
+}
+
+export interface CaseQueryResult {
+  cases: SurgeryCase[];
+  total: number;
+  hasNextPage: boolean;
+}
+
+/**
+ * Builds a query key for a case query. Bigint fields are converted to strings
+ * because query keys must be JSON-serializable.
+ */
+export function getCaseQueryKey(params: CaseQueryParams) {
+  const { filter } = params;
+  return [
+    'cases',
+    'query',
+    {
+      ...filter,
+      arrivalFrom: filter.arrivalFrom?.toString(),
+      arrivalTo: filter.arrivalTo?.toString(),
+      pdvmId: filter.pdvmId?.toString(),
+    },
+    params.sortKey,
+    params.page,
+    params.pageSize,
+  ] as const;
+}
+
+/**
+ * Returns true when any filter field is set
+ */
+export function hasActiveFilter(filter: CaseFilter): boolean {
+  return Object.values(filter).some((value) => value !== undefined && value !== '');
+}
+
+/**
+ * Returns true when every active checklist item is marked complete on the case
+ */
+export function isCaseChecklistComplete(caseRecord: SurgeryCase, definitions: ChecklistItemDefinition[]): boolean {
+  return definitions
+    .filter((definition) => !definition.retired)
+    .every((definition) => isChecklistItemComplete(caseRecord.checklist, definition.key));
+}
+
+/**
+ * Patients and owners used to search by owner details. The case itself does not hold them.
+ */
+export interface OwnerLookup {
+  patients: Patient[];
+  owners: Owner[];
+}
+
+function digitsOf(text: string): string {
+  return text.replace(/\D/g, '');
+}
+
+function ownerMatches(mrn: string, term: string, lookup: OwnerLookup): boolean {
+  const ownerId = lookup.patients.find((patient) => patient.mrn === mrn)?.ownerId;
+  const owner = ownerId === undefined ? undefined : lookup.owners.find((o) => o.id === ownerId);
+  if (!owner) return false;
+  const termDigits = digitsOf(term);
+  return (
+    owner.name.toLowerCase().includes(term) ||
+    owner.email.toLowerCase().includes(term) ||
+    (termDigits !== '' && owner.phones.some((phone) => digitsOf(phone).includes(termDigits)))
+  );
+}
+
+function matchesFilter(
+  caseRecord: SurgeryCase,
+  filter: CaseFilter,
+  definitions: ChecklistItemDefinition[],
+  lookup: OwnerLookup
+): boolean {
+  if (filter.species && caseRecord.species !== filter.species) return false;
+  if (filter.sex && caseRecord.sex !== filter.sex) return false;
+  if (filter.arrivalFrom !== undefined && caseRecord.arrivalDate < filter.arrivalFrom) return false;
+  if (filter.arrivalTo !== undefined && caseRecord.arrivalDate > filter.arrivalTo) return false;
+  if (
+    filter.checklistComplete !== undefined &&
+    isCaseChecklistComplete(caseRecord, definitions) !== filter.checklistComplete
+  ) {
+    return false;
+  }
+  if (filter.pdvmId !== undefined && caseRecord.pdvmId !== filter.pdvmId) return false;
+  // Cases cached before statuses existed count as admitted
+  if (filter.status && (caseRecord.status ?? CaseStatus.admitted) !== filter.status) return false;
+  if (
+    filter.hasOpenTodos !== undefined &&
+    caseRecord.todos.some((todo) => !todo.complete) !== filter.hasOpenTodos
+  ) {
+    return false;
+  }
+  const term = filter.search?.trim().toLowerCase();
+  if (
+    term &&
+    !caseRecord.mrn.toLowerCase().includes(term) &&
+    !caseRecord.patientFirstName.toLowerCase().includes(term) &&
+    !caseRecord.patientLastName.toLowerCase().includes(term) &&
+    !caseRecord.presentingComplaint.toLowerCase().includes(term) &&
+    !ownerMatches(caseRecord.mrn, term, lookup)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+function compareCases(sortKey: CaseSortKey) {
+  return (a: SurgeryCase, b: SurgeryCase): number => {
+    switch (sortKey) {
+      case CaseSortKey.arrivalNewest:
+        return Number(b.arrivalDate - a.arrivalDate);
+      case CaseSortKey.arrivalOldest:
+        return Number(a.arrivalDate - b.arrivalDate);
+      case CaseSortKey.mrn:
+        return a.mrn.localeCompare(b.mrn);
+      case CaseSortKey.patientName:
+        return (
+          a.patientLastName.toLowerCase().localeCompare(b.patientLastName.toLowerCase()) ||
+          a.patientFirstName.toLowerCase().localeCompare(b.patientFirstName.toLowerCase())
+        );
+    }
+  };
+}
+
+/**
+ * Applies a case query to locally cached cases, mirroring the canister's queryCases.
+ * Used as the offline fallback. Owner search only finds owners loaded before going offline.
+ */
+export function queryCasesLocally(
+  cases: SurgeryCase[],
+  params: CaseQueryParams,
+  definitions: ChecklistItemDefinition[],
+  lookup: OwnerLookup
+): CaseQueryResult {
+  const matching = cases
+    .filter((caseRecord) => matchesFilter(caseRecord, params.filter, definitions, lookup))
+    .sort(compareCases(params.sortKey));
+  const start = params.page * params.pageSize;
+  return {
+    cases: matching.slice(start, start + params.pageSize),
+    total: matching.length,
+    hasNextPage: start + params.pageSize < matching.length,
+  };
+}
@@ -0,0 +1,45 @@
+import { CaseStatus } from '../backend';
+import type { ChecklistItemDefinition, SurgeryCase } from '../backend';
+import { isChecklistItemComplete, sortChecklistDefinitions } from './checklist';
+
+export const CASE_STATUS_LABELS: Record<CaseStatus, string> = {
+  [CaseStatus.admitted]: 'Admitted',
+  [CaseStatus.inSurgery]: 'In surgery',
+  [CaseStatus.recovering]: 'Recovering',
+  [CaseStatus.discharged]: 'Discharged',
+  [CaseStatus.awaitingResults]: 'Awaiting results',
+  [CaseStatus.closed]: 'Closed',
+};
+
+/**
+ * The statuses a case may move to next; mirrors the transitions the canister enforces
+ */
+export const CASE_STATUS_TRANSITIONS: Record<CaseStatus, CaseStatus[]> = {
+  [CaseStatus.admitted]: [CaseStatus.inSurgery, CaseStatus.discharged],
+  [CaseStatus.inSurgery]: [CaseStatus.recovering],
+  [CaseStatus.recovering]: [CaseStatus.inSurgery, CaseStatus.discharged],
+  [CaseStatus.discharged]: [CaseStatus.awaitingResults, CaseStatus.closed],
+  [CaseStatus.awaitingResults]: [CaseStatus.closed],
+  [CaseStatus.closed]: [CaseStatus.awaitingResults],
+};
+
+/**
+ * Parses a status typed by a person, e.g. "In surgery" or "awaiting-results"
+ */
+export function parseCaseStatus(value: string): CaseStatus | undefined {
+  const normalized = value.toLowerCase().replace(/[\s_-]/g, '');
+  return Object.values(CaseStatus).find((status) => status.toLowerCase() === normalized);
+}
+
+/**
+ * Lists what keeps a case from being closed: active checklist items left
+ * incomplete and open to-dos, as the canister checks them
+ */
+export function getCloseBlockers(caseRecord: SurgeryCase, definitions: ChecklistItemDefinition[]): string[] {
+  return [
+    ...sortChecklistDefinitions(definitions)
+      .filter((definition) => !definition.retired && !isChecklistItemComplete(caseRecord.checklist, definition.key))
+      .map((definition) => definition.title),
+    ...caseRecord.todos.filter((todo) => !todo.complete).map((todo) => `To-do: ${todo.description}`),
+  ];
+}
@@ -0,0 +1,61 @@
+import type { CaseTemplate, Species } from '../backend';
+
+/**
+ * Scores how well a template fits a case. A complaint keyword match outweighs a
+ * species match; a template restricted to another species never matches.
+ */
+function scoreTemplate(template: CaseTemplate, species: Species | undefined, complaint: string): number {
+  if (template.species && species && template.species !== species) {
+    return 0;
+  }
+
+  let score = 0;
+  if (template.species && template.species === species) {
+    score += 1;
+  }
+
+  const normalizedComplaint = complaint.toLowerCase();
+  if (
+    normalizedComplaint &&
+    template.complaintKeywords.some(
+      (keyword) => keyword.trim() && normalizedComplaint.includes(keyword.trim().toLowerCase())
+    )
+  ) {
+    score += 2;
+  }
+
+  return score;
+}
+
+/**
+ * Finds the template that best fits the species and presenting complaint.
+ * Returns null when no template matches either.
+ */
+export function findMatchingTemplate(
+  templates: CaseTemplate[],
+  species: Species | undefined,
+  complaint: string
+): CaseTemplate | null {
+  let best: CaseTemplate | null = null;
+  let bestScore = 0;
+
+  for (const template of templates) {
+    const score = scoreTemplate(template, species, complaint);
+    if (score > bestScore) {
+      best = template;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Splits a comma- or newline-separated list typed into a form field
+ */
+export function parseListInput(value: string): string[] {
+  return value
+    .split(/[,\n]/)
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
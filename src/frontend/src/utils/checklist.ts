@@ -0,0 +1,111 @@
+import type { Principal } from '@icp-sdk/core/principal';
+import type { ChecklistEntry, ChecklistItemDefinition } from '../backend';
+
+/**
+ * Maps the boolean fields used before checklist items became configurable
+ * to the keys of the built-in checklist definitions.
+ */
+export const LEGACY_CHECKLIST_FIELDS: Record<string, string> = {
+  dischargeNotesComplete: 'dischargeNotes',
+  pdvmNotified: 'pdvmNotified',
+  labsComplete: 'labs',
+  histoComplete: 'histo',
+  surgeryReportComplete: 'surgeryReport',
+  imagingComplete: 'imaging',
+  cultureComplete: 'culture',
+};
+
+/**
+ * Returns whether the checklist item with the given key is marked complete.
+ * Items that have never been toggled on a case are treated as incomplete.
+ */
+export function isChecklistItemComplete(checklist: ChecklistEntry[], key: string): boolean {
+  return checklist.some((entry) => entry.key === key && entry.complete);
+}
+
+/**
+ * Returns a copy of the checklist with the given item set, appending it if missing.
+ * When the user making the change is given, a newly completed item is stamped
+ * with them and the current time, as the canister would.
+ */
+export function setChecklistItem(
+  checklist: ChecklistEntry[],
+  key: string,
+  complete: boolean,
+  completedBy?: Principal
+): ChecklistEntry[] {
+  const update = (entry?: ChecklistEntry): ChecklistEntry =>
+    complete && !completedBy
+      ? { ...entry, key, complete }
+      : {
+          key,
+          complete,
+          completedAt: complete ? BigInt(Date.now()) * BigInt(1_000_000) : undefined,
+          completedBy: complete ? completedBy : undefined,
+        };
+  if (checklist.some((entry) => entry.key === key)) {
+    return checklist.map((entry) => (entry.key !== key || entry.complete === complete ? entry : update(entry)));
+  }
+  return [...checklist, update()];
+}
+
+/**
+ * Converts a checklist into a key → complete lookup for form state
+ */
+export function checklistToRecord(checklist: ChecklistEntry[]): Record<string, boolean> {
+  const record: Record<string, boolean> = {};
+  for (const entry of checklist) {
+    record[entry.key] = entry.complete;
+  }
+  return record;
+}
+
+/**
+ * Converts a key → complete lookup back into checklist entries
+ */
+export function recordToChecklist(record: Record<string, boolean>): ChecklistEntry[] {
+  return Object.entries(record).map(([key, complete]) => ({ key, complete }));
+}
+
+/**
+ * Builds a checklist from a record that still uses the legacy boolean fields
+ * (old JSON exports, CSV columns and operations queued before the upgrade).
+ */
+export function legacyChecklistFromRecord(record: Record<string, unknown>): ChecklistEntry[] {
+  return Object.entries(LEGACY_CHECKLIST_FIELDS)
+    .filter(([field]) => field in record)
+    .map(([field, key]) => ({ key, complete: record[field] === true }));
+}
+
+/**
+ * Sorts checklist definitions by their configured order
+ */
+export function sortChecklistDefinitions(
+  definitions: ChecklistItemDefinition[]
+): ChecklistItemDefinition[] {
+  return [...definitions].sort((a, b) => Number(a.order - b.order));
+}
+
+/**
+ * Returns the definitions to show for a case: every active item, plus retired
+ * items that are still marked complete on the case so history is not hidden.
+ */
+export function getVisibleChecklistDefinitions(
+  definitions: ChecklistItemDefinition[],
+  checklist: ChecklistEntry[]
+): ChecklistItemDefinition[] {
+  return sortChecklistDefinitions(definitions).filter(
+    (definition) => !definition.retired || isChecklistItemComplete(checklist, definition.key)
+  );
+}
+
+/**
+ * Looks up the display title for a checklist key, falling back to the key itself
+ * when definitions are not loaded (e.g. offline before they were cached).
+ */
+export function getChecklistItemTitle(
+  definitions: ChecklistItemDefinition[] | undefined,
+  key: string
+): string {
+  return definitions?.find((definition) => definition.key === key)?.title || key;
+}
@@ -0,0 +1,41 @@
+import type { CaseSummary } from '../backend';
+
+const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+const NANOSECONDS_PER_MILLISECOND = BigInt(1_000_000);
+
+/**
+ * Returns the start of the first of the last `weeks` weeks (Monday to Sunday,
+ * UTC) as a canister time, for the canister to count arrivals from
+ */
+export function getTrendStart(weeks: number, now = Date.now()): bigint {
+  const today = now - (now % MILLISECONDS_PER_DAY);
+  const daysSinceMonday = (new Date(today).getUTCDay() + 6) % 7;
+  const currentWeekStart = today - daysSinceMonday * MILLISECONDS_PER_DAY;
+  return BigInt(currentWeekStart - (weeks - 1) * 7 * MILLISECONDS_PER_DAY) * NANOSECONDS_PER_MILLISECOND;
+}
+
+/**
+ * Labels a week of the arrivals trend by its first day
+ */
+export function formatWeek(weekStart: bigint): string {
+  return new Date(Number(weekStart / NANOSECONDS_PER_MILLISECOND)).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Converts a canister duration into days; undefined when nothing was measured
+ */
+export function durationToDays(duration: bigint | undefined): number | undefined {
+  return duration === undefined ? undefined : Number(duration / NANOSECONDS_PER_MILLISECOND) / MILLISECONDS_PER_DAY;
+}
+
+/**
+ * Returns the number of days since the case arrived
+ */
+export function getDaysSinceArrival(caseSummary: Pick<CaseSummary, 'arrivalDate'>, now = Date.now()): number {
+  const arrivedAt = Number(caseSummary.arrivalDate / NANOSECONDS_PER_MILLISECOND);
+  return Math.max(0, Math.floor((now - arrivedAt) / MILLISECONDS_PER_DAY));
+}
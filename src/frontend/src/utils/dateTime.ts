@@ -46,3 +46,18 @@ export function timeToDateString(time: bigint): string {
   const date = new Date(milliseconds);
   return dateToString(date);
 }
+
+/**
+ * Converts a backend Time (bigint nanoseconds) to a human-readable date and time string
+ */
+export function formatDateTime(time: bigint): string {
+  const milliseconds = Number(time / BigInt(1_000_000));
+  const date = new Date(milliseconds);
+  return date.toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
@@ -1,4 +1,4 @@
-import type { Species, Sex } from '../backend';
+import type { Species, Sex, ContactMethod } from '../backend';
 
 export interface ParsedDemographics {
   mrn?: string;
@@ -9,6 +9,10 @@ export interface ParsedDemographics {
   breed?: string;
   sex?: Sex;
   arrivalDate?: string; // YYYY-MM-DD format
+  ownerName?: string;
+  ownerPhones?: string; // comma-separated
+  ownerEmail?: string;
+  ownerPreferredContact?: ContactMethod;
 }
 
 export interface ParseResult {
@@ -26,8 +30,19 @@ const FIELD_LABELS: Record<keyof ParsedDemographics, string> = {
   breed: 'Breed',
   sex: 'Sex',
   arrivalDate: 'Arrival Date',
+  ownerName: 'Owner Name',
+  ownerPhones: 'Owner Phone',
+  ownerEmail: 'Owner Email',
+  ownerPreferredContact: 'Preferred Contact',
 };
 
+// Only reported as not found when the pasted text has an owner block
+const OWNER_FIELDS: (keyof ParsedDemographics)[] = ['ownerName', 'ownerPhones', 'ownerEmail', 'ownerPreferredContact'];
+
+const PATIENT_FIELDS = (Object.keys(FIELD_LABELS) as (keyof ParsedDemographics)[]).filter(
+  (field) => !OWNER_FIELDS.includes(field)
+);
+
 export function getFieldLabel(field: string): string {
   return FIELD_LABELS[field as keyof ParsedDemographics] || field;
 }
@@ -39,7 +54,7 @@ export function parseDemographics(text: string): ParseResult {
   if (!text || text.trim().length === 0) {
     return {
       parsed: {},
-      notFound: Object.keys(FIELD_LABELS),
+      notFound: [...PATIENT_FIELDS],
       uncertain: [],
     };
   }
@@ -48,6 +63,14 @@ export function parseDemographics(text: string): ParseResult {
   const notFound: string[] = [];
   const uncertain: string[] = [];
 
+  // Parse the owner block separately so its name and phone numbers aren't
+  // mistaken for patient fields
+  const { ownerBlock, rest } = extractOwnerBlock(text);
+  if (ownerBlock !== null) {
+    parseOwnerBlock(ownerBlock, parsed, notFound);
+    text = rest;
+  }
+
   const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
   const fullText = text.toLowerCase();
 
@@ -165,6 +188,70 @@ export function parseDemographics(text: string): ParseResult {
   return { parsed, notFound, uncertain };
 }
 
+/**
+ * Split out an owner block: a line starting with "Owner" or "Client" and the
+ * lines after it up to the next blank line
+ */
+function extractOwnerBlock(text: string): { ownerBlock: string | null; rest: string } {
+  const lines = text.split('\n');
+  const start = lines.findIndex((line) => /^\s*(?:owner|client)\b/i.test(line));
+  if (start === -1) {
+    return { ownerBlock: null, rest: text };
+  }
+
+  let end = start + 1;
+  while (end < lines.length && lines[end].trim() !== '') {
+    end++;
+  }
+  return {
+    ownerBlock: lines.slice(start, end).join('\n'),
+    rest: [...lines.slice(0, start), ...lines.slice(end)].join('\n'),
+  };
+}
+
+function parseOwnerBlock(block: string, parsed: ParsedDemographics, notFound: string[]) {
+  const [header, ...body] = block.split('\n');
+
+  // Name on the header line ("Owner: Jane Smith") or on its own "Name:" line
+  const headerName = header.match(/^\s*(?:owner|client)(?:\s+name)?\s*[:-]\s*([^\d@,;]+?)\s*(?:[,;].*)?$/i);
+  const nameLine = body.join('\n').match(/^\s*name\s*[:-]\s*([^\d@\n]+?)\s*$/im);
+  const name = headerName?.[1] ?? nameLine?.[1];
+  if (name) {
+    parsed.ownerName = name.trim();
+  } else {
+    notFound.push('ownerName');
+  }
+
+  const emailMatch = block.match(/[^\s@:]+@[^\s@]+\.[^\s@]+/);
+  if (emailMatch) {
+    parsed.ownerEmail = emailMatch[0];
+  } else {
+    notFound.push('ownerEmail');
+  }
+
+  const withoutEmail = emailMatch ? block.replace(emailMatch[0], '') : block;
+  const phones = (withoutEmail.match(/\+?\(?\d[\d\s().-]{5,}\d(?:\s*x\d+)?/g) ?? []).map((phone) => phone.trim());
+  if (phones.length > 0) {
+    parsed.ownerPhones = phones.join(', ');
+  } else {
+    notFound.push('ownerPhones');
+  }
+
+  const preferredMatch = block.match(/prefer(?:s|red)?(?:\s+contact)?(?:\s+method)?\s*[:-]?\s*(phone|call|text|sms|e-?mail)/i);
+  if (preferredMatch) {
+    const method = preferredMatch[1].toLowerCase();
+    if (method === 'text' || method === 'sms') {
+      parsed.ownerPreferredContact = 'text' as ContactMethod;
+    } else if (method.includes('mail')) {
+      parsed.ownerPreferredContact = 'email' as ContactMethod;
+    } else {
+      parsed.ownerPreferredContact = 'phone' as ContactMethod;
+    }
+  } else {
+    notFound.push('ownerPreferredContact');
+  }
+}
+
 /**
  * Parse various date formats into YYYY-MM-DD
  */
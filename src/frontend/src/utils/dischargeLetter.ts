@@ -0,0 +1,187 @@
+import { Sex, Species } from '../backend';
+import type { ChecklistItemDefinition, Owner, Pdvm, SurgeryCase } from '../backend';
+import { getVisibleChecklistDefinitions, isChecklistItemComplete } from './checklist';
+import { dateToString, formatDate } from './dateTime';
+
+/**
+ * Placeholders a letter template can use, written as {{name}} in the template body.
+ * Must stay in sync with Validation.letterPlaceholders in the canister.
+ */
+export const LETTER_PLACEHOLDERS = {
+  patientName: 'Patient first and last name',
+  patientFirstName: 'Patient first name',
+  patientLastName: 'Patient last name',
+  mrn: 'Medical record number',
+  species: 'Species',
+  breed: 'Breed',
+  sex: 'Sex',
+  dateOfBirth: 'Date of birth',
+  arrivalDate: 'Arrival date',
+  ownerName: 'Owner name',
+  presentingComplaint: 'Presenting complaint',
+  notes: 'Case notes',
+  completedChecklist: 'Bulleted list of completed checklist items',
+  outstandingTodos: 'Bulleted list of open to-dos',
+  pdvmName: 'Referring veterinarian, or the clinic when no vet is on record',
+  pdvmClinic: 'Referring clinic',
+  today: "Today's date",
+} as const;
+
+export type LetterPlaceholder = keyof typeof LETTER_PLACEHOLDERS;
+
+export type LetterValues = Record<LetterPlaceholder, string>;
+
+/** Checklist items that should be done before the discharge summary goes out */
+export const LETTER_PREREQUISITE_KEYS = ['dischargeNotes', 'surgeryReport'];
+
+const SPECIES_LABELS: Record<Species, string> = {
+  [Species.canine]: 'Canine',
+  [Species.feline]: 'Feline',
+  [Species.other]: 'Other',
+};
+
+const SEX_LABELS: Record<Sex, string> = {
+  [Sex.male]: 'Male',
+  [Sex.female]: 'Female',
+  [Sex.maleNeutered]: 'Male neutered',
+  [Sex.femaleSpayed]: 'Female spayed',
+  [Sex.unknown_]: 'Unknown',
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+function bulletList(items: string[], emptyText: string): string {
+  return items.length > 0 ? items.map((item) => `• ${item}`).join('\n') : emptyText;
+}
+
+function isLetterPlaceholder(name: string): name is LetterPlaceholder {
+  return name in LETTER_PLACEHOLDERS;
+}
+
+/**
+ * Collects the text for every placeholder from a case and its linked records
+ */
+export function buildLetterValues(
+  caseRecord: SurgeryCase,
+  owner: Owner | null | undefined,
+  pdvm: Pdvm | null | undefined,
+  definitions: ChecklistItemDefinition[]
+): LetterValues {
+  const completedChecklist = getVisibleChecklistDefinitions(definitions, caseRecord.checklist)
+    .filter((definition) => isChecklistItemComplete(caseRecord.checklist, definition.key))
+    .map((definition) => definition.title);
+  const outstandingTodos = caseRecord.todos.filter((todo) => !todo.complete).map((todo) => todo.description);
+
+  return {
+    patientName: `${caseRecord.patientFirstName} ${caseRecord.patientLastName}`.trim(),
+    patientFirstName: caseRecord.patientFirstName,
+    patientLastName: caseRecord.patientLastName,
+    mrn: caseRecord.mrn,
+    species: SPECIES_LABELS[caseRecord.species],
+    breed: caseRecord.breed,
+    sex: SEX_LABELS[caseRecord.sex],
+    dateOfBirth: caseRecord.dateOfBirth,
+    arrivalDate: formatDate(caseRecord.arrivalDate),
+    ownerName: owner?.name ?? '',
+    presentingComplaint: caseRecord.presentingComplaint,
+    notes: caseRecord.notes,
+    completedChecklist: bulletList(completedChecklist, 'None'),
+    outstandingTodos: bulletList(outstandingTodos, 'None'),
+    pdvmName: pdvm ? pdvm.vetName || pdvm.clinicName : '',
+    pdvmClinic: pdvm?.clinicName ?? '',
+    today: formatDate(BigInt(Date.now()) * BigInt(1_000_000)),
+  };
+}
+
+/**
+ * Replaces every {{placeholder}} in a template body. Unknown placeholders are
+ * left as written so a typo is visible in the preview rather than silently dropped.
+ */
+export function renderLetterText(body: string, values: LetterValues): string {
+  return body.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+    isLetterPlaceholder(name) ? values[name] : match
+  );
+}
+
+/**
+ * Returns the placeholder names in a template body that the generator does not know
+ */
+export function findUnknownPlaceholders(body: string): string[] {
+  const names = Array.from(body.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]);
+  return Array.from(new Set(names.filter((name) => !isLetterPlaceholder(name))));
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Wraps rendered letter text in a standalone, print-ready HTML document.
+ * Blank lines start a new paragraph; single line breaks are kept.
+ */
+export function renderLetterHtml(title: string, text: string): string {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((paragraph) => `<p>${escapeHtml(paragraph.trim()).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: Georgia, 'Times New Roman', serif; font-size: 12pt; line-height: 1.5; color: #111; max-width: 7in; margin: 0.75in auto; }
+  p { margin: 0 0 1em; }
+  @page { margin: 0.75in; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+${paragraphs}
+</body>
+</html>`;
+}
+
+/**
+ * Builds a download filename such as "discharge-summary-12345-2026-10-19.html"
+ */
+export function getLetterFilename(templateName: string, mrn: string): string {
+  const slug = `${templateName}-${mrn}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'letter'}-${dateToString(new Date())}.html`;
+}
+
+export function downloadLetterHtml(filename: string, html: string): void {
+  const blob = new Blob([html], { type: 'text/html' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Opens the letter in a new window and shows the print dialog, where it can be
+ * printed or saved as a PDF. Returns false when the browser blocked the window.
+ */
+export function printLetterHtml(html: string): boolean {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+}
@@ -2,39 +2,28 @@
  * Detects and extracts information from IC stopped-canister errors (IC0508 / reject code 5).
  */
 
+import { getRejectDetails } from './apiResult';
+
+const STOPPED_CANISTER_ERROR_CODE = 'IC0508';
+
 export interface StoppedCanisterInfo {
   isStopped: boolean;
   canisterId?: string;
 }
 
 /**
- * Inspects an error message and detects if it indicates a stopped canister condition.
- * Extracts the canister ID if present.
+ * Inspects an agent error and detects if the replica rejected the call because
+ * the canister is stopped. Extracts the canister ID if present.
  */
-export function detectStoppedCanister(errorMessage: string): StoppedCanisterInfo {
-  if (!errorMessage) {
-    return { isStopped: false };
-  }
-
-  const lowerMessage = errorMessage.toLowerCase();
-  
-  // Check for stopped canister indicators
-  const isStopped = 
-    lowerMessage.includes('ic0508') ||
-    lowerMessage.includes('reject code: 5') ||
-    lowerMessage.includes('is stopped');
-
-  if (!isStopped) {
+export function detectStoppedCanister(error: unknown): StoppedCanisterInfo {
+  const details = getRejectDetails(error);
+  if (!details || details.errorCode !== STOPPED_CANISTER_ERROR_CODE) {
     return { isStopped: false };
   }
 
-  // Try to extract canister ID (format: xxxxx-xxxxx-xxxxx-xxxxx-xxx)
-  const canisterIdMatch = errorMessage.match(/([a-z0-9]{5}-[a-z0-9]{5}-[a-z0-9]{5}-[a-z0-9]{5}-[a-z0-9]{3})/i);
-  const canisterId = canisterIdMatch ? canisterIdMatch[1] : undefined;
-
   return {
     isStopped: true,
-    canisterId,
+    canisterId: details.canisterId,
   };
 }
 
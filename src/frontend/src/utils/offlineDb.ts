@@ -86,6 +86,29 @@ export async function getCaseListCache(principal: string): Promise<SurgeryCase[]
   return cache ? cache.cases : null;
 }
 
+/**
+ * Adds or replaces the given cases in the cached case list, keeping the rest.
+ * Lets each fetched page of the case list build up the offline cache.
+ */
+export async function mergeCaseListCache(principal: string, cases: SurgeryCase[]): Promise<void> {
+  const cached = (await getCaseListCache(principal)) ?? [];
+  const byId = new Map(cached.map((caseData) => [caseData.id.toString(), caseData]));
+  for (const caseData of cases) {
+    byId.set(caseData.id.toString(), caseData);
+  }
+  await saveCaseListCache(principal, Array.from(byId.values()));
+}
+
+/**
+ * Drops the given cases from the cached case list, e.g. once they are moved to the
+ * trash. Merging fetched pages never removes anything, so this has to be done here.
+ */
+export async function removeFromCaseListCache(principal: string, ids: bigint[]): Promise<void> {
+  const cached = await getCaseListCache(principal);
+  if (!cached) return;
+  await saveCaseListCache(principal, cached.filter((caseData) => !ids.includes(caseData.id)));
+}
+
 // Individual Case Operations
 export async function saveCaseCache(principal: string, caseData: SurgeryCase): Promise<void> {
   const db = await openDB();
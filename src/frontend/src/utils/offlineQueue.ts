@@ -1,4 +1,13 @@
-import type { QueuedOperation, OperationStatus } from '../types/offlineOps';
+import type {
+  QueuedOperation,
+  OperationStatus,
+  UpdateCaseOperation,
+  ToggleChecklistOperation,
+  ToggleTodoOperation,
+  EditTodoOperation,
+  ReorderTodosOperation,
+} from '../types/offlineOps';
+import type { SurgeryCase } from '../backend';
 
 const DB_NAME = 'VetCaseTrackerOfflineDB';
 const DB_VERSION = 1;
@@ -12,21 +21,322 @@ function openDB(): Promise<IDBDatabase> {
   });
 }
 
-export async function enqueueOperation(operation: Omit<QueuedOperation, 'id'>): Promise<number> {
+export function createIdempotencyKey(): string {
+  return crypto.randomUUID();
+}
+
+let lastTempId = 0;
+
+/**
+ * Offline-created cases and to-dos get negative ids until they sync. The
+ * canister only issues natural numbers, so the two can never collide.
+ */
+export function createTempId(): bigint {
+  lastTempId = Math.max(lastTempId + 1, Date.now());
+  return -BigInt(lastTempId);
+}
+
+export function isTempId(id: bigint): boolean {
+  return id < BigInt(0);
+}
+
+// Operations queued before remapping used unusable "temp-<time>" strings
+function getProducedTempId(op: QueuedOperation): bigint | undefined {
+  if ((op.type === 'createCase' || op.type === 'addTodo') && typeof op.tempId === 'bigint') {
+    return op.tempId;
+  }
+  return undefined;
+}
+
+/**
+ * Temporary ids an operation refers to, which must be replaced by server ids
+ * before it can be sent
+ */
+export function getTempDependencies(op: QueuedOperation): bigint[] {
+  const ids: bigint[] = [];
+  if (op.type !== 'createCase' && isTempId(op.caseId)) {
+    ids.push(op.caseId);
+  }
+  if ((op.type === 'toggleTodo' || op.type === 'editTodo' || op.type === 'deleteTodo') && isTempId(op.todoId)) {
+    ids.push(op.todoId);
+  }
+  if (op.type === 'reorderTodos') {
+    ids.push(...op.todoIds.filter(isTempId));
+  }
+  if (op.type === 'updateCase') {
+    ids.push(...op.todos.filter((todo) => isTempId(todo.id)).map((todo) => todo.id));
+  }
+  return ids;
+}
+
+/**
+ * Replaces temporary ids with server ids; returns the same object when nothing changed
+ */
+export function resolveTempIds(op: QueuedOperation, resolved: Map<string, bigint>): QueuedOperation {
+  const resolve = (id: bigint) => resolved.get(id.toString()) ?? id;
+  if (getTempDependencies(op).every((id) => !resolved.has(id.toString()))) {
+    return op;
+  }
+
+  switch (op.type) {
+    case 'createCase':
+      return op;
+    case 'updateCase':
+      return {
+        ...op,
+        caseId: resolve(op.caseId),
+        todos: op.todos.map((todo) => ({ ...todo, id: resolve(todo.id) })),
+      };
+    case 'toggleTodo':
+    case 'editTodo':
+    case 'deleteTodo':
+      return { ...op, caseId: resolve(op.caseId), todoId: resolve(op.todoId) };
+    case 'reorderTodos':
+      return { ...op, caseId: resolve(op.caseId), todoIds: op.todoIds.map(resolve) };
+    default:
+      return { ...op, caseId: resolve(op.caseId) };
+  }
+}
+
+/**
+ * Sorts operations into replay order: queue order, except that an operation
+ * creating a record always precedes the operations that refer to it
+ */
+export function orderOperations(ops: QueuedOperation[]): QueuedOperation[] {
+  const byQueueOrder = [...ops].sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+  const producers = new Map<string, QueuedOperation>();
+  for (const op of byQueueOrder) {
+    const tempId = getProducedTempId(op);
+    if (tempId !== undefined) {
+      producers.set(tempId.toString(), op);
+    }
+  }
+
+  const ordered: QueuedOperation[] = [];
+  const placed = new Set<QueuedOperation>();
+  const place = (op: QueuedOperation) => {
+    if (placed.has(op)) return;
+    placed.add(op);
+    for (const dependency of getTempDependencies(op)) {
+      const producer = producers.get(dependency.toString());
+      if (producer) {
+        place(producer);
+      }
+    }
+    ordered.push(op);
+  };
+  byQueueOrder.forEach(place);
+  return ordered;
+}
+
+interface CompactionPlan {
+  /** False when the new operation cancels out or is folded into a queued one */
+  add: boolean;
+  remove: number[];
+  replace: QueuedOperation[];
+}
+
+/**
+ * Decides how a new operation combines with what is already queued:
+ * - repeated toggles of the same item collapse into one carrying the latest
+ *   intended value
+ * - a later edit of a case replaces the queued edit's values, keeping the
+ *   version that edit was based on
+ * - a later edit of a to-do, or reorder of a case's to-dos, replaces the queued one
+ * - deleting a case or to-do drops the queued changes to it, and takes the
+ *   to-do out of queued reorders
+ * A queued operation may already have reached the canister before its response
+ * was lost, so merged operations take the newest idempotency key and creations
+ * are never dropped; the canister recognises a replayed creation by its key.
+ * Only pending operations are merged; failed ones wait for the user to resolve them.
+ */
+function planCompaction(queued: QueuedOperation[], incoming: QueuedOperation): CompactionPlan {
+  const plan: CompactionPlan = { add: true, remove: [], replace: [] };
+  const pending = queued.filter((op) => op.status === 'pending');
+  const last = <T extends QueuedOperation>(ops: T[]): T | undefined => ops[ops.length - 1];
+  const removeAll = (ops: QueuedOperation[]) => {
+    plan.remove.push(...ops.filter((op) => op.id !== undefined).map((op) => op.id!));
+  };
+
+  switch (incoming.type) {
+    case 'toggleChecklist': {
+      const previous = last(
+        pending.filter(
+          (op): op is ToggleChecklistOperation =>
+            op.type === 'toggleChecklist' && op.caseId === incoming.caseId && op.field === incoming.field
+        )
+      );
+      if (previous && incoming.complete !== undefined) {
+        plan.replace.push({ ...previous, complete: incoming.complete, idempotencyKey: incoming.idempotencyKey });
+        plan.add = false;
+      } else if (previous && previous.complete === undefined) {
+        // Toggles queued without an intended value cancel out in pairs
+        removeAll([previous]);
+        plan.add = false;
+      }
+      break;
+    }
+    case 'toggleTodo': {
+      const previous = last(
+        pending.filter(
+          (op): op is ToggleTodoOperation =>
+            op.type === 'toggleTodo' && op.caseId === incoming.caseId && op.todoId === incoming.todoId
+        )
+      );
+      if (previous && incoming.complete !== undefined) {
+        plan.replace.push({ ...previous, complete: incoming.complete, idempotencyKey: incoming.idempotencyKey });
+        plan.add = false;
+      } else if (previous && previous.complete === undefined) {
+        removeAll([previous]);
+        plan.add = false;
+      }
+      break;
+    }
+    case 'updateCase': {
+      const previous = last(
+        pending.filter(
+          (op): op is UpdateCaseOperation => op.type === 'updateCase' && op.caseId === incoming.caseId
+        )
+      );
+      if (previous) {
+        plan.replace.push({
+          ...previous,
+          data: incoming.data,
+          todos: incoming.todos,
+          idempotencyKey: incoming.idempotencyKey,
+        });
+        plan.add = false;
+      }
+      break;
+    }
+    case 'editTodo': {
+      const previous = last(
+        pending.filter(
+          (op): op is EditTodoOperation =>
+            op.type === 'editTodo' && op.caseId === incoming.caseId && op.todoId === incoming.todoId
+        )
+      );
+      if (previous) {
+        plan.replace.push({ ...incoming, id: previous.id });
+        plan.add = false;
+      }
+      break;
+    }
+    case 'reorderTodos': {
+      const previous = last(
+        pending.filter(
+          (op): op is ReorderTodosOperation => op.type === 'reorderTodos' && op.caseId === incoming.caseId
+        )
+      );
+      if (previous) {
+        plan.replace.push({ ...previous, todoIds: incoming.todoIds, idempotencyKey: incoming.idempotencyKey });
+        plan.add = false;
+      }
+      break;
+    }
+    case 'deleteCase': {
+      removeAll(
+        queued.filter(
+          (op) => op.type !== 'createCase' && op.type !== 'deleteCase' && op.caseId === incoming.caseId
+        )
+      );
+      break;
+    }
+    case 'deleteTodo': {
+      removeAll(
+        queued.filter(
+          (op) => (op.type === 'toggleTodo' || op.type === 'editTodo') && op.todoId === incoming.todoId
+        )
+      );
+      for (const op of pending) {
+        if (op.type === 'reorderTodos' && op.todoIds.includes(incoming.todoId)) {
+          plan.replace.push({ ...op, todoIds: op.todoIds.filter((id) => id !== incoming.todoId) });
+        }
+      }
+      break;
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Queues an operation, compacting it against the operations already queued.
+ * Returns the new queue id, or null if nothing needed to be added.
+ */
+export async function enqueueOperation(operation: Omit<QueuedOperation, 'id'>): Promise<number | null> {
   const db = await openDB();
   const tx = db.transaction(QUEUE_STORE, 'readwrite');
   const store = tx.objectStore(QUEUE_STORE);
 
-  const id = await new Promise<number>((resolve, reject) => {
-    const request = store.add(operation);
-    request.onsuccess = () => resolve(request.result as number);
+  const queued = await new Promise<QueuedOperation[]>((resolve, reject) => {
+    const request = store.index('principal').getAll(operation.principal);
+    request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
+  const plan = planCompaction(
+    queued.filter((op) => op.status === 'pending' || op.status === 'failed'),
+    operation as QueuedOperation
+  );
+
+  for (const id of plan.remove) {
+    await new Promise<void>((resolve, reject) => {
+      const request = store.delete(id);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+  for (const op of plan.replace) {
+    await new Promise<void>((resolve, reject) => {
+      const request = store.put(op);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  let id: number | null = null;
+  if (plan.add) {
+    id = await new Promise<number>((resolve, reject) => {
+      const request = store.add(operation);
+      request.onsuccess = () => resolve(request.result as number);
+      request.onerror = () => reject(request.error);
+    });
+  }
 
   db.close();
   return id;
 }
 
+/**
+ * Rewrites queued operations that refer to a temporary id once the record has
+ * been created on the server
+ */
+export async function remapTempId(principal: string, tempId: bigint, serverId: bigint): Promise<void> {
+  const resolved = new Map([[tempId.toString(), serverId]]);
+  const db = await openDB();
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  const store = tx.objectStore(QUEUE_STORE);
+
+  const operations = await new Promise<QueuedOperation[]>((resolve, reject) => {
+    const request = store.index('principal').getAll(principal);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  for (const op of operations) {
+    const remapped = resolveTempIds(op, resolved);
+    if (remapped !== op) {
+      await new Promise<void>((resolve, reject) => {
+        const request = store.put(remapped);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+    }
+  }
+
+  db.close();
+}
+
 export async function getPendingOperations(principal: string): Promise<QueuedOperation[]> {
   const db = await openDB();
   const tx = db.transaction(QUEUE_STORE, 'readonly');
@@ -61,7 +371,8 @@ export async function getAllPendingOperations(): Promise<QueuedOperation[]> {
 export async function updateOperationStatus(
   id: number,
   status: OperationStatus,
-  error?: string
+  error?: string,
+  conflict?: SurgeryCase
 ): Promise<void> {
   const db = await openDB();
   const tx = db.transaction(QUEUE_STORE, 'readwrite');
@@ -78,6 +389,8 @@ export async function updateOperationStatus(
     if (error) {
       operation.lastError = error;
     }
+    // A later failure for another reason makes the captured server copy stale
+    operation.conflict = conflict;
 
     await new Promise<void>((resolve, reject) => {
       const request = store.put(operation);
@@ -89,6 +402,39 @@ export async function updateOperationStatus(
   db.close();
 }
 
+/**
+ * Puts a failed operation back in the queue as pending, applying the changes
+ * chosen while resolving it
+ */
+export async function requeueOperation(
+  id: number,
+  changes: Partial<QueuedOperation> = {}
+): Promise<void> {
+  const db = await openDB();
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  const store = tx.objectStore(QUEUE_STORE);
+
+  const operation = await new Promise<QueuedOperation>((resolve, reject) => {
+    const request = store.get(id);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  if (operation) {
+    const updated = { ...operation, ...changes, status: 'pending' } as QueuedOperation;
+    delete updated.lastError;
+    delete updated.conflict;
+
+    await new Promise<void>((resolve, reject) => {
+      const request = store.put(updated);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  db.close();
+}
+
 export async function removeOperation(id: number): Promise<void> {
   const db = await openDB();
   const tx = db.transaction(QUEUE_STORE, 'readwrite');
@@ -121,15 +467,3 @@ export async function clearAllOperations(principal: string): Promise<void> {
 
   db.close();
 }
-
-export function isNetworkError(error: any): boolean {
-  if (!error) return false;
-  const message = error.message || error.toString();
-  return (
-    message.includes('network') ||
-    message.includes('fetch') ||
-    message.includes('offline') ||
-    message.includes('Failed to fetch') ||
-    message.includes('NetworkError')
-  );
-}
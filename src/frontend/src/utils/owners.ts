@@ -0,0 +1,21 @@
+import { ContactMethod } from '../backend';
+
+export const CONTACT_METHOD_LABELS: Record<ContactMethod, string> = {
+  [ContactMethod.phone]: 'Phone call',
+  [ContactMethod.text]: 'Text message',
+  [ContactMethod.email]: 'Email',
+};
+
+/**
+ * Splits a comma- or semicolon-separated list of phone numbers
+ */
+export function parsePhoneList(value: string): string[] {
+  return value
+    .split(/[,;]/)
+    .map((phone) => phone.trim())
+    .filter((phone) => phone.length > 0);
+}
+
+export function formatPhoneList(phones: string[]): string {
+  return phones.join(', ');
+}
@@ -0,0 +1,19 @@
+import { NotificationMethod } from '../backend';
+import type { Pdvm } from '../backend';
+
+/** Checklist item recording that the referring vet was told about the case */
+export const PDVM_NOTIFIED_KEY = 'pdvmNotified';
+
+export const NOTIFICATION_METHOD_LABELS: Record<NotificationMethod, string> = {
+  [NotificationMethod.phone]: 'Phone call',
+  [NotificationMethod.email]: 'Email',
+  [NotificationMethod.fax]: 'Fax',
+  [NotificationMethod.text]: 'Text message',
+};
+
+/**
+ * Returns "Dr. Name, Clinic" when a vet is on record, otherwise the clinic name
+ */
+export function formatPdvmName(pdvm: Pdvm): string {
+  return pdvm.vetName ? `${pdvm.vetName}, ${pdvm.clinicName}` : pdvm.clinicName;
+}
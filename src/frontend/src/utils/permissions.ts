@@ -0,0 +1,23 @@
+import { Permission } from '../backend';
+
+/**
+ * Permissions in the order they are shown, with what each one allows
+ */
+export const PERMISSIONS: { permission: Permission; label: string; description: string }[] = [
+  { permission: Permission.viewCases, label: 'View', description: 'See cases, patients, owners and referrers' },
+  {
+    permission: Permission.editDemographics,
+    label: 'Edit demographics',
+    description: 'Create cases and edit patient, owner, referrer and case details',
+  },
+  { permission: Permission.toggleChecklist, label: 'Toggle checklist', description: 'Tick off checklist items' },
+  { permission: Permission.manageTodos, label: 'Manage to-dos', description: 'Add, edit, complete and remove to-dos' },
+  { permission: Permission.importCases, label: 'Import', description: 'Import cases from JSON or CSV files' },
+  { permission: Permission.exportCases, label: 'Export', description: 'Download all cases' },
+  { permission: Permission.deleteCases, label: 'Delete', description: 'Move cases to the trash and restore them' },
+  { permission: Permission.manageUsers, label: 'Manage users', description: 'Manage roles and unit membership' },
+];
+
+export const PERMISSION_LABELS = Object.fromEntries(
+  PERMISSIONS.map(({ permission, label }) => [permission, label])
+) as Record<Permission, string>;
@@ -0,0 +1,8 @@
+import { StaffTitle } from '../backend';
+
+export const STAFF_TITLE_LABELS: Record<StaffTitle, string> = {
+  [StaffTitle.dvm]: 'DVM',
+  [StaffTitle.resident]: 'Resident',
+  [StaffTitle.technician]: 'Technician',
+  [StaffTitle.student]: 'Student',
+};
@@ -1,3 +1,6 @@
+import { getRejectDetails, isCanisterError, isNetworkError } from './apiResult';
+import { detectStoppedCanister, getStoppedCanisterExplanation } from './icStoppedCanisterError';
+
 /**
  * Converts unknown thrown values (Error, string, objects) into a safe English string
  * for displaying errors in the UI.
@@ -7,6 +10,23 @@ export function safeErrorMessage(error: unknown): string {
     return 'Unknown error occurred';
   }
 
+  // Structured canister failures already carry a message for their variant
+  if (isCanisterError(error)) {
+    return error.message;
+  }
+
+  if (isNetworkError(error)) {
+    return 'Unable to reach the network. Check your connection and try again.';
+  }
+
+  const stopped = detectStoppedCanister(error);
+  if (stopped.isStopped) {
+    return getStoppedCanisterExplanation(stopped);
+  }
+  if (getRejectDetails(error)) {
+    return 'The backend rejected the request unexpectedly. Please try again later.';
+  }
+
   // Handle Error objects
   if (error instanceof Error) {
     return error.message || 'Unknown error occurred';
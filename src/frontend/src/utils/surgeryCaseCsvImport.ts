@@ -1,5 +1,8 @@
-import type { SurgeryCase, Species, Sex, ToDoItem } from '../backend';
-import { Species as SpeciesEnum, Sex as SexEnum } from '../backend';
+import type { SurgeryCase, Species, Sex, ToDoItem, ChecklistEntry } from '../backend';
+import { CaseStatus, Species as SpeciesEnum, Sex as SexEnum } from '../backend';
+import { parseCaseStatus } from './caseStatus';
+import { LEGACY_CHECKLIST_FIELDS, setChecklistItem } from './checklist';
+import { legacyTodo } from './todos';
 
 /**
  * CSV Import Schema Documentation:
@@ -16,7 +19,8 @@ import { Species as SpeciesEnum, Sex as SexEnum } from '../backend';
  * - sex: male, female, male neutered (or MN), female spayed (or FS), or unknown (case-insensitive)
  * - presentingComplaint: Presenting complaint (text)
  * 
- * Optional boolean columns (case-insensitive, accepts: true/false, yes/no, 1/0, checked/unchecked):
+ * Optional legacy checklist columns (case-insensitive, accepts: true/false, yes/no, 1/0, checked/unchecked),
+ * mapped to the built-in checklist items:
  * - dischargeNotesComplete
  * - pdvmNotified
  * - labsComplete
@@ -25,8 +29,15 @@ import { Species as SpeciesEnum, Sex as SexEnum } from '../backend';
  * - imagingComplete
  * - cultureComplete
  * 
+ * Optional checklist column:
+ * - checklist: Semicolon-separated list of checklist items in format "key:complete"
+ *   Example: "labs:true;histo:false;dentalChart:true"
+ *   Entries here override the legacy columns for the same key
+ * 
  * Optional text columns:
  * - notes: Case notes (plain text)
+ * - status: admitted, in surgery, recovering, discharged, awaiting results or closed
+ *   (case-insensitive); cases without one are admitted
  * 
  * Optional todos column:
  * - todos: Semicolon-separated list of to-do items in format "id:description:complete"
@@ -201,20 +212,42 @@ function parseTodos(value: string): ToDoItem[] {
       throw new Error(`Invalid todo ID: "${parts[0]}". Must be a number.`);
     }
     
-    todos.push({
-      id: BigInt(id),
-      description: parts[1].trim(),
-      complete: parseBoolean(parts[2]),
-    });
+    todos.push(legacyTodo(BigInt(id), parts[1].trim(), parseBoolean(parts[2])));
   }
   
   return todos;
 }
 
 /**
- * Parse CSV text into SurgeryCase array
+ * Parse checklist items from semicolon-separated format
+ * Format: "key:complete;key:complete"
+ */
+function parseChecklist(value: string): ChecklistEntry[] {
+  const entries: ChecklistEntry[] = [];
+  const items = value.split(';');
+
+  for (const item of items) {
+    const trimmed = item.trim();
+    if (!trimmed) continue;
+
+    const parts = trimmed.split(':');
+    if (parts.length !== 2 || !parts[0].trim()) {
+      throw new Error(`Invalid checklist format: "${item}". Expected format: "key:complete"`);
+    }
+
+    entries.push({
+      key: parts[0].trim(),
+      complete: parseBoolean(parts[1]),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Parse CSV text into SurgeryCase array, filing every case under the given unit
  */
-export function parseCsvToSurgeryCases(csvText: string): SurgeryCase[] {
+export function parseCsvToSurgeryCases(csvText: string, unitId: bigint): SurgeryCase[] {
   const lines = csvText.split('\n').filter(line => line.trim());
   
   if (lines.length === 0) {
@@ -374,17 +407,35 @@ export function parseCsvToSurgeryCases(csvText: string): SurgeryCase[] {
         continue;
       }
       
-      // Parse optional boolean fields
-      const dischargeNotesComplete = parseBoolean(getColumn(row, 'dischargeNotesComplete') || 'false');
-      const pdvmNotified = parseBoolean(getColumn(row, 'pdvmNotified') || 'false');
-      const labsComplete = parseBoolean(getColumn(row, 'labsComplete') || 'false');
-      const histoComplete = parseBoolean(getColumn(row, 'histoComplete') || 'false');
-      const surgeryReportComplete = parseBoolean(getColumn(row, 'surgeryReportComplete') || 'false');
-      const imagingComplete = parseBoolean(getColumn(row, 'imagingComplete') || 'false');
-      const cultureComplete = parseBoolean(getColumn(row, 'cultureComplete') || 'false');
+      // Parse optional checklist: legacy boolean columns first, then the checklist column
+      let checklist: ChecklistEntry[] = [];
+      for (const [column, key] of Object.entries(LEGACY_CHECKLIST_FIELDS)) {
+        const value = getColumn(row, column);
+        if (value) {
+          checklist = setChecklistItem(checklist, key, parseBoolean(value));
+        }
+      }
+      const checklistStr = getColumn(row, 'checklist');
+      if (checklistStr) {
+        try {
+          for (const entry of parseChecklist(checklistStr)) {
+            checklist = setChecklistItem(checklist, entry.key, entry.complete);
+          }
+        } catch (error: any) {
+          errors.push({ row: lineNumber, column: 'checklist', message: error.message });
+          continue;
+        }
+      }
       
       // Parse optional notes field
       const notes = getColumn(row, 'notes') || '';
+
+      const statusStr = getColumn(row, 'status');
+      const status = statusStr ? parseCaseStatus(statusStr) : CaseStatus.admitted;
+      if (!status) {
+        errors.push({ row: lineNumber, column: 'status', message: `Invalid status value: "${statusStr}"` });
+        continue;
+      }
       
       // Parse todos
       let todos: ToDoItem[] = [];
@@ -401,6 +452,7 @@ export function parseCsvToSurgeryCases(csvText: string): SurgeryCase[] {
       // Create case object
       cases.push({
         id: BigInt(id),
+        unitId,
         mrn,
         patientFirstName,
         patientLastName,
@@ -410,15 +462,12 @@ export function parseCsvToSurgeryCases(csvText: string): SurgeryCase[] {
         breed,
         sex,
         presentingComplaint,
-        dischargeNotesComplete,
-        pdvmNotified,
-        labsComplete,
-        histoComplete,
-        surgeryReportComplete,
-        imagingComplete,
-        cultureComplete,
+        checklist,
         notes,
         todos,
+        attachments: [],
+        status,
+        version: BigInt(0),
       });
       
     } catch (error: any) {
@@ -0,0 +1,137 @@
+import { Principal } from '@icp-sdk/core/principal';
+import { TodoPriority } from '../backend';
+import type { AssignedTodo, Assignee, ToDoItem } from '../backend';
+import { dateStringToTime, getTodayDateString } from './dateTime';
+
+export const TODO_PRIORITY_LABELS: Record<TodoPriority, string> = {
+  [TodoPriority.low]: 'Low',
+  [TodoPriority.normal]: 'Normal',
+  [TodoPriority.high]: 'High',
+};
+
+const PRIORITY_RANK: Record<TodoPriority, number> = {
+  [TodoPriority.high]: 0,
+  [TodoPriority.normal]: 1,
+  [TodoPriority.low]: 2,
+};
+
+export type TodoSortKey = 'manual' | 'added' | 'dueDate' | 'priority';
+
+export const TODO_SORT_LABELS: Record<TodoSortKey, string> = {
+  manual: 'Custom order',
+  added: 'Date added',
+  dueDate: 'Due date',
+  priority: 'Priority',
+};
+
+/**
+ * Builds a to-do from imported files that only record its description and status
+ */
+export function legacyTodo(id: bigint, description: string, complete: boolean): ToDoItem {
+  return { id, description, complete, priority: TodoPriority.normal };
+}
+
+/**
+ * Returns the principal as text. Cases loaded from the offline cache hold plain
+ * objects instead of Principal instances, so they are rebuilt first.
+ */
+export function principalToText(principal: Principal): string {
+  return Principal.from(principal).toText();
+}
+
+function findAssignee(principal: Principal, assignees: Assignee[]): Assignee | undefined {
+  const text = principalToText(principal);
+  return assignees.find((assignee) => principalToText(assignee.principal) === text);
+}
+
+/**
+ * Returns the assignee's profile name and credentials, or a shortened principal when they have no profile
+ */
+export function formatAssignee(principal: Principal, assignees: Assignee[]): string {
+  const assignee = findAssignee(principal, assignees);
+  if (!assignee?.name) {
+    return `${principalToText(principal).slice(0, 8)}...`;
+  }
+  return assignee.credentials ? `${assignee.name}, ${assignee.credentials}` : assignee.name;
+}
+
+/**
+ * Returns the assignee's preferred initials, falling back to the first letters of their name
+ */
+export function getAssigneeInitials(principal: Principal, assignees: Assignee[]): string {
+  const assignee = findAssignee(principal, assignees);
+  if (assignee?.initials) {
+    return assignee.initials;
+  }
+  const words = (assignee?.name ?? '').split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return principalToText(principal).slice(0, 2).toUpperCase();
+  }
+  return words
+    .slice(0, 3)
+    .map((word) => word[0].toUpperCase())
+    .join('');
+}
+
+/**
+ * Due dates are whole days, so a to-do is overdue once the day after it is due begins
+ */
+export function isTodoOverdue(todo: ToDoItem, today = getTodayDateString()): boolean {
+  return !todo.complete && todo.dueDate !== undefined && todo.dueDate < dateStringToTime(today);
+}
+
+export function isTodoDueToday(todo: ToDoItem, today = getTodayDateString()): boolean {
+  return !todo.complete && todo.dueDate === dateStringToTime(today);
+}
+
+function compareDueDates(a: ToDoItem, b: ToDoItem): number {
+  if (a.dueDate === b.dueDate) return 0;
+  // Undated to-dos go last
+  if (a.dueDate === undefined) return 1;
+  if (b.dueDate === undefined) return -1;
+  return a.dueDate < b.dueDate ? -1 : 1;
+}
+
+/**
+ * Sorts to-dos with open items first, then by the chosen key. Ids increase as
+ * to-dos are added, so they double as the order they were added in. The custom
+ * order is the case's own order, as arranged with reorderTodos, and is kept as is.
+ */
+export function sortTodos(todos: ToDoItem[], sortKey: TodoSortKey): ToDoItem[] {
+  if (sortKey === 'manual') return todos;
+  return [...todos].sort((a, b) => {
+    if (a.complete !== b.complete) return a.complete ? 1 : -1;
+    switch (sortKey) {
+      case 'dueDate':
+        return compareDueDates(a, b) || Number(a.id - b.id);
+      case 'priority':
+        return PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || compareDueDates(a, b);
+      case 'added':
+        return Number(a.id - b.id);
+    }
+  });
+}
+
+/**
+ * Moves a to-do to the position of another, returning the new order of ids
+ */
+export function moveTodo(todos: ToDoItem[], fromId: bigint, toId: bigint): bigint[] {
+  const ids = todos.map((todo) => todo.id);
+  const from = ids.indexOf(fromId);
+  const to = ids.indexOf(toId);
+  if (from === -1 || to === -1) return ids;
+  ids.splice(to, 0, ...ids.splice(from, 1));
+  return ids;
+}
+
+/**
+ * Orders assigned to-dos with open ones first, then soonest due and highest priority
+ */
+export function sortAssignedTodos(assigned: AssignedTodo[]): AssignedTodo[] {
+  return [...assigned].sort(
+      (a, b) =>
+        Number(a.todo.complete) - Number(b.todo.complete) ||
+        compareDueDates(a.todo, b.todo) ||
+        PRIORITY_RANK[a.todo.priority] - PRIORITY_RANK[b.todo.priority]
+    );
+}